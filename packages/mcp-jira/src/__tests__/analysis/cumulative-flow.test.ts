@@ -0,0 +1,200 @@
+/**
+ * Tests for cumulative flow, WIP aging and the devflow_cumulative_flow tool.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  analyzeWipAging,
+  buildCumulativeFlow,
+  buildStatusTimeline,
+  formatCumulativeFlowChart,
+  type StatusCategory,
+} from "../../analysis/flow/index.js";
+import { executeCumulativeFlow } from "../../tools/cumulative-flow.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import type { JiraChangelogEntry, JiraIssue, JiraStatus } from "../../domain/types.js";
+
+const categories = new Map<string, StatusCategory>([
+  ["to do", "new"],
+  ["in progress", "indeterminate"],
+  ["done", "done"],
+]);
+
+const status = (name: string): JiraStatus => ({
+  id: name,
+  name,
+  categoryKey: categories.get(name.toLowerCase()) ?? "indeterminate",
+});
+
+const issue = (key: string, created: string, current: string): JiraIssue => ({
+  id: key,
+  key,
+  self: "",
+  summary: key,
+  status: status(current),
+  issueType: { id: "1", name: "Story", subtask: false },
+  project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+  created: `2026-01-${created}T00:00:00.000Z`,
+  updated: `2026-01-${created}T00:00:00.000Z`,
+  labels: [],
+  components: [],
+});
+
+/**
+ * Changelog with one status change per [date, from, to] step.
+ */
+const changelog = (...steps: Array<[string, string, string]>): JiraChangelogEntry[] =>
+  steps.map(([date, from, to], i) => ({
+    id: String(i),
+    author: { accountId: "carol", displayName: "Carol", active: true },
+    created: `2026-01-${date}T00:00:00.000Z`,
+    items: [{ field: "status", fieldtype: "jira", fromString: from, toString: to }],
+  }));
+
+const histories: Record<string, { issue: JiraIssue; changelog: JiraChangelogEntry[] }> = {
+  "PROJ-1": {
+    issue: issue("PROJ-1", "01", "Done"),
+    changelog: changelog(["03", "To Do", "In Progress"], ["05", "In Progress", "Done"]),
+  },
+  "PROJ-2": {
+    issue: issue("PROJ-2", "02", "Done"),
+    changelog: changelog(["04", "To Do", "In Progress"], ["08", "In Progress", "Done"]),
+  },
+  "PROJ-3": {
+    issue: issue("PROJ-3", "03", "In Progress"),
+    changelog: changelog(["06", "To Do", "In Progress"]),
+  },
+  "PROJ-4": {
+    issue: issue("PROJ-4", "05", "To Do"),
+    changelog: [],
+  },
+  "PROJ-5": {
+    issue: issue("PROJ-5", "01", "In Progress"),
+    changelog: changelog(["09", "To Do", "In Progress"]),
+  },
+};
+
+const timelines = Object.values(histories).map(({ issue, changelog }) =>
+  buildStatusTimeline(issue, changelog, categories)
+);
+
+const now = new Date("2026-01-10T00:00:00.000Z");
+
+describe("cumulative flow", () => {
+  const flow = buildCumulativeFlow(timelines, "2026-01-01", "2026-01-05", now);
+
+  it("should count issues per status category at the end of each day", () => {
+    expect(flow.days.map((day) => [day.date, day.new, day.indeterminate, day.done])).toEqual([
+      ["2026-01-01", 2, 0, 0],
+      ["2026-01-02", 3, 0, 0],
+      ["2026-01-03", 3, 1, 0],
+      ["2026-01-04", 2, 2, 0],
+      ["2026-01-05", 3, 1, 1],
+    ]);
+  });
+
+  it("should summarize WIP, throughput and arrivals", () => {
+    expect(flow).toMatchObject({ averageWip: 0.8, throughputPerDay: 0.2, arrivalsPerDay: 1 });
+  });
+
+  it("should draw one stacked bar per day", () => {
+    const chart = formatCumulativeFlowChart(flow, 10);
+
+    expect(chart).toContain("2026-01-05 |##==......|    1    1      3");
+    expect(chart).toContain("2026-01-01 |....      |    0    0      2");
+  });
+
+  it("should sample long ranges and keep the last day", () => {
+    const long = buildCumulativeFlow(timelines, "2025-11-01", "2026-01-09", now);
+    const rows = formatCumulativeFlowChart(long)
+      .split("\n")
+      .filter((line) => /^\d{4}-/.test(line));
+
+    expect(long.days).toHaveLength(70);
+    expect(rows.length).toBeLessThanOrEqual(31);
+    expect(rows[rows.length - 1]).toMatch(/^2026-01-09/);
+  });
+});
+
+describe("WIP aging", () => {
+  it("should rate in-progress items against cycle-time percentiles", () => {
+    const aging = analyzeWipAging(
+      timelines,
+      { count: 2, mean: 3, min: 2, max: 4, p50: 3, p70: 3.4, p85: 3.7, p95: 3.9 },
+      now
+    );
+
+    expect(aging.items.map((item) => [item.issueKey, item.ageDays, item.risk])).toEqual([
+      ["PROJ-3", 4, "critical"],
+      ["PROJ-5", 1, "on-track"],
+    ]);
+  });
+
+  it("should leave items unrated without completed issues", () => {
+    const aging = analyzeWipAging(timelines, undefined, now);
+
+    expect(aging.items[0]?.risk).toBeUndefined();
+  });
+});
+
+describe("devflow_cumulative_flow", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createMockClient = () => ({
+    searchJql: vi.fn().mockResolvedValue({
+      issues: Object.values(histories).map((h) => h.issue),
+      isLast: true,
+    }),
+    getSprintIssues: vi.fn(),
+    getProjectStatuses: vi.fn().mockResolvedValue([]),
+    getIssueChangelog: vi.fn((key: string) => {
+      const entries = histories[key]?.changelog ?? [];
+      return Promise.resolve({ changelog: entries, startAt: 0, maxResults: 100, total: entries.length });
+    }),
+  });
+
+  it("should report cumulative flow and WIP aging as markdown", async () => {
+    const client = createMockClient();
+
+    const result = await executeCumulativeFlow(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      from: "2026-01-01",
+      to: "2026-01-05",
+    });
+    const text = result.content[0]?.text ?? "";
+
+    expect(client.searchJql.mock.calls[0]?.[0]).toContain('resolved >= "2026-01-01"');
+    expect(text).toContain("## Cumulative Flow (2026-01-01 to 2026-01-05)");
+    expect(text).toContain("| PROJ-3 | Story | In Progress | 4 | 4 | Critical |");
+  });
+
+  it("should return JSON for dashboards over the last 30 days by default", async () => {
+    const client = createMockClient();
+
+    const result = await executeCumulativeFlow(client as unknown as JiraClient, {
+      jql: "project = PROJ",
+      format: "json",
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(parsed.cumulativeFlow.from).toBe("2025-12-12");
+    expect(parsed.cumulativeFlow.days).toHaveLength(30);
+    expect(parsed.wipAging.cycleTimeDays.p50).toBe(3);
+  });
+
+  it("should require exactly one scope", async () => {
+    const client = createMockClient();
+
+    const result = await executeCumulativeFlow(client as unknown as JiraClient, {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Provide one of projectKey, jql or sprintId");
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Tests for the deployment tracker and its durable ledger.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync, readFileSync, appendFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  recordDeployment,
+  getIssueDeployments,
+  getDeploymentHealth,
+  configureDeploymentTracker,
+  compactDeploymentLedger,
+  exportDeploymentLedger,
+  importDeploymentLedger,
+  getDeploymentLedgerInfo,
+} from "../../analysis/cicd/deployment-tracker.js";
+import {
+  createJsonlLedger,
+  createMemoryLedger,
+  applyRetention,
+  DEPLOYMENT_LEDGER_SCHEMA_VERSION,
+} from "../../analysis/cicd/deployment-ledger.js";
+import type { DeploymentInfo, DeploymentLedgerEntry } from "../../analysis/cicd/types.js";
+
+const createDeployment = (
+  id: string,
+  environment: DeploymentInfo["environment"],
+  deployedAt: string,
+  status: DeploymentInfo["status"] = "success"
+): DeploymentInfo => ({
+  deploymentId: id,
+  environment,
+  status,
+  deployedAt,
+  version: "1.0.0",
+});
+
+const createEntry = (deployment: DeploymentInfo, issueKeys: string[]): DeploymentLedgerEntry => ({
+  schemaVersion: DEPLOYMENT_LEDGER_SCHEMA_VERSION,
+  recordedAt: deployment.deployedAt,
+  issueKeys,
+  deployment,
+});
+
+describe("deployment tracker", () => {
+  let dataDir: string;
+  let ledgerPath: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), "mcp-jira-ledger-"));
+    ledgerPath = join(dataDir, "deployments.jsonl");
+    configureDeploymentTracker({ ledger: createJsonlLedger(ledgerPath), retention: {} });
+  });
+
+  afterEach(() => {
+    configureDeploymentTracker({ ledger: createMemoryLedger(), retention: {} });
+    rmSync(dataDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe("ledger replay", () => {
+    it("should replay recorded deployments after a restart", () => {
+      const now = new Date().toISOString();
+      const result = recordDeployment(["PROJ-1", "PROJ-2"], createDeployment("d1", "staging", now));
+      expect(result.persisted).toBe(true);
+
+      // Simulate a restart with a fresh ledger on the same file
+      configureDeploymentTracker({ ledger: createJsonlLedger(ledgerPath) });
+
+      expect(getIssueDeployments("PROJ-1")).toHaveLength(1);
+      expect(getIssueDeployments("PROJ-2")[0]?.deployment.environment).toBe("staging");
+      expect(getDeploymentHealth().staging.status).toBe("success");
+    });
+
+    it("should append one JSON line per deployment", () => {
+      const now = new Date().toISOString();
+      recordDeployment(["PROJ-1"], createDeployment("d1", "qa", now));
+      recordDeployment(["PROJ-1"], createDeployment("d2", "staging", now));
+
+      const lines = readFileSync(ledgerPath, "utf-8").trim().split("\n");
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1] ?? "{}").deployment.deploymentId).toBe("d2");
+    });
+
+    it("should skip a torn final line and keep it on disk", () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const now = new Date().toISOString();
+      recordDeployment(["PROJ-1"], createDeployment("d1", "qa", now));
+      appendFileSync(ledgerPath, '{"schemaVersion":1,"recorded');
+
+      configureDeploymentTracker({ ledger: createJsonlLedger(ledgerPath) });
+
+      expect(getIssueDeployments("PROJ-1")).toHaveLength(1);
+      expect(readFileSync(ledgerPath, "utf-8")).toContain('"recorded');
+    });
+
+    it("should append after a torn final line without losing the new record", () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const now = new Date().toISOString();
+      recordDeployment(["PROJ-1"], createDeployment("d1", "qa", now));
+      appendFileSync(ledgerPath, '{"schemaVersion":1,"recorded');
+
+      configureDeploymentTracker({ ledger: createJsonlLedger(ledgerPath) });
+      expect(recordDeployment(["PROJ-2"], createDeployment("d2", "qa", now)).persisted).toBe(true);
+
+      configureDeploymentTracker({ ledger: createJsonlLedger(ledgerPath) });
+
+      expect(getIssueDeployments("PROJ-1")).toHaveLength(1);
+      expect(getIssueDeployments("PROJ-2")).toHaveLength(1);
+      expect(readFileSync(ledgerPath, "utf-8").split("\n")).toHaveLength(4);
+    });
+
+    it("should not let a torn line block compaction", () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      recordDeployment(["PROJ-1"], createDeployment("old", "preview", "2020-01-01T00:00:00.000Z"));
+      recordDeployment(["PROJ-1"], createDeployment("new", "preview", new Date().toISOString()));
+      appendFileSync(ledgerPath, '{"schemaVersion":1,"recorded');
+
+      configureDeploymentTracker({
+        ledger: createJsonlLedger(ledgerPath),
+        retention: { preview: { maxAgeDays: 14 } },
+      });
+
+      // Retention is applied on replay
+      expect(getDeploymentLedgerInfo().entryCount).toBe(1);
+      // The torn line is gone along with the expired entry
+      expect(readFileSync(ledgerPath, "utf-8").trim().split("\n")).toHaveLength(1);
+    });
+  });
+
+  describe("retention", () => {
+    it("should drop entries older than the environment's max age", () => {
+      const now = new Date("2024-06-30T00:00:00.000Z");
+      const entries = [
+        createEntry(createDeployment("old-preview", "preview", "2024-06-01T00:00:00.000Z"), ["P-1"]),
+        createEntry(createDeployment("new-preview", "preview", "2024-06-25T00:00:00.000Z"), ["P-1"]),
+        createEntry(createDeployment("old-prod", "production", "2023-01-01T00:00:00.000Z"), ["P-1"]),
+      ];
+
+      const kept = applyRetention(entries, { preview: { maxAgeDays: 14 } }, now);
+
+      expect(kept.map((e) => e.deployment.deploymentId)).toEqual(["new-preview", "old-prod"]);
+    });
+
+    it("should keep only the most recent entries per environment", () => {
+      const entries = [
+        createEntry(createDeployment("a", "development", "2024-06-01T00:00:00.000Z"), ["P-1"]),
+        createEntry(createDeployment("b", "development", "2024-06-02T00:00:00.000Z"), ["P-1"]),
+        createEntry(createDeployment("c", "development", "2024-06-03T00:00:00.000Z"), ["P-1"]),
+      ];
+
+      const kept = applyRetention(entries, { development: { maxEntries: 2 } });
+
+      expect(kept.map((e) => e.deployment.deploymentId)).toEqual(["b", "c"]);
+    });
+
+    it("should compact the ledger file", () => {
+      recordDeployment(["PROJ-1"], createDeployment("old", "preview", "2020-01-01T00:00:00.000Z"));
+      recordDeployment(["PROJ-1"], createDeployment("new", "preview", new Date().toISOString()));
+
+      configureDeploymentTracker({ retention: { preview: { maxAgeDays: 14 } } });
+
+      // Retention is applied on replay
+      expect(getDeploymentLedgerInfo().entryCount).toBe(1);
+      expect(compactDeploymentLedger()).toEqual({ removed: 0, persisted: true });
+      expect(readFileSync(ledgerPath, "utf-8").trim().split("\n")).toHaveLength(1);
+    });
+  });
+
+  describe("export and import", () => {
+    it("should round-trip entries between ledgers", () => {
+      const now = new Date().toISOString();
+      recordDeployment(["PROJ-1"], createDeployment("d1", "staging", now));
+      recordDeployment(["PROJ-2"], createDeployment("d2", "production", now));
+
+      const exported = exportDeploymentLedger({ environments: ["production"] });
+      expect(exported.entries).toHaveLength(1);
+
+      configureDeploymentTracker({ ledger: createMemoryLedger() });
+      const result = importDeploymentLedger(JSON.parse(JSON.stringify(exported)));
+
+      expect(result).toEqual({
+        imported: 1,
+        duplicates: 0,
+        expired: 0,
+        totalEntries: 1,
+        persisted: true,
+      });
+      expect(getIssueDeployments("PROJ-2")).toHaveLength(1);
+    });
+
+    it("should skip duplicate deployment IDs when merging", () => {
+      const now = new Date().toISOString();
+      recordDeployment(["PROJ-1"], createDeployment("d1", "staging", now));
+
+      const result = importDeploymentLedger(exportDeploymentLedger());
+
+      expect(result.duplicates).toBe(1);
+      expect(result.imported).toBe(0);
+    });
+
+    it("should report imports it could not persist over unreadable records", () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const now = new Date().toISOString();
+      recordDeployment(["PROJ-1"], createDeployment("d1", "qa", now));
+      // A record from a newer schema version this server cannot read
+      appendFileSync(ledgerPath, '{"schemaVersion":99,"recordedAt":"2030-01-01T00:00:00.000Z"}\n');
+      configureDeploymentTracker({ ledger: createJsonlLedger(ledgerPath) });
+
+      const result = importDeploymentLedger([
+        createEntry(createDeployment("d2", "staging", now), ["PROJ-2"]),
+      ]);
+
+      expect(result.persisted).toBe(false);
+      expect(getIssueDeployments("PROJ-2")).toHaveLength(1);
+      expect(readFileSync(ledgerPath, "utf-8")).not.toContain('"d2"');
+    });
+
+    it("should reject malformed imports", () => {
+      expect(() => importDeploymentLedger({ entries: [{ foo: "bar" }] })).toThrow(
+        /Invalid ledger entry at index 0/
+      );
+      expect(() => importDeploymentLedger("nope")).toThrow(/Invalid ledger export/);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for status timelines, flow metrics and the devflow_flow_metrics tool.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildStatusTimeline,
+  calculateFlowMetrics,
+  classifyStatus,
+  fetchChangelogs,
+  summarizeDistribution,
+  type StatusCategory,
+} from "../../analysis/flow/index.js";
+import { executeFlowMetrics } from "../../tools/flow-metrics.js";
+import { JiraSprintNotFoundError } from "../../domain/jira-client.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import type { JiraChangelogEntry, JiraIssue, JiraStatus } from "../../domain/types.js";
+
+const categories = new Map<string, StatusCategory>([
+  ["to do", "new"],
+  ["in progress", "indeterminate"],
+  ["waiting for review", "indeterminate"],
+  ["done", "done"],
+  ["closed", "done"],
+]);
+
+const status = (name: string): JiraStatus => ({
+  id: name,
+  name,
+  categoryKey: categories.get(name.toLowerCase()) ?? "indeterminate",
+});
+
+const issue = (key: string, created: string, current: string): JiraIssue => ({
+  id: key,
+  key,
+  self: "",
+  summary: key,
+  status: status(current),
+  issueType: { id: "1", name: "Story", subtask: false },
+  project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+  created,
+  updated: created,
+  labels: [],
+  components: [],
+});
+
+/**
+ * Changelog with one status change per [date, from, to] step.
+ */
+const changelog = (...steps: Array<[string, string, string]>): JiraChangelogEntry[] =>
+  steps.map(([date, from, to], i) => ({
+    id: String(i),
+    author: { accountId: "carol", displayName: "Carol", active: true },
+    created: `2026-01-${date}T00:00:00.000Z`,
+    items: [{ field: "status", fieldtype: "jira", fromString: from, toString: to }],
+  }));
+
+const histories: Record<string, { issue: JiraIssue; changelog: JiraChangelogEntry[] }> = {
+  "PROJ-1": {
+    issue: issue("PROJ-1", "2026-01-01T00:00:00.000Z", "Closed"),
+    changelog: changelog(
+      ["03", "To Do", "In Progress"],
+      ["05", "In Progress", "Waiting for Review"],
+      ["06", "Waiting for Review", "In Progress"],
+      ["08", "In Progress", "Done"],
+      ["09", "Done", "Closed"]
+    ),
+  },
+  "PROJ-2": {
+    issue: issue("PROJ-2", "2026-01-01T00:00:00.000Z", "Done"),
+    changelog: changelog(["02", "To Do", "In Progress"], ["04", "In Progress", "Done"]),
+  },
+  "PROJ-3": {
+    issue: issue("PROJ-3", "2026-01-05T00:00:00.000Z", "In Progress"),
+    changelog: changelog(["06", "To Do", "In Progress"]),
+  },
+};
+
+const timelines = Object.values(histories).map(({ issue, changelog }) =>
+  buildStatusTimeline(issue, changelog, categories)
+);
+
+const now = new Date("2026-01-10T00:00:00.000Z");
+
+describe("status timelines", () => {
+  it("should rebuild status periods with start and completion", () => {
+    const [timeline] = timelines;
+
+    expect(timeline?.periods.map((p) => p.status)).toEqual([
+      "To Do",
+      "In Progress",
+      "Waiting for Review",
+      "In Progress",
+      "Done",
+      "Closed",
+    ]);
+    expect(timeline?.startedAt).toBe("2026-01-03T00:00:00.000Z");
+    // Moving on from Done to Closed does not complete the issue again
+    expect(timeline?.completedAt).toBe("2026-01-08T00:00:00.000Z");
+  });
+
+  it("should not complete reopened issues", () => {
+    const timeline = buildStatusTimeline(
+      issue("PROJ-4", "2026-01-01T00:00:00.000Z", "In Progress"),
+      changelog(["02", "To Do", "Done"], ["03", "Done", "In Progress"]),
+      categories
+    );
+
+    expect(timeline.completedAt).toBeUndefined();
+    expect(timeline.startedAt).toBe("2026-01-02T00:00:00.000Z");
+  });
+});
+
+describe("fetchChangelogs", () => {
+  it("should fetch several changelogs at a time and keep the issue order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const client = {
+      getIssueChangelog: vi.fn(async (key: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, key === "PROJ-1" ? 5 : 0));
+        inFlight--;
+        const entries = histories[key]?.changelog ?? [];
+        return { changelog: entries, startAt: 0, maxResults: 100, total: entries.length };
+      }),
+    };
+
+    const changelogs = await fetchChangelogs(
+      client as unknown as JiraClient,
+      Object.values(histories).map((h) => h.issue)
+    );
+
+    expect(maxInFlight).toBeGreaterThan(1);
+    expect(changelogs.map((entries) => entries.length)).toEqual([5, 2, 1]);
+  });
+});
+
+describe("flow metrics", () => {
+  const metrics = calculateFlowMetrics(timelines, { now });
+
+  it("should measure cycle and lead time of completed issues", () => {
+    expect(metrics.completedCount).toBe(2);
+    expect(metrics.inProgressCount).toBe(1);
+    expect(metrics.cycleTime).toMatchObject({ count: 2, min: 2, max: 5, p50: 3.5 });
+    expect(metrics.leadTime).toMatchObject({ min: 3, max: 7 });
+    expect(metrics.issues[2]?.ageDays).toBe(4);
+  });
+
+  it("should split cycle time into active and wait time", () => {
+    expect(metrics.issues[0]).toMatchObject({ activeDays: 4, waitDays: 1, flowEfficiency: 0.8 });
+    expect(metrics.flowEfficiency).toBe(0.86);
+  });
+
+  it("should report time in status and the bottleneck", () => {
+    expect(
+      metrics.timeInStatus.map((entry) => [entry.status, entry.statusClass, entry.averageDays])
+    ).toEqual([
+      ["To Do", undefined, 1.3],
+      ["In Progress", "active", 3.3],
+      ["Waiting for Review", "wait", 1],
+    ]);
+    expect(metrics.bottleneck).toBe("In Progress");
+  });
+
+  it("should classify statuses per workflow before by name", () => {
+    const workflow = { issueTypes: ["Bug"], activeStatuses: ["Ready for QA"], waitStatuses: ["In Review"] };
+
+    expect(classifyStatus("Ready for QA", workflow)).toBe("active");
+    expect(classifyStatus("In Review", workflow)).toBe("wait");
+    expect(classifyStatus("Blocked", undefined)).toBe("wait");
+    expect(classifyStatus("In Review", undefined)).toBe("active");
+  });
+
+  it("should interpolate percentiles", () => {
+    expect(summarizeDistribution([0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 20])).toMatchObject({
+      p50: 10,
+      p70: 14,
+      p85: 17,
+      p95: 19,
+      mean: 10,
+    });
+    expect(summarizeDistribution([])).toBeUndefined();
+  });
+});
+
+describe("devflow_flow_metrics", () => {
+  const createMockClient = () => ({
+    searchJql: vi.fn().mockResolvedValue({
+      issues: Object.values(histories).map((h) => h.issue),
+      isLast: true,
+    }),
+    getSprintIssues: vi.fn(),
+    getProjectStatuses: vi.fn().mockResolvedValue([
+      { issueTypeId: "1", issueTypeName: "Story", subtask: false, statuses: [status("Waiting for Review")] },
+    ]),
+    getIssueChangelog: vi.fn((key: string) => {
+      const entries = histories[key]?.changelog ?? [];
+      return Promise.resolve({ changelog: entries, startAt: 0, maxResults: 100, total: entries.length });
+    }),
+  });
+
+  it("should report flow metrics for a JQL scope", async () => {
+    const client = createMockClient();
+
+    const result = await executeFlowMetrics(client as unknown as JiraClient, {
+      jql: "project = PROJ",
+      workflows: [{ waitStatuses: ["In Progress"] }],
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(parsed.completedCount).toBe(2);
+    expect(parsed.cycleTimeDays.p50).toBe(3.5);
+    // Every in-progress status waits under this configuration
+    expect(parsed.flowEfficiency).toBe("0%");
+    expect(parsed.slowestCompleted[0].key).toBe("PROJ-1");
+    expect(parsed.oldestInProgress[0].key).toBe("PROJ-3");
+  });
+
+  it("should require exactly one scope", async () => {
+    const client = createMockClient();
+
+    const result = await executeFlowMetrics(client as unknown as JiraClient, {
+      jql: "project = PROJ",
+      sprintId: 1,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Provide either jql or sprintId");
+  });
+
+  it("should report a missing sprint", async () => {
+    const client = createMockClient();
+    client.getSprintIssues.mockRejectedValue(new JiraSprintNotFoundError(99));
+
+    const result = await executeFlowMetrics(client as unknown as JiraClient, { sprintId: 99 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Sprint with ID 99 not found");
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for the Monte Carlo forecaster and the devflow_forecast tool.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createRandom,
+  dailyThroughput,
+  forecastCompletion,
+  forecastThroughput,
+  sprintThroughput,
+} from "../../analysis/forecast/index.js";
+import { executeForecast } from "../../tools/forecast.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import type { JiraIssue, JiraSprint } from "../../domain/types.js";
+
+const issue = (key: string, done: boolean, resolutionDate?: string): JiraIssue => ({
+  id: key,
+  key,
+  self: "",
+  summary: key,
+  status: { id: "1", name: done ? "Done" : "To Do", categoryKey: done ? "done" : "new" },
+  issueType: { id: "1", name: "Story", subtask: false },
+  project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+  created: "2026-01-01T00:00:00.000Z",
+  updated: "2026-01-01T00:00:00.000Z",
+  resolutionDate,
+  labels: [],
+  components: [],
+});
+
+describe("seeded random numbers", () => {
+  it("should repeat the same sequence for the same seed", () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const other = createRandom(43);
+
+    const sequence = [first(), first(), first()];
+
+    expect([second(), second(), second()]).toEqual(sequence);
+    expect(other()).not.toBe(sequence[0]);
+    expect(sequence.every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+});
+
+describe("Monte Carlo forecasts", () => {
+  const samples = [0, 1, 1, 2, 3, 0, 4, 2, 1, 0];
+
+  it("should forecast when items will be done", () => {
+    expect(forecastCompletion([2], 10, { trials: 100, seed: 1 }).periods).toEqual({
+      p50: 5,
+      p85: 5,
+      p95: 5,
+    });
+
+    const forecast = forecastCompletion(samples, 20, { trials: 2000, seed: 7 });
+    const { p50, p85, p95 } = forecast.periods ?? { p50: 0, p85: 0, p95: 0 };
+
+    expect(p50).toBeGreaterThan(0);
+    expect(p50).toBeLessThanOrEqual(p85);
+    expect(p85).toBeLessThanOrEqual(p95);
+  });
+
+  it("should give the same forecast for the same seed", () => {
+    expect(forecastCompletion(samples, 20, { trials: 500, seed: 3 })).toEqual(
+      forecastCompletion(samples, 20, { trials: 500, seed: 3 })
+    );
+    expect(forecastThroughput(samples, 10, { trials: 500, seed: 3 })).toEqual(
+      forecastThroughput(samples, 10, { trials: 500, seed: 3 })
+    );
+  });
+
+  it("should not forecast completion without throughput", () => {
+    const forecast = forecastCompletion([0, 0], 5, { trials: 100, seed: 1 });
+
+    expect(forecast.periods).toBeUndefined();
+    expect(forecast.unfinishedShare).toBe(1);
+  });
+
+  it("should forecast fewer items at higher confidence", () => {
+    expect(forecastThroughput([3], 4, { trials: 100, seed: 1 }).items).toEqual({
+      p50: 12,
+      p85: 12,
+      p95: 12,
+    });
+
+    const { p50, p85, p95 } = forecastThroughput(samples, 10, { trials: 2000, seed: 7 }).items;
+
+    expect(p95).toBeLessThanOrEqual(p85);
+    expect(p85).toBeLessThanOrEqual(p50);
+  });
+});
+
+describe("throughput samples", () => {
+  const dates = ["2026-01-01T10:00:00.000Z", "2026-01-01T18:00:00.000Z", "2026-01-03T09:00:00.000Z"];
+
+  it("should count completions per day, including idle days", () => {
+    expect(dailyThroughput(dates, "2026-01-01", "2026-01-04")).toEqual([2, 0, 1, 0]);
+  });
+
+  it("should count completions per sprint", () => {
+    const sprints: JiraSprint[] = [
+      {
+        id: 1,
+        name: "Sprint 1",
+        state: "closed",
+        startDate: "2026-01-01T00:00:00.000Z",
+        completeDate: "2026-01-02T00:00:00.000Z",
+      },
+      {
+        id: 2,
+        name: "Sprint 2",
+        state: "closed",
+        startDate: "2026-01-02T00:00:00.000Z",
+        completeDate: "2026-01-05T00:00:00.000Z",
+      },
+      { id: 3, name: "Sprint 3", state: "closed" },
+    ];
+
+    expect(sprintThroughput(dates, sprints)).toEqual([2, 1]);
+  });
+});
+
+describe("devflow_forecast", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Two issues resolved on each of the 10 days before today
+  const history = Array.from({ length: 20 }, (_, i) =>
+    issue(`PROJ-${i + 1}`, true, `2026-02-${String(19 + Math.floor(i / 2)).padStart(2, "0")}T10:00:00.000Z`)
+  );
+
+  const createMockClient = () => ({
+    searchJql: vi.fn().mockResolvedValue({ issues: history, isLast: true }),
+    getSprintIssues: vi.fn().mockResolvedValue({
+      issues: [
+        issue("PROJ-30", false),
+        issue("PROJ-31", false),
+        issue("PROJ-32", false),
+        issue("PROJ-33", false),
+        issue("PROJ-34", false),
+        issue("PROJ-35", true, "2026-02-28T10:00:00.000Z"),
+      ],
+      total: 6,
+      isLast: true,
+    }),
+    getBoardSprints: vi.fn(),
+    getEpicChildren: vi.fn(),
+  });
+
+  it("should forecast when a sprint's open items will be done and how many by a date", async () => {
+    const client = createMockClient();
+
+    const result = await executeForecast(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      historyDays: 10,
+      sprintId: 7,
+      targetDate: "2026-03-05",
+      seed: 11,
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(client.searchJql.mock.calls[0]?.[0]).toContain('resolved >= "2026-02-19"');
+    expect(parsed.history).toMatchObject({ periods: 10, itemsCompleted: 20, averagePerPeriod: 2 });
+    expect(parsed.remainingItems).toBe(5);
+    expect(parsed.when["85%"]).toEqual({ days: 3, date: "2026-03-04" });
+    expect(parsed.howMany).toMatchObject({ days: 4, "50%": 8, "95%": 8 });
+    expect(parsed.seed).toBe(11);
+  });
+
+  it("should shorten the history to the days fully read when it is truncated", async () => {
+    // 30 issues resolved on each of the 40 days before today, newest first
+    const busy = Array.from({ length: 1200 }, (_, i) => {
+      const day = new Date(Date.parse("2026-02-28T10:00:00.000Z") - Math.floor(i / 30) * 86_400_000);
+      return issue(`PROJ-${i + 1}`, true, day.toISOString());
+    });
+    const client = createMockClient();
+    client.searchJql.mockImplementation(
+      (_jql: string, options: { maxResults: number; nextPageToken?: string }) => {
+        const start = Number(options.nextPageToken ?? 0);
+        const end = start + options.maxResults;
+        return Promise.resolve({
+          issues: busy.slice(start, end),
+          isLast: end >= busy.length,
+          nextPageToken: end < busy.length ? String(end) : undefined,
+        });
+      }
+    );
+
+    const result = await executeForecast(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      historyDays: 60,
+      remainingItems: 100,
+      seed: 3,
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(client.searchJql.mock.calls[0]?.[0]).toContain("ORDER BY resolved DESC");
+    // 1000 issues cover Jan 27 to Feb 28 fully and part of Jan 26
+    expect(parsed.history).toMatchObject({
+      from: "2026-01-27",
+      periods: 33,
+      itemsCompleted: 990,
+      averagePerPeriod: 30,
+    });
+    expect(parsed.insights).toContain(
+      "More than 1000 issues were resolved since 2025-12-31, so the history was shortened to start on 2026-01-27"
+    );
+  });
+
+  it("should require a board for sprint throughput", async () => {
+    const client = createMockClient();
+
+    const result = await executeForecast(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      unit: "sprint",
+      remainingItems: 10,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("boardId: Sprint throughput requires boardId");
+  });
+
+  it("should reject target dates in the past", async () => {
+    const client = createMockClient();
+
+    const result = await executeForecast(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      targetDate: "2026-02-01",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Date must be in the future");
+  });
+});
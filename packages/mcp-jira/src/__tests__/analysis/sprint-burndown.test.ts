@@ -0,0 +1,266 @@
+/**
+ * Tests for sprint burndown reconstruction and the devflow_sprint_burndown tool.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  buildIssueSprintHistory,
+  calculateBurndown,
+  isInSprintAt,
+} from "../../analysis/burndown/index.js";
+import type { StatusCategory } from "../../analysis/flow/index.js";
+import { executeSprintBurndown } from "../../tools/sprint-burndown.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import { JiraApiError } from "../../domain/jira-client.js";
+import type {
+  JiraChangelogEntry,
+  JiraChangelogItem,
+  JiraIssue,
+  JiraSprintExtended,
+} from "../../domain/types.js";
+
+const categories = new Map<string, StatusCategory>([
+  ["to do", "new"],
+  ["in progress", "indeterminate"],
+  ["done", "done"],
+]);
+
+const fields = { storyPoints: ["customfield_10016"], sprint: ["customfield_10020"] };
+
+const sprint: JiraSprintExtended = {
+  id: 7,
+  name: "Sprint 7",
+  state: "closed",
+  startDate: "2026-02-02T09:00:00.000Z",
+  endDate: "2026-02-06T17:00:00.000Z",
+  completeDate: "2026-02-06T17:00:00.000Z",
+  originBoardId: 1,
+  self: "",
+};
+
+const issue = (key: string, created: string, status: string, storyPoints?: number): JiraIssue => ({
+  id: key,
+  key,
+  self: "",
+  summary: key,
+  status: { id: status, name: status, categoryKey: categories.get(status.toLowerCase()) ?? "new" },
+  issueType: { id: "1", name: "Story", subtask: false },
+  project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+  created,
+  updated: created,
+  labels: [],
+  components: [],
+  storyPoints,
+  sprint,
+});
+
+const entry = (created: string, ...items: JiraChangelogItem[]): JiraChangelogEntry => ({
+  id: created,
+  author: { accountId: "carol", displayName: "Carol", active: true },
+  created,
+  items,
+});
+
+const statusChange = (from: string, to: string): JiraChangelogItem => ({
+  field: "status",
+  fieldtype: "jira",
+  fromString: from,
+  toString: to,
+});
+
+const pointsChange = (from: string, to: string): JiraChangelogItem => ({
+  field: "Story Points",
+  fieldtype: "custom",
+  fieldId: "customfield_10016",
+  fromString: from,
+  toString: to,
+});
+
+const sprintChange = (from: string, to: string): JiraChangelogItem => ({
+  field: "Sprint",
+  fieldtype: "custom",
+  fieldId: "customfield_10020",
+  from,
+  fromString: from,
+  to,
+  toString: to,
+});
+
+const histories: Record<string, { issue: JiraIssue; changelog: JiraChangelogEntry[] }> = {
+  "PROJ-1": {
+    issue: issue("PROJ-1", "2026-01-20T00:00:00.000Z", "Done", 5),
+    changelog: [entry("2026-02-03T12:00:00.000Z", statusChange("To Do", "Done"))],
+  },
+  "PROJ-2": {
+    issue: issue("PROJ-2", "2026-01-20T00:00:00.000Z", "Done", 5),
+    changelog: [
+      entry("2026-02-04T10:00:00.000Z", pointsChange("3", "5")),
+      entry("2026-02-06T10:00:00.000Z", statusChange("To Do", "Done")),
+    ],
+  },
+  "PROJ-3": {
+    issue: issue("PROJ-3", "2026-01-25T00:00:00.000Z", "To Do", 2),
+    changelog: [
+      entry("2026-02-04T11:00:00.000Z", sprintChange("", "7")),
+      // Carried over when the sprint was completed
+      entry("2026-02-06T17:00:00.000Z", sprintChange("7", "7, 8")),
+    ],
+  },
+  "PROJ-4": {
+    // Created in the sprint, without an estimate
+    issue: issue("PROJ-4", "2026-02-05T08:00:00.000Z", "In Progress"),
+    changelog: [],
+  },
+};
+
+const issueHistories = Object.values(histories).map(({ issue, changelog }) =>
+  buildIssueSprintHistory(issue, changelog, sprint, fields, categories)
+);
+
+describe("sprint histories", () => {
+  it("should track sprint membership from sprint changes and creation", () => {
+    const [, , added, created] = issueHistories;
+
+    expect(added && isInSprintAt(added, Date.parse("2026-02-03T00:00:00.000Z"))).toBe(false);
+    expect(added && isInSprintAt(added, Date.parse("2026-02-05T00:00:00.000Z"))).toBe(true);
+    expect(created && isInSprintAt(created, Date.parse("2026-02-04T00:00:00.000Z"))).toBe(false);
+  });
+});
+
+describe("sprint burndown", () => {
+  const burndown = calculateBurndown(issueHistories, sprint, new Date("2026-02-10T00:00:00.000Z"));
+
+  it("should replay scope and completion day by day", () => {
+    expect(
+      burndown.days.map((day) => [day.date, day.scopePoints, day.completedPoints, day.remainingPoints])
+    ).toEqual([
+      ["2026-02-02", 8, 0, 8],
+      ["2026-02-03", 8, 5, 3],
+      ["2026-02-04", 12, 5, 7],
+      ["2026-02-05", 12, 5, 7],
+      ["2026-02-06", 12, 10, 2],
+    ]);
+    expect(burndown).toMatchObject({ committedPoints: 8, committedIssues: 2 });
+  });
+
+  it("should flag scope creep from added issues and re-estimates", () => {
+    expect(burndown.days[2]).toMatchObject({ addedPoints: 4, addedIssues: ["PROJ-3"] });
+    expect(burndown.scopeCreepDays).toEqual(["2026-02-04", "2026-02-05"]);
+    expect(burndown.scopeChange).toBe(0.5);
+    expect(burndown.unestimatedIssues).toEqual(["PROJ-4"]);
+  });
+
+  it("should compare remaining points against the ideal line", () => {
+    expect(burndown.days[0]?.idealRemainingPoints).toBe(6.8);
+    expect(burndown.days[4]?.idealRemainingPoints).toBe(0);
+    expect(burndown.pace).toBe("behind");
+  });
+});
+
+describe("devflow_sprint_burndown", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-02-10T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createMockClient = () => ({
+    getSprint: vi.fn().mockResolvedValue(sprint),
+    getSprintIssues: vi.fn().mockResolvedValue({
+      issues: Object.values(histories).map((h) => h.issue),
+      total: 4,
+      isLast: true,
+    }),
+    getSprintRemovedIssueKeys: vi.fn().mockResolvedValue([]),
+    searchJql: vi.fn(),
+    getProjectStatuses: vi.fn().mockResolvedValue([]),
+    getIssueChangelog: vi.fn((key: string) => {
+      const entries = histories[key]?.changelog ?? [];
+      return Promise.resolve({ changelog: entries, startAt: 0, maxResults: 100, total: entries.length });
+    }),
+    getFieldMappings: vi.fn().mockReturnValue({
+      storyPointsField: "customfield_10016",
+      storyPointsCandidates: ["customfield_10016"],
+      sprintField: "customfield_10020",
+      sprintCandidates: ["customfield_10020"],
+      customFields: [],
+    }),
+  });
+
+  it("should report the burndown as a markdown table", async () => {
+    const client = createMockClient();
+
+    const result = await executeSprintBurndown(client as unknown as JiraClient, { sprintId: 7 });
+    const text = result.content[0]?.text ?? "";
+
+    expect(text).toContain("## Burndown: Sprint 7");
+    expect(text).toContain("| 2026-02-04 ⚠️ | 12 | 5 | 7 | 3.2 | +4 (+PROJ-3) |");
+  });
+
+  it("should report insights as JSON", async () => {
+    const client = createMockClient();
+
+    const result = await executeSprintBurndown(client as unknown as JiraClient, {
+      sprintId: 7,
+      format: "json",
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(parsed.days).toHaveLength(5);
+    expect(parsed.insights[0]).toContain("Scope grew by 50%");
+  });
+
+  it("should include issues removed from the sprint, which the sprint no longer lists", async () => {
+    const descoped = issue("PROJ-5", "2026-01-20T00:00:00.000Z", "To Do", 3);
+    const client = createMockClient();
+    client.getSprintRemovedIssueKeys.mockResolvedValue(["PROJ-5"]);
+    client.searchJql.mockResolvedValue({ issues: [descoped], isLast: true });
+    client.getIssueChangelog.mockImplementation((key: string) => {
+      const entries =
+        key === "PROJ-5"
+          ? [entry("2026-02-05T10:00:00.000Z", sprintChange("7", "8"))]
+          : histories[key]?.changelog ?? [];
+      return Promise.resolve({ changelog: entries, startAt: 0, maxResults: 100, total: entries.length });
+    });
+
+    const result = await executeSprintBurndown(client as unknown as JiraClient, {
+      sprintId: 7,
+      format: "json",
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(client.getSprintRemovedIssueKeys).toHaveBeenCalledWith(1, 7);
+    expect(client.searchJql.mock.calls[0]?.[0]).toContain("key in (PROJ-5)");
+    expect(parsed).toMatchObject({ committedPoints: 11, committedIssues: 3, removedPoints: 3 });
+    expect(parsed.days[3]).toMatchObject({ date: "2026-02-05", removedPoints: 3, removedIssues: ["PROJ-5"] });
+    expect(parsed.scopeChange).toBe(0.09);
+  });
+
+  it("should note when the removed issues cannot be read", async () => {
+    const client = createMockClient();
+    client.getSprintRemovedIssueKeys.mockRejectedValue(new JiraApiError("Not Found", 404));
+
+    const result = await executeSprintBurndown(client as unknown as JiraClient, {
+      sprintId: 7,
+      format: "json",
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(result.isError).toBeUndefined();
+    expect(parsed.committedPoints).toBe(8);
+    expect(parsed.note).toContain("issues removed from the sprint are missing");
+  });
+
+  it("should reject sprints that have not started", async () => {
+    const client = createMockClient();
+    client.getSprint.mockResolvedValue({ ...sprint, state: "future", startDate: undefined });
+
+    const result = await executeSprintBurndown(client as unknown as JiraClient, { sprintId: 7 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("has not started");
+  });
+});
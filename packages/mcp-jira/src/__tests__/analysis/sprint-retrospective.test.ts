@@ -0,0 +1,333 @@
+/**
+ * Tests for sprint retrospective reports and the devflow_sprint_retrospective tool.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { buildIssueSprintHistory } from "../../analysis/burndown/index.js";
+import type { StatusCategory } from "../../analysis/flow/index.js";
+import { buildRetrospective } from "../../analysis/retrospective/index.js";
+import { executeSprintRetrospective } from "../../tools/sprint-retrospective.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import type {
+  JiraChangelogEntry,
+  JiraChangelogItem,
+  JiraIssue,
+  JiraSprint,
+  JiraSprintExtended,
+  SprintVelocityEntry,
+} from "../../domain/types.js";
+
+const categories = new Map<string, StatusCategory>([
+  ["to do", "new"],
+  ["in progress", "indeterminate"],
+  ["blocked", "indeterminate"],
+  ["done", "done"],
+]);
+
+const fields = { storyPoints: ["customfield_10016"], sprint: ["customfield_10020"] };
+
+const sprint: JiraSprintExtended = {
+  id: 7,
+  name: "Sprint 7",
+  state: "closed",
+  startDate: "2026-02-02T09:00:00.000Z",
+  endDate: "2026-02-06T17:00:00.000Z",
+  completeDate: "2026-02-06T17:00:00.000Z",
+  goal: "Ship checkout",
+  originBoardId: 1,
+  self: "",
+};
+
+const closedSprint = (id: number, completeDate: string): JiraSprint => ({
+  id,
+  name: `Sprint ${id}`,
+  state: "closed",
+  startDate: completeDate,
+  endDate: completeDate,
+  completeDate,
+});
+
+const issue = (
+  key: string,
+  created: string,
+  status: string,
+  storyPoints?: number,
+  issueType = "Story"
+): JiraIssue => ({
+  id: key,
+  key,
+  self: "",
+  summary: key,
+  status: { id: status, name: status, categoryKey: categories.get(status.toLowerCase()) ?? "new" },
+  issueType: { id: issueType, name: issueType, subtask: false },
+  project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+  created,
+  updated: created,
+  labels: [],
+  components: [],
+  storyPoints,
+  sprint,
+});
+
+const entry = (created: string, ...items: JiraChangelogItem[]): JiraChangelogEntry => ({
+  id: created,
+  author: { accountId: "carol", displayName: "Carol", active: true },
+  created,
+  items,
+});
+
+const statusChange = (from: string, to: string): JiraChangelogItem => ({
+  field: "status",
+  fieldtype: "jira",
+  fromString: from,
+  toString: to,
+});
+
+const pointsChange = (from: string, to: string): JiraChangelogItem => ({
+  field: "Story Points",
+  fieldtype: "custom",
+  fieldId: "customfield_10016",
+  fromString: from,
+  toString: to,
+});
+
+const sprintChange = (from: string, to: string): JiraChangelogItem => ({
+  field: "Sprint",
+  fieldtype: "custom",
+  fieldId: "customfield_10020",
+  from,
+  fromString: from,
+  to,
+  toString: to,
+});
+
+const flagChange = (from: string, to: string): JiraChangelogItem => ({
+  field: "Flagged",
+  fieldtype: "custom",
+  fromString: from,
+  toString: to,
+});
+
+const histories: Record<string, { issue: JiraIssue; changelog: JiraChangelogEntry[] }> = {
+  "PROJ-1": {
+    issue: issue("PROJ-1", "2026-01-20T00:00:00.000Z", "Done", 5),
+    changelog: [entry("2026-02-03T12:00:00.000Z", statusChange("To Do", "Done"))],
+  },
+  "PROJ-2": {
+    issue: issue("PROJ-2", "2026-01-20T00:00:00.000Z", "Done", 5),
+    changelog: [
+      entry("2026-02-04T10:00:00.000Z", pointsChange("3", "5"), flagChange("", "Impediment")),
+      entry("2026-02-05T10:00:00.000Z", flagChange("Impediment", "")),
+      entry("2026-02-06T10:00:00.000Z", statusChange("To Do", "Done")),
+    ],
+  },
+  "PROJ-3": {
+    issue: issue("PROJ-3", "2026-01-25T00:00:00.000Z", "To Do", 2),
+    changelog: [
+      entry("2026-02-04T11:00:00.000Z", sprintChange("", "7")),
+      entry("2026-02-06T17:00:00.000Z", sprintChange("7", "7, 8")),
+    ],
+  },
+  "PROJ-4": {
+    // Found during the sprint and blocked until its end
+    issue: issue("PROJ-4", "2026-02-05T08:00:00.000Z", "Blocked", undefined, "Bug"),
+    changelog: [entry("2026-02-05T12:00:00.000Z", statusChange("In Progress", "Blocked"))],
+  },
+};
+
+const issues = Object.values(histories).map((h) => h.issue);
+const issueHistories = Object.values(histories).map(({ issue, changelog }) =>
+  buildIssueSprintHistory(issue, changelog, sprint, fields, categories)
+);
+
+const velocity = (id: number, completedPoints: number, committedPoints: number): SprintVelocityEntry => ({
+  sprint: closedSprint(id, `2026-01-${String(id * 4).padStart(2, "0")}T17:00:00.000Z`),
+  completedPoints,
+  completedIssues: 2,
+  committedPoints,
+  committedIssues: 2,
+});
+
+// Done points over the points left in Sprint 7 at its end, as for the prior sprints
+const current: SprintVelocityEntry = { ...velocity(7, 10, 12), sprint, committedIssues: 4 };
+
+describe("sprint retrospective", () => {
+  const retrospective = buildRetrospective({
+    sprint,
+    issues,
+    histories: issueHistories,
+    velocity: current,
+    priorSprints: [velocity(5, 8, 10), velocity(6, 9, 10)],
+    now: new Date("2026-02-10T00:00:00.000Z"),
+  });
+
+  it("should compare committed with completed work", () => {
+    expect(retrospective).toMatchObject({
+      sprintName: "Sprint 7",
+      goal: "Ship checkout",
+      committed: { points: 8, issues: 2 },
+      completed: { points: 10, issues: 2 },
+      completionRate: 1.25,
+    });
+  });
+
+  it("should list carry-over, scope changes and re-estimates", () => {
+    expect(retrospective.carryOver).toEqual([
+      { issueKey: "PROJ-3", status: "To Do", points: 2 },
+      { issueKey: "PROJ-4", status: "Blocked", points: undefined },
+    ]);
+    expect(retrospective.scopeAdded.points).toBe(4);
+    expect(retrospective.scopeAdded.issueKeys).toContain("PROJ-3");
+    expect(retrospective.reestimated).toEqual([{ issueKey: "PROJ-2", fromPoints: 3, toPoints: 5 }]);
+  });
+
+  it("should measure blocked time from flags and blocked statuses", () => {
+    expect(retrospective.blocked).toEqual([
+      { issueKey: "PROJ-4", blockedDays: 1.2 },
+      { issueKey: "PROJ-2", blockedDays: 1 },
+    ]);
+    expect(retrospective.blockedDays).toBe(2.2);
+    expect(retrospective.bugsFound).toEqual(["PROJ-4"]);
+  });
+
+  it("should compare the sprint with the prior sprints", () => {
+    expect(retrospective.comparison).toMatchObject({
+      priorSprints: 2,
+      averageVelocity: 8.5,
+      completionRate: 0.83,
+      averageCompletionRate: 0.85,
+      velocityChange: 0.18,
+    });
+  });
+
+  it("should generate discussion prompts from the findings", () => {
+    const prompts = retrospective.prompts.map((prompt) => prompt.prompt);
+
+    expect(prompts[0]).toContain("What helped us complete 125% of our commitment in Sprint 7");
+    expect(prompts.some((prompt) => prompt.includes("PROJ-3, PROJ-4 carry over"))).toBe(true);
+    expect(prompts.some((prompt) => prompt.includes("PROJ-2 (3 → 5 points)"))).toBe(true);
+    expect(retrospective.prompts.find((p) => p.prompt.includes("blocked PROJ-4"))?.category).toBe(
+      "action"
+    );
+    expect(retrospective.prompts.find((p) => p.prompt.includes("bug(s)"))?.category).toBe("research");
+  });
+
+  it("should ask why completion fell below the prior sprints' rate", () => {
+    const { prompts } = buildRetrospective({
+      sprint,
+      issues,
+      histories: issueHistories,
+      velocity: current,
+      priorSprints: [velocity(5, 10, 10), velocity(6, 12, 12)],
+      now: new Date("2026-02-10T00:00:00.000Z"),
+    });
+
+    expect(prompts[0]?.prompt).toBe(
+      "Why did we complete 83% of the sprint's points in Sprint 7, against 100% in recent sprints?"
+    );
+  });
+});
+
+describe("devflow_sprint_retrospective", () => {
+  const createMockClient = () => ({
+    getSprint: vi.fn().mockResolvedValue(sprint),
+    getBoardSprints: vi.fn().mockResolvedValue({
+      sprints: [
+        closedSprint(5, "2026-01-20T17:00:00.000Z"),
+        closedSprint(6, "2026-01-30T17:00:00.000Z"),
+        sprint,
+      ],
+      isLast: true,
+    }),
+    getSprintIssues: vi.fn((sprintId: number) =>
+      Promise.resolve(
+        sprintId === 7
+          ? { issues, total: issues.length, isLast: true }
+          : {
+              issues: [
+                issue(`OLD-${sprintId}`, "2026-01-01T00:00:00.000Z", "Done", 10),
+                issue(`OPEN-${sprintId}`, "2026-01-01T00:00:00.000Z", "To Do", 2),
+              ],
+              total: 2,
+              isLast: true,
+            }
+      )
+    ),
+    getSprintRemovedIssueKeys: vi.fn().mockResolvedValue([]),
+    searchJql: vi.fn(),
+    getProjectStatuses: vi.fn().mockResolvedValue([]),
+    getIssueChangelog: vi.fn((key: string) => {
+      const entries = histories[key]?.changelog ?? [];
+      return Promise.resolve({ changelog: entries, startAt: 0, maxResults: 100, total: entries.length });
+    }),
+    getFieldMappings: vi.fn().mockReturnValue({
+      storyPointsField: "customfield_10016",
+      storyPointsCandidates: ["customfield_10016"],
+      sprintField: "customfield_10020",
+      sprintCandidates: ["customfield_10020"],
+      customFields: [],
+    }),
+  });
+
+  it("should compare with the sprints completed before this one", async () => {
+    const client = createMockClient();
+
+    const result = await executeSprintRetrospective(client as unknown as JiraClient, {
+      sprintId: 7,
+      priorSprintCount: 5,
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(result.isError).toBeUndefined();
+    expect(client.getBoardSprints).toHaveBeenCalledWith(1, expect.objectContaining({ state: "closed" }));
+    expect(client.getSprintIssues).toHaveBeenCalledTimes(3);
+    expect(parsed.comparison).toMatchObject({
+      priorSprints: 2,
+      averageVelocity: 10,
+      completionRate: 0.83,
+      averageCompletionRate: 0.83,
+    });
+    expect(parsed.prompts.length).toBeGreaterThan(0);
+  });
+
+  it("should leave issues removed mid-sprint out of the comparison", async () => {
+    const client = createMockClient();
+    client.getSprintRemovedIssueKeys.mockResolvedValue(["PROJ-9"]);
+    client.searchJql.mockResolvedValue({
+      issues: [issue("PROJ-9", "2026-01-20T00:00:00.000Z", "To Do", 3)],
+      isLast: true,
+    });
+
+    const result = await executeSprintRetrospective(client as unknown as JiraClient, {
+      sprintId: 7,
+      priorSprintCount: 5,
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(client.searchJql.mock.calls[0]?.[0]).toContain("key in (PROJ-9)");
+    expect(parsed.comparison).toMatchObject({ completionRate: 0.83, averageCompletionRate: 0.83 });
+  });
+
+  it("should skip the comparison when no prior sprints are requested", async () => {
+    const client = createMockClient();
+
+    const result = await executeSprintRetrospective(client as unknown as JiraClient, {
+      sprintId: 7,
+      priorSprintCount: 0,
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(client.getBoardSprints).not.toHaveBeenCalled();
+    expect(parsed.comparison).toBeUndefined();
+  });
+
+  it("should reject sprints that have not started", async () => {
+    const client = createMockClient();
+    client.getSprint.mockResolvedValue({ ...sprint, state: "future", startDate: undefined });
+
+    const result = await executeSprintRetrospective(client as unknown as JiraClient, { sprintId: 7 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("has not started");
+  });
+});
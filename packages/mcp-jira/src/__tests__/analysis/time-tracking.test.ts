@@ -0,0 +1,171 @@
+/**
+ * Tests for Jira durations and the time tracking analysis.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { parseDuration, formatDuration } from "../../domain/duration.js";
+import { analyzeTimeTracking } from "../../analysis/time-tracking/index.js";
+import { forecastCapacity } from "../../analysis/velocity/index.js";
+import { executeCapacityForecast } from "../../tools/capacity-forecast.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import type { JiraIssue, JiraSprint, JiraWorklog } from "../../domain/types.js";
+
+const sprint = (id: number, startDate: string, endDate: string): JiraSprint => ({
+  id,
+  name: `Sprint ${id}`,
+  state: "closed",
+  startDate,
+  endDate,
+});
+
+const issue = (key: string, storyPoints: number, done = true, timeSpentSeconds?: number): JiraIssue => ({
+  id: key,
+  key,
+  self: "",
+  summary: key,
+  status: { id: "1", name: done ? "Done" : "Open", categoryKey: done ? "done" : "new" },
+  issueType: { id: "1", name: "Story", subtask: false },
+  project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+  assignee: { accountId: "carol", displayName: "Carol", active: true },
+  created: "2024-01-01T00:00:00.000Z",
+  updated: "2024-01-01T00:00:00.000Z",
+  labels: [],
+  components: [],
+  storyPoints,
+  ...(timeSpentSeconds !== undefined && { timeTracking: { timeSpentSeconds } }),
+});
+
+const worklog = (author: string, started: string, hours: number): JiraWorklog => ({
+  id: `${author}-${started}`,
+  author: { accountId: author, displayName: author, active: true },
+  started,
+  timeSpentSeconds: hours * 3600,
+  created: started,
+  updated: started,
+});
+
+describe("durations", () => {
+  it("should parse Jira notation with 8h days and 5d weeks", () => {
+    expect(parseDuration("1w 2d 3h 30m")).toBe((40 + 16 + 3.5) * 3600);
+    expect(parseDuration("1.5h")).toBe(5400);
+    expect(parseDuration("90")).toBe(5400);
+    expect(parseDuration("2x")).toBeUndefined();
+    expect(parseDuration("")).toBeUndefined();
+  });
+
+  it("should format seconds as the largest units", () => {
+    expect(formatDuration(10 * 3600 + 30 * 60)).toBe("1d 2h 30m");
+    expect(formatDuration(40 * 3600)).toBe("1w");
+    expect(formatDuration(0)).toBe("0m");
+  });
+});
+
+describe("analyzeTimeTracking", () => {
+  const sprint1 = sprint(1, "2024-01-01T00:00:00.000Z", "2024-01-12T23:59:59.000Z");
+
+  it("should count only work logged during the sprint", () => {
+    const worklogs = new Map([
+      [
+        "PROJ-1",
+        [
+          worklog("alice", "2024-01-02T09:00:00.000Z", 16),
+          worklog("bob", "2024-01-03T09:00:00.000Z", 8),
+          worklog("alice", "2024-01-20T09:00:00.000Z", 40),
+        ],
+      ],
+    ]);
+
+    const result = analyzeTimeTracking([{ sprint: sprint1, issues: [issue("PROJ-1", 6)] }], worklogs);
+
+    expect(result.sprints[0]).toMatchObject({
+      completedPoints: 6,
+      loggedHours: 24,
+      loggedPersonDays: 3,
+      contributors: 2,
+      pointsPerPersonDay: 2,
+    });
+    expect(result.hoursPerPoint).toBe(4);
+    expect(result.averageContributors).toBe(2);
+  });
+
+  it("should leave completed issues without logged work out of the rate", () => {
+    const worklogs = new Map([
+      ["PROJ-1", [worklog("alice", "2024-01-02T09:00:00.000Z", 24)]],
+      ["PROJ-2", [worklog("alice", "2024-01-20T09:00:00.000Z", 8)]],
+      ["PROJ-3", []],
+    ]);
+
+    const result = analyzeTimeTracking(
+      [{ sprint: sprint1, issues: [issue("PROJ-1", 6), issue("PROJ-2", 4), issue("PROJ-3", 2)] }],
+      worklogs
+    );
+
+    expect(result.sprints[0]).toMatchObject({ completedPoints: 6, unloggedPoints: 6, pointsPerPersonDay: 2 });
+    expect(result.totalUnloggedPoints).toBe(6);
+    expect(result.hoursPerPoint).toBe(4);
+  });
+
+  it("should fall back to time spent and ignore sprints without logged work", () => {
+    const result = analyzeTimeTracking([
+      { sprint: sprint1, issues: [issue("PROJ-1", 4, true, 8 * 3600), issue("PROJ-2", 3, false)] },
+      { sprint: sprint(2, "2024-01-15T00:00:00.000Z", "2024-01-26T00:00:00.000Z"), issues: [issue("PROJ-3", 5)] },
+    ]);
+
+    expect(result.sprintsWithLoggedWork).toBe(1);
+    expect(result.sprints[0]?.contributors).toBe(1);
+    expect(result.sprints[1]?.pointsPerPersonDay).toBeUndefined();
+    expect(result.totalCompletedPoints).toBe(4);
+    expect(result.pointsPerPersonDay).toBe(4);
+  });
+
+  it("should feed the measured rate and team size into the capacity forecast", () => {
+    const timeTracking = analyzeTimeTracking(
+      [{ sprint: sprint1, issues: [issue("PROJ-1", 6)] }],
+      new Map([["PROJ-1", [worklog("alice", "2024-01-02T09:00:00.000Z", 12), worklog("bob", "2024-01-02T09:00:00.000Z", 12)]]])
+    );
+
+    const forecast = forecastCapacity(undefined, { sprintDays: 10, timeTracking });
+
+    expect(forecast.pointsPerPersonDay).toBe(2);
+    expect(forecast.totalCapacity).toBe(20);
+  });
+});
+
+describe("devflow_capacity_forecast worklogs", () => {
+  it("should leave issues beyond the worklog cap out of the measured rate", async () => {
+    const closed = {
+      ...sprint(1, "2024-01-01T00:00:00.000Z", "2024-01-12T23:59:59.000Z"),
+      completeDate: "2024-01-12T23:59:59.000Z",
+    };
+    // 101 done issues with time logged; the last one has a large lifetime total
+    const issues = Array.from({ length: 101 }, (_, index) => ({
+      ...issue(`PROJ-${index + 1}`, 1, true, index === 100 ? 400 * 3600 : 8 * 3600),
+      sprint: closed,
+    }));
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const client = {
+      searchJql: vi.fn().mockResolvedValue({ issues, isLast: true }),
+      getWorklogs: vi.fn(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await Promise.resolve();
+        inFlight--;
+        const worklogs = [worklog("alice", "2024-01-02T09:00:00.000Z", 8)];
+        return { worklogs, startAt: 0, maxResults: 1000, total: 1 };
+      }),
+    };
+
+    const result = await executeCapacityForecast(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      velocitySprintCount: 3,
+    });
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+
+    expect(client.getWorklogs).toHaveBeenCalledTimes(100);
+    expect(maxInFlight).toBeGreaterThan(1);
+    expect(parsed.timeTracking.loggedHours).toBe(800);
+    expect(parsed.timeTracking.pointsPerPersonDay).toBe(1);
+    expect(parsed.timeTracking.note).toContain("1 other issue(s)");
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Tests for OAuth 2.0 (3LO) authentication against a local mock
+ * authorization server and API gateway.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import { mkdtempSync, rmSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  OAuthSession,
+  computeCodeChallenge,
+  configureOAuthTokenStore,
+  createMemoryTokenStore,
+  createEncryptedFileTokenStore,
+  type OAuthTokenStore,
+  type OAuthTokenSet,
+} from "../../auth/index.js";
+import { JiraClient } from "../../domain/jira-client.js";
+import type { JiraConfig, OAuthAuthConfig } from "../../config/index.js";
+
+const SITE_URL = "https://example.atlassian.net";
+const CLOUD_ID = "cloud-123";
+
+/**
+ * Minimal mock of the Atlassian authorization server and API gateway.
+ */
+interface MockAuthServer {
+  url: string;
+  /** Access tokens accepted by the API gateway */
+  validTokens: Set<string>;
+  /** Number of token endpoint calls per grant type */
+  grants: Record<string, number>;
+  close: () => Promise<void>;
+}
+
+function readBody(req: IncomingMessage): Promise<Record<string, string>> {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk: Buffer) => (data += chunk.toString()));
+    req.on("end", () => resolve(data ? (JSON.parse(data) as Record<string, string>) : {}));
+  });
+}
+
+async function startMockAuthServer(): Promise<MockAuthServer> {
+  const challenges = new Map<string, string>();
+  const validTokens = new Set<string>();
+  const grants: Record<string, number> = {};
+  let issued = 0;
+
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const send = (status: number, body: unknown): void => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    const issueTokens = (): void => {
+      issued++;
+      const accessToken = `access-${issued}`;
+      validTokens.add(accessToken);
+      send(200, {
+        access_token: accessToken,
+        refresh_token: `refresh-${issued}`,
+        token_type: "Bearer",
+        expires_in: 3600,
+        scope: "read:jira-work offline_access",
+      });
+    };
+
+    // Test hook: register the challenge an authorization code is bound to
+    if (url.pathname === "/test/authorize") {
+      challenges.set(url.searchParams.get("code") ?? "", url.searchParams.get("challenge") ?? "");
+      send(200, {});
+      return;
+    }
+
+    if (url.pathname === "/oauth/token" && req.method === "POST") {
+      void readBody(req).then((body) => {
+        const grantType = body["grant_type"] ?? "";
+        grants[grantType] = (grants[grantType] ?? 0) + 1;
+
+        if (grantType === "authorization_code") {
+          const expected = challenges.get(body["code"] ?? "");
+          if (!expected || computeCodeChallenge(body["code_verifier"] ?? "") !== expected) {
+            send(400, { error: "invalid_grant", error_description: "PKCE verification failed" });
+            return;
+          }
+          issueTokens();
+          return;
+        }
+
+        if (grantType === "refresh_token" && body["refresh_token"]?.startsWith("refresh-")) {
+          issueTokens();
+          return;
+        }
+
+        send(400, { error: "invalid_grant" });
+      });
+      return;
+    }
+
+    const token = (req.headers.authorization ?? "").replace(/^Bearer /, "");
+    if (!validTokens.has(token)) {
+      send(401, { message: "Unauthorized" });
+      return;
+    }
+
+    if (url.pathname === "/oauth/token/accessible-resources") {
+      send(200, [
+        { id: "other-cloud", url: "https://other.atlassian.net", name: "Other", scopes: [] },
+        { id: CLOUD_ID, url: SITE_URL, name: "Example", scopes: ["read:jira-work"] },
+      ]);
+      return;
+    }
+
+    if (url.pathname === `/ex/jira/${CLOUD_ID}/rest/api/3/serverInfo`) {
+      send(200, {
+        baseUrl: SITE_URL,
+        version: "1001.0.0",
+        deploymentType: "Cloud",
+        buildNumber: 100,
+        serverTitle: "Example",
+      });
+      return;
+    }
+
+    if (url.pathname === `/ex/jira/${CLOUD_ID}/rest/api/3/myself`) {
+      send(200, { displayName: "OAuth User", emailAddress: "oauth@example.com" });
+      return;
+    }
+
+    send(404, {});
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    validTokens,
+    grants,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe("OAuth 2.0", () => {
+  let mock: MockAuthServer;
+  let oauthConfig: OAuthAuthConfig;
+  let store: OAuthTokenStore;
+
+  /**
+   * Simulates the user approving access: the mock server binds a code
+   * to the PKCE challenge from the authorization URL.
+   */
+  async function approve(authorizationUrl: string, code: string): Promise<string> {
+    const url = new URL(authorizationUrl);
+    const challenge = url.searchParams.get("code_challenge") ?? "";
+    await fetch(`${mock.url}/test/authorize?code=${code}&challenge=${challenge}`);
+    return url.searchParams.get("state") ?? "";
+  }
+
+  beforeEach(async () => {
+    mock = await startMockAuthServer();
+    store = createMemoryTokenStore();
+    configureOAuthTokenStore(store);
+    oauthConfig = {
+      type: "oauth",
+      clientId: "client-1",
+      redirectUri: "http://localhost:8765/callback",
+      scopes: ["read:jira-work", "offline_access"],
+      authorizationServerUrl: mock.url,
+      apiGatewayUrl: mock.url,
+    };
+  });
+
+  afterEach(async () => {
+    configureOAuthTokenStore(createMemoryTokenStore());
+    await mock.close();
+  });
+
+  describe("login", () => {
+    it("should build an authorization URL with a PKCE challenge", () => {
+      const session = new OAuthSession(oauthConfig, SITE_URL);
+      const pending = session.startLogin();
+      const url = new URL(pending.authorizationUrl);
+
+      expect(url.pathname).toBe("/authorize");
+      expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+      expect(url.searchParams.get("code_challenge")).toBe(computeCodeChallenge(pending.codeVerifier));
+      expect(url.searchParams.get("state")).toBe(pending.state);
+      expect(url.searchParams.get("scope")).toBe("read:jira-work offline_access");
+    });
+
+    it("should exchange the code with the verifier and resolve the cloud ID", async () => {
+      const session = new OAuthSession(oauthConfig, SITE_URL);
+      const state = await approve(session.startLogin().authorizationUrl, "code-1");
+
+      const status = await session.completeLogin("code-1", state);
+
+      expect(status.loggedIn).toBe(true);
+      expect(status.cloudId).toBe(CLOUD_ID);
+      expect(status.canRefresh).toBe(true);
+      expect(await session.getApiBaseUrl()).toBe(`${mock.url}/ex/jira/${CLOUD_ID}`);
+    });
+
+    it("should reject a callback with a different state", async () => {
+      const session = new OAuthSession(oauthConfig, SITE_URL);
+      await approve(session.startLogin().authorizationUrl, "code-1");
+
+      await expect(session.completeLogin("code-1", "forged")).rejects.toThrow(/State mismatch/);
+    });
+
+    it("should report login required when no tokens are stored", async () => {
+      const session = new OAuthSession(oauthConfig, SITE_URL);
+
+      await expect(session.getAccessToken()).rejects.toThrow(/jira_oauth_login/);
+    });
+  });
+
+  describe("JiraClient with OAuth", () => {
+    const createClient = (): JiraClient => {
+      const config: JiraConfig = {
+        baseUrl: SITE_URL,
+        auth: oauthConfig,
+        deployment: "cloud",
+        timeout: 5000,
+        maxRetries: 0,
+      };
+      return new JiraClient(config);
+    };
+
+    const storeTokens = (tokens: Partial<OAuthTokenSet>): void => {
+      store.save(`${oauthConfig.clientId}@${SITE_URL}`, {
+        accessToken: "stale",
+        refreshToken: "refresh-0",
+        tokenType: "Bearer",
+        expiresAt: new Date(Date.now() + 3600_000).toISOString(),
+        obtainedAt: new Date().toISOString(),
+        cloudId: CLOUD_ID,
+        ...tokens,
+      });
+    };
+
+    it("should call the API gateway with the access token", async () => {
+      mock.validTokens.add("valid");
+      storeTokens({ accessToken: "valid" });
+
+      const result = await createClient().verifyConnection();
+
+      expect(result.success).toBe(true);
+      expect(result.user?.displayName).toBe("OAuth User");
+      expect(mock.grants["refresh_token"]).toBeUndefined();
+    });
+
+    it("should refresh an expired access token before the request", async () => {
+      storeTokens({ expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+      const result = await createClient().verifyConnection();
+
+      expect(result.success).toBe(true);
+      expect(mock.grants["refresh_token"]).toBe(1);
+    });
+
+    it("should refresh once and retry after a 401", async () => {
+      // Token looks valid locally but was revoked server-side
+      storeTokens({ accessToken: "revoked" });
+
+      const result = await createClient().verifyConnection();
+
+      expect(result.success).toBe(true);
+      expect(mock.grants["refresh_token"]).toBe(1);
+    });
+
+    it("should require a new login when the refresh token is rejected", async () => {
+      storeTokens({
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+        refreshToken: "revoked",
+      });
+
+      const result = await createClient().verifyConnection();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/OAuth login required/);
+      expect(store.load(`${oauthConfig.clientId}@${SITE_URL}`)).toBeUndefined();
+    });
+  });
+
+  describe("encrypted token store", () => {
+    let dir: string;
+    const tokens: OAuthTokenSet = {
+      accessToken: "secret-access-token",
+      refreshToken: "secret-refresh-token",
+      tokenType: "Bearer",
+      expiresAt: "2030-01-01T00:00:00.000Z",
+      obtainedAt: "2029-12-31T23:00:00.000Z",
+    };
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "mcp-jira-oauth-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should round-trip tokens without writing them in plain text", () => {
+      const filePath = join(dir, "oauth-tokens.json");
+      createEncryptedFileTokenStore(filePath, { passphrase: undefined }).save("key", tokens);
+
+      const raw = readFileSync(filePath, "utf-8");
+      expect(raw).not.toContain("secret-access-token");
+      expect(raw).not.toContain("secret-refresh-token");
+
+      const reloaded = createEncryptedFileTokenStore(filePath, { passphrase: undefined });
+      expect(reloaded.load("key")).toEqual(tokens);
+    });
+
+    it("should refuse to decrypt with a different passphrase", () => {
+      const filePath = join(dir, "oauth-tokens.json");
+      createEncryptedFileTokenStore(filePath, { passphrase: "correct horse" }).save("key", tokens);
+
+      expect(createEncryptedFileTokenStore(filePath, { passphrase: "correct horse" }).load("key"))
+        .toEqual(tokens);
+      expect(() =>
+        createEncryptedFileTokenStore(filePath, { passphrase: "battery staple" }).load("key")
+      ).toThrow(/Cannot decrypt/);
+    });
+  });
+});
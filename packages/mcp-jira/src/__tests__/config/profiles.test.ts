@@ -0,0 +1,143 @@
+/**
+ * Tests for named connection profiles.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  tryLoadConfigFromEnv,
+  getMissingConfigFields,
+  getProfileNamesFromEnv,
+} from "../../config/index.js";
+import { JiraClient } from "../../domain/jira-client.js";
+import {
+  setConfigured,
+  setUnconfigured,
+  getClient,
+  getConfig,
+  getServerState,
+  getActiveProfileName,
+  updateFieldMappings,
+  getFieldMappings,
+  removeProfile,
+} from "../../server-state.js";
+import { executeProfiles } from "../../tools/profiles.js";
+
+const PROFILE_ENV = {
+  JIRA_BASE_URL: "https://product.atlassian.net",
+  JIRA_USER_EMAIL: "dev@example.com",
+  JIRA_API_TOKEN: "product-token",
+  JIRA_PROFILES: "it, bad name",
+  JIRA_PROFILE_IT_BASE_URL: "https://it.example.com",
+  JIRA_PROFILE_IT_PERSONAL_ACCESS_TOKEN: "it-pat",
+  JIRA_PROFILE_IT_FIELD_STORY_POINTS: "customfield_10100",
+};
+
+describe("connection profiles", () => {
+  describe("environment loading", () => {
+    beforeEach(() => {
+      for (const [key, value] of Object.entries(PROFILE_ENV)) {
+        vi.stubEnv(key, value);
+      }
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    });
+
+    it("should load named profiles from prefixed variables", () => {
+      expect(getProfileNamesFromEnv()).toEqual(["it"]);
+
+      const config = tryLoadConfigFromEnv("it");
+
+      expect(config?.baseUrl).toBe("https://it.example.com");
+      expect(config?.auth.type).toBe("bearer");
+      expect(config?.deployment).toBe("datacenter");
+      expect(config?.fieldMappings?.storyPoints).toBe("customfield_10100");
+    });
+
+    it("should keep the default profile on the base variables", () => {
+      const config = tryLoadConfigFromEnv();
+
+      expect(config?.baseUrl).toBe("https://product.atlassian.net");
+      expect(config?.auth.type).toBe("basic");
+    });
+
+    it("should report missing variables with the profile prefix", () => {
+      const missing = getMissingConfigFields("qa");
+
+      expect(missing.map((f) => f.envVar)).toEqual([
+        "JIRA_PROFILE_QA_BASE_URL",
+        "JIRA_PROFILE_QA_USER_EMAIL",
+        "JIRA_PROFILE_QA_API_TOKEN",
+      ]);
+      expect(tryLoadConfigFromEnv("qa")).toBeUndefined();
+    });
+  });
+
+  describe("server state", () => {
+    beforeEach(() => {
+      for (const [key, value] of Object.entries(PROFILE_ENV)) {
+        vi.stubEnv(key, value);
+      }
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const productConfig = tryLoadConfigFromEnv();
+      const itConfig = tryLoadConfigFromEnv("it");
+      if (!productConfig || !itConfig) {
+        throw new Error("Test profiles failed to load");
+      }
+      setConfigured(productConfig, new JiraClient(productConfig), undefined, "default");
+      setConfigured(itConfig, new JiraClient(itConfig), undefined, "it");
+    });
+
+    afterEach(() => {
+      setUnconfigured();
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    });
+
+    it("should resolve clients per profile and default to the active one", () => {
+      expect(getActiveProfileName()).toBe("it");
+      expect(getConfig()?.baseUrl).toBe("https://it.example.com");
+      expect(getConfig("default")?.baseUrl).toBe("https://product.atlassian.net");
+      expect(getClient("default")).not.toBe(getClient("it"));
+      expect(getClient("unknown")).toBeUndefined();
+
+      const state = getServerState("default");
+      expect(state.status === "configured" && state.profile).toBe("default");
+    });
+
+    it("should keep field mappings separate per profile", () => {
+      updateFieldMappings({ sprint: "customfield_10200" }, "default");
+
+      expect(getFieldMappings("default")?.sprintField).toBe("customfield_10200");
+      expect(getFieldMappings("it")?.sprintField).not.toBe("customfield_10200");
+      expect(getClient("default")?.getFieldMappings().sprintField).toBe("customfield_10200");
+    });
+
+    it("should switch the active profile with jira_profiles", () => {
+      const result = executeProfiles({ action: "switch", profile: "default" });
+      const response = JSON.parse(result.content[0]?.text ?? "{}");
+
+      expect(result.isError).toBeUndefined();
+      expect(response.activeProfile).toBe("default");
+      expect(response.profiles).toHaveLength(2);
+      expect(JSON.stringify(response)).not.toContain("it-pat");
+    });
+
+    it("should reject unknown profiles", () => {
+      const result = executeProfiles({ action: "switch", profile: "missing" });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("Configured profiles: default, it");
+    });
+
+    it("should activate a remaining profile when the active one is removed", () => {
+      expect(removeProfile("it")).toBe(true);
+
+      expect(getActiveProfileName()).toBe("default");
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for the ADF <-> Markdown converter.
+ *
+ * Golden files live in fixtures/adf: each <name>.json ADF document must
+ * render exactly as <name>.md, and the Markdown must survive a round trip.
+ * An optional <name>.input.md holds hand-written Markdown that must parse
+ * to the same ADF.
+ */
+
+import { describe, it, expect } from "vitest";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { adfToMarkdown, markdownToAdf, type AdfNode } from "../../domain/adf.js";
+import { mapIssue } from "../../domain/mappers.js";
+import { hasAcceptanceCriteria } from "../../guidance/rules.js";
+import { extractAcceptanceCriteria } from "../../git/pr-context-builder.js";
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures", "adf");
+
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => {
+    const name = file.replace(/\.json$/, "");
+    const inputPath = join(FIXTURES_DIR, `${name}.input.md`);
+    return {
+      name,
+      adf: JSON.parse(readFileSync(join(FIXTURES_DIR, file), "utf-8")) as unknown,
+      markdown: readFileSync(join(FIXTURES_DIR, `${name}.md`), "utf-8").trimEnd(),
+      input: existsSync(inputPath) ? readFileSync(inputPath, "utf-8").trimEnd() : undefined,
+    };
+  });
+
+/**
+ * Collects node types in document order.
+ */
+function nodeTypes(node: AdfNode): string[] {
+  return [node.type, ...(node.content ?? []).flatMap(nodeTypes)];
+}
+
+describe("ADF <-> Markdown", () => {
+  describe.each(fixtures)("golden file $name", ({ adf, markdown }) => {
+    it("should render ADF as the expected Markdown", () => {
+      expect(adfToMarkdown(adf)).toBe(markdown);
+    });
+
+    it("should round-trip the Markdown through ADF", () => {
+      expect(adfToMarkdown(markdownToAdf(markdown))).toBe(markdown);
+    });
+  });
+
+  describe.each(fixtures.filter((fixture) => fixture.input !== undefined))(
+    "hand-written golden file $name",
+    ({ adf, input }) => {
+      it("should parse the hand-written Markdown into the expected ADF", () => {
+        expect(markdownToAdf(input ?? "")).toEqual(adf);
+      });
+    }
+  );
+
+  describe("markdownToAdf", () => {
+    it("should build task lists from checklists", () => {
+      const doc = markdownToAdf("- [x] done\n- [ ] todo\n  - [ ] nested");
+      const list = doc.content[0];
+
+      expect(list?.type).toBe("taskList");
+      expect(list?.content?.map((item) => item.type)).toEqual(["taskItem", "taskItem", "taskList"]);
+      expect(list?.content?.[0]?.attrs?.["state"]).toBe("DONE");
+    });
+
+    it("should build tables with header cells", () => {
+      const doc = markdownToAdf("| A | B |\n| --- | --- |\n| 1 | 2 |");
+
+      expect(nodeTypes(doc)).toContain("tableHeader");
+      expect(nodeTypes(doc).filter((type) => type === "tableCell")).toHaveLength(2);
+    });
+
+    it("should keep plain text as paragraphs with hard breaks", () => {
+      const doc = markdownToAdf("Line one\nLine two\n\nNext paragraph");
+
+      expect(doc.content).toHaveLength(2);
+      expect(doc.content[0]?.content?.map((node) => node.type)).toEqual(["text", "hardBreak", "text"]);
+    });
+
+    it("should emit an empty paragraph for empty input", () => {
+      expect(markdownToAdf("").content).toEqual([{ type: "paragraph", content: [] }]);
+    });
+
+    it("should not combine code with other marks", () => {
+      const doc = markdownToAdf("**bold `code`**");
+      const code = doc.content[0]?.content?.find((node) => node.text === "code");
+
+      expect(code?.marks).toEqual([{ type: "code" }]);
+    });
+  });
+
+  describe("acceptance criteria in ADF descriptions", () => {
+    const issueWithDescription = (description: unknown) =>
+      mapIssue({
+        id: "1",
+        key: "PROJ-1",
+        self: "https://example.atlassian.net/rest/api/3/issue/1",
+        fields: {
+          summary: "Export sprint report",
+          description,
+          status: { id: "1", name: "Open", statusCategory: { key: "new" } },
+          issuetype: { id: "1", name: "Story", subtask: false },
+          project: { id: "1", key: "PROJ", name: "Project" },
+          created: "2024-01-01T00:00:00.000Z",
+          updated: "2024-01-02T00:00:00.000Z",
+        },
+      });
+
+    it("should detect and extract criteria from a checklist", () => {
+      const checklist = fixtures.find((f) => f.name === "acceptance-criteria-checklist");
+      const issue = issueWithDescription(checklist?.adf);
+
+      expect(hasAcceptanceCriteria(issue.description)).toBe(true);
+      expect(extractAcceptanceCriteria(issue.description)).toContain("- [ ] Export includes **story points**");
+    });
+
+    it("should detect and extract criteria from a table", () => {
+      const table = fixtures.find((f) => f.name === "acceptance-criteria-table");
+      const issue = issueWithDescription(table?.adf);
+
+      expect(hasAcceptanceCriteria(issue.description)).toBe(true);
+      expect(extractAcceptanceCriteria(issue.description)).toContain("a closed sprint");
+    });
+  });
+});
@@ -14,6 +14,7 @@ import {
   mapIssueCompact,
   mapComment,
   mapSprint,
+  mapSprintRemovedIssueKeys,
   extractStoryPoints,
   extractSprints,
   STORY_POINTS_FIELD_CANDIDATES,
@@ -58,6 +59,19 @@ describe("mappers", () => {
       expect(result.avatarUrl).toBeUndefined();
       expect(result.active).toBe(true);
     });
+
+    it("should use the username for Data Center users", () => {
+      const raw = {
+        name: "jdoe",
+        key: "JIRAUSER10100",
+        displayName: "John Doe",
+      };
+
+      const result = mapUser(raw);
+
+      expect(result.accountId).toBe("jdoe");
+      expect(result.displayName).toBe("John Doe");
+    });
   });
 
   describe("mapStatus", () => {
@@ -326,12 +340,19 @@ describe("mappers", () => {
           displayName: "John Doe",
         },
         body: {
+          type: "doc",
+          version: 1,
           content: [
             {
-              content: [{ text: "Hello " }, { text: "World" }],
+              type: "paragraph",
+              content: [
+                { type: "text", text: "Hello " },
+                { type: "text", text: "World", marks: [{ type: "strong" }] },
+              ],
             },
             {
-              content: [{ text: "Second line" }],
+              type: "paragraph",
+              content: [{ type: "text", text: "Second line" }],
             },
           ],
         },
@@ -341,8 +362,8 @@ describe("mappers", () => {
 
       const result = mapComment(raw);
 
-      // Each content block creates a new line, text within blocks is separated by newlines too
-      expect(result.body).toBe("Hello \nWorld\nSecond line");
+      // ADF is converted to Markdown: paragraphs and formatting are kept
+      expect(result.body).toBe("Hello **World**\n\nSecond line");
     });
   });
 
@@ -545,6 +566,24 @@ describe("mappers", () => {
     });
   });
 
+  describe("mapSprintRemovedIssueKeys", () => {
+    it("should map the issues removed from the sprint report", () => {
+      const raw = {
+        contents: {
+          completedIssues: [{ key: "PROJ-1" }],
+          puntedIssues: [{ key: "PROJ-2" }, { key: "PROJ-3" }],
+        },
+      };
+
+      expect(mapSprintRemovedIssueKeys(raw)).toEqual(["PROJ-2", "PROJ-3"]);
+    });
+
+    it("should handle reports without removed issues", () => {
+      expect(mapSprintRemovedIssueKeys({ contents: {} })).toEqual([]);
+      expect(mapSprintRemovedIssueKeys({})).toEqual([]);
+    });
+  });
+
   describe("extractStoryPoints", () => {
     it("should extract story points from first matching custom field", () => {
       const fields = {
@@ -690,6 +729,30 @@ describe("mappers", () => {
 
       expect(result.sprint?.id).toBe(1);
     });
+
+    it("should parse legacy Data Center sprint strings", () => {
+      const fields = {
+        customfield_10020: [
+          "com.atlassian.greenhopper.service.sprint.Sprint@1a2b3c[id=11,rapidViewId=3,state=CLOSED,name=Sprint 11,startDate=2024-01-01T09:00:00.000Z,endDate=2024-01-14T17:00:00.000Z,completeDate=2024-01-14T18:00:00.000Z,sequence=11,goal=<null>]",
+          "com.atlassian.greenhopper.service.sprint.Sprint@4d5e6f[id=12,rapidViewId=3,state=ACTIVE,name=Sprint 12, hardening,startDate=2024-01-15T09:00:00.000Z,endDate=2024-01-28T17:00:00.000Z,completeDate=<null>,sequence=12,goal=Ship it]",
+        ],
+      };
+
+      const result = extractSprints(fields);
+
+      expect(result.sprints).toHaveLength(2);
+      expect(result.sprints?.[0]?.state).toBe("closed");
+      expect(result.sprints?.[0]?.goal).toBeUndefined();
+      expect(result.sprint).toEqual({
+        id: 12,
+        name: "Sprint 12, hardening",
+        state: "active",
+        startDate: "2024-01-15T09:00:00.000Z",
+        endDate: "2024-01-28T17:00:00.000Z",
+        completeDate: undefined,
+        goal: "Ship it",
+      });
+    });
   });
 
   describe("mapIssue with sprint and storyPoints", () => {
@@ -0,0 +1,159 @@
+/**
+ * Tests for the Jira API rate limiter.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  RateLimiter,
+  parseRetryDelay,
+  withRequestPriority,
+  getRequestPriority,
+} from "../../domain/rate-limiter.js";
+import { JiraClient } from "../../domain/jira-client.js";
+import { ResponseCache } from "../../domain/response-cache.js";
+import type { JiraConfig } from "../../config/index.js";
+
+describe("RateLimiter", () => {
+  it("should cap concurrent requests", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxInFlight: 2 });
+    const granted: number[] = [];
+
+    const releases = await Promise.all([limiter.acquire(), limiter.acquire()]);
+    const third = limiter.acquire().then((release) => {
+      granted.push(3);
+      return release;
+    });
+
+    await Promise.resolve();
+    expect(granted).toEqual([]);
+
+    releases[0]?.();
+    (await third)();
+    expect(granted).toEqual([3]);
+  });
+
+  it("should serve interactive requests before queued bulk requests", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxInFlight: 2 });
+    const order: string[] = [];
+
+    const interactive = await limiter.acquire("interactive");
+    const bulk = await limiter.acquire("bulk");
+
+    const queued = [
+      limiter.acquire("bulk").then((release) => (order.push("bulk"), release)),
+      limiter.acquire("interactive").then((release) => (order.push("interactive"), release)),
+    ];
+
+    interactive();
+    bulk();
+    for (const release of await Promise.all(queued)) {
+      release();
+    }
+
+    expect(order).toEqual(["interactive", "bulk"]);
+  });
+
+  it("should keep one slot free for interactive requests", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxInFlight: 2 });
+    let bulkGranted = false;
+
+    await limiter.acquire("bulk");
+    void limiter.acquire("bulk").then(() => (bulkGranted = true));
+    const interactive = await limiter.acquire("interactive");
+
+    expect(bulkGranted).toBe(false);
+    interactive();
+  });
+
+  it("should pause dispatching while rate limited", async () => {
+    vi.useFakeTimers();
+    try {
+      const limiter = new RateLimiter({ requestsPerSecond: 0 });
+      let granted = false;
+
+      limiter.pauseFor(2000);
+      void limiter.acquire().then(() => (granted = true));
+
+      await vi.advanceTimersByTimeAsync(1500);
+      expect(granted).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(600);
+      expect(granted).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should propagate request priority through async calls", async () => {
+    const priority = await withRequestPriority("bulk", async () => {
+      await Promise.resolve();
+      return getRequestPriority();
+    });
+
+    expect(priority).toBe("bulk");
+    expect(getRequestPriority()).toBe("interactive");
+  });
+});
+
+describe("parseRetryDelay", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  it("should read Retry-After seconds and HTTP dates", () => {
+    expect(parseRetryDelay(new Headers({ "Retry-After": "3" }), now)).toBe(3000);
+    expect(
+      parseRetryDelay(new Headers({ "Retry-After": "Wed, 01 Jan 2025 00:00:05 GMT" }), now)
+    ).toBe(5000);
+  });
+
+  it("should fall back to X-RateLimit-Reset", () => {
+    expect(
+      parseRetryDelay(new Headers({ "X-RateLimit-Reset": "2025-01-01T00:00:10Z" }), now)
+    ).toBe(10000);
+    expect(parseRetryDelay(new Headers(), now)).toBeUndefined();
+  });
+});
+
+describe("JiraClient rate limit handling", () => {
+  const config: JiraConfig = {
+    baseUrl: "https://example.atlassian.net",
+    auth: { type: "basic", email: "dev@example.com", apiToken: "token" },
+    deployment: "cloud",
+    timeout: 5000,
+    maxRetries: 2,
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should retry a 429 after the Retry-After delay", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 429, headers: { "Retry-After": "0" } }))
+      .mockResolvedValueOnce(Response.json([{ id: "summary", name: "Summary", custom: false }]));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = new JiraClient(
+      config,
+      undefined,
+      undefined,
+      new ResponseCache({ enabled: false }),
+      new RateLimiter()
+    );
+    const fields = await client.getFields();
+
+    expect(fields).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up when Jira asks to wait too long", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(new Response(null, { status: 429, headers: { "Retry-After": "3600" } }))
+    );
+
+    const client = new JiraClient(config, undefined, undefined, undefined, new RateLimiter());
+
+    await expect(client.getFields()).rejects.toThrow(/retry after 3600 seconds/);
+  });
+});
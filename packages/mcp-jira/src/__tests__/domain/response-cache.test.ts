@@ -0,0 +1,185 @@
+/**
+ * Tests for the Jira API response cache.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ResponseCache, type CacheRequest } from "../../domain/response-cache.js";
+import { JiraClient } from "../../domain/jira-client.js";
+import type { JiraConfig } from "../../config/index.js";
+
+const closedSprintSearch: CacheRequest = {
+  method: "POST",
+  api: "rest",
+  path: "/search/jql",
+  body: { jql: 'project = "PROJ" AND sprint in closedSprints()', maxResults: 50 },
+};
+
+const openSprintSearch: CacheRequest = {
+  method: "POST",
+  api: "rest",
+  path: "/search/jql",
+  body: { jql: 'project = "PROJ" AND sprint in openSprints()', maxResults: 50 },
+};
+
+const searchResponse = (...keys: string[]) => ({
+  issues: keys.map((key, i) => ({ id: String(i), key, fields: {} })),
+});
+
+describe("ResponseCache", () => {
+  let now: number;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    now = 0;
+    cache = new ResponseCache({ now: () => now });
+  });
+
+  it("should expire entries per resource kind", () => {
+    cache.set(closedSprintSearch, searchResponse("PROJ-1"));
+    cache.set(openSprintSearch, searchResponse("PROJ-2"));
+
+    now = 60 * 1000;
+
+    expect(cache.get(closedSprintSearch)?.fresh).toBe(true);
+    expect(cache.get(openSprintSearch)).toBeUndefined();
+
+    const stats = cache.getStats();
+    expect(stats.byResource["closed-sprint"].hits).toBe(1);
+    expect(stats.byResource["active-sprint"].misses).toBe(1);
+  });
+
+  it("should use the closed-sprint TTL for issues of a sprint known to be closed", () => {
+    const sprint: CacheRequest = { method: "GET", api: "agile", path: "/sprint/7" };
+    const sprintIssues: CacheRequest = { method: "GET", api: "agile", path: "/sprint/7/issue" };
+
+    cache.set(sprint, { id: 7, state: "closed", name: "Sprint 7" });
+    cache.set(sprintIssues, searchResponse("PROJ-1"));
+
+    expect(cache.getStats().byResource["closed-sprint"].entries).toBe(2);
+  });
+
+  it("should invalidate entries containing an updated issue", () => {
+    const issue: CacheRequest = { method: "GET", api: "rest", path: "/issue/PROJ-1" };
+    cache.set(issue, { key: "PROJ-1" });
+    cache.set(closedSprintSearch, searchResponse("PROJ-1"));
+    cache.set({ ...closedSprintSearch, body: { jql: "sprint in closedSprints()", maxResults: 10 } },
+      searchResponse("PROJ-9"));
+    cache.set(openSprintSearch, searchResponse("PROJ-2"));
+
+    const removed = cache.invalidateAfterWrite({ method: "PUT", api: "rest", path: "/issue/proj-1" });
+
+    // The issue itself, the closed-sprint search containing it, and the open search
+    expect(removed).toBe(3);
+    expect(cache.getStats().entries).toBe(1);
+  });
+
+  it("should invalidate closedSprints() searches when a sprint is updated", () => {
+    cache.set(closedSprintSearch, searchResponse("PROJ-1"));
+
+    cache.invalidateAfterWrite({ method: "PUT", api: "agile", path: "/sprint/7" });
+
+    expect(cache.get(closedSprintSearch)).toBeUndefined();
+  });
+
+  it("should clear everything after a write it cannot attribute", () => {
+    cache.set(closedSprintSearch, searchResponse("PROJ-1"));
+
+    expect(cache.invalidateAfterWrite({ method: "POST", api: "rest", path: "/unknown" })).toBe(1);
+  });
+
+  it("should not treat search POSTs as writes", () => {
+    expect(cache.isWrite(closedSprintSearch)).toBe(false);
+    expect(cache.isWrite({ method: "POST", api: "agile", path: "/sprint/7/issue" })).toBe(true);
+    expect(cache.isCacheable({ method: "GET", api: "rest", path: "/myself" })).toBe(false);
+  });
+
+  it("should evict the least recently used entry", () => {
+    cache = new ResponseCache({ maxEntries: 2, now: () => now });
+    const issue = (key: string): CacheRequest => ({ method: "GET", api: "rest", path: `/issue/${key}` });
+
+    cache.set(issue("PROJ-1"), { key: "PROJ-1" });
+    cache.set(issue("PROJ-2"), { key: "PROJ-2" });
+    cache.get(issue("PROJ-1"));
+    cache.set(issue("PROJ-3"), { key: "PROJ-3" });
+
+    expect(cache.get(issue("PROJ-1"))).toBeDefined();
+    expect(cache.get(issue("PROJ-2"))).toBeUndefined();
+    expect(cache.getStats().evictions).toBe(1);
+  });
+});
+
+describe("JiraClient response caching", () => {
+  const config: JiraConfig = {
+    baseUrl: "https://example.atlassian.net",
+    auth: { type: "basic", email: "dev@example.com", apiToken: "token" },
+    deployment: "cloud",
+    timeout: 5000,
+    maxRetries: 0,
+  };
+
+  const rawIssue = {
+    id: "10001",
+    key: "PROJ-1",
+    self: "https://example.atlassian.net/rest/api/3/issue/10001",
+    fields: {
+      summary: "Cached issue",
+      status: { id: "1", name: "Open", statusCategory: { key: "new" } },
+      issuetype: { id: "1", name: "Bug", subtask: false },
+      project: { id: "1", key: "PROJ", name: "Project" },
+      created: "2024-01-01T00:00:00.000Z",
+      updated: "2024-01-02T00:00:00.000Z",
+      labels: [],
+      components: [],
+    },
+  };
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let now: number;
+  let client: JiraClient;
+
+  beforeEach(() => {
+    now = 0;
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    client = new JiraClient(config, undefined, undefined, new ResponseCache({ now: () => now }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should serve repeated reads from the cache and refetch after a write", async () => {
+    fetchMock.mockImplementation((_url: string, init: RequestInit) =>
+      Promise.resolve(
+        init.method === "PUT"
+          ? new Response(null, { status: 204 })
+          : Response.json(rawIssue)
+      )
+    );
+
+    await client.getIssue("PROJ-1");
+    await client.getIssue("PROJ-1");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await client.updateIssue({ issueKey: "PROJ-1", summary: "Renamed" });
+    await client.getIssue("PROJ-1");
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(client.getCacheStats().hits).toBe(1);
+  });
+
+  it("should revalidate expired entries with their ETag", async () => {
+    fetchMock
+      .mockResolvedValueOnce(Response.json(rawIssue, { headers: { ETag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await client.getIssue("PROJ-1");
+    now = 5 * 60 * 1000;
+    const issue = await client.getIssue("PROJ-1");
+
+    const headers = fetchMock.mock.calls[1]?.[1]?.headers as Record<string, string>;
+    expect(headers["If-None-Match"]).toBe('"v1"');
+    expect(issue.summary).toBe("Cached issue");
+    expect(client.getCacheStats().revalidations).toBe(1);
+  });
+});
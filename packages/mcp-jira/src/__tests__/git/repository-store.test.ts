@@ -0,0 +1,155 @@
+/**
+ * Tests for the repository store and its persistence backends.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  linkRepository,
+  getProjectRepository,
+  unlinkRepository,
+  getRepositoryCount,
+  configureRepositoryStore,
+  getRepositoryStoreInfo,
+  clearAllMappings,
+} from "../../git/repository-store.js";
+import {
+  createJsonFileBackend,
+  createMemoryBackend,
+  REPOSITORY_STORE_SCHEMA_VERSION,
+} from "../../git/repository-backend.js";
+
+describe("repository store", () => {
+  let dataDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), "mcp-jira-repos-"));
+    filePath = join(dataDir, "repositories.json");
+    configureRepositoryStore(createJsonFileBackend(filePath));
+  });
+
+  afterEach(() => {
+    configureRepositoryStore(createMemoryBackend());
+    rmSync(dataDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe("JSON file backend", () => {
+    it("should persist links across a restart", () => {
+      const result = linkRepository("proj", "https://github.com/acme/app.git", {
+        defaultBranch: "develop",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.persisted).toBe(true);
+
+      // Simulate a server restart with a fresh backend on the same file
+      configureRepositoryStore(createJsonFileBackend(filePath));
+
+      const mapping = getProjectRepository("PROJ");
+      expect(mapping?.repository.url).toBe("https://github.com/acme/app.git");
+      expect(mapping?.repository.defaultBranch).toBe("develop");
+      expect(mapping?.repository.provider).toBe("github");
+    });
+
+    it("should write a versioned document", () => {
+      linkRepository("PROJ", "https://github.com/acme/app");
+
+      const document = JSON.parse(readFileSync(filePath, "utf-8"));
+      expect(document.schemaVersion).toBe(REPOSITORY_STORE_SCHEMA_VERSION);
+      expect(document.repositories).toHaveLength(1);
+      expect(document.repositories[0].projectKey).toBe("PROJ");
+    });
+
+    it("should persist unlinking", () => {
+      linkRepository("PROJ", "https://github.com/acme/app");
+      expect(unlinkRepository("PROJ")).toBe(true);
+
+      configureRepositoryStore(createJsonFileBackend(filePath));
+      expect(getRepositoryCount()).toBe(0);
+    });
+
+    it("should leave the stored mappings alone when clearing memory", () => {
+      linkRepository("PROJ", "https://github.com/acme/app");
+      clearAllMappings();
+      expect(getRepositoryCount()).toBe(0);
+
+      configureRepositoryStore(createJsonFileBackend(filePath));
+      expect(getRepositoryCount()).toBe(1);
+    });
+
+    it("should fill in derived fields for hand-written entries", () => {
+      writeFileSync(
+        filePath,
+        JSON.stringify({
+          schemaVersion: 1,
+          repositories: [
+            { projectKey: "web", repository: { url: "git@gitlab.com:acme/web.git" } },
+          ],
+        })
+      );
+      configureRepositoryStore(createJsonFileBackend(filePath));
+
+      const mapping = getProjectRepository("WEB");
+      expect(mapping?.repository.name).toBe("web");
+      expect(mapping?.repository.defaultBranch).toBe("main");
+      expect(mapping?.repository.provider).toBe("gitlab");
+    });
+
+    it("should migrate a version 0 (bare array) file", () => {
+      writeFileSync(
+        filePath,
+        JSON.stringify([
+          {
+            projectKey: "OLD",
+            repository: { url: "https://github.com/acme/old", name: "old", defaultBranch: "main" },
+            linkedAt: "2024-01-01T00:00:00.000Z",
+          },
+        ])
+      );
+      configureRepositoryStore(createJsonFileBackend(filePath));
+
+      expect(getProjectRepository("OLD")?.linkedAt).toBe("2024-01-01T00:00:00.000Z");
+
+      linkRepository("NEW", "https://github.com/acme/new");
+      const document = JSON.parse(readFileSync(filePath, "utf-8"));
+      expect(document.schemaVersion).toBe(REPOSITORY_STORE_SCHEMA_VERSION);
+      expect(document.repositories).toHaveLength(2);
+    });
+
+    it("should not overwrite a file from a newer schema version", () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const newer = JSON.stringify({ schemaVersion: 99, repositories: [] });
+      writeFileSync(filePath, newer);
+      configureRepositoryStore(createJsonFileBackend(filePath));
+
+      const result = linkRepository("PROJ", "https://github.com/acme/app");
+
+      expect(result.success).toBe(true);
+      expect(getRepositoryStoreInfo().kind).toBe("memory");
+      expect(readFileSync(filePath, "utf-8")).toBe(newer);
+    });
+
+    it("should move a corrupt file aside and start empty", () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      writeFileSync(filePath, "{ not json");
+      configureRepositoryStore(createJsonFileBackend(filePath));
+
+      expect(getRepositoryCount()).toBe(0);
+      expect(readdirSync(dataDir).some((f) => f.startsWith("repositories.json.corrupt-"))).toBe(true);
+    });
+  });
+
+  describe("memory backend", () => {
+    it("should keep links for the session only", () => {
+      configureRepositoryStore(createMemoryBackend());
+      linkRepository("PROJ", "https://github.com/acme/app");
+
+      expect(getRepositoryStoreInfo()).toEqual({ kind: "memory", location: "memory" });
+      expect(getRepositoryCount()).toBe(1);
+    });
+  });
+});
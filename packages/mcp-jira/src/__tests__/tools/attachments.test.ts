@@ -0,0 +1,181 @@
+/**
+ * Tests for get_attachment and add_attachment tools.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { executeGetAttachment, decodeText } from "../../tools/get-attachment.js";
+import { executeAddAttachment, guessMimeType } from "../../tools/add-attachment.js";
+import { JiraApiError, JiraNotFoundError, type JiraClient } from "../../domain/jira-client.js";
+import { mapIssueExtended } from "../../domain/mappers.js";
+import type { JiraAttachment } from "../../domain/types.js";
+
+const attachment = (overrides: Partial<JiraAttachment> = {}): JiraAttachment => ({
+  id: "10001",
+  filename: "server.log",
+  mimeType: "text/plain",
+  size: 11,
+  created: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+/**
+ * Mock client serving one attachment with the given bytes.
+ */
+const createMockClient = (meta: JiraAttachment, content: Uint8Array) => ({
+  getAttachment: vi.fn().mockResolvedValue(meta),
+  getAttachmentContent: vi.fn((_id: string, maxBytes: number) =>
+    Promise.resolve({
+      attachment: meta,
+      bytes: content.subarray(0, maxBytes),
+      truncated: meta.size > maxBytes,
+    })
+  ),
+  addAttachment: vi.fn((input: { filename: string; content: Uint8Array; mimeType?: string }) =>
+    Promise.resolve(attachment({ id: "10002", filename: input.filename, size: input.content.length }))
+  ),
+});
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("get_attachment tool", () => {
+  it("should return text content", async () => {
+    const client = createMockClient(attachment(), new TextEncoder().encode("ERROR boom\n"));
+
+    const result = await executeGetAttachment(client as unknown as JiraClient, { attachmentId: "10001" });
+
+    expect(result.isError).toBeUndefined();
+    expect(parse(result)).toMatchObject({ truncated: false, content: "ERROR boom\n" });
+  });
+
+  it("should truncate at maxBytes without breaking a multi-byte character", async () => {
+    const bytes = new TextEncoder().encode("abcé");
+    const client = createMockClient(attachment({ size: bytes.length }), bytes);
+
+    const result = await executeGetAttachment(client as unknown as JiraClient, {
+      attachmentId: "10001",
+      maxBytes: 4,
+    });
+
+    expect(parse(result)).toMatchObject({ truncated: true, content: "abc" });
+  });
+
+  it("should not download attachments with a binary MIME type", async () => {
+    const client = createMockClient(attachment({ filename: "shot.png", mimeType: "image/png" }), new Uint8Array());
+
+    const result = await executeGetAttachment(client as unknown as JiraClient, { attachmentId: "10001" });
+
+    expect(parse(result).binary).toBe(true);
+    expect(client.getAttachmentContent).not.toHaveBeenCalled();
+  });
+
+  it("should detect binary content behind a generic MIME type", async () => {
+    const client = createMockClient(
+      attachment({ filename: "dump.bin", mimeType: "application/octet-stream" }),
+      new Uint8Array([0x7f, 0x45, 0x4c, 0x46, 0x00, 0x01])
+    );
+
+    const result = await executeGetAttachment(client as unknown as JiraClient, { attachmentId: "10001" });
+
+    expect(parse(result).binary).toBe(true);
+    expect(decodeText(new Uint8Array([0xff, 0xfe, 0x41]), false)).toBeUndefined();
+  });
+
+  it("should report missing attachments", async () => {
+    const client = createMockClient(attachment(), new Uint8Array());
+    client.getAttachment.mockRejectedValue(new JiraApiError("Not found", 404));
+
+    const result = await executeGetAttachment(client as unknown as JiraClient, { attachmentId: "999" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe("Attachment '999' not found");
+  });
+});
+
+describe("add_attachment tool", () => {
+  it("should upload text content with a guessed MIME type", async () => {
+    const client = createMockClient(attachment(), new Uint8Array());
+
+    const result = await executeAddAttachment(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      filename: "test-plan.md",
+      content: "# Test plan",
+    });
+
+    expect(parse(result)).toMatchObject({ success: true, attachment: { id: "10002", size: 11 } });
+    expect(client.addAttachment).toHaveBeenCalledWith(
+      expect.objectContaining({ issueKey: "PROJ-1", filename: "test-plan.md", mimeType: "text/markdown" })
+    );
+  });
+
+  it("should decode base64 content in a dry run", async () => {
+    const client = createMockClient(attachment(), new Uint8Array());
+
+    const result = await executeAddAttachment(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      filename: "pixel.png",
+      content: Buffer.from([1, 2, 3]).toString("base64"),
+      encoding: "base64",
+      dryRun: true,
+    });
+
+    expect(parse(result).wouldAttach).toEqual({ filename: "pixel.png", mimeType: "image/png", size: 3 });
+    expect(client.addAttachment).not.toHaveBeenCalled();
+  });
+
+  it("should reject file names with paths and invalid base64", async () => {
+    const client = createMockClient(attachment(), new Uint8Array());
+
+    const withPath = await executeAddAttachment(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      filename: "../plan.md",
+      content: "x",
+    });
+    const badBase64 = await executeAddAttachment(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      filename: "plan.bin",
+      content: "not base64!",
+      encoding: "base64",
+    });
+
+    expect(withPath.isError).toBe(true);
+    expect(badBase64.content[0]?.text).toContain("Invalid base64");
+    expect(guessMimeType("NOTES")).toBe("application/octet-stream");
+  });
+
+  it("should report missing issues", async () => {
+    const client = createMockClient(attachment(), new Uint8Array());
+    client.addAttachment.mockRejectedValue(new JiraNotFoundError("PROJ-9"));
+
+    const result = await executeAddAttachment(client as unknown as JiraClient, {
+      issueKey: "PROJ-9",
+      filename: "plan.md",
+      content: "x",
+    });
+
+    expect(result.content[0]?.text).toBe("Issue 'PROJ-9' not found");
+  });
+});
+
+describe("mapIssueExtended attachments", () => {
+  it("should map attachment metadata", () => {
+    const issue = mapIssueExtended({
+      id: "1",
+      key: "PROJ-1",
+      self: "",
+      fields: {
+        summary: "Crash",
+        status: { id: "1", name: "Open", statusCategory: { key: "new" } },
+        issuetype: { id: "1", name: "Bug", subtask: false },
+        project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+        created: "2024-01-01T00:00:00.000Z",
+        updated: "2024-01-01T00:00:00.000Z",
+        attachment: [
+          { id: 10001, filename: "server.log", mimeType: "text/plain", size: 11, created: "2024-01-01T00:00:00.000Z" },
+        ],
+      },
+    } as Parameters<typeof mapIssueExtended>[0]);
+
+    expect(issue.attachments).toEqual([attachment()]);
+  });
+});
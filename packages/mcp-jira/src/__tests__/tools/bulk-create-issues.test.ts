@@ -0,0 +1,229 @@
+/**
+ * Tests for bulk_create_issues tool and bulk issue creation.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { executeBulkCreateIssues } from "../../tools/bulk-create-issues.js";
+import { JiraClient } from "../../domain/jira-client.js";
+import { ResponseCache } from "../../domain/response-cache.js";
+import { RateLimiter } from "../../domain/rate-limiter.js";
+import type { BulkCreateIssueResult, CreateIssueInput } from "../../domain/types.js";
+import type { JiraConfig } from "../../config/index.js";
+
+const config: JiraConfig = {
+  baseUrl: "https://example.atlassian.net",
+  auth: { type: "basic", email: "dev@example.com", apiToken: "token" },
+  deployment: "cloud",
+  timeout: 5000,
+  maxRetries: 0,
+};
+
+/**
+ * Mock client numbering created issues PROJ-1, PROJ-2, ...; summaries in
+ * `failing` are rejected.
+ */
+const createMockClient = (failing: string[] = []) => {
+  let next = 1;
+  return {
+    createIssues: vi.fn((inputs: CreateIssueInput[]): Promise<BulkCreateIssueResult[]> =>
+      Promise.resolve(
+        inputs.map((input, index) => {
+          if (failing.includes(input.summary)) {
+            return { index, error: "issuetype: Invalid issue type" };
+          }
+          const key = `PROJ-${next++}`;
+          return { index, issue: { id: key, key, self: "" } };
+        })
+      )
+    ),
+    deleteIssue: vi.fn().mockResolvedValue(undefined),
+  };
+};
+
+const breakdown = [
+  { id: "epic", summary: "Checkout", issueTypeName: "Epic" },
+  { id: "s1", summary: "Cart", issueTypeName: "Story", parentId: "epic" },
+  { id: "s2", summary: "Payment", issueTypeName: "Story", parentId: "epic" },
+  { id: "t1", summary: "Card form", issueTypeName: "Sub-task", parentId: "s2" },
+];
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("bulk_create_issues tool", () => {
+  it("should create the tree level by level with resolved parent keys", async () => {
+    const client = createMockClient();
+
+    const result = await executeBulkCreateIssues(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      issues: breakdown,
+    });
+
+    expect(client.createIssues).toHaveBeenCalledTimes(3);
+    expect(client.createIssues.mock.calls[1]?.[0].map((input) => input.parentKey)).toEqual(["PROJ-1", "PROJ-1"]);
+    expect(client.createIssues.mock.calls[2]?.[0][0]?.parentKey).toBe("PROJ-3");
+    expect(parse(result)).toMatchObject({ success: true, created: 4 });
+  });
+
+  it("should reject unknown parents, cycles and duplicate IDs", async () => {
+    const client = createMockClient();
+
+    const result = await executeBulkCreateIssues(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      issues: [
+        { id: "a", summary: "A", issueTypeName: "Story", parentId: "b" },
+        { id: "b", summary: "B", issueTypeName: "Story", parentId: "a" },
+        { id: "b", summary: "C", issueTypeName: "Story", parentId: "missing" },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Duplicate local ID 'b'");
+    expect(result.content[0]?.text).toContain("form a cycle");
+    expect(result.content[0]?.text).toContain("Unknown parent ID 'missing'");
+    expect(client.createIssues).not.toHaveBeenCalled();
+  });
+
+  it("should skip children of failed issues and report per item", async () => {
+    const client = createMockClient(["Payment"]);
+
+    const result = parse(
+      await executeBulkCreateIssues(client as unknown as JiraClient, { projectKey: "PROJ", issues: breakdown })
+    );
+
+    expect(result).toMatchObject({ success: false, created: 2, failed: 1, skipped: 1 });
+    expect(result.results[2]).toMatchObject({ id: "s2", status: "failed", reason: "issuetype: Invalid issue type" });
+    expect(result.results[3]).toMatchObject({ id: "t1", status: "skipped" });
+    expect(client.deleteIssue).not.toHaveBeenCalled();
+  });
+
+  it("should delete created issues children first when rolling back", async () => {
+    const client = createMockClient(["Card form"]);
+
+    const result = parse(
+      await executeBulkCreateIssues(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        issues: breakdown,
+        rollbackOnFailure: true,
+      })
+    );
+
+    expect(client.deleteIssue.mock.calls.map(([key]) => key)).toEqual(["PROJ-3", "PROJ-2", "PROJ-1"]);
+    expect(result).toMatchObject({ created: 0, failed: 1, rolledBack: 3 });
+  });
+
+  it("should preview the tree in dry run mode", async () => {
+    const client = createMockClient();
+
+    const result = parse(
+      await executeBulkCreateIssues(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        issues: breakdown,
+        dryRun: true,
+      })
+    );
+
+    expect(result.wouldCreate[3]).toMatchObject({ id: "t1", level: 2, parent: "(new) s2" });
+    expect(client.createIssues).not.toHaveBeenCalled();
+  });
+});
+
+describe("JiraClient.createIssues", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should map partial failures of the bulk endpoint to their inputs", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      Response.json(
+        {
+          issues: [
+            { id: "1", key: "PROJ-1", self: "" },
+            { id: "3", key: "PROJ-3", self: "" },
+          ],
+          errors: [
+            {
+              status: 400,
+              failedElementNumber: 1,
+              elementErrors: { errorMessages: [], errors: { summary: "Summary is required" } },
+            },
+          ],
+        },
+        { status: 201 }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = new JiraClient(config, undefined, undefined, new ResponseCache({ enabled: false }));
+    const input = { projectKey: "PROJ", summary: "x", issueTypeName: "Story" };
+    const results = await client.createIssues([input, input, input]);
+
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/rest/api/3/issue/bulk");
+    expect(results).toEqual([
+      { index: 0, issue: { id: "1", key: "PROJ-1", self: "" } },
+      { index: 1, error: "summary: Summary is required" },
+      { index: 2, issue: { id: "3", key: "PROJ-3", self: "" } },
+    ]);
+  });
+
+  it("should keep the created issues when a later chunk fails", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        Response.json(
+          {
+            issues: Array.from({ length: 50 }, (_, i) => ({ id: `${i + 1}`, key: `PROJ-${i + 1}`, self: "" })),
+            errors: [],
+          },
+          { status: 201 }
+        )
+      )
+      .mockResolvedValueOnce(Response.json({ errorMessages: ["Internal error"] }, { status: 500 }))
+      .mockImplementation(() => Promise.resolve(new Response(null, { status: 204 })));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = new JiraClient(
+      config,
+      undefined,
+      undefined,
+      new ResponseCache({ enabled: false }),
+      new RateLimiter({ requestsPerSecond: 0 })
+    );
+    const issues = Array.from({ length: 52 }, (_, i) => ({
+      id: `i${i}`,
+      summary: `Issue ${i}`,
+      issueTypeName: "Story",
+    }));
+
+    const results = await client.createIssues(
+      issues.map((issue) => ({ projectKey: "PROJ", summary: issue.summary, issueTypeName: "Story" }))
+    );
+    expect(results.filter((result) => result.issue)).toHaveLength(50);
+    expect(results.slice(50).map((result) => result.index)).toEqual([50, 51]);
+    expect(results[51]?.error).toContain("status: 500");
+
+    // Through the tool, the created issues are tracked and rolled back
+    fetchMock.mockClear();
+    fetchMock
+      .mockResolvedValueOnce(
+        Response.json(
+          {
+            issues: Array.from({ length: 50 }, (_, i) => ({ id: `${i + 1}`, key: `PROJ-${i + 1}`, self: "" })),
+            errors: [],
+          },
+          { status: 201 }
+        )
+      )
+      .mockResolvedValueOnce(Response.json({ errorMessages: ["Internal error"] }, { status: 500 }));
+
+    const result = await executeBulkCreateIssues(client, {
+      projectKey: "PROJ",
+      issues,
+      rollbackOnFailure: true,
+    });
+    const parsed = parse(result);
+
+    expect(parsed).toMatchObject({ success: false, failed: 2, rolledBack: 50 });
+    expect(fetchMock.mock.calls.filter(([, init]) => init?.method === "DELETE")).toHaveLength(50);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for bulk_update tool.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { executeBulkUpdate } from "../../tools/bulk-update.js";
+import { JiraNotFoundError, type JiraClient } from "../../domain/jira-client.js";
+import type { JiraIssue } from "../../domain/types.js";
+
+const issue = (n: number, labels: string[] = [], status = "Ready for QA"): JiraIssue => ({
+  id: String(n),
+  key: `PROJ-${n}`,
+  self: "",
+  summary: `Issue ${n}`,
+  status: { id: "1", name: status, categoryKey: "indeterminate" },
+  issueType: { id: "1", name: "Story", subtask: false },
+  project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+  created: "2024-01-01T00:00:00.000Z",
+  updated: "2024-01-01T00:00:00.000Z",
+  labels,
+  components: [],
+});
+
+/**
+ * Mock client over a fixed set of issues; tracks the peak number of updates in flight.
+ */
+const createMockClient = (issues: JiraIssue[]) => {
+  let inFlight = 0;
+  const stats = { peak: 0 };
+
+  return {
+    stats,
+    searchJql: vi.fn().mockResolvedValue({ issues, startAt: 0, maxResults: 50, total: -1, isLast: true }),
+    getIssue: vi.fn((key: string) => {
+      const found = issues.find((candidate) => candidate.key === key);
+      return found ? Promise.resolve(found) : Promise.reject(new JiraNotFoundError(key));
+    }),
+    updateIssue: vi.fn(async () => {
+      inFlight++;
+      stats.peak = Math.max(stats.peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return { success: true };
+    }),
+    getTransitions: vi.fn().mockResolvedValue({
+      transitions: [
+        { id: "31", name: "Start QA", to: { id: "4", name: "QA", categoryKey: "indeterminate" } },
+      ],
+    }),
+    transitionIssue: vi.fn((input: { issueKey: string; transitionName: string }) =>
+      Promise.resolve({ success: true, issueKey: input.issueKey, transitionName: input.transitionName, newStatus: "QA" })
+    ),
+  };
+};
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("bulk_update tool", () => {
+  it("should preview label diffs and leave unchanged issues out", async () => {
+    const client = createMockClient([issue(1, ["old"]), issue(2, ["new"])]);
+
+    const result = parse(
+      await executeBulkUpdate(client as unknown as JiraClient, {
+        jql: "project = PROJ",
+        addLabels: ["new"],
+        removeLabels: ["old"],
+        dryRun: true,
+      })
+    );
+
+    expect(result).toMatchObject({ matched: 2, toChange: 1, unchanged: 1 });
+    expect(result.changes[0].diff).toEqual({ labels: { from: ["old"], to: ["new"] } });
+    expect(result.confirmationToken).toBeUndefined();
+    expect(client.updateIssue).not.toHaveBeenCalled();
+  });
+
+  it("should require the preview's confirmation token for large sets", async () => {
+    const issues = Array.from({ length: 12 }, (_, i) => issue(i + 1));
+    const client = createMockClient(issues);
+    const request = { jql: "project = PROJ", addLabels: ["cleanup"], concurrency: 3 };
+
+    const unconfirmed = await executeBulkUpdate(client as unknown as JiraClient, request);
+    const token = parse(unconfirmed).confirmationToken as string;
+
+    expect(unconfirmed.isError).toBe(true);
+    expect(token).toMatch(/^[0-9a-f]{12}$/);
+    expect(client.updateIssue).not.toHaveBeenCalled();
+
+    const wrongToken = await executeBulkUpdate(client as unknown as JiraClient, {
+      ...request,
+      addLabels: ["other"],
+      confirmationToken: token,
+    });
+    expect(wrongToken.isError).toBe(true);
+
+    const confirmed = parse(
+      await executeBulkUpdate(client as unknown as JiraClient, { ...request, confirmationToken: token })
+    );
+    expect(confirmed).toMatchObject({ success: true, updated: 12 });
+    expect(client.stats.peak).toBeLessThanOrEqual(3);
+  });
+
+  it("should transition by target status name and skip issues already there", async () => {
+    const client = createMockClient([issue(1), issue(2, [], "QA")]);
+
+    const result = parse(
+      await executeBulkUpdate(client as unknown as JiraClient, { jql: "status = 'Ready for QA'", transition: "QA" })
+    );
+
+    expect(client.transitionIssue).toHaveBeenCalledWith({ issueKey: "PROJ-1", transitionId: "31", transitionName: "Start QA" });
+    expect(result.results).toEqual([
+      { issueKey: "PROJ-1", status: "updated", changes: ["status"], newStatus: "QA" },
+      { issueKey: "PROJ-2", status: "unchanged" },
+    ]);
+  });
+
+  it("should report per-issue failures and missing keys", async () => {
+    const client = createMockClient([issue(1)]);
+    client.getTransitions.mockResolvedValue({ transitions: [] });
+
+    const result = parse(
+      await executeBulkUpdate(client as unknown as JiraClient, {
+        issueKeys: ["PROJ-1", "PROJ-404"],
+        priorityName: "High",
+        transition: "Done",
+      })
+    );
+
+    expect(result).toMatchObject({ success: false, updated: 0, failed: 2 });
+    expect(result.results[0]).toMatchObject({ issueKey: "PROJ-1", status: "failed", changes: ["priority"] });
+    expect(result.results[0].reason).toContain("Transition 'Done' not available");
+    expect(result.results[1]).toEqual({ issueKey: "PROJ-404", status: "failed", reason: "Issue not found" });
+  });
+
+  it("should require a selection and a change", async () => {
+    const client = createMockClient([]);
+
+    const result = await executeBulkUpdate(client as unknown as JiraClient, { jql: "project = PROJ" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Provide at least one change");
+  });
+});
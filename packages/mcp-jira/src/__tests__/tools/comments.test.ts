@@ -0,0 +1,191 @@
+/**
+ * Tests for add_comment, update_comment and delete_comment tools.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { executeAddComment } from "../../tools/add-comment.js";
+import { executeUpdateComment } from "../../tools/update-comment.js";
+import { executeDeleteComment } from "../../tools/delete-comment.js";
+import { JiraClient, JiraNotFoundError } from "../../domain/jira-client.js";
+import { ResponseCache } from "../../domain/response-cache.js";
+import { extractMentionNames, markdownToAdf } from "../../domain/adf.js";
+import type { JiraConfig } from "../../config/index.js";
+
+const cloudConfig: JiraConfig = {
+  baseUrl: "https://example.atlassian.net",
+  auth: { type: "basic", email: "dev@example.com", apiToken: "token" },
+  deployment: "cloud",
+  timeout: 5000,
+  maxRetries: 0,
+};
+
+const rawComment = {
+  id: "10100",
+  author: { accountId: "abc", displayName: "Dev", active: true },
+  body: { type: "doc", version: 1, content: [] },
+  created: "2024-01-01T00:00:00.000Z",
+  updated: "2024-01-01T00:00:00.000Z",
+  visibility: { type: "role", value: "Developers" },
+};
+
+const users = [
+  { accountId: "acc-jane", displayName: "Jane Doe", active: true },
+  { accountId: "acc-janet", displayName: "Janet Doe", active: true },
+];
+
+describe("comment mentions", () => {
+  it("should list mentioned names once", () => {
+    expect(extractMentionNames("@[Jane Doe] and @[jane doe], cc @[Bob]")).toEqual(["Jane Doe", "Bob"]);
+  });
+
+  it("should turn resolved mentions into mention nodes and leave code alone", () => {
+    const doc = markdownToAdf("Thanks @[Jane Doe]! `@[Jane Doe]` @[Nobody]", {
+      mentions: new Map([["jane doe", "acc-jane"]]),
+    });
+
+    expect(doc.content[0]?.content).toEqual([
+      { type: "text", text: "Thanks " },
+      { type: "mention", attrs: { id: "acc-jane", text: "@Jane Doe" } },
+      { type: "text", text: "! " },
+      { type: "text", text: "@[Jane Doe]", marks: [{ type: "code" }] },
+      { type: "text", text: " @[Nobody]" },
+    ]);
+  });
+});
+
+describe("JiraClient comment operations", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const requestBody = (call: number): Record<string, unknown> =>
+    JSON.parse(String(fetchMock.mock.calls[call]?.[1]?.body)) as Record<string, unknown>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn((url: string) =>
+      Promise.resolve(
+        url.includes("/user/search") ? Response.json(users) : Response.json(rawComment)
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should post ADF with resolved mentions and visibility", async () => {
+    const client = new JiraClient(cloudConfig, undefined, undefined, new ResponseCache({ enabled: false }));
+
+    const result = await client.addComment({
+      issueKey: "PROJ-1",
+      body: "Ping @[Jane Doe] and @[Doe]",
+      visibility: { type: "role", value: "Developers" },
+    });
+
+    const body = requestBody(2);
+    expect(String(fetchMock.mock.calls[2]?.[0])).toContain("/rest/api/3/issue/PROJ-1/comment");
+    expect(JSON.stringify(body["body"])).toContain('"id":"acc-jane"');
+    expect(body["visibility"]).toEqual({ type: "role", value: "Developers" });
+    // "Doe" matches two users without an exact display name match
+    expect(result.unresolvedMentions).toEqual(["Doe"]);
+    expect(result.comment.visibility).toEqual({ type: "role", value: "Developers" });
+  });
+
+  it("should write [~username] mentions on Data Center", async () => {
+    fetchMock.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.includes("/user/search")
+          ? Response.json([{ name: "jdoe", displayName: "Jane Doe", active: true }])
+          : Response.json({ ...rawComment, body: "Ping [~jdoe]" })
+      )
+    );
+    const client = new JiraClient(
+      { ...cloudConfig, deployment: "datacenter" },
+      undefined,
+      undefined,
+      new ResponseCache({ enabled: false })
+    );
+
+    await client.updateComment({ issueKey: "PROJ-1", commentId: "10100", body: "Ping @[Jane Doe]" });
+
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("username=Jane+Doe");
+    expect(fetchMock.mock.calls[1]?.[1]?.method).toBe("PUT");
+    expect(requestBody(1)["body"]).toBe("Ping [~jdoe]");
+  });
+
+  it("should delete a comment", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    const client = new JiraClient(cloudConfig, undefined, undefined, new ResponseCache({ enabled: false }));
+
+    await expect(client.deleteComment("PROJ-1", "10100")).resolves.toBeUndefined();
+    expect(fetchMock.mock.calls[0]?.[1]?.method).toBe("DELETE");
+  });
+});
+
+describe("comment tools", () => {
+  const createMockClient = () => ({
+    addComment: vi.fn(),
+    updateComment: vi.fn(),
+    getComment: vi.fn(),
+    deleteComment: vi.fn(),
+  });
+
+  it("should reject an invalid visibility type", async () => {
+    const client = createMockClient();
+
+    const result = await executeAddComment(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      body: "Hello",
+      visibility: { type: "user", value: "me" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Validation error: visibility.type");
+    expect(client.addComment).not.toHaveBeenCalled();
+  });
+
+  it("should report unresolved mentions", async () => {
+    const client = createMockClient();
+    client.addComment.mockResolvedValue({
+      comment: { id: "10100" },
+      unresolvedMentions: ["Doe"],
+    });
+
+    const result = await executeAddComment(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      body: "cc @[Doe]",
+    });
+
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+    expect(parsed.success).toBe(true);
+    expect(parsed.unresolvedMentions).toEqual(["Doe"]);
+  });
+
+  it("should preview the current body on update dry run", async () => {
+    const client = createMockClient();
+    client.getComment.mockResolvedValue({ id: "10100", body: "Old text" });
+
+    const result = await executeUpdateComment(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      commentId: "10100",
+      body: "New text",
+      dryRun: true,
+    });
+
+    const parsed = JSON.parse(result.content[0]?.text ?? "{}");
+    expect(parsed.currentBody).toBe("Old text");
+    expect(client.updateComment).not.toHaveBeenCalled();
+  });
+
+  it("should report a missing comment on delete", async () => {
+    const client = createMockClient();
+    client.deleteComment.mockRejectedValue(new JiraNotFoundError("PROJ-1"));
+
+    const result = await executeDeleteComment(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      commentId: "999",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe("Comment 999 on issue 'PROJ-1' not found");
+  });
+});
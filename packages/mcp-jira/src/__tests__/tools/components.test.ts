@@ -0,0 +1,204 @@
+/**
+ * Tests for get_components and component-based routing in create_issue,
+ * PR context and release notes.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { executeGetComponents } from "../../tools/get-components.js";
+import { executeCreateIssue } from "../../tools/create-issue.js";
+import { executeReleaseNotes } from "../../tools/release-notes.js";
+import { JiraApiError, JiraProjectNotFoundError } from "../../domain/jira-client.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import { mapComponent } from "../../domain/mappers.js";
+import { buildPRContext } from "../../git/index.js";
+import type { JiraComponent, JiraUser } from "../../domain/types.js";
+
+const user = (accountId: string, displayName: string, active = true): JiraUser => ({
+  accountId,
+  displayName,
+  active,
+});
+
+const jane = user("acc-jane", "Jane Doe");
+const bob = user("acc-bob", "Bob Smith");
+
+const components: JiraComponent[] = [
+  { id: "1", name: "API", lead: jane, assigneeType: "COMPONENT_LEAD", defaultAssignee: jane },
+  { id: "2", name: "Web", lead: bob, assigneeType: "UNASSIGNED" },
+  { id: "3", name: "Legacy", lead: user("acc-old", "Old Timer", false) },
+];
+
+/**
+ * Mock client for a project with the components above.
+ */
+const createMockClient = () => ({
+  getComponents: vi.fn().mockResolvedValue(components),
+  getCreateIssueTypes: vi.fn().mockResolvedValue([]),
+  createIssue: vi.fn().mockResolvedValue({ id: "1", key: "PROJ-1", self: "x" }),
+  searchJql: vi.fn(),
+});
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("get_components", () => {
+  it("should list components with their owners", async () => {
+    const client = createMockClient();
+
+    const result = parse(await executeGetComponents(client as unknown as JiraClient, { projectKey: "PROJ" }));
+
+    expect(result.count).toBe(3);
+    expect(result.components[0]).toMatchObject({
+      name: "API",
+      lead: { displayName: "Jane Doe" },
+      defaultAssignee: { accountId: "acc-jane" },
+    });
+    expect(result.components[2].lead.active).toBe(false);
+    expect(result.unowned).toEqual(["Legacy"]);
+  });
+
+  it("should report a missing project", async () => {
+    const client = createMockClient();
+    client.getComponents.mockRejectedValue(new JiraProjectNotFoundError("NOPE"));
+
+    const result = await executeGetComponents(client as unknown as JiraClient, { projectKey: "NOPE" });
+
+    expect(result.content[0]?.text).toBe("Project 'NOPE' not found");
+  });
+
+  it("should map leads and the effective default assignee", () => {
+    const component = mapComponent({
+      id: "1",
+      name: "API",
+      lead: { accountId: "acc-jane", displayName: "Jane Doe" },
+      assigneeType: "PROJECT_LEAD",
+      realAssignee: { accountId: "acc-lead", displayName: "Project Lead", active: true },
+    });
+
+    expect(component.lead?.displayName).toBe("Jane Doe");
+    expect(component.defaultAssignee?.accountId).toBe("acc-lead");
+  });
+});
+
+describe("create_issue component routing", () => {
+  it("should suggest the default assignee of the first owned component", async () => {
+    const client = createMockClient();
+
+    const result = parse(
+      await executeCreateIssue(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        summary: "Task",
+        issueTypeName: "Task",
+        componentNames: ["legacy", "api"],
+      })
+    );
+
+    expect(client.createIssue).toHaveBeenCalledWith(
+      expect.objectContaining({ componentNames: ["legacy", "api"] })
+    );
+    expect(result.suggestedAssignee).toEqual({
+      accountId: "acc-jane",
+      displayName: "Jane Doe",
+      reason: "Default assignee of component API",
+    });
+  });
+
+  it("should fall back to the lead and skip the suggestion when assigned", async () => {
+    const client = createMockClient();
+
+    const preview = parse(
+      await executeCreateIssue(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        summary: "Task",
+        issueTypeName: "Task",
+        componentNames: ["Web"],
+        dryRun: true,
+      })
+    );
+
+    expect(preview.suggestedAssignee.reason).toBe("Lead of component Web");
+
+    const assigned = parse(
+      await executeCreateIssue(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        summary: "Task",
+        issueTypeName: "Task",
+        componentNames: ["Web"],
+        assigneeAccountId: "acc-bob",
+      })
+    );
+
+    expect(assigned.suggestedAssignee).toBeUndefined();
+  });
+
+  it("should create the issue when components are not readable", async () => {
+    const client = createMockClient();
+    client.getComponents.mockRejectedValue(new JiraApiError("Forbidden", 403));
+
+    const result = await executeCreateIssue(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      summary: "Task",
+      issueTypeName: "Task",
+      componentNames: ["API"],
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(parse(result).suggestedAssignee).toBeUndefined();
+  });
+});
+
+describe("PR context component routing", () => {
+  it("should suggest component leads before watchers and label components", () => {
+    const context = buildPRContext([
+      {
+        key: "PROJ-1",
+        summary: "A",
+        type: "Story",
+        assignee: "Bob Smith",
+        watchers: ["Carol", "Jane Doe"],
+        components: ["Billing API"],
+        componentLeads: ["Jane Doe", "Bob Smith"],
+      },
+    ]);
+
+    expect(context.suggestedReviewers).toEqual(["Jane Doe", "Carol"]);
+    expect(context.reviewersRecommendation).toBe(
+      "Request review from the component leads: Jane Doe. The issue watchers may also want to review: Carol"
+    );
+    expect(context.suggestedLabels).toContain("component/billing-api");
+  });
+});
+
+describe("release notes component breakdown", () => {
+  it("should list changes under each of their components with the leads", async () => {
+    const client = createMockClient();
+    const issue = (key: string, names: string[]) => ({
+      key,
+      summary: `Add ${key}`,
+      issueType: { id: "1", name: "Story", subtask: false },
+      labels: [],
+      components: names.map((name, i) => ({ id: String(i), name })),
+      updated: "2026-10-01T00:00:00.000Z",
+      storyPoints: 2,
+    });
+    client.searchJql.mockResolvedValue({
+      issues: [issue("PROJ-1", ["API", "Web"]), issue("PROJ-2", ["API"]), issue("PROJ-3", [])],
+    });
+
+    const result = parse(
+      await executeReleaseNotes(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        groupBy: "component",
+        format: "json",
+      })
+    );
+
+    expect(result.groups).toEqual([
+      { title: "API", owner: "Jane Doe", count: 2, points: 4, hasBreaking: false },
+      { title: "Web", owner: "Bob Smith", count: 1, points: 2, hasBreaking: false },
+      { title: "No component", count: 1, points: 2, hasBreaking: false },
+    ]);
+    expect(result.statistics.byComponent).toEqual({ API: 2, Web: 1 });
+    expect(result.statistics.totalChanges).toBe(3);
+  });
+});
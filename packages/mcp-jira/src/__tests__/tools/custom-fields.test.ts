@@ -0,0 +1,232 @@
+/**
+ * Tests for custom field aliases: configuration, reading and writing.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { tryLoadConfigFromEnv } from "../../config/index.js";
+import type { JiraConfig } from "../../config/index.js";
+import { JiraClient } from "../../domain/jira-client.js";
+import { ResponseCache } from "../../domain/response-cache.js";
+import { extractCustomFields } from "../../domain/mappers.js";
+import { suggestCustomFieldAliasName, suggestCustomFieldType } from "../../domain/custom-fields.js";
+import type { CustomFieldAlias } from "../../domain/types.js";
+import {
+  setConfigured,
+  setUnconfigured,
+  getFieldMappings,
+  resolveFieldMappings,
+} from "../../server-state.js";
+import { executeConfigureFields } from "../../tools/configure-fields.js";
+import { executeUpdateIssue } from "../../tools/update-issue.js";
+
+const cloudConfig: JiraConfig = {
+  baseUrl: "https://example.atlassian.net",
+  auth: { type: "basic", email: "dev@example.com", apiToken: "token" },
+  deployment: "cloud",
+  timeout: 5000,
+  maxRetries: 0,
+};
+
+const aliases: CustomFieldAlias[] = [
+  { name: "Team", id: "customfield_10050", type: "select" },
+  { name: "Components Impacted", id: "customfield_10051", type: "multi-select" },
+  { name: "Acceptance Criteria", id: "customfield_10052", type: "text" },
+  { name: "Risk Score", id: "customfield_10053", type: "number" },
+  { name: "Reviewer", id: "customfield_10054", type: "user" },
+  { name: "Target Release", id: "customfield_10055", type: "date" },
+];
+
+describe("custom field aliases", () => {
+  describe("configuration", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      setUnconfigured();
+    });
+
+    it("should load aliases from JIRA_FIELD_ALIASES", () => {
+      vi.stubEnv("JIRA_BASE_URL", "https://example.atlassian.net");
+      vi.stubEnv("JIRA_USER_EMAIL", "dev@example.com");
+      vi.stubEnv("JIRA_API_TOKEN", "token");
+      vi.stubEnv("JIRA_FIELD_ALIASES", "Team=customfield_10050:select, Target Release=customfield_10055:date");
+
+      const config = tryLoadConfigFromEnv();
+
+      expect(resolveFieldMappings(config?.fieldMappings).customFields).toEqual([
+        { name: "Team", id: "customfield_10050", type: "select" },
+        { name: "Target Release", id: "customfield_10055", type: "date" },
+      ]);
+    });
+
+    it("should merge aliases and keep the story points field", () => {
+      setConfigured(cloudConfig, new JiraClient(cloudConfig), undefined, "default");
+      executeConfigureFields({
+        storyPoints: "customfield_10100",
+        customFields: { Team: { id: "customfield_10050", type: "select" } },
+      });
+
+      const result = executeConfigureFields({
+        customFields: { Risk: { id: "customfield_10053", type: "number" } },
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(getFieldMappings()?.storyPointsField).toBe("customfield_10100");
+      expect(getFieldMappings()?.customFields.map((alias) => alias.name)).toEqual(["Team", "Risk"]);
+
+      executeConfigureFields({ removeCustomFields: ["team"] });
+      expect(getFieldMappings()?.customFields.map((alias) => alias.name)).toEqual(["Risk"]);
+
+      const unknown = executeConfigureFields({ removeCustomFields: ["Team"] });
+      expect(unknown.isError).toBe(true);
+    });
+
+    it("should reject invalid alias definitions", () => {
+      setConfigured(cloudConfig, new JiraClient(cloudConfig), undefined, "default");
+
+      const result = executeConfigureFields({
+        customFields: { Team: { id: "customfield_10050", type: "radio" } },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("customFields.Team.type");
+    });
+  });
+
+  describe("reading", () => {
+    it("should read values as their alias type", () => {
+      const values = extractCustomFields(
+        {
+          customfield_10050: { self: "x", value: "Platform", id: "1" },
+          customfield_10051: [{ value: "API" }, { value: "Web" }],
+          customfield_10052: {
+            type: "doc",
+            version: 1,
+            content: [{ type: "paragraph", content: [{ type: "text", text: "Given a user" }] }],
+          },
+          customfield_10053: 3,
+          customfield_10054: { accountId: "acc-jane", displayName: "Jane Doe" },
+          customfield_10055: null,
+        },
+        aliases
+      );
+
+      expect(values).toEqual({
+        Team: "Platform",
+        "Components Impacted": ["API", "Web"],
+        "Acceptance Criteria": "Given a user",
+        "Risk Score": 3,
+        Reviewer: "Jane Doe",
+      });
+    });
+
+    it("should leave customFields out when no alias is set", () => {
+      expect(extractCustomFields({ customfield_10050: null }, aliases)).toBeUndefined();
+    });
+  });
+
+  describe("writing", () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      fetchMock = vi.fn((url: string) =>
+        Promise.resolve(
+          url.endsWith("/field")
+            ? Response.json([
+                {
+                  id: "customfield_10052",
+                  name: "Acceptance Criteria",
+                  custom: true,
+                  schema: { type: "string", custom: "com.atlassian.jira.plugin.system.customfieldtypes:textarea" },
+                },
+              ])
+            : url.endsWith("/editmeta")
+              ? Response.json({
+                  fields: Object.fromEntries(
+                    aliases.map((alias) => [alias.id, { name: alias.name, required: false }])
+                  ),
+                })
+              : new Response(null, { status: 204 })
+        )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const createClient = (config: JiraConfig = cloudConfig): JiraClient =>
+      new JiraClient(
+        config,
+        undefined,
+        { ...resolveFieldMappings(undefined), customFields: aliases },
+        new ResponseCache({ enabled: false })
+      );
+
+    it("should convert alias values to API field values", async () => {
+      const result = await executeUpdateIssue(createClient(), {
+        issueKey: "PROJ-1",
+        customFields: {
+          team: "Platform",
+          "Components Impacted": ["API"],
+          "Acceptance Criteria": "Given a user",
+          "Risk Score": 2,
+          Reviewer: "acc-jane",
+          "Target Release": null,
+        },
+      });
+
+      expect(result.isError).toBeUndefined();
+      const put = fetchMock.mock.calls.find((call) => call[1]?.method === "PUT");
+      const fields = (JSON.parse(String(put?.[1]?.body)) as { fields: Record<string, unknown> }).fields;
+
+      expect(fields["customfield_10050"]).toEqual({ value: "Platform" });
+      expect(fields["customfield_10051"]).toEqual([{ value: "API" }]);
+      expect(fields["customfield_10052"]).toMatchObject({ type: "doc" });
+      expect(fields["customfield_10053"]).toBe(2);
+      expect(fields["customfield_10054"]).toEqual({ accountId: "acc-jane" });
+      expect(fields["customfield_10055"]).toBeNull();
+    });
+
+    it("should write plain text and usernames on Data Center", async () => {
+      await createClient({ ...cloudConfig, deployment: "datacenter" }).updateIssue({
+        issueKey: "PROJ-1",
+        customFields: { "Acceptance Criteria": "Given a user", Reviewer: "jdoe" },
+      });
+
+      const put = fetchMock.mock.calls.find((call) => call[1]?.method === "PUT");
+      expect(JSON.parse(String(put?.[1]?.body))).toEqual({
+        fields: { customfield_10052: "Given a user", customfield_10054: { name: "jdoe" } },
+      });
+    });
+
+    it("should reject unknown aliases and mistyped values before writing", async () => {
+      const result = await executeUpdateIssue(createClient(), {
+        issueKey: "PROJ-1",
+        customFields: { Squad: "Platform", "Target Release": "next week" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("customFields.Squad: Unknown alias");
+      expect(result.content[0]?.text).toContain("customFields.Target Release: Expected a date");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("discovery", () => {
+    it("should suggest alias types from the field schema", () => {
+      const field = (schemaType: string, itemsType?: string) => ({
+        id: "customfield_1",
+        name: "Field",
+        custom: true,
+        schemaType,
+        itemsType,
+      });
+
+      expect(suggestCustomFieldType(field("option"))).toBe("select");
+      expect(suggestCustomFieldType(field("array", "option"))).toBe("multi-select");
+      expect(suggestCustomFieldType(field("array", "string"))).toBeUndefined();
+      expect(suggestCustomFieldType(field("user"))).toBe("user");
+      expect(suggestCustomFieldAliasName("Risk (1-5)")).toBe("Risk 1-5");
+    });
+  });
+});
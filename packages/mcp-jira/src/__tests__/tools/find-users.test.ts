@@ -0,0 +1,142 @@
+/**
+ * Tests for find_users and assignee resolution in the issue write tools.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { executeFindUsers } from "../../tools/find-users.js";
+import { executeCreateIssue } from "../../tools/create-issue.js";
+import { executeUpdateIssue } from "../../tools/update-issue.js";
+import { JiraClient } from "../../domain/jira-client.js";
+import { ResponseCache } from "../../domain/response-cache.js";
+import { pickUser, UserResolutionCache } from "../../domain/user-resolution.js";
+import type { JiraUser } from "../../domain/types.js";
+import type { JiraConfig } from "../../config/index.js";
+
+const cloudConfig: JiraConfig = {
+  baseUrl: "https://example.atlassian.net",
+  auth: { type: "basic", email: "dev@example.com", apiToken: "token" },
+  deployment: "cloud",
+  timeout: 5000,
+  maxRetries: 0,
+};
+
+const jane: JiraUser = { accountId: "acc-jane", displayName: "Jane Doe", emailAddress: "jane@example.com", active: true };
+const janet: JiraUser = { accountId: "acc-janet", displayName: "Janet Doe", active: true };
+const formerJane: JiraUser = { accountId: "acc-old", displayName: "Jane Doe", active: false };
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("pickUser", () => {
+  it("should prefer exact email and display name matches", () => {
+    expect(pickUser("jane@example.com", [jane, janet])).toEqual({ status: "resolved", user: jane });
+    expect(pickUser("jane doe", [jane, janet, formerJane])).toEqual({ status: "resolved", user: jane });
+  });
+
+  it("should report ambiguous and missing users", () => {
+    expect(pickUser("Doe", [jane, janet])).toEqual({ status: "ambiguous", candidates: [jane, janet] });
+    expect(pickUser("Jane Doe", [formerJane])).toEqual({ status: "not-found" });
+  });
+});
+
+describe("UserResolutionCache", () => {
+  it("should forget users after the TTL", () => {
+    let now = 0;
+    const cache = new UserResolutionCache({ ttlMs: 1000, now: () => now });
+
+    cache.set("proj", "Jane", jane);
+    expect(cache.get("PROJ", " jane ")).toBe(jane);
+
+    now = 1000;
+    expect(cache.get("PROJ", "jane")).toBeUndefined();
+  });
+});
+
+describe("assignee resolution", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const assignableSearches = (): string[] =>
+    fetchMock.mock.calls
+      .map((call) => String(call[0]))
+      .filter((url) => url.includes("/user/assignable/search"));
+
+  const requestBody = (method: string): Record<string, unknown> => {
+    const call = fetchMock.mock.calls.find((c) => c[1]?.method === method);
+    return JSON.parse(String(call?.[1]?.body)) as Record<string, unknown>;
+  };
+
+  beforeEach(() => {
+    fetchMock = vi.fn((url: string, init?: RequestInit) => {
+      if (url.includes("/user/assignable/search")) {
+        return Promise.resolve(Response.json([jane, janet]));
+      }
+      if (init?.method === "PUT") {
+        return Promise.resolve(new Response(null, { status: 204 }));
+      }
+      return Promise.resolve(Response.json({ id: "1", key: "PROJ-1", self: "x" }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createClient = (): JiraClient =>
+    new JiraClient(cloudConfig, undefined, undefined, new ResponseCache({ enabled: false }));
+
+  it("should resolve a display name among the project's assignable users", async () => {
+    const client = createClient();
+
+    const result = await executeCreateIssue(client, {
+      projectKey: "PROJ",
+      summary: "Task",
+      issueTypeName: "Task",
+      assignee: "Jane Doe",
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(assignableSearches()[0]).toContain("project=PROJ");
+    expect((requestBody("POST")["fields"] as Record<string, unknown>)["assignee"]).toEqual({
+      accountId: "acc-jane",
+    });
+  });
+
+  it("should list candidates when several users match", async () => {
+    const result = await executeUpdateIssue(createClient(), { issueKey: "PROJ-1", assignee: "Doe" });
+
+    expect(result.isError).toBe(true);
+    const response = parse(result);
+    expect(response.candidates.map((u: JiraUser) => u.accountId)).toEqual(["acc-jane", "acc-janet"]);
+    expect(fetchMock.mock.calls.some((call) => call[1]?.method === "PUT")).toBe(false);
+  });
+
+  it("should reuse resolved users for a while", async () => {
+    const client = createClient();
+
+    await executeUpdateIssue(client, { issueKey: "PROJ-1", assignee: "jane@example.com", dryRun: true });
+    const result = parse(
+      await executeUpdateIssue(client, { issueKey: "proj-1", assignee: "Jane@example.com", dryRun: true })
+    );
+
+    expect(result.wouldUpdate.assignee).toBe("acc-jane");
+    expect(assignableSearches()).toHaveLength(1);
+  });
+
+  it("should reject assignee together with assigneeAccountId", async () => {
+    const result = await executeUpdateIssue(createClient(), {
+      issueKey: "PROJ-1",
+      assignee: "Jane Doe",
+      assigneeAccountId: null,
+    });
+
+    expect(result.content[0]?.text).toContain("Provide either assignee or assigneeAccountId");
+  });
+
+  it("should find users with their account IDs", async () => {
+    const result = parse(await executeFindUsers(createClient(), { query: "Doe", projectKey: "PROJ" }));
+
+    expect(result.assignableIn).toBe("PROJ");
+    expect(result.users.map((u: JiraUser) => u.accountId)).toEqual(["acc-jane", "acc-janet"]);
+  });
+});
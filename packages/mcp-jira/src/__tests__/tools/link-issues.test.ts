@@ -0,0 +1,122 @@
+/**
+ * Tests for link_issues and unlink_issues tools.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { executeLinkIssues } from "../../tools/link-issues.js";
+import { executeUnlinkIssues } from "../../tools/unlink-issues.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import type { JiraIssueLink, JiraIssueLinkType } from "../../domain/types.js";
+
+const blocks: JiraIssueLinkType = { id: "1", name: "Blocks", inward: "is blocked by", outward: "blocks" };
+const relates: JiraIssueLinkType = { id: "2", name: "Relates", inward: "relates to", outward: "relates to" };
+
+const link = (id: string, type: JiraIssueLinkType, direction: "inward" | "outward", key: string): JiraIssueLink => ({
+  id,
+  type,
+  direction,
+  linkedIssue: { id, key, summary: key, status: "Open", statusCategory: "new", issueType: "Story" },
+});
+
+/**
+ * Mock client over a fixed set of issue links.
+ */
+const createMockClient = (links: Record<string, JiraIssueLink[]>) => ({
+  getIssueLinkTypes: vi.fn().mockResolvedValue([blocks, relates]),
+  getIssueExtended: vi.fn((key: string) => Promise.resolve({ key, issueLinks: links[key] ?? [] })),
+  createIssueLink: vi.fn().mockResolvedValue(undefined),
+  deleteIssueLink: vi.fn().mockResolvedValue(undefined),
+});
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("link_issues tool", () => {
+  it("should create links, swapping issues for inward descriptions", async () => {
+    const client = createMockClient({});
+
+    const result = await executeLinkIssues(client as unknown as JiraClient, {
+      links: [{ from: "PROJ-2", to: "PROJ-1", type: "is blocked by" }],
+    });
+
+    expect(parse(result).created).toBe(1);
+    expect(client.createIssueLink).toHaveBeenCalledWith({
+      typeName: "Blocks",
+      inwardIssueKey: "PROJ-1",
+      outwardIssueKey: "PROJ-2",
+    });
+  });
+
+  it("should skip a blocks link that would close a cycle", async () => {
+    // PROJ-2 blocks PROJ-3, PROJ-3 blocks PROJ-1
+    const client = createMockClient({
+      "PROJ-2": [link("10", blocks, "outward", "PROJ-3")],
+      "PROJ-3": [link("10", blocks, "inward", "PROJ-2"), link("11", blocks, "outward", "PROJ-1")],
+    });
+
+    const result = await executeLinkIssues(client as unknown as JiraClient, {
+      links: [{ from: "PROJ-1", to: "PROJ-2", type: "blocks" }],
+    });
+
+    const parsed = parse(result);
+    expect(parsed.skipped).toBe(1);
+    expect(parsed.results[0].cycle).toEqual(["PROJ-1", "PROJ-2", "PROJ-3", "PROJ-1"]);
+    expect(client.createIssueLink).not.toHaveBeenCalled();
+  });
+
+  it("should detect cycles formed within one batch and not check other link types", async () => {
+    const client = createMockClient({});
+
+    const result = await executeLinkIssues(client as unknown as JiraClient, {
+      links: [
+        { from: "PROJ-1", to: "PROJ-2", type: "Blocks" },
+        { from: "PROJ-2", to: "PROJ-1", type: "Blocks" },
+        { from: "PROJ-2", to: "PROJ-1", type: "relates to" },
+      ],
+      dryRun: true,
+    });
+
+    const parsed = parse(result);
+    expect(parsed.results.map((r: { status: string }) => r.status)).toEqual(["valid", "skipped", "valid"]);
+    expect(client.createIssueLink).not.toHaveBeenCalled();
+  });
+
+  it("should report unknown link types per link", async () => {
+    const client = createMockClient({});
+
+    const result = await executeLinkIssues(client as unknown as JiraClient, {
+      links: [{ from: "PROJ-1", to: "PROJ-2", type: "causes" }],
+    });
+
+    expect(parse(result).results[0].reason).toContain("Unknown link type 'causes'");
+  });
+
+  it("should reject self links", async () => {
+    const result = await executeLinkIssues(createMockClient({}) as unknown as JiraClient, {
+      links: [{ from: "PROJ-1", to: "proj-1", type: "Blocks" }],
+    });
+
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe("unlink_issues tool", () => {
+  it("should remove only links of the requested type between two issues", async () => {
+    const client = createMockClient({
+      "PROJ-1": [
+        link("10", blocks, "outward", "PROJ-2"),
+        link("11", relates, "outward", "PROJ-2"),
+        link("12", blocks, "outward", "PROJ-3"),
+      ],
+    });
+
+    const result = await executeUnlinkIssues(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      otherIssueKey: "PROJ-2",
+      type: "blocks",
+    });
+
+    expect(parse(result).removed).toEqual([{ id: "10", description: "PROJ-1 blocks PROJ-2" }]);
+    expect(client.deleteIssueLink).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Tests for get_project_metadata and the pre-flight checks of
+ * create_issue and update_issue.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { executeGetProjectMetadata } from "../../tools/get-project-metadata.js";
+import { executeCreateIssue } from "../../tools/create-issue.js";
+import { executeUpdateIssue } from "../../tools/update-issue.js";
+import { JiraApiError, JiraClient, JiraProjectNotFoundError } from "../../domain/jira-client.js";
+import { mapWorkflow } from "../../domain/mappers.js";
+import { RateLimiter } from "../../domain/rate-limiter.js";
+import { ResponseCache } from "../../domain/response-cache.js";
+import { resolveFieldMappings } from "../../server-state.js";
+import type { JiraFieldMeta, JiraIssueType } from "../../domain/types.js";
+import type { JiraConfig } from "../../config/index.js";
+
+const story: JiraIssueType = { id: "10001", name: "Story", subtask: false };
+const bug: JiraIssueType = { id: "10002", name: "Bug", subtask: false };
+
+const field = (id: string, name: string, extra: Partial<JiraFieldMeta> = {}): JiraFieldMeta => ({
+  id,
+  name,
+  required: false,
+  hasDefaultValue: false,
+  ...extra,
+});
+
+const storyFields: JiraFieldMeta[] = [
+  field("summary", "Summary", { required: true }),
+  field("issuetype", "Issue Type", { required: true }),
+  field("project", "Project", { required: true }),
+  field("reporter", "Reporter", { required: true }),
+  field("priority", "Priority", { hasDefaultValue: true, allowedValues: ["High", "Medium", "Low"] }),
+  field("labels", "Labels"),
+  field("customfield_10050", "Team", { required: true, allowedValues: ["Platform", "Web"] }),
+];
+
+/**
+ * Mock client for a project with Story and Bug issue types.
+ */
+const createMockClient = () => ({
+  getFieldMappings: vi.fn().mockReturnValue({
+    ...resolveFieldMappings(undefined),
+    customFields: [{ name: "Team", id: "customfield_10050", type: "select" }],
+  }),
+  getProject: vi.fn().mockResolvedValue({
+    id: "10000",
+    key: "PROJ",
+    name: "Project",
+    projectTypeKey: "software",
+    lead: { accountId: "acc-jane", displayName: "Jane Doe", active: true },
+    issueTypes: [story, bug],
+    components: [{ id: "1", name: "API" }],
+    versions: [
+      { id: "1", name: "1.0", released: true, archived: true },
+      { id: "2", name: "1.1", released: false, archived: false, releaseDate: "2026-11-01" },
+    ],
+  }),
+  getProjectStatuses: vi.fn().mockResolvedValue([
+    {
+      issueTypeId: story.id,
+      issueTypeName: story.name,
+      subtask: false,
+      statuses: [
+        { id: "1", name: "To Do", categoryKey: "new" },
+        { id: "3", name: "Done", categoryKey: "done" },
+      ],
+    },
+  ]),
+  getCreateIssueTypes: vi.fn().mockResolvedValue([story]),
+  getCreateFields: vi.fn().mockResolvedValue(storyFields),
+  getEditFields: vi.fn().mockResolvedValue(storyFields),
+  getPriorities: vi.fn().mockResolvedValue([]),
+  getProjectWorkflows: vi.fn().mockResolvedValue([
+    {
+      name: "Software Workflow",
+      issueTypeIds: [],
+      isDefault: true,
+      statuses: ["To Do", "Done"],
+      transitions: [{ id: "31", name: "Done", from: [], to: "Done" }],
+    },
+  ]),
+  createIssue: vi.fn().mockResolvedValue({ id: "1", key: "PROJ-1", self: "x" }),
+  updateIssue: vi.fn().mockResolvedValue({ success: true, issueKey: "PROJ-1" }),
+});
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("get_project_metadata", () => {
+  it("should describe issue types, values and workflows", async () => {
+    const client = createMockClient();
+
+    const result = parse(
+      await executeGetProjectMetadata(client as unknown as JiraClient, { projectKey: "PROJ" })
+    );
+
+    const [storyType, bugType] = result.issueTypes;
+    expect(storyType.statuses).toEqual(["To Do", "Done"]);
+    expect(storyType.requiredFields.map((f: { id: string }) => f.id)).toContain("customfield_10050");
+    expect(storyType.optionalFields).toEqual(["Priority (priority)", "Labels (labels)"]);
+    expect(bugType.creatable).toBe(false);
+    expect(result.priorities).toEqual(["High", "Medium", "Low"]);
+    expect(result.versions).toEqual([{ name: "1.1", released: false, releaseDate: "2026-11-01" }]);
+    expect(result.workflows[0].issueTypes).toEqual(["Story", "Bug"]);
+    expect(result.workflows[0].transitions[0].from).toBe("any");
+  });
+
+  it("should still answer when workflows are not readable", async () => {
+    const client = createMockClient();
+    client.getProjectWorkflows.mockRejectedValue(new JiraApiError("Forbidden", 403));
+
+    const result = await executeGetProjectMetadata(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      issueTypeName: "story",
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(parse(result).issueTypes).toHaveLength(1);
+    expect(parse(result).workflowsUnavailable).toContain("administrator");
+  });
+
+  it("should report a missing project", async () => {
+    const client = createMockClient();
+    client.getProject.mockRejectedValue(new JiraProjectNotFoundError("NOPE"));
+
+    const result = await executeGetProjectMetadata(client as unknown as JiraClient, { projectKey: "NOPE" });
+
+    expect(result.content[0]?.text).toBe("Project 'NOPE' not found");
+  });
+});
+
+describe("create_issue pre-flight", () => {
+  it("should list the valid issue types", async () => {
+    const client = createMockClient();
+
+    const result = await executeCreateIssue(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      summary: "Task",
+      issueTypeName: "Epic",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe(
+      "Validation error: issueTypeName: 'Epic' is not a valid issue type in PROJ. Valid values: Story"
+    );
+    expect(client.createIssue).not.toHaveBeenCalled();
+  });
+
+  it("should report invalid priorities, fields off screen and missing required fields", async () => {
+    const client = createMockClient();
+
+    const result = await executeCreateIssue(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      summary: "Task",
+      issueTypeName: "Story",
+      priorityName: "Blocker",
+      storyPoints: 3,
+    });
+
+    const text = result.content[0]?.text ?? "";
+    expect(text).toContain("priorityName: 'Blocker' is not a valid priority. Valid values: High, Medium, Low");
+    expect(text).toContain("storyPoints: Field customfield_10016 is not on the create screen of Story issues in PROJ");
+    expect(text).toContain("Missing fields required for Story issues in PROJ: Team (customfield_10050)");
+  });
+
+  it("should create the issue when the input fits the project", async () => {
+    const client = createMockClient();
+
+    const result = await executeCreateIssue(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      summary: "Task",
+      issueTypeName: "Story",
+      priorityName: "high",
+      customFields: { Team: "Platform" },
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(client.getCreateFields).toHaveBeenCalledWith("PROJ", "10001");
+    expect(client.createIssue).toHaveBeenCalled();
+  });
+
+  it("should leave validation to Jira when the metadata is not readable", async () => {
+    const client = createMockClient();
+    client.getCreateIssueTypes.mockRejectedValue(new JiraApiError("Forbidden", 403));
+
+    const result = await executeCreateIssue(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      summary: "Task",
+      issueTypeName: "Epic",
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(client.createIssue).toHaveBeenCalled();
+  });
+});
+
+describe("update_issue pre-flight", () => {
+  it("should check the priority against the edit screen", async () => {
+    const client = createMockClient();
+
+    const result = await executeUpdateIssue(client as unknown as JiraClient, {
+      issueKey: "PROJ-1",
+      priorityName: "Blocker",
+    });
+
+    expect(result.content[0]?.text).toContain("priorityName: 'Blocker' is not a valid priority");
+    expect(client.updateIssue).not.toHaveBeenCalled();
+  });
+
+  it("should not fetch the edit screen for summary changes", async () => {
+    const client = createMockClient();
+
+    await executeUpdateIssue(client as unknown as JiraClient, { issueKey: "PROJ-1", summary: "New" });
+
+    expect(client.getEditFields).not.toHaveBeenCalled();
+    expect(client.updateIssue).toHaveBeenCalled();
+  });
+});
+
+describe("JiraClient create metadata", () => {
+  const config: JiraConfig = {
+    baseUrl: "https://example.atlassian.net",
+    auth: { type: "basic", email: "dev@example.com", apiToken: "token" },
+    deployment: "cloud",
+    timeout: 5000,
+    maxRetries: 0,
+  };
+
+  const createClient = () =>
+    new JiraClient(
+      config,
+      undefined,
+      undefined,
+      new ResponseCache({ enabled: false }),
+      new RateLimiter({ requestsPerSecond: 0 })
+    );
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should read every page of the create screen's fields", async () => {
+    // The server returns at most 50 fields per page, whatever was asked for
+    const fields = Array.from({ length: 120 }, (_, i) => ({ fieldId: `customfield_${i}`, name: `Field ${i}` }));
+    const fetchMock = vi.fn((url: string) => {
+      const startAt = Number(new URL(url).searchParams.get("startAt"));
+      return Promise.resolve(
+        Response.json({ startAt, maxResults: 50, total: fields.length, fields: fields.slice(startAt, startAt + 50) })
+      );
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await createClient().getCreateFields("PROJ", "10001");
+
+    expect(result).toHaveLength(120);
+    expect(result[119]?.id).toBe("customfield_119");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should follow isLast when listing the creatable issue types", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(Response.json({ isLast: false, values: [{ id: "10001", name: "Story" }] }))
+      .mockResolvedValueOnce(Response.json({ isLast: true, values: [{ id: "10002", name: "Bug" }] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await createClient().getCreateIssueTypes("PROJ");
+
+    expect(result.map((issueType) => issueType.name)).toEqual(["Story", "Bug"]);
+    expect(String(fetchMock.mock.calls[1]?.[0])).toContain("startAt=1");
+  });
+});
+
+describe("mapWorkflow", () => {
+  it("should name statuses and skip the initial transition", () => {
+    const workflow = mapWorkflow(
+      {
+        id: { name: "Bug Workflow" },
+        statuses: [
+          { id: "1", name: "Open" },
+          { id: "3", name: "Fixed" },
+        ],
+        transitions: [
+          { id: "1", name: "Create", to: "1", type: "initial" },
+          { id: "11", name: "Fix", from: ["1"], to: "3", type: "directed" },
+        ],
+      },
+      ["10002"],
+      false
+    );
+
+    expect(workflow.statuses).toEqual(["Open", "Fixed"]);
+    expect(workflow.transitions).toEqual([{ id: "11", name: "Fix", from: ["Open"], to: "Fixed" }]);
+  });
+});
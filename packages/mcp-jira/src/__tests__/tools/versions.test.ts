@@ -0,0 +1,193 @@
+/**
+ * Tests for get_versions, create_version and release_version tools,
+ * and fix versions on issues.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { executeGetVersions } from "../../tools/get-versions.js";
+import { executeCreateVersion } from "../../tools/create-version.js";
+import { executeReleaseVersion } from "../../tools/release-version.js";
+import { JiraProjectNotFoundError } from "../../domain/jira-client.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import { mapIssue } from "../../domain/mappers.js";
+import type { JiraVersion } from "../../domain/types.js";
+
+const version = (id: string, name: string, extra: Partial<JiraVersion> = {}): JiraVersion => ({
+  id,
+  name,
+  released: false,
+  archived: false,
+  ...extra,
+});
+
+const versions: JiraVersion[] = [
+  version("1", "1.0", { released: true, releaseDate: "2026-01-15" }),
+  version("2", "1.1", { releaseDate: "2000-01-01" }),
+  version("3", "1.2"),
+  version("4", "0.9", { archived: true }),
+];
+
+/**
+ * Mock client for a project with the versions above.
+ */
+const createMockClient = (unresolved: string[] = ["PROJ-7", "PROJ-9"]) => ({
+  getVersions: vi.fn().mockResolvedValue(versions),
+  getUnresolvedIssueCount: vi.fn().mockResolvedValue(unresolved.length),
+  searchJql: vi.fn().mockResolvedValue({ issues: unresolved.map((key) => ({ key })) }),
+  createVersion: vi.fn((input: { name: string }) => Promise.resolve(version("5", input.name))),
+  releaseVersion: vi.fn().mockResolvedValue(version("2", "1.1", { released: true, releaseDate: "2026-10-19" })),
+});
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("get_versions", () => {
+  it("should list unreleased versions with counts and overdue flags", async () => {
+    const client = createMockClient();
+
+    const result = parse(await executeGetVersions(client as unknown as JiraClient, { projectKey: "PROJ" }));
+
+    expect(result.versions.map((v: { name: string }) => v.name)).toEqual(["1.1", "1.2"]);
+    expect(result.nextVersion).toBe("1.1");
+    expect(result.versions[0]).toMatchObject({ overdue: true, unresolvedIssues: 2 });
+    expect(result.versions[1].overdue).toBeUndefined();
+  });
+
+  it("should report a missing project", async () => {
+    const client = createMockClient();
+    client.getVersions.mockRejectedValue(new JiraProjectNotFoundError("NOPE"));
+
+    const result = await executeGetVersions(client as unknown as JiraClient, { projectKey: "NOPE" });
+
+    expect(result.content[0]?.text).toBe("Project 'NOPE' not found");
+  });
+});
+
+describe("create_version", () => {
+  it("should reject duplicate names", async () => {
+    const client = createMockClient();
+
+    const result = await executeCreateVersion(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      name: "1.2",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Version '1.2' already exists");
+    expect(client.createVersion).not.toHaveBeenCalled();
+  });
+
+  it("should create the version", async () => {
+    const client = createMockClient();
+
+    const result = parse(
+      await executeCreateVersion(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        name: "1.3",
+        releaseDate: "2026-12-01",
+      })
+    );
+
+    expect(client.createVersion).toHaveBeenCalledWith({
+      projectKey: "PROJ",
+      name: "1.3",
+      releaseDate: "2026-12-01",
+    });
+    expect(result.version.name).toBe("1.3");
+  });
+});
+
+describe("release_version", () => {
+  it("should move unresolved issues to the next version", async () => {
+    const client = createMockClient();
+
+    const result = parse(
+      await executeReleaseVersion(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        version: "1.1",
+        releaseDate: "2026-10-19",
+      })
+    );
+
+    expect(client.releaseVersion).toHaveBeenCalledWith({
+      versionId: "2",
+      releaseDate: "2026-10-19",
+      moveUnresolvedToId: "3",
+    });
+    expect(result.movedTo).toBe("1.2");
+    expect(result.movedIssues).toEqual(["PROJ-7", "PROJ-9"]);
+  });
+
+  it("should refuse to release when unresolved issues have nowhere to go", async () => {
+    const client = createMockClient();
+
+    const result = await executeReleaseVersion(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      version: "1.2",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("no later unreleased version");
+    expect(client.releaseVersion).not.toHaveBeenCalled();
+  });
+
+  it("should preview the release", async () => {
+    const client = createMockClient([]);
+
+    const result = parse(
+      await executeReleaseVersion(client as unknown as JiraClient, {
+        projectKey: "PROJ",
+        version: "1.2",
+        dryRun: true,
+      })
+    );
+
+    expect(result.unresolvedCount).toBe(0);
+    expect(result.wouldMoveTo).toBeUndefined();
+    expect(client.searchJql).not.toHaveBeenCalled();
+    expect(client.releaseVersion).not.toHaveBeenCalled();
+  });
+
+  it("should reject released versions and unknown targets", async () => {
+    const client = createMockClient();
+
+    const result = await executeReleaseVersion(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      version: "1.0",
+      moveUnresolvedTo: "2.0",
+    });
+
+    expect(result.content[0]?.text).toBe("Version '1.0' is already released (2026-01-15)");
+
+    const unknownTarget = await executeReleaseVersion(client as unknown as JiraClient, {
+      projectKey: "PROJ",
+      version: "1.1",
+      moveUnresolvedTo: "2.0",
+    });
+
+    expect(unknownTarget.content[0]?.text).toBe(
+      "Validation error: moveUnresolvedTo: '2.0' is not a valid unreleased version. Valid values: 1.2"
+    );
+  });
+});
+
+describe("fix versions", () => {
+  it("should map fix versions on issues", () => {
+    const issue = mapIssue({
+      id: "1",
+      key: "PROJ-1",
+      self: "https://example.atlassian.net/rest/api/3/issue/1",
+      fields: {
+        summary: "Issue",
+        status: { id: "1", name: "Open", statusCategory: { key: "new" } },
+        issuetype: { id: "1", name: "Story", subtask: false },
+        project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+        created: "2026-01-01T00:00:00.000Z",
+        updated: "2026-01-01T00:00:00.000Z",
+        fixVersions: [{ id: "3", name: "1.2", released: false }],
+      },
+    });
+
+    expect(issue.fixVersions).toEqual([version("3", "1.2")]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for get_watchers, add_watcher and remove_watcher tools,
+ * and watcher-based reviewer suggestions.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { executeGetWatchers } from "../../tools/get-watchers.js";
+import { executeAddWatcher } from "../../tools/add-watcher.js";
+import { executeRemoveWatcher } from "../../tools/remove-watcher.js";
+import { JiraApiError, JiraNotFoundError } from "../../domain/jira-client.js";
+import type { JiraClient } from "../../domain/jira-client.js";
+import { mapIssueExtended } from "../../domain/mappers.js";
+import { buildPRContext } from "../../git/index.js";
+import type { JiraUser } from "../../domain/types.js";
+
+const user = (accountId: string, displayName: string, active = true): JiraUser => ({
+  accountId,
+  displayName,
+  active,
+});
+
+/**
+ * Mock client with a fixed list of watchers.
+ */
+const createMockClient = (watchers: JiraUser[]) => ({
+  getWatchers: vi.fn().mockResolvedValue({ watchCount: watchers.length, isWatching: false, watchers }),
+  getVotes: vi.fn().mockResolvedValue({ votes: 2, hasVoted: true, voters: [user("acc-bob", "Bob")] }),
+  addWatcher: vi.fn().mockResolvedValue(undefined),
+  removeWatcher: vi.fn().mockResolvedValue(undefined),
+});
+
+const parse = (result: { content: Array<{ text: string }> }) =>
+  JSON.parse(result.content[0]?.text ?? "{}");
+
+describe("watcher tools", () => {
+  it("should list watchers and votes", async () => {
+    const client = createMockClient([user("acc-jane", "Jane Doe")]);
+
+    const result = parse(await executeGetWatchers(client as unknown as JiraClient, { issueKey: "PROJ-1" }));
+
+    expect(result.watchCount).toBe(1);
+    expect(result.watchers[0].displayName).toBe("Jane Doe");
+    expect(result.votes).toBe(2);
+    expect(result.voters[0].accountId).toBe("acc-bob");
+  });
+
+  it("should still list watchers when voting is disabled", async () => {
+    const client = createMockClient([]);
+    client.getVotes.mockRejectedValue(new JiraNotFoundError("PROJ-1"));
+
+    const result = await executeGetWatchers(client as unknown as JiraClient, { issueKey: "PROJ-1" });
+
+    expect(result.isError).toBeUndefined();
+    expect(parse(result).votesUnavailable).toBeDefined();
+  });
+
+  it("should add new watchers and skip current ones", async () => {
+    const client = createMockClient([user("acc-jane", "Jane Doe")]);
+    client.addWatcher.mockImplementation((_key: string, id: string) =>
+      id === "acc-ghost" ? Promise.reject(new JiraNotFoundError("PROJ-1")) : Promise.resolve()
+    );
+
+    const result = parse(
+      await executeAddWatcher(client as unknown as JiraClient, {
+        issueKey: "PROJ-1",
+        accountIds: ["acc-jane", "acc-bob", "acc-ghost"],
+      })
+    );
+
+    expect(result.added).toEqual(["acc-bob"]);
+    expect(result.alreadyWatching).toEqual(["acc-jane"]);
+    expect(result.failed).toEqual([{ accountId: "acc-ghost", reason: "User not found" }]);
+  });
+
+  it("should preview removals without removing", async () => {
+    const client = createMockClient([user("acc-jane", "Jane Doe")]);
+
+    const result = parse(
+      await executeRemoveWatcher(client as unknown as JiraClient, {
+        issueKey: "PROJ-1",
+        accountIds: ["acc-jane", "acc-bob"],
+        dryRun: true,
+      })
+    );
+
+    expect(result.wouldRemove).toEqual(["acc-jane"]);
+    expect(result.notWatching).toEqual(["acc-bob"]);
+    expect(client.removeWatcher).not.toHaveBeenCalled();
+  });
+
+  it("should report a missing issue", async () => {
+    const client = createMockClient([]);
+    client.getWatchers.mockRejectedValue(new JiraNotFoundError("PROJ-9"));
+
+    const result = await executeRemoveWatcher(client as unknown as JiraClient, {
+      issueKey: "PROJ-9",
+      accountIds: ["acc-jane"],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe("Issue 'PROJ-9' not found");
+  });
+
+  it("should report API failures with the status", async () => {
+    const client = createMockClient([]);
+    client.getWatchers.mockRejectedValue(new JiraApiError("Forbidden", 403));
+
+    const result = await executeGetWatchers(client as unknown as JiraClient, { issueKey: "PROJ-1" });
+
+    expect(result.content[0]?.text).toBe("Failed to get watchers: Forbidden (status: 403)");
+  });
+});
+
+describe("watch and vote counts", () => {
+  it("should map votes and watch count on extended issues", () => {
+    const issue = mapIssueExtended({
+      id: "1",
+      key: "PROJ-1",
+      self: "https://example.atlassian.net/rest/api/3/issue/1",
+      fields: {
+        summary: "Issue",
+        status: { id: "1", name: "Open", statusCategory: { key: "new" } },
+        issuetype: { id: "1", name: "Story", subtask: false },
+        project: { id: "1", key: "PROJ", name: "Project", projectTypeKey: "software" },
+        created: "2026-01-01T00:00:00.000Z",
+        updated: "2026-01-01T00:00:00.000Z",
+        votes: { votes: 4 },
+        watches: { watchCount: 3 },
+      },
+    });
+
+    expect(issue.votes).toBe(4);
+    expect(issue.watchCount).toBe(3);
+  });
+});
+
+describe("reviewer suggestions", () => {
+  it("should suggest watchers other than the assignees", () => {
+    const context = buildPRContext([
+      { key: "PROJ-1", summary: "A", type: "Story", assignee: "Jane Doe", watchers: ["Jane Doe", "Bob"] },
+      { key: "PROJ-2", summary: "B", type: "Bug", watchers: ["bob", "Carol"] },
+    ]);
+
+    expect(context.suggestedReviewers).toEqual(["Bob", "Carol"]);
+    expect(context.reviewersRecommendation).toContain("Bob, Carol");
+  });
+
+  it("should fall back to the issue heuristics without watchers", () => {
+    const context = buildPRContext([{ key: "PROJ-1", summary: "A", type: "Bug" }]);
+
+    expect(context.suggestedReviewers).toEqual([]);
+    expect(context.reviewersRecommendation).toBe("Bug fix - verify the fix addresses the root cause");
+  });
+});
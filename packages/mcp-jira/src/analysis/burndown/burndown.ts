@@ -0,0 +1,167 @@
+/**
+ * Burndown Calculator
+ *
+ * Replays the issue histories of a sprint day by day: scope, completed
+ * and remaining points, scope changes and the ideal line.
+ */
+
+import type { JiraSprint } from "../../domain/types.js";
+import { DAY_MS, round } from "../numbers.js";
+import type { BurndownDay, BurndownPace, IssueSprintHistory, SprintBurndown } from "./types.js";
+import { getPointsAt, isDoneAt, isInSprintAt } from "./history.js";
+
+/**
+ * Distance from the ideal line, as a share of the committed points, that
+ * still counts as on track.
+ */
+const PACE_TOLERANCE = 0.1;
+
+/**
+ * State of one issue at a point in time.
+ */
+interface IssueSnapshot {
+  readonly inSprint: boolean;
+  readonly points: number | undefined;
+  readonly done: boolean;
+}
+
+const takeSnapshot = (history: IssueSprintHistory, time: number): IssueSnapshot => ({
+  inSprint: isInSprintAt(history, time),
+  points: getPointsAt(history, time),
+  done: isDoneAt(history, time),
+});
+
+/**
+ * Rates the remaining points against the ideal line.
+ */
+function getPace(remaining: number, ideal: number, committed: number): BurndownPace {
+  const tolerance = Math.max(1, committed * PACE_TOLERANCE);
+  if (remaining - ideal > tolerance) {
+    return "behind";
+  }
+  if (ideal - remaining > tolerance) {
+    return "ahead";
+  }
+  return "on-track";
+}
+
+/**
+ * Calculates the burndown of a sprint from its issue histories. Days run
+ * from the sprint start until it was completed, or until now while it is
+ * active; each day is measured at its end.
+ *
+ * @param histories - Issue histories (see buildIssueSprintHistory)
+ * @param sprint - The sprint (must have a start date)
+ * @throws Error if the sprint has not started
+ */
+export function calculateBurndown(
+  histories: readonly IssueSprintHistory[],
+  sprint: JiraSprint,
+  now: Date = new Date()
+): SprintBurndown {
+  if (!sprint.startDate) {
+    throw new Error(`Sprint ${sprint.id} has not started`);
+  }
+
+  const start = Date.parse(sprint.startDate);
+  const plannedEnd = Date.parse(sprint.endDate ?? sprint.completeDate ?? now.toISOString());
+  // Completing a sprint moves its open issues out, so stop just before
+  const rangeEnd = Math.min(
+    now.getTime(),
+    sprint.completeDate ? Date.parse(sprint.completeDate) - 1 : Infinity
+  );
+  const ideal = (time: number, committed: number): number =>
+    plannedEnd > start ? committed * Math.max(0, 1 - (time - start) / (plannedEnd - start)) : 0;
+
+  let previous = histories.map((history) => takeSnapshot(history, start));
+  const committed = previous.filter((snapshot) => snapshot.inSprint);
+  const committedPoints = committed.reduce((sum, snapshot) => sum + (snapshot.points ?? 0), 0);
+
+  const days: BurndownDay[] = [];
+  const firstDay = Math.floor(start / DAY_MS) * DAY_MS;
+  for (let dayStart = firstDay; dayStart <= rangeEnd; dayStart += DAY_MS) {
+    const time = Math.min(dayStart + DAY_MS - 1, rangeEnd);
+    const current = histories.map((history) => takeSnapshot(history, time));
+
+    let scopePoints = 0;
+    let completedPoints = 0;
+    let scopeIssues = 0;
+    let completedIssues = 0;
+    let addedPoints = 0;
+    let removedPoints = 0;
+    const addedIssues: string[] = [];
+    const removedIssues: string[] = [];
+
+    current.forEach((snapshot, i) => {
+      const before = previous[i];
+      const issueKey = histories[i]?.issueKey ?? "";
+      const points = snapshot.inSprint ? snapshot.points ?? 0 : 0;
+      const pointsBefore = before?.inSprint ? before.points ?? 0 : 0;
+
+      if (snapshot.inSprint) {
+        scopePoints += points;
+        scopeIssues++;
+        if (snapshot.done) {
+          completedPoints += points;
+          completedIssues++;
+        }
+      }
+      if (snapshot.inSprint && !before?.inSprint) {
+        addedIssues.push(issueKey);
+      } else if (!snapshot.inSprint && before?.inSprint) {
+        removedIssues.push(issueKey);
+      }
+      if (points > pointsBefore) {
+        addedPoints += points - pointsBefore;
+      } else {
+        removedPoints += pointsBefore - points;
+      }
+    });
+
+    days.push({
+      date: new Date(dayStart).toISOString().slice(0, 10),
+      scopePoints: round(scopePoints, 1),
+      completedPoints: round(completedPoints, 1),
+      remainingPoints: round(scopePoints - completedPoints, 1),
+      idealRemainingPoints: round(ideal(time, committedPoints), 1),
+      scopeIssues,
+      completedIssues,
+      addedPoints: round(addedPoints, 1),
+      removedPoints: round(removedPoints, 1),
+      addedIssues,
+      removedIssues,
+      scopeCreep:
+        addedPoints > removedPoints ||
+        (addedPoints === removedPoints && addedIssues.length > removedIssues.length),
+    });
+    previous = current;
+  }
+
+  const last = days[days.length - 1];
+  const addedPoints = days.reduce((sum, day) => sum + day.addedPoints, 0);
+  const removedPoints = days.reduce((sum, day) => sum + day.removedPoints, 0);
+
+  return {
+    sprintId: sprint.id,
+    sprintName: sprint.name,
+    startDate: sprint.startDate,
+    endDate: sprint.completeDate ?? sprint.endDate ?? "",
+    committedPoints: round(committedPoints, 1),
+    committedIssues: committed.length,
+    scopePoints: last?.scopePoints ?? round(committedPoints, 1),
+    completedPoints: last?.completedPoints ?? 0,
+    remainingPoints: last?.remainingPoints ?? round(committedPoints, 1),
+    addedPoints: round(addedPoints, 1),
+    removedPoints: round(removedPoints, 1),
+    scopeChange:
+      committedPoints > 0 ? round((addedPoints - removedPoints) / committedPoints, 2) : undefined,
+    pace: last
+      ? getPace(last.remainingPoints, last.idealRemainingPoints, committedPoints)
+      : "on-track",
+    days,
+    scopeCreepDays: days.filter((day) => day.scopeCreep).map((day) => day.date),
+    unestimatedIssues: previous.flatMap((snapshot, i) =>
+      snapshot.inSprint && snapshot.points === undefined ? [histories[i]?.issueKey ?? ""] : []
+    ),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Sprint History Fetcher
+ *
+ * Fetches the issues that were in a sprint, including those removed while
+ * it ran, and builds their histories from their changelogs.
+ */
+
+import type { JiraClient } from "../../domain/jira-client.js";
+import { JiraApiError, JiraAuthError } from "../../domain/jira-client.js";
+import type { JiraIssue, JiraSprint, JiraSprintExtended } from "../../domain/types.js";
+import { fetchChangelogs, fetchScopeIssues, fetchStatusCategories } from "../flow/index.js";
+import type { IssueSprintHistory } from "./types.js";
+import { buildIssueSprintHistory } from "./history.js";
+
+/**
+ * Issue keys looked up per JQL query.
+ */
+const KEYS_PER_QUERY = 50;
+
+/**
+ * Fetches the issues that were ever in a sprint: those still in it, and
+ * those the sprint report lists as removed before it was completed.
+ *
+ * @param maxIssues - Maximum number of issues to fetch
+ * @returns The issues, the keys of those removed from the sprint, whether
+ * more were in the sprint, and whether the removed issues could not be loaded
+ * @throws JiraSprintNotFoundError if the sprint doesn't exist
+ */
+export async function fetchSprintScopeIssues(
+  client: JiraClient,
+  sprint: Pick<JiraSprintExtended, "id" | "originBoardId">,
+  maxIssues: number
+): Promise<{
+  issues: JiraIssue[];
+  removedIssueKeys: string[];
+  truncated: boolean;
+  removedUnavailable: boolean;
+}> {
+  const current = await fetchScopeIssues(client, { sprintId: sprint.id }, maxIssues);
+  const issues = [...current.issues];
+  const removedIssueKeys: string[] = [];
+
+  try {
+    const present = new Set(issues.map((issue) => issue.key));
+    const keys = (await client.getSprintRemovedIssueKeys(sprint.originBoardId, sprint.id)).filter(
+      (key) => !present.has(key)
+    );
+    const wanted = keys.slice(0, Math.max(0, maxIssues - issues.length));
+
+    for (let i = 0; i < wanted.length; i += KEYS_PER_QUERY) {
+      const chunk = wanted.slice(i, i + KEYS_PER_QUERY);
+      const removed = await fetchScopeIssues(
+        client,
+        { jql: `key in (${chunk.join(", ")}) ORDER BY key` },
+        chunk.length
+      );
+      issues.push(...removed.issues);
+      removedIssueKeys.push(...removed.issues.map((issue) => issue.key));
+    }
+
+    return {
+      issues,
+      removedIssueKeys,
+      truncated: current.truncated || wanted.length < keys.length,
+      removedUnavailable: false,
+    };
+  } catch (error) {
+    // The sprint report is not available on every board; scope removed is then unknown
+    if (error instanceof JiraApiError && !(error instanceof JiraAuthError)) {
+      return { issues, removedIssueKeys, truncated: current.truncated, removedUnavailable: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Builds the sprint histories of issues from their changelogs, reading
+ * story points and sprint changes from the client's field mappings.
+ */
+export async function fetchSprintHistories(
+  client: JiraClient,
+  sprint: Pick<JiraSprint, "id" | "name">,
+  issues: readonly JiraIssue[]
+): Promise<IssueSprintHistory[]> {
+  const categories = await fetchStatusCategories(client, issues);
+  const { storyPointsCandidates, sprintCandidates } = client.getFieldMappings();
+  const fields = { storyPoints: storyPointsCandidates, sprint: sprintCandidates };
+  const changelogs = await fetchChangelogs(client, issues);
+
+  return issues.map((issue, index) =>
+    buildIssueSprintHistory(issue, changelogs[index] ?? [], sprint, fields, categories)
+  );
+}
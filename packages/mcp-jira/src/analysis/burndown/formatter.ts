@@ -0,0 +1,71 @@
+/**
+ * Burndown Formatter
+ *
+ * Formats a sprint burndown as Markdown.
+ */
+
+import type { BurndownPace, SprintBurndown } from "./types.js";
+
+const PACE_LABELS: Record<BurndownPace, string> = {
+  ahead: "Ahead of the ideal line",
+  "on-track": "On the ideal line",
+  behind: "Behind the ideal line",
+};
+
+/**
+ * Formats a scope change of a day, e.g. "+5 (PROJ-7)".
+ */
+function formatChange(added: number, removed: number, issues: readonly string[]): string {
+  const parts: string[] = [];
+  if (added > 0) {
+    parts.push(`+${added}`);
+  }
+  if (removed > 0) {
+    parts.push(`-${removed}`);
+  }
+  if (issues.length > 0) {
+    parts.push(`(${issues.join(", ")})`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Formats a sprint burndown as Markdown: a summary and one table row per
+ * day, with scope creep days marked.
+ */
+export function formatBurndownMarkdown(burndown: SprintBurndown): string {
+  const lines: string[] = [];
+
+  lines.push(`## Burndown: ${burndown.sprintName}`);
+  lines.push("");
+  lines.push(
+    `- **Committed:** ${burndown.committedPoints} points (${burndown.committedIssues} issues)`
+  );
+  lines.push(
+    `- **Scope now:** ${burndown.scopePoints} points (+${burndown.addedPoints} / -${burndown.removedPoints})`
+  );
+  lines.push(`- **Completed:** ${burndown.completedPoints} points`);
+  lines.push(`- **Remaining:** ${burndown.remainingPoints} points`);
+  lines.push(`- **Pace:** ${PACE_LABELS[burndown.pace]}`);
+  if (burndown.scopeCreepDays.length > 0) {
+    lines.push(`- **Scope creep:** ${burndown.scopeCreepDays.join(", ")}`);
+  }
+  if (burndown.unestimatedIssues.length > 0) {
+    lines.push(`- **Unestimated:** ${burndown.unestimatedIssues.join(", ")}`);
+  }
+  lines.push("");
+
+  lines.push("| Date | Scope | Completed | Remaining | Ideal | Scope change |");
+  lines.push("|------|-------|-----------|-----------|-------|--------------|");
+  for (const day of burndown.days) {
+    const change = formatChange(day.addedPoints, day.removedPoints, [
+      ...day.addedIssues.map((key) => `+${key}`),
+      ...day.removedIssues.map((key) => `-${key}`),
+    ]);
+    lines.push(
+      `| ${day.date}${day.scopeCreep ? " ⚠️" : ""} | ${day.scopePoints} | ${day.completedPoints} | ${day.remainingPoints} | ${day.idealRemainingPoints} | ${change} |`
+    );
+  }
+
+  return lines.join("\n");
+}
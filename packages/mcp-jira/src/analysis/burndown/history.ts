@@ -0,0 +1,152 @@
+/**
+ * Issue Sprint History
+ *
+ * Reconstructs the estimate, sprint membership, flag and status of an
+ * issue over time from its changelog.
+ */
+
+import type {
+  JiraChangelogEntry,
+  JiraChangelogItem,
+  JiraIssue,
+  JiraSprint,
+} from "../../domain/types.js";
+import { buildStatusTimeline, getCategoryAt, type StatusCategory } from "../flow/index.js";
+import type { BurndownFields, IssueSprintHistory, ValueChange } from "./types.js";
+
+const STORY_POINTS_FIELD_PATTERN = /^story ?points?( estimate)?$/i;
+
+const isStoryPointsItem = (item: JiraChangelogItem, fields: BurndownFields): boolean =>
+  (item.fieldId !== undefined && fields.storyPoints.includes(item.fieldId)) ||
+  STORY_POINTS_FIELD_PATTERN.test(item.field);
+
+const isSprintItem = (item: JiraChangelogItem, fields: BurndownFields): boolean =>
+  (item.fieldId !== undefined && fields.sprint.includes(item.fieldId)) ||
+  item.field.toLowerCase() === "sprint";
+
+/**
+ * Parses a story points value from a changelog item.
+ */
+function parsePoints(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+  const points = Number(value);
+  return Number.isNaN(points) ? undefined : points;
+}
+
+/**
+ * Checks whether a sprint field value includes the sprint: by ID, or by
+ * name when the IDs are missing.
+ */
+function includesSprint(
+  ids: string | undefined,
+  names: string | undefined,
+  sprint: Pick<JiraSprint, "id" | "name">
+): boolean {
+  if (ids !== undefined && ids.trim() !== "") {
+    return ids.split(/[,\s]+/).includes(String(sprint.id));
+  }
+  return (names ?? "").split(",").some((name) => name.trim() === sprint.name);
+}
+
+/**
+ * Builds the history of an issue within a sprint.
+ *
+ * @param issue - The issue (its current estimate closes the history)
+ * @param changelog - The issue's changelog entries, in any order
+ * @param sprint - The sprint
+ * @param fields - Story points and sprint field IDs
+ * @param categories - Status categories keyed by lowercase status name
+ */
+export function buildIssueSprintHistory(
+  issue: Pick<JiraIssue, "key" | "issueType" | "created" | "status" | "storyPoints">,
+  changelog: readonly JiraChangelogEntry[],
+  sprint: Pick<JiraSprint, "id" | "name">,
+  fields: BurndownFields,
+  categories: ReadonlyMap<string, StatusCategory>
+): IssueSprintHistory {
+  const entries = [...changelog].sort((a, b) => Date.parse(a.created) - Date.parse(b.created));
+  const pointChanges: ValueChange<number | undefined>[] = [];
+  const sprintChanges: ValueChange<boolean>[] = [];
+  const flagChanges: ValueChange<boolean>[] = [];
+  let initialPoints = issue.storyPoints;
+  let initiallyInSprint = true;
+  let initiallyFlagged = false;
+
+  for (const entry of entries) {
+    const at = Date.parse(entry.created);
+    for (const item of entry.items) {
+      if (isStoryPointsItem(item, fields)) {
+        if (pointChanges.length === 0) {
+          initialPoints = parsePoints(item.fromString);
+        }
+        pointChanges.push({ at, value: parsePoints(item.toString) });
+      } else if (isSprintItem(item, fields)) {
+        if (sprintChanges.length === 0) {
+          initiallyInSprint = includesSprint(item.from, item.fromString, sprint);
+        }
+        sprintChanges.push({ at, value: includesSprint(item.to, item.toString, sprint) });
+      } else if (item.field.toLowerCase() === "flagged") {
+        if (flagChanges.length === 0) {
+          initiallyFlagged = Boolean(item.fromString?.trim());
+        }
+        flagChanges.push({ at, value: Boolean(item.toString?.trim()) });
+      }
+    }
+  }
+
+  return {
+    issueKey: issue.key,
+    created: Date.parse(issue.created),
+    initialPoints,
+    pointChanges,
+    initiallyInSprint,
+    sprintChanges,
+    initiallyFlagged,
+    flagChanges,
+    timeline: buildStatusTimeline(issue, changelog, categories),
+  };
+}
+
+/**
+ * Gets the value of a changing field at a point in time.
+ */
+function valueAt<T>(initial: T, changes: readonly ValueChange<T>[], time: number): T {
+  let value = initial;
+  for (const change of changes) {
+    if (change.at > time) {
+      break;
+    }
+    value = change.value;
+  }
+  return value;
+}
+
+/**
+ * Gets the story points of an issue at a point in time.
+ */
+export function getPointsAt(history: IssueSprintHistory, time: number): number | undefined {
+  return valueAt(history.initialPoints, history.pointChanges, time);
+}
+
+/**
+ * Checks whether an issue was in the sprint at a point in time.
+ */
+export function isInSprintAt(history: IssueSprintHistory, time: number): boolean {
+  return time >= history.created && valueAt(history.initiallyInSprint, history.sprintChanges, time);
+}
+
+/**
+ * Checks whether an issue was flagged as impeded at a point in time.
+ */
+export function isFlaggedAt(history: IssueSprintHistory, time: number): boolean {
+  return valueAt(history.initiallyFlagged, history.flagChanges, time);
+}
+
+/**
+ * Checks whether an issue was done at a point in time.
+ */
+export function isDoneAt(history: IssueSprintHistory, time: number): boolean {
+  return getCategoryAt(history.timeline, time) === "done";
+}
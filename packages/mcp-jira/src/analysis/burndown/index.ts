@@ -0,0 +1,34 @@
+/**
+ * Burndown Module
+ *
+ * Reconstructs sprint burndown and burnup from issue changelogs: scope,
+ * completed and remaining points per day, scope changes and the ideal line.
+ */
+
+// Types
+export type {
+  BurndownFields,
+  ValueChange,
+  IssueSprintHistory,
+  BurndownDay,
+  BurndownPace,
+  SprintBurndown,
+} from "./types.js";
+
+// Issue histories
+export {
+  buildIssueSprintHistory,
+  getPointsAt,
+  isInSprintAt,
+  isFlaggedAt,
+  isDoneAt,
+} from "./history.js";
+
+// Burndown
+export { calculateBurndown } from "./burndown.js";
+
+// Formatter
+export { formatBurndownMarkdown } from "./formatter.js";
+
+// Fetcher
+export { fetchSprintHistories, fetchSprintScopeIssues } from "./fetcher.js";
@@ -0,0 +1,101 @@
+/**
+ * Burndown Types
+ *
+ * Type definitions for sprint burndown and burnup reconstructed from
+ * issue changelogs.
+ */
+
+import type { StatusTimeline } from "../flow/index.js";
+
+/**
+ * Field IDs whose changelog items record story points and sprints, in
+ * addition to the fields named "Story Points" and "Sprint".
+ */
+export interface BurndownFields {
+  readonly storyPoints: readonly string[];
+  readonly sprint: readonly string[];
+}
+
+/**
+ * A value that changed at a point in time.
+ */
+export interface ValueChange<T> {
+  /** When the change happened (ms) */
+  readonly at: number;
+  readonly value: T;
+}
+
+/**
+ * History of one issue within a sprint: estimate, sprint membership,
+ * flag and status over time.
+ */
+export interface IssueSprintHistory {
+  readonly issueKey: string;
+  /** When the issue was created (ms) */
+  readonly created: number;
+  /** Story points before the first change */
+  readonly initialPoints?: number | undefined;
+  readonly pointChanges: readonly ValueChange<number | undefined>[];
+  /** Whether the issue was in the sprint before the first change */
+  readonly initiallyInSprint: boolean;
+  readonly sprintChanges: readonly ValueChange<boolean>[];
+  /** Whether the issue was flagged before the first change */
+  readonly initiallyFlagged: boolean;
+  readonly flagChanges: readonly ValueChange<boolean>[];
+  readonly timeline: StatusTimeline;
+}
+
+/**
+ * Sprint scope and completion at the end of one day.
+ */
+export interface BurndownDay {
+  /** Day (YYYY-MM-DD, UTC) */
+  readonly date: string;
+  readonly scopePoints: number;
+  readonly completedPoints: number;
+  readonly remainingPoints: number;
+  /** Remaining points on the ideal line from the committed points to zero */
+  readonly idealRemainingPoints: number;
+  readonly scopeIssues: number;
+  readonly completedIssues: number;
+  /** Points added during the day (issues added or re-estimated upwards) */
+  readonly addedPoints: number;
+  /** Points removed during the day (issues removed or re-estimated downwards) */
+  readonly removedPoints: number;
+  readonly addedIssues: readonly string[];
+  readonly removedIssues: readonly string[];
+  /** Whether the scope grew during the day */
+  readonly scopeCreep: boolean;
+}
+
+/**
+ * Whether the sprint is ahead of or behind the ideal line.
+ */
+export type BurndownPace = "ahead" | "on-track" | "behind";
+
+/**
+ * Burndown and burnup of a sprint.
+ */
+export interface SprintBurndown {
+  readonly sprintId: number;
+  readonly sprintName: string;
+  readonly startDate: string;
+  readonly endDate: string;
+  /** Points and issues in the sprint when it started */
+  readonly committedPoints: number;
+  readonly committedIssues: number;
+  readonly scopePoints: number;
+  readonly completedPoints: number;
+  readonly remainingPoints: number;
+  /** Points added and removed after the sprint started */
+  readonly addedPoints: number;
+  readonly removedPoints: number;
+  /** Net scope change as a share of the committed points (e.g., 0.2) */
+  readonly scopeChange?: number | undefined;
+  /** Remaining points against the ideal line on the last day */
+  readonly pace: BurndownPace;
+  readonly days: readonly BurndownDay[];
+  readonly scopeCreepDays: readonly string[];
+  /** Issues in scope without story points */
+  readonly unestimatedIssues: readonly string[];
+}
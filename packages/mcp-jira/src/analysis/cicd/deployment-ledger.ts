@@ -0,0 +1,262 @@
+/**
+ * Deployment Ledger
+ *
+ * Append-only, file-backed log of recorded deployments.
+ * The deployment tracker replays the ledger on startup, so release
+ * progress survives restarts and can be moved between machines via
+ * export/import.
+ */
+
+import { z } from "zod";
+import {
+  resolveDataPath,
+  readJsonLines,
+  appendJsonLine,
+  writeJsonLines,
+} from "../../storage/index.js";
+import type {
+  DeploymentEnvironment,
+  DeploymentLedgerEntry,
+  DeploymentRetentionPolicies,
+} from "./types.js";
+
+/**
+ * Current schema version of ledger records.
+ */
+export const DEPLOYMENT_LEDGER_SCHEMA_VERSION = 1;
+
+/**
+ * Default ledger file name inside the data directory.
+ */
+const DEFAULT_LEDGER_FILE = "deployments.jsonl";
+
+/**
+ * Default retention policies.
+ * Short-lived environments are pruned; production history is kept.
+ */
+export const DEFAULT_RETENTION_POLICIES: DeploymentRetentionPolicies = {
+  preview: { maxAgeDays: 14 },
+  development: { maxAgeDays: 30 },
+  qa: { maxAgeDays: 60 },
+  staging: { maxAgeDays: 90 },
+};
+
+const DeploymentEnvironmentSchema = z.enum([
+  "development",
+  "staging",
+  "production",
+  "preview",
+  "qa",
+]);
+
+/**
+ * Schema for a ledger entry (used when replaying and importing).
+ */
+export const DeploymentLedgerEntrySchema = z.object({
+  schemaVersion: z.literal(DEPLOYMENT_LEDGER_SCHEMA_VERSION),
+  recordedAt: z.string(),
+  issueKeys: z.array(z.string().regex(/^[A-Z][A-Z0-9]*-\d+$/i)),
+  deployment: z.object({
+    deploymentId: z.string().min(1),
+    environment: DeploymentEnvironmentSchema,
+    status: z.enum(["pending", "in_progress", "success", "failed", "rolled_back"]),
+    deployedAt: z.string(),
+    version: z.string(),
+    commitSha: z.string().optional(),
+    branch: z.string().optional(),
+    deployedBy: z.string().optional(),
+    url: z.string().optional(),
+    duration: z.number().optional(),
+  }),
+});
+
+/**
+ * Result of reading the ledger.
+ */
+export interface DeploymentLedgerReadResult {
+  /** Valid entries, in append order */
+  readonly entries: DeploymentLedgerEntry[];
+  /** Records that are invalid or from an unsupported schema version */
+  readonly skipped: number;
+  /** Lines that are not JSON, such as a record torn by a crash mid-append */
+  readonly corrupt: number;
+}
+
+/**
+ * Persistence backend for the deployment ledger.
+ */
+export interface DeploymentLedger {
+  /** Backend kind (for diagnostics) */
+  readonly kind: "memory" | "file";
+  /** Where entries are stored (file path or "memory") */
+  readonly location: string;
+  /** Reads all entries */
+  readAll(): DeploymentLedgerReadResult;
+  /** Appends a single entry */
+  append(entry: DeploymentLedgerEntry): void;
+  /** Replaces all entries (compaction, import with replace) */
+  rewrite(entries: readonly DeploymentLedgerEntry[]): void;
+}
+
+/**
+ * Validates raw records, separating valid entries from skipped ones.
+ */
+function parseEntries(
+  records: readonly unknown[]
+): Omit<DeploymentLedgerReadResult, "corrupt"> {
+  const entries: DeploymentLedgerEntry[] = [];
+  let skipped = 0;
+
+  for (const record of records) {
+    const result = DeploymentLedgerEntrySchema.safeParse(record);
+    if (result.success) {
+      entries.push(result.data);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { entries, skipped };
+}
+
+/**
+ * Creates a ledger that keeps entries in process memory only.
+ */
+export function createMemoryLedger(
+  initial: readonly DeploymentLedgerEntry[] = []
+): DeploymentLedger {
+  let stored = [...initial];
+
+  return {
+    kind: "memory",
+    location: "memory",
+    readAll: () => ({ entries: [...stored], skipped: 0, corrupt: 0 }),
+    append: (entry) => {
+      stored.push(entry);
+    },
+    rewrite: (entries) => {
+      stored = [...entries];
+    },
+  };
+}
+
+/**
+ * Creates a ledger stored as a JSON Lines file.
+ * Entries are appended; rewrites (compaction) are atomic.
+ *
+ * @param filePath - Path of the JSONL file
+ */
+export function createJsonlLedger(filePath: string): DeploymentLedger {
+  return {
+    kind: "file",
+    location: filePath,
+
+    readAll(): DeploymentLedgerReadResult {
+      const { records, invalidLines } = readJsonLines(filePath);
+      const parsed = parseEntries(records);
+      return { entries: parsed.entries, skipped: parsed.skipped, corrupt: invalidLines };
+    },
+
+    append(entry: DeploymentLedgerEntry): void {
+      appendJsonLine(filePath, entry);
+    },
+
+    rewrite(entries: readonly DeploymentLedgerEntry[]): void {
+      writeJsonLines(filePath, entries);
+    },
+  };
+}
+
+/**
+ * Creates the ledger selected by environment variables:
+ * - JIRA_MCP_STORAGE=memory disables persistence
+ * - JIRA_MCP_DEPLOYMENTS_FILE points to an explicit ledger file
+ * - Otherwise deployments.jsonl in the data directory (JIRA_MCP_DATA_DIR)
+ */
+export function createDefaultLedger(): DeploymentLedger {
+  if (process.env["JIRA_MCP_STORAGE"] === "memory") {
+    return createMemoryLedger();
+  }
+
+  const explicitFile = process.env["JIRA_MCP_DEPLOYMENTS_FILE"];
+  return createJsonlLedger(explicitFile || resolveDataPath(DEFAULT_LEDGER_FILE));
+}
+
+/**
+ * Parses retention overrides from JIRA_MCP_DEPLOYMENT_RETENTION_DAYS.
+ * Format: "preview=7,staging=120,production=0" (0 keeps entries forever).
+ * Unknown environments and invalid values are ignored.
+ */
+export function loadRetentionPoliciesFromEnv(): DeploymentRetentionPolicies {
+  const policies: DeploymentRetentionPolicies = { ...DEFAULT_RETENTION_POLICIES };
+  const raw = process.env["JIRA_MCP_DEPLOYMENT_RETENTION_DAYS"];
+
+  if (!raw) {
+    return policies;
+  }
+
+  for (const part of raw.split(",")) {
+    const [envName, daysText] = part.split("=").map((s) => s.trim());
+    const env = DeploymentEnvironmentSchema.safeParse(envName);
+    const days = Number(daysText);
+
+    if (!env.success || !Number.isFinite(days) || days < 0) {
+      continue;
+    }
+
+    policies[env.data] = days === 0 ? {} : { ...policies[env.data], maxAgeDays: days };
+  }
+
+  return policies;
+}
+
+/**
+ * Applies retention policies to ledger entries.
+ *
+ * @param entries - Entries in append order
+ * @param policies - Retention policies per environment
+ * @param now - Reference time (defaults to current time)
+ * @returns Entries that are kept, in their original order
+ */
+export function applyRetention(
+  entries: readonly DeploymentLedgerEntry[],
+  policies: DeploymentRetentionPolicies,
+  now: Date = new Date()
+): DeploymentLedgerEntry[] {
+  const dropped = new Set<DeploymentLedgerEntry>();
+  const byEnvironment = new Map<DeploymentEnvironment, DeploymentLedgerEntry[]>();
+
+  for (const entry of entries) {
+    const env = entry.deployment.environment;
+    const list = byEnvironment.get(env) ?? [];
+    list.push(entry);
+    byEnvironment.set(env, list);
+  }
+
+  for (const [env, envEntries] of byEnvironment) {
+    const policy = policies[env];
+    if (!policy) {
+      continue;
+    }
+
+    if (policy.maxAgeDays !== undefined) {
+      const cutoff = now.getTime() - policy.maxAgeDays * 24 * 60 * 60 * 1000;
+      for (const entry of envEntries) {
+        if (new Date(entry.deployment.deployedAt).getTime() < cutoff) {
+          dropped.add(entry);
+        }
+      }
+    }
+
+    if (policy.maxEntries !== undefined) {
+      const newestFirst = envEntries
+        .filter((e) => !dropped.has(e))
+        .sort((a, b) => b.deployment.deployedAt.localeCompare(a.deployment.deployedAt));
+      for (const entry of newestFirst.slice(policy.maxEntries)) {
+        dropped.add(entry);
+      }
+    }
+  }
+
+  return entries.filter((e) => !dropped.has(e));
+}
@@ -5,6 +5,9 @@
  * Note: This is a conceptual implementation - actual deployment tracking
  * would require integration with CI/CD systems like GitHub Actions,
  * GitLab CI, or Jenkins via their APIs.
+ *
+ * Recorded deployments are appended to a durable ledger and replayed
+ * on first use, so tracking survives server restarts.
  */
 
 import type {
@@ -15,12 +18,48 @@ import type {
   ReleaseStatus,
   DeploymentEnvironment,
   DeploymentStatus,
+  DeploymentLedgerEntry,
+  DeploymentRetentionPolicies,
+  DeploymentLedgerExport,
+  DeploymentImportResult,
 } from "./types.js";
+import {
+  DEPLOYMENT_LEDGER_SCHEMA_VERSION,
+  DeploymentLedgerEntrySchema,
+  applyRetention,
+  createDefaultLedger,
+  createMemoryLedger,
+  loadRetentionPoliciesFromEnv,
+  type DeploymentLedger,
+} from "./deployment-ledger.js";
+
+/**
+ * Active ledger backend (resolved lazily from the environment).
+ */
+let ledger: DeploymentLedger | undefined;
 
 /**
- * In-memory storage for deployments (would be replaced with actual storage).
+ * Active retention policies (resolved lazily from the environment).
  */
-const deploymentStore = new Map<string, IssueDeployment[]>();
+let retentionPolicies: DeploymentRetentionPolicies | undefined;
+
+/**
+ * Ledger entries currently retained, in append order.
+ */
+let ledgerEntries: DeploymentLedgerEntry[] | undefined;
+
+/**
+ * Whether the ledger contained records this server could not read.
+ * Such ledgers are never rewritten, so those records are not lost.
+ * Lines that are not JSON at all (torn writes) cannot be recovered and
+ * do not prevent rewrites.
+ */
+let ledgerHasUnreadableRecords = false;
+
+/**
+ * In-memory index of deployments per issue, rebuilt from the ledger.
+ */
+let deploymentStore: Map<string, IssueDeployment[]> | undefined;
 
 /**
  * Environment deployment order (for progress tracking).
@@ -33,9 +72,30 @@ const ENVIRONMENT_ORDER: DeploymentEnvironment[] = [
 ];
 
 /**
- * Records a deployment for issues.
+ * Gets the active ledger, creating the default one on first use.
  */
-export function recordDeployment(
+function getLedger(): DeploymentLedger {
+  if (!ledger) {
+    ledger = createDefaultLedger();
+  }
+  return ledger;
+}
+
+/**
+ * Gets the active retention policies.
+ */
+function getRetentionPolicies(): DeploymentRetentionPolicies {
+  if (!retentionPolicies) {
+    retentionPolicies = loadRetentionPoliciesFromEnv();
+  }
+  return retentionPolicies;
+}
+
+/**
+ * Applies a deployment to the in-memory index.
+ */
+function applyDeployment(
+  store: Map<string, IssueDeployment[]>,
   issueKeys: readonly string[],
   deployment: DeploymentInfo
 ): { linked: string[]; failed: string[] } {
@@ -44,7 +104,7 @@ export function recordDeployment(
 
   for (const issueKey of issueKeys) {
     try {
-      const existing = deploymentStore.get(issueKey) ?? [];
+      const existing = store.get(issueKey) ?? [];
 
       // Mark previous deployments as not latest
       const updated = existing.map((d) => ({
@@ -60,7 +120,7 @@ export function recordDeployment(
         isLatest: true,
       });
 
-      deploymentStore.set(issueKey, updated);
+      store.set(issueKey, updated);
       linked.push(issueKey);
     } catch {
       failed.push(issueKey);
@@ -70,18 +130,304 @@ export function recordDeployment(
   return { linked, failed };
 }
 
+/**
+ * Rebuilds the in-memory index from ledger entries.
+ */
+function rebuildStore(entries: readonly DeploymentLedgerEntry[]): Map<string, IssueDeployment[]> {
+  const store = new Map<string, IssueDeployment[]>();
+  for (const entry of entries) {
+    applyDeployment(store, entry.issueKeys, entry.deployment);
+  }
+  return store;
+}
+
+/**
+ * Rewrites the ledger with the given entries, unless it holds records
+ * this server could not read.
+ *
+ * @returns true if the ledger was rewritten
+ */
+function rewriteLedger(entries: readonly DeploymentLedgerEntry[]): boolean {
+  if (ledgerHasUnreadableRecords) {
+    console.error(
+      "[deployment-tracker] Ledger contains unreadable records; skipping rewrite to preserve them"
+    );
+    return false;
+  }
+
+  try {
+    getLedger().rewrite(entries);
+    return true;
+  } catch (error) {
+    console.error(
+      `[deployment-tracker] Failed to rewrite deployment ledger: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    return false;
+  }
+}
+
+/**
+ * Loads the ledger on first use: replays retained entries into the
+ * in-memory index and compacts away expired ones.
+ */
+function getStore(): Map<string, IssueDeployment[]> {
+  if (deploymentStore && ledgerEntries) {
+    return deploymentStore;
+  }
+
+  let entries: DeploymentLedgerEntry[] = [];
+  ledgerHasUnreadableRecords = false;
+
+  try {
+    const result = getLedger().readAll();
+    entries = result.entries;
+
+    if (result.skipped > 0) {
+      ledgerHasUnreadableRecords = true;
+      console.error(
+        `[deployment-tracker] Skipped ${result.skipped} unreadable record(s) in ${getLedger().location}`
+      );
+    }
+    if (result.corrupt > 0) {
+      console.error(
+        `[deployment-tracker] Skipped ${result.corrupt} corrupt line(s) in ${getLedger().location}; they are dropped when the ledger is next rewritten`
+      );
+    }
+  } catch (error) {
+    console.error(
+      `[deployment-tracker] Failed to replay deployment ledger from ${getLedger().location}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }. Using memory-only storage for this session.`
+    );
+    ledger = createMemoryLedger();
+  }
+
+  const retained = applyRetention(entries, getRetentionPolicies());
+  if (retained.length < entries.length) {
+    // Nothing is lost if this fails: expired entries are dropped again on replay
+    rewriteLedger(retained);
+  }
+
+  ledgerEntries = retained;
+  deploymentStore = rebuildStore(retained);
+  return deploymentStore;
+}
+
+/**
+ * Gets the retained ledger entries, loading the ledger if needed.
+ */
+function getLedgerEntries(): DeploymentLedgerEntry[] {
+  getStore();
+  return ledgerEntries ?? [];
+}
+
+/**
+ * Replaces the ledger backend and/or retention policies.
+ * Deployments are replayed from the new ledger on next access.
+ */
+export function configureDeploymentTracker(options: {
+  ledger?: DeploymentLedger | undefined;
+  retention?: DeploymentRetentionPolicies | undefined;
+}): void {
+  if (options.ledger) {
+    ledger = options.ledger;
+  }
+  if (options.retention) {
+    retentionPolicies = options.retention;
+  }
+  ledgerEntries = undefined;
+  deploymentStore = undefined;
+}
+
+/**
+ * Gets information about the deployment ledger.
+ */
+export function getDeploymentLedgerInfo(): {
+  kind: DeploymentLedger["kind"];
+  location: string;
+  entryCount: number;
+  retention: DeploymentRetentionPolicies;
+} {
+  const entries = getLedgerEntries();
+  const active = getLedger();
+  return {
+    kind: active.kind,
+    location: active.location,
+    entryCount: entries.length,
+    retention: getRetentionPolicies(),
+  };
+}
+
+/**
+ * Records a deployment for issues.
+ * The deployment is applied in memory and appended to the ledger.
+ */
+export function recordDeployment(
+  issueKeys: readonly string[],
+  deployment: DeploymentInfo
+): { linked: string[]; failed: string[]; persisted: boolean } {
+  const store = getStore();
+  const { linked, failed } = applyDeployment(store, issueKeys, deployment);
+
+  if (linked.length === 0) {
+    return { linked, failed, persisted: false };
+  }
+
+  const entry: DeploymentLedgerEntry = {
+    schemaVersion: DEPLOYMENT_LEDGER_SCHEMA_VERSION,
+    recordedAt: new Date().toISOString(),
+    issueKeys: linked,
+    deployment,
+  };
+  getLedgerEntries().push(entry);
+
+  try {
+    getLedger().append(entry);
+    return { linked, failed, persisted: true };
+  } catch (error) {
+    console.error(
+      `[deployment-tracker] Failed to append to deployment ledger: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    return { linked, failed, persisted: false };
+  }
+}
+
+/**
+ * Applies retention policies to the ledger now.
+ *
+ * @returns Number of entries removed, and whether the ledger file was
+ * rewritten (false if it was left as is, e.g. to keep unreadable records)
+ */
+export function compactDeploymentLedger(): { removed: number; persisted: boolean } {
+  const entries = getLedgerEntries();
+  const retained = applyRetention(entries, getRetentionPolicies());
+  const removed = entries.length - retained.length;
+
+  if (removed === 0) {
+    return { removed, persisted: true };
+  }
+
+  ledgerEntries = retained;
+  deploymentStore = rebuildStore(retained);
+  return { removed, persisted: rewriteLedger(retained) };
+}
+
+/**
+ * Exports ledger entries in a portable format.
+ *
+ * @param filter - Optional environment and issue filters
+ */
+export function exportDeploymentLedger(filter?: {
+  environments?: readonly DeploymentEnvironment[] | undefined;
+  issueKeys?: readonly string[] | undefined;
+}): DeploymentLedgerExport {
+  const issueFilter = filter?.issueKeys
+    ? new Set(filter.issueKeys.map((k) => k.toUpperCase()))
+    : undefined;
+
+  const entries = getLedgerEntries().filter((entry) => {
+    if (filter?.environments && !filter.environments.includes(entry.deployment.environment)) {
+      return false;
+    }
+    if (issueFilter && !entry.issueKeys.some((k) => issueFilter.has(k.toUpperCase()))) {
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    schemaVersion: DEPLOYMENT_LEDGER_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+}
+
+/**
+ * Imports ledger entries (e.g. from another machine's export).
+ *
+ * In "merge" mode, entries whose deployment ID already exists are skipped.
+ * In "replace" mode, the ledger is replaced with the imported entries.
+ *
+ * @param data - A DeploymentLedgerExport (or a bare array of entries)
+ * @param mode - Merge with or replace the existing ledger
+ * @throws Error if the data is not a valid ledger export
+ */
+export function importDeploymentLedger(
+  data: unknown,
+  mode: "merge" | "replace" = "merge"
+): DeploymentImportResult {
+  const rawEntries =
+    Array.isArray(data)
+      ? data
+      : data !== null && typeof data === "object" && "entries" in data && Array.isArray(data.entries)
+        ? data.entries
+        : undefined;
+
+  if (!rawEntries) {
+    throw new Error("Invalid ledger export: expected an object with an 'entries' array");
+  }
+
+  const incoming: DeploymentLedgerEntry[] = [];
+  rawEntries.forEach((raw: unknown, index: number) => {
+    const result = DeploymentLedgerEntrySchema.safeParse(raw);
+    if (!result.success) {
+      const errors = result.error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join("; ");
+      throw new Error(`Invalid ledger entry at index ${index}: ${errors}`);
+    }
+    incoming.push(result.data);
+  });
+
+  const base = mode === "replace" ? [] : getLedgerEntries();
+  const knownIds = new Set(base.map((e) => e.deployment.deploymentId));
+  const added: DeploymentLedgerEntry[] = [];
+  let duplicates = 0;
+
+  for (const entry of incoming) {
+    if (knownIds.has(entry.deployment.deploymentId)) {
+      duplicates++;
+      continue;
+    }
+    knownIds.add(entry.deployment.deploymentId);
+    added.push(entry);
+  }
+
+  const combined = [...base, ...added].sort((a, b) =>
+    a.deployment.deployedAt.localeCompare(b.deployment.deployedAt)
+  );
+  const retained = applyRetention(combined, getRetentionPolicies());
+  const expired = combined.length - retained.length;
+
+  ledgerEntries = retained;
+  deploymentStore = rebuildStore(retained);
+  const persisted = rewriteLedger(retained);
+
+  return {
+    imported: added.length - added.filter((e) => !retained.includes(e)).length,
+    duplicates,
+    expired,
+    totalEntries: retained.length,
+    persisted,
+  };
+}
+
 /**
  * Gets deployments for an issue.
  */
 export function getIssueDeployments(issueKey: string): IssueDeployment[] {
-  return deploymentStore.get(issueKey) ?? [];
+  return getStore().get(issueKey) ?? [];
 }
 
 /**
  * Gets the latest deployment for an issue in each environment.
  */
 export function getIssueEnvironmentStatus(issueKey: string): Map<DeploymentEnvironment, DeploymentInfo> {
-  const deployments = deploymentStore.get(issueKey) ?? [];
+  const deployments = getStore().get(issueKey) ?? [];
   const envStatus = new Map<DeploymentEnvironment, DeploymentInfo>();
 
   for (const deployment of deployments) {
@@ -264,7 +610,7 @@ export function getDeploymentHealth(): Record<DeploymentEnvironment, {
     let lastDeployment: string | undefined;
     let lastStatus: DeploymentStatus = "pending";
 
-    for (const deployments of deploymentStore.values()) {
+    for (const deployments of getStore().values()) {
       for (const deployment of deployments) {
         if (deployment.deployment.environment === env) {
           totalCount++;
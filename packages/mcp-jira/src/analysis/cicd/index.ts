@@ -1,7 +1,7 @@
 /**
  * CI/CD Integration Module
  *
- * Deployment tracking and release status monitoring.
+ * Deployment tracking, durable deployment ledger, and release status monitoring.
  */
 
 // Types
@@ -16,6 +16,11 @@ export type {
   DeploymentTrackingOptions,
   DeploymentLinkInput,
   DeploymentLinkResult,
+  DeploymentLedgerEntry,
+  DeploymentRetentionPolicy,
+  DeploymentRetentionPolicies,
+  DeploymentLedgerExport,
+  DeploymentImportResult,
 } from "./types.js";
 
 // Deployment Tracker
@@ -27,4 +32,21 @@ export {
   getReleaseStatus,
   getDeploymentTimeline,
   getDeploymentHealth,
+  configureDeploymentTracker,
+  getDeploymentLedgerInfo,
+  compactDeploymentLedger,
+  exportDeploymentLedger,
+  importDeploymentLedger,
 } from "./deployment-tracker.js";
+
+// Deployment Ledger
+export {
+  createMemoryLedger,
+  createJsonlLedger,
+  createDefaultLedger,
+  applyRetention,
+  loadRetentionPoliciesFromEnv,
+  DEFAULT_RETENTION_POLICIES,
+  DEPLOYMENT_LEDGER_SCHEMA_VERSION,
+} from "./deployment-ledger.js";
+export type { DeploymentLedger, DeploymentLedgerReadResult } from "./deployment-ledger.js";
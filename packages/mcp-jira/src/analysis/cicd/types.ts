@@ -153,3 +153,65 @@ export interface DeploymentLinkResult {
   /** Deployment ID */
   readonly deploymentId: string;
 }
+
+/**
+ * A single record in the deployment ledger.
+ * One entry is appended per recorded deployment.
+ */
+export interface DeploymentLedgerEntry {
+  /** Ledger record schema version */
+  readonly schemaVersion: number;
+  /** When the entry was recorded */
+  readonly recordedAt: string;
+  /** Issues linked to the deployment */
+  readonly issueKeys: readonly string[];
+  /** Deployment info */
+  readonly deployment: DeploymentInfo;
+}
+
+/**
+ * Retention policy for a deployment environment.
+ * Entries are kept when they satisfy every configured limit.
+ */
+export interface DeploymentRetentionPolicy {
+  /** Maximum age in days (undefined keeps entries forever) */
+  readonly maxAgeDays?: number | undefined;
+  /** Maximum number of entries to keep (most recent first) */
+  readonly maxEntries?: number | undefined;
+}
+
+/**
+ * Retention policies keyed by environment.
+ * Environments without a policy keep all entries.
+ */
+export type DeploymentRetentionPolicies = Partial<
+  Record<DeploymentEnvironment, DeploymentRetentionPolicy>
+>;
+
+/**
+ * Portable export of the deployment ledger.
+ */
+export interface DeploymentLedgerExport {
+  /** Ledger record schema version */
+  readonly schemaVersion: number;
+  /** When the export was created */
+  readonly exportedAt: string;
+  /** Exported entries, oldest first */
+  readonly entries: readonly DeploymentLedgerEntry[];
+}
+
+/**
+ * Result of importing ledger entries.
+ */
+export interface DeploymentImportResult {
+  /** Entries added to the ledger */
+  readonly imported: number;
+  /** Entries skipped because their deployment ID already existed */
+  readonly duplicates: number;
+  /** Entries dropped by retention policies */
+  readonly expired: number;
+  /** Total entries in the ledger after import */
+  readonly totalEntries: number;
+  /** Whether the ledger file was rewritten (false: the import lasts until restart) */
+  readonly persisted: boolean;
+}
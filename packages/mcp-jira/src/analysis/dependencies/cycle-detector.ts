@@ -118,10 +118,12 @@ function formatCycleDescription(path: readonly string[]): string {
 /**
  * Checks if adding an edge would create a cycle.
  * Useful for preventing new circular dependencies.
+ * Only node keys and edge endpoints are needed, so partial graphs
+ * (e.g. fetched around a link about to be created) can be checked too.
  */
 export function wouldCreateCycle(
-  nodes: readonly DependencyNode[],
-  edges: readonly DependencyEdge[],
+  nodes: readonly Pick<DependencyNode, "key">[],
+  edges: readonly Pick<DependencyEdge, "from" | "to">[],
   newFrom: string,
   newTo: string
 ): boolean {
@@ -0,0 +1,119 @@
+/**
+ * Cumulative Flow and WIP Aging
+ *
+ * Daily issue counts per status category, and the age of in-progress
+ * items against historical cycle times.
+ */
+
+import { DAY_MS, round } from "../numbers.js";
+import type {
+  AgingRisk,
+  CumulativeFlow,
+  CumulativeFlowDay,
+  Distribution,
+  StatusTimeline,
+  WipAging,
+  WipAgingItem,
+} from "./types.js";
+import { daysBetween, getCategoryAt } from "./timeline.js";
+
+/**
+ * Builds the cumulative flow of issues: how many were in each status
+ * category at the end of each day from `from` to `to` (UTC). Days that
+ * have not ended yet use the status at `now`.
+ *
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD)
+ */
+export function buildCumulativeFlow(
+  timelines: readonly StatusTimeline[],
+  from: string,
+  to: string,
+  now: Date = new Date()
+): CumulativeFlow {
+  const rangeStart = Date.parse(`${from}T00:00:00.000Z`);
+  const rangeEnd = Date.parse(`${to}T00:00:00.000Z`) + DAY_MS;
+  const days: CumulativeFlowDay[] = [];
+
+  for (let dayStart = rangeStart; dayStart < rangeEnd; dayStart += DAY_MS) {
+    const at = Math.min(dayStart + DAY_MS, now.getTime()) - 1;
+    const counts = { new: 0, indeterminate: 0, done: 0 };
+    for (const timeline of timelines) {
+      const category = getCategoryAt(timeline, at);
+      if (category) {
+        counts[category]++;
+      }
+    }
+    days.push({ date: new Date(dayStart).toISOString().slice(0, 10), ...counts });
+  }
+
+  const dayCount = Math.max(1, days.length);
+  const doneBefore = timelines.filter(
+    (timeline) => getCategoryAt(timeline, rangeStart - 1) === "done"
+  ).length;
+  const doneAfter = days[days.length - 1]?.done ?? doneBefore;
+  const arrivals = timelines.filter((timeline) => {
+    const created = Date.parse(timeline.created);
+    return created >= rangeStart && created < rangeEnd;
+  }).length;
+
+  return {
+    from,
+    to,
+    days,
+    averageWip: round(days.reduce((sum, day) => sum + day.indeterminate, 0) / dayCount, 1),
+    throughputPerDay: round(Math.max(0, doneAfter - doneBefore) / dayCount, 2),
+    arrivalsPerDay: round(arrivals / dayCount, 2),
+  };
+}
+
+/**
+ * Rates an age against cycle-time percentiles.
+ */
+function rateAge(ageDays: number, cycleTime: Distribution): AgingRisk {
+  if (ageDays >= cycleTime.p95) {
+    return "critical";
+  }
+  if (ageDays >= cycleTime.p85) {
+    return "at-risk";
+  }
+  if (ageDays >= cycleTime.p50) {
+    return "watch";
+  }
+  return "on-track";
+}
+
+/**
+ * Lists the issues in progress by age, rating each against historical
+ * cycle times: an item older than 85% of completed items took is at risk.
+ *
+ * @param cycleTime - Cycle times of completed issues (see calculateFlowMetrics)
+ */
+export function analyzeWipAging(
+  timelines: readonly StatusTimeline[],
+  cycleTime: Distribution | undefined,
+  now: Date = new Date()
+): WipAging {
+  const items: WipAgingItem[] = [];
+
+  for (const timeline of timelines) {
+    const current = timeline.periods[timeline.periods.length - 1];
+    if (current?.category !== "indeterminate" || !timeline.startedAt) {
+      continue;
+    }
+    const ageDays = round(daysBetween(timeline.startedAt, now.getTime()), 1);
+    items.push({
+      issueKey: timeline.issueKey,
+      issueType: timeline.issueType,
+      status: current.status,
+      ageDays,
+      daysInStatus: round(daysBetween(current.start, now.getTime()), 1),
+      risk: cycleTime ? rateAge(ageDays, cycleTime) : undefined,
+    });
+  }
+
+  return {
+    cycleTime,
+    items: items.sort((a, b) => b.ageDays - a.ageDays),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Flow History Fetcher
+ *
+ * Fetches the issues of a JQL or sprint scope with their changelogs and
+ * the status categories of their projects, and builds status timelines.
+ */
+
+import type { JiraClient } from "../../domain/jira-client.js";
+import { JiraAuthError } from "../../domain/jira-client.js";
+import { DEFAULT_MAX_IN_FLIGHT, runWithConcurrency } from "../../domain/rate-limiter.js";
+import type { JiraChangelogEntry, JiraIssue } from "../../domain/types.js";
+import type { StatusCategory, StatusTimeline } from "./types.js";
+import { buildStatusTimeline } from "./timeline.js";
+
+/**
+ * Issues to analyze: a JQL query or a sprint.
+ */
+export type FlowScope = { readonly jql: string } | { readonly sprintId: number };
+
+/**
+ * Changelog entries fetched per request.
+ */
+const CHANGELOG_PAGE_SIZE = 100;
+
+/**
+ * Changelogs fetched at once (the rate limiter caps requests in flight).
+ */
+const CHANGELOG_CONCURRENCY = DEFAULT_MAX_IN_FLIGHT;
+
+/**
+ * Fetches the issues of a scope.
+ *
+ * @param maxIssues - Maximum number of issues to fetch
+ * @returns The issues, and whether more matched
+ * @throws JiraSprintNotFoundError if the sprint doesn't exist
+ */
+export async function fetchScopeIssues(
+  client: JiraClient,
+  scope: FlowScope,
+  maxIssues: number
+): Promise<{ issues: JiraIssue[]; truncated: boolean }> {
+  const issues: JiraIssue[] = [];
+
+  if ("sprintId" in scope) {
+    let total = Infinity;
+    while (issues.length < Math.min(maxIssues, total)) {
+      const result = await client.getSprintIssues(scope.sprintId, {
+        startAt: issues.length,
+        maxResults: Math.min(50, maxIssues - issues.length),
+      });
+      issues.push(...result.issues);
+      total = result.total >= 0 ? result.total : Infinity;
+      if (result.issues.length === 0 || result.isLast) {
+        break;
+      }
+    }
+    return { issues, truncated: total !== Infinity && total > issues.length };
+  }
+
+  let nextPageToken: string | undefined;
+  do {
+    const result = await client.searchJql(scope.jql, {
+      maxResults: Math.min(50, maxIssues - issues.length),
+      nextPageToken,
+    });
+    issues.push(...result.issues);
+    nextPageToken = result.isLast ? undefined : result.nextPageToken;
+  } while (nextPageToken && issues.length < maxIssues);
+
+  return { issues, truncated: nextPageToken !== undefined };
+}
+
+/**
+ * Fetches the full changelog of an issue.
+ */
+export async function fetchChangelog(
+  client: JiraClient,
+  issueKey: string
+): Promise<JiraChangelogEntry[]> {
+  const entries: JiraChangelogEntry[] = [];
+
+  for (;;) {
+    const result = await client.getIssueChangelog(issueKey, {
+      startAt: entries.length,
+      maxResults: CHANGELOG_PAGE_SIZE,
+    });
+    entries.push(...result.changelog);
+    if (result.changelog.length === 0 || entries.length >= result.total) {
+      return entries;
+    }
+  }
+}
+
+/**
+ * Fetches the full changelogs of issues, several at a time.
+ *
+ * @returns The changelogs, in the order of the issues
+ */
+export function fetchChangelogs(
+  client: JiraClient,
+  issues: readonly Pick<JiraIssue, "key">[]
+): Promise<JiraChangelogEntry[][]> {
+  return runWithConcurrency(issues, CHANGELOG_CONCURRENCY, (issue) => fetchChangelog(client, issue.key));
+}
+
+/**
+ * Collects the status categories of the issues' projects, keyed by
+ * lowercase status name. The issues' current statuses are used as well,
+ * so projects whose statuses cannot be read still classify most statuses.
+ */
+export async function fetchStatusCategories(
+  client: JiraClient,
+  issues: readonly JiraIssue[]
+): Promise<Map<string, StatusCategory>> {
+  const categories = new Map<string, StatusCategory>();
+
+  for (const issue of issues) {
+    if (issue.status.categoryKey !== "undefined") {
+      categories.set(issue.status.name.toLowerCase(), issue.status.categoryKey);
+    }
+  }
+
+  for (const projectKey of new Set(issues.map((issue) => issue.project.key))) {
+    try {
+      for (const issueType of await client.getProjectStatuses(projectKey)) {
+        for (const status of issueType.statuses) {
+          if (status.categoryKey !== "undefined") {
+            categories.set(status.name.toLowerCase(), status.categoryKey);
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof JiraAuthError) {
+        throw error;
+      }
+    }
+  }
+
+  return categories;
+}
+
+/**
+ * Builds the status timelines of issues from their changelogs.
+ */
+export async function fetchStatusTimelines(
+  client: JiraClient,
+  issues: readonly JiraIssue[]
+): Promise<StatusTimeline[]> {
+  const categories = await fetchStatusCategories(client, issues);
+  const changelogs = await fetchChangelogs(client, issues);
+
+  return issues.map((issue, index) => buildStatusTimeline(issue, changelogs[index] ?? [], categories));
+}
@@ -0,0 +1,99 @@
+/**
+ * Flow Report Formatter
+ *
+ * Formats cumulative flow and WIP aging as an ASCII chart and Markdown.
+ */
+
+import type { AgingRisk, CumulativeFlow, WipAging } from "./types.js";
+
+/**
+ * Most days drawn in the chart; longer ranges are sampled.
+ */
+const MAX_CHART_ROWS = 31;
+
+/**
+ * Default width of the chart bars, in characters.
+ */
+const DEFAULT_CHART_WIDTH = 40;
+
+const RISK_LABELS: Record<AgingRisk, string> = {
+  "on-track": "On track",
+  watch: "Watch",
+  "at-risk": "At risk",
+  critical: "Critical",
+};
+
+/**
+ * Draws the cumulative flow as one stacked bar per day: done (#), in
+ * progress (=) and to do (.), scaled to the busiest day.
+ */
+export function formatCumulativeFlowChart(
+  flow: CumulativeFlow,
+  width: number = DEFAULT_CHART_WIDTH
+): string {
+  const step = Math.ceil(flow.days.length / MAX_CHART_ROWS);
+  // Sample backwards so the last day is always drawn
+  const days = flow.days.filter((_, i) => (flow.days.length - 1 - i) % step === 0);
+  const maxTotal = Math.max(1, ...days.map((day) => day.new + day.indeterminate + day.done));
+  const scale = (count: number): number => Math.round((count / maxTotal) * width);
+
+  const lines = [`${"Date".padEnd(10)} |${" ".repeat(width)}| Done  WIP  To do`];
+  for (const day of days) {
+    const done = scale(day.done);
+    const inProgress = scale(day.done + day.indeterminate) - done;
+    const toDo = scale(day.done + day.indeterminate + day.new) - done - inProgress;
+    const bar = "#".repeat(done) + "=".repeat(inProgress) + ".".repeat(toDo);
+    lines.push(
+      `${day.date} |${bar.padEnd(width)}| ${String(day.done).padStart(4)} ${String(day.indeterminate).padStart(4)} ${String(day.new).padStart(6)}`
+    );
+  }
+  lines.push("", "# done   = in progress   . to do");
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats cumulative flow and WIP aging as Markdown, with the chart in a
+ * code block.
+ */
+export function formatFlowReportMarkdown(flow: CumulativeFlow, aging: WipAging): string {
+  const lines: string[] = [];
+
+  lines.push(`## Cumulative Flow (${flow.from} to ${flow.to})`);
+  lines.push("");
+  lines.push("```");
+  lines.push(formatCumulativeFlowChart(flow));
+  lines.push("```");
+  lines.push("");
+  lines.push(`- **Average WIP:** ${flow.averageWip}`);
+  lines.push(`- **Throughput:** ${flow.throughputPerDay} issues/day`);
+  lines.push(`- **Arrivals:** ${flow.arrivalsPerDay} issues/day`);
+  lines.push("");
+
+  lines.push("## WIP Aging");
+  lines.push("");
+  if (aging.cycleTime) {
+    const { p50, p85, p95, count } = aging.cycleTime;
+    lines.push(
+      `Cycle time of ${count} completed issues: p50 ${p50}d, p85 ${p85}d, p95 ${p95}d`
+    );
+  } else {
+    lines.push("No completed issues in scope to compare ages with");
+  }
+  lines.push("");
+
+  if (aging.items.length === 0) {
+    lines.push("No issues in progress");
+    return lines.join("\n");
+  }
+
+  lines.push("| Issue | Type | Status | Age (days) | In status (days) | Risk |");
+  lines.push("|-------|------|--------|------------|------------------|------|");
+  for (const item of aging.items) {
+    lines.push(
+      `| ${item.issueKey} | ${item.issueType} | ${item.status} | ${item.ageDays} | ${item.daysInStatus} | ${item.risk ? RISK_LABELS[item.risk] : "-"} |`
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,56 @@
+/**
+ * Flow Metrics Module
+ *
+ * Reconstructs status timelines from issue changelogs and computes
+ * cycle time, lead time, time in status, flow efficiency, cumulative
+ * flow and WIP aging.
+ */
+
+// Types
+export type {
+  StatusCategory,
+  StatusClass,
+  StatusPeriod,
+  StatusTimeline,
+  WorkflowFlowConfig,
+  FlowMetricsOptions,
+  Distribution,
+  StatusTime,
+  IssueFlow,
+  FlowMetrics,
+  CumulativeFlowDay,
+  CumulativeFlow,
+  AgingRisk,
+  WipAgingItem,
+  WipAging,
+} from "./types.js";
+
+// Timelines
+export {
+  buildStatusTimeline,
+  getStatusCategory,
+  getCategoryAt,
+  daysBetween,
+} from "./timeline.js";
+
+// Statistics
+export { percentile, summarizeDistribution } from "./statistics.js";
+
+// Metrics
+export { calculateFlowMetrics, classifyStatus } from "./metrics.js";
+
+// Cumulative flow and WIP aging
+export { buildCumulativeFlow, analyzeWipAging } from "./cfd.js";
+
+// Formatter
+export { formatCumulativeFlowChart, formatFlowReportMarkdown } from "./formatter.js";
+
+// Fetcher
+export {
+  fetchScopeIssues,
+  fetchChangelog,
+  fetchChangelogs,
+  fetchStatusCategories,
+  fetchStatusTimelines,
+} from "./fetcher.js";
+export type { FlowScope } from "./fetcher.js";
@@ -0,0 +1,210 @@
+/**
+ * Flow Metrics Calculator
+ *
+ * Computes cycle time, lead time, time in status and flow efficiency
+ * from status timelines. Durations are in calendar days.
+ */
+
+import { round } from "../numbers.js";
+import type {
+  FlowMetrics,
+  FlowMetricsOptions,
+  IssueFlow,
+  StatusCategory,
+  StatusClass,
+  StatusTime,
+  StatusTimeline,
+  WorkflowFlowConfig,
+} from "./types.js";
+import { daysBetween } from "./timeline.js";
+import { percentile, summarizeDistribution } from "./statistics.js";
+
+/**
+ * In-progress statuses that usually mean waiting rather than working.
+ */
+const WAIT_STATUS_PATTERN = /\b(wait|waiting|awaiting|blocked|hold|queue|queued|pending|ready)\b/i;
+
+/**
+ * Order of status categories in the time-in-status breakdown.
+ */
+const CATEGORY_ORDER: Record<StatusCategory, number> = { new: 0, indeterminate: 1, done: 2 };
+
+const includesName = (names: readonly string[] | undefined, name: string): boolean =>
+  names?.some((candidate) => candidate.toLowerCase() === name.toLowerCase()) ?? false;
+
+/**
+ * Finds the workflow configuration that applies to an issue type.
+ */
+function findWorkflow(
+  workflows: readonly WorkflowFlowConfig[],
+  issueType: string
+): WorkflowFlowConfig | undefined {
+  return workflows.find(
+    (workflow) => !workflow.issueTypes || includesName(workflow.issueTypes, issueType)
+  );
+}
+
+/**
+ * Classifies an in-progress status as active or wait time: by the
+ * workflow's status lists, then by name.
+ */
+export function classifyStatus(
+  status: string,
+  workflow: WorkflowFlowConfig | undefined
+): StatusClass {
+  if (includesName(workflow?.waitStatuses, status)) {
+    return "wait";
+  }
+  if (includesName(workflow?.activeStatuses, status)) {
+    return "active";
+  }
+  return WAIT_STATUS_PATTERN.test(status) ? "wait" : "active";
+}
+
+/**
+ * Calculates the flow measures of one issue.
+ */
+function calculateIssueFlow(
+  timeline: StatusTimeline,
+  workflow: WorkflowFlowConfig | undefined,
+  now: number
+): IssueFlow {
+  const { startedAt, completedAt } = timeline;
+  const windowStart = startedAt ? Date.parse(startedAt) : undefined;
+  const windowEnd = completedAt ? Date.parse(completedAt) : now;
+  const current = timeline.periods[timeline.periods.length - 1];
+
+  // Active time between start and completion (or now)
+  let activeDays = 0;
+  if (windowStart !== undefined) {
+    for (const period of timeline.periods) {
+      if (period.category !== "indeterminate" || classifyStatus(period.status, workflow) !== "active") {
+        continue;
+      }
+      const start = Math.max(Date.parse(period.start), windowStart);
+      const end = Math.min(period.end ? Date.parse(period.end) : now, windowEnd);
+      activeDays += daysBetween(start, Math.max(start, end));
+    }
+  }
+
+  const elapsedDays = windowStart !== undefined ? daysBetween(windowStart, windowEnd) : 0;
+  const waitDays = Math.max(0, elapsedDays - activeDays);
+
+  return {
+    issueKey: timeline.issueKey,
+    issueType: timeline.issueType,
+    status: current?.status ?? "",
+    leadTimeDays: completedAt ? round(daysBetween(timeline.created, completedAt), 1) : undefined,
+    cycleTimeDays:
+      completedAt && startedAt ? round(daysBetween(startedAt, completedAt), 1) : undefined,
+    ageDays:
+      current?.category === "indeterminate" && startedAt
+        ? round(daysBetween(startedAt, now), 1)
+        : undefined,
+    activeDays: round(activeDays, 1),
+    waitDays: round(waitDays, 1),
+    flowEfficiency: elapsedDays > 0 ? round(activeDays / elapsedDays, 2) : undefined,
+  };
+}
+
+/**
+ * Sums the time spent in each status that is not done.
+ */
+function calculateTimeInStatus(
+  timelines: readonly StatusTimeline[],
+  workflows: readonly WorkflowFlowConfig[],
+  now: number
+): StatusTime[] {
+  const byStatus = new Map<
+    string,
+    { status: string; category: StatusCategory; statusClass?: StatusClass; perIssue: Map<string, number> }
+  >();
+
+  for (const timeline of timelines) {
+    for (const period of timeline.periods) {
+      if (period.category === "done") {
+        continue;
+      }
+      const key = period.status.toLowerCase();
+      let entry = byStatus.get(key);
+      if (!entry) {
+        entry = {
+          status: period.status,
+          category: period.category,
+          ...(period.category === "indeterminate" && {
+            statusClass: classifyStatus(period.status, findWorkflow(workflows, timeline.issueType)),
+          }),
+          perIssue: new Map(),
+        };
+        byStatus.set(key, entry);
+      }
+      const days = daysBetween(period.start, period.end ?? now);
+      entry.perIssue.set(timeline.issueKey, (entry.perIssue.get(timeline.issueKey) ?? 0) + days);
+    }
+  }
+
+  return [...byStatus.values()]
+    .map(({ status, category, statusClass, perIssue }) => {
+      const days = [...perIssue.values()].sort((a, b) => a - b);
+      const totalDays = days.reduce((sum, value) => sum + value, 0);
+      return {
+        status,
+        category,
+        statusClass,
+        issues: days.length,
+        totalDays: round(totalDays, 1),
+        averageDays: round(totalDays / days.length, 1),
+        medianDays: round(percentile(days, 50), 1),
+      };
+    })
+    .sort(
+      (a, b) => CATEGORY_ORDER[a.category] - CATEGORY_ORDER[b.category] || b.averageDays - a.averageDays
+    );
+}
+
+/**
+ * Calculates flow metrics from status timelines.
+ *
+ * @param timelines - Status timelines (see buildStatusTimeline)
+ * @param options - Workflow status classes and reference time
+ * @returns Cycle and lead time distributions of completed issues, time in
+ *   status, flow efficiency and per-issue measures
+ */
+export function calculateFlowMetrics(
+  timelines: readonly StatusTimeline[],
+  options: FlowMetricsOptions = {}
+): FlowMetrics {
+  const workflows = options.workflows ?? [];
+  const now = (options.now ?? new Date()).getTime();
+
+  const issues = timelines.map((timeline) =>
+    calculateIssueFlow(timeline, findWorkflow(workflows, timeline.issueType), now)
+  );
+  const completed = issues.filter((issue) => issue.leadTimeDays !== undefined);
+  const inProgress = issues.filter((issue) => issue.ageDays !== undefined);
+
+  // Efficiency over the summed cycle times, so long items weigh more
+  const completedActive = completed.reduce((sum, issue) => sum + issue.activeDays, 0);
+  const completedElapsed = completed.reduce(
+    (sum, issue) => sum + issue.activeDays + issue.waitDays,
+    0
+  );
+
+  const timeInStatus = calculateTimeInStatus(timelines, workflows, now);
+  // Sorted longest first within each category
+  const bottleneck = timeInStatus.find((entry) => entry.category === "indeterminate");
+
+  return {
+    issueCount: issues.length,
+    completedCount: completed.length,
+    inProgressCount: inProgress.length,
+    cycleTime: summarizeDistribution(
+      completed.flatMap((issue) => (issue.cycleTimeDays !== undefined ? [issue.cycleTimeDays] : []))
+    ),
+    leadTime: summarizeDistribution(completed.map((issue) => issue.leadTimeDays ?? 0)),
+    flowEfficiency: completedElapsed > 0 ? round(completedActive / completedElapsed, 2) : undefined,
+    timeInStatus,
+    bottleneck: bottleneck?.status,
+    issues,
+  };
+}
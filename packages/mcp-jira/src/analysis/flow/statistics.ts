@@ -0,0 +1,45 @@
+/**
+ * Flow Statistics
+ *
+ * Percentiles and distributions of durations.
+ */
+
+import { round } from "../numbers.js";
+import type { Distribution } from "./types.js";
+
+/**
+ * Gets a percentile of sorted values, interpolating between neighbours.
+ *
+ * @param sorted - Values in ascending order (at least one)
+ * @param p - Percentile (0-100)
+ */
+export function percentile(sorted: readonly number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = sorted[Math.floor(rank)] ?? 0;
+  const upper = sorted[Math.ceil(rank)] ?? lower;
+  return lower + (upper - lower) * (rank - Math.floor(rank));
+}
+
+/**
+ * Summarizes durations (in days) as a percentile distribution.
+ *
+ * @returns The distribution, or undefined when there are no values
+ */
+export function summarizeDistribution(values: readonly number[]): Distribution | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+
+  return {
+    count: sorted.length,
+    mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length, 1),
+    min: round(sorted[0] ?? 0, 1),
+    max: round(sorted[sorted.length - 1] ?? 0, 1),
+    p50: round(percentile(sorted, 50), 1),
+    p70: round(percentile(sorted, 70), 1),
+    p85: round(percentile(sorted, 85), 1),
+    p95: round(percentile(sorted, 95), 1),
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Status Timeline Builder
+ *
+ * Reconstructs the status history of issues from their changelogs.
+ */
+
+import type { JiraChangelogEntry, JiraIssue } from "../../domain/types.js";
+import { DAY_MS } from "../numbers.js";
+import type { StatusCategory, StatusPeriod, StatusTimeline } from "./types.js";
+
+/**
+ * Gets the category of a status by name. Statuses no longer in the
+ * project's workflows count as in progress.
+ *
+ * @param categories - Status categories keyed by lowercase status name
+ */
+export function getStatusCategory(
+  categories: ReadonlyMap<string, StatusCategory>,
+  status: string
+): StatusCategory {
+  return categories.get(status.toLowerCase()) ?? "indeterminate";
+}
+
+/**
+ * Builds the status timeline of an issue from its changelog.
+ *
+ * @param issue - The issue (its current status closes the timeline)
+ * @param changelog - The issue's changelog entries, in any order
+ * @param categories - Status categories keyed by lowercase status name
+ */
+export function buildStatusTimeline(
+  issue: Pick<JiraIssue, "key" | "issueType" | "created" | "status">,
+  changelog: readonly JiraChangelogEntry[],
+  categories: ReadonlyMap<string, StatusCategory>
+): StatusTimeline {
+  const transitions = changelog
+    .flatMap((entry) =>
+      entry.items
+        .filter((item) => item.field === "status")
+        .map((item) => ({ at: entry.created, from: item.fromString, to: item.toString }))
+    )
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+  const periods: StatusPeriod[] = [];
+  let status = transitions[0]?.from ?? issue.status.name;
+  let start = issue.created;
+
+  for (const transition of transitions) {
+    // Workflows start in a to-do status, whether or not it is still known
+    const category =
+      periods.length === 0 && !categories.has(status.toLowerCase())
+        ? "new"
+        : getStatusCategory(categories, status);
+    periods.push({ status, category, start, end: transition.at });
+    status = transition.to ?? issue.status.name;
+    start = transition.at;
+  }
+  // The current status is authoritative for its category
+  periods.push({
+    status,
+    category:
+      issue.status.categoryKey === "undefined"
+        ? getStatusCategory(categories, status)
+        : issue.status.categoryKey,
+    start,
+  });
+
+  return {
+    issueKey: issue.key,
+    issueType: issue.issueType.name,
+    created: issue.created,
+    periods,
+    startedAt: periods.find((period) => period.category !== "new")?.start,
+    completedAt: getCompletedAt(periods),
+  };
+}
+
+/**
+ * Gets when an issue that is done now was completed: the start of its
+ * last run of done statuses (moving from Done to Closed does not count).
+ */
+function getCompletedAt(periods: readonly StatusPeriod[]): string | undefined {
+  let completedAt: string | undefined;
+
+  for (let i = periods.length - 1; i >= 0 && periods[i]?.category === "done"; i--) {
+    completedAt = periods[i]?.start;
+  }
+
+  return completedAt;
+}
+
+/**
+ * Gets the status category of an issue at a point in time.
+ *
+ * @param time - Timestamp (ms)
+ * @returns The category, or undefined before the issue was created
+ */
+export function getCategoryAt(timeline: StatusTimeline, time: number): StatusCategory | undefined {
+  if (time < Date.parse(timeline.created)) {
+    return undefined;
+  }
+
+  let category: StatusCategory | undefined;
+  for (const period of timeline.periods) {
+    if (Date.parse(period.start) > time) {
+      break;
+    }
+    category = period.category;
+  }
+
+  return category ?? timeline.periods[0]?.category;
+}
+
+/**
+ * Gets the days between two timestamps.
+ */
+export function daysBetween(from: string | number, to: string | number): number {
+  const start = typeof from === "string" ? Date.parse(from) : from;
+  const end = typeof to === "string" ? Date.parse(to) : to;
+  return Math.max(0, end - start) / DAY_MS;
+}
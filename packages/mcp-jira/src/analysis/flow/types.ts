@@ -0,0 +1,193 @@
+/**
+ * Flow Metrics Types
+ *
+ * Type definitions for status timelines and the flow metrics derived
+ * from them (cycle time, lead time, time in status, flow efficiency).
+ */
+
+/**
+ * Status category, as Jira groups statuses on boards.
+ */
+export type StatusCategory = "new" | "indeterminate" | "done";
+
+/**
+ * Whether time in an in-progress status is spent working or waiting.
+ */
+export type StatusClass = "active" | "wait";
+
+/**
+ * A stretch of time an issue spent in one status.
+ */
+export interface StatusPeriod {
+  readonly status: string;
+  readonly category: StatusCategory;
+  /** When the issue entered the status (ISO timestamp) */
+  readonly start: string;
+  /** When the issue left the status; undefined while it is still there */
+  readonly end?: string | undefined;
+}
+
+/**
+ * Status history of one issue, reconstructed from its changelog.
+ */
+export interface StatusTimeline {
+  readonly issueKey: string;
+  readonly issueType: string;
+  readonly created: string;
+  readonly periods: readonly StatusPeriod[];
+  /** When work started: the first move out of a to-do status */
+  readonly startedAt?: string | undefined;
+  /** When the issue was completed; undefined unless it is done now */
+  readonly completedAt?: string | undefined;
+}
+
+/**
+ * Active and wait statuses of a workflow. Statuses listed in neither
+ * are classified by name (e.g., "Waiting for QA" and "Blocked" wait).
+ */
+export interface WorkflowFlowConfig {
+  /** Issue types using the workflow (case-insensitive); omit for all */
+  readonly issueTypes?: readonly string[] | undefined;
+  readonly activeStatuses?: readonly string[] | undefined;
+  readonly waitStatuses?: readonly string[] | undefined;
+}
+
+/**
+ * Options for calculating flow metrics.
+ */
+export interface FlowMetricsOptions {
+  /** Per-workflow status classes; the first matching entry applies */
+  readonly workflows?: readonly WorkflowFlowConfig[] | undefined;
+  /** Reference time for issues still in progress (default: now) */
+  readonly now?: Date | undefined;
+}
+
+/**
+ * Percentile distribution of durations, in days.
+ */
+export interface Distribution {
+  readonly count: number;
+  readonly mean: number;
+  readonly min: number;
+  readonly max: number;
+  readonly p50: number;
+  readonly p70: number;
+  readonly p85: number;
+  readonly p95: number;
+}
+
+/**
+ * Time spent in one status across issues.
+ */
+export interface StatusTime {
+  readonly status: string;
+  readonly category: StatusCategory;
+  /** Class of in-progress statuses (for the first workflow they appear in) */
+  readonly statusClass?: StatusClass | undefined;
+  /** Issues that spent time in the status */
+  readonly issues: number;
+  readonly totalDays: number;
+  /** Average days per issue that spent time in the status */
+  readonly averageDays: number;
+  readonly medianDays: number;
+}
+
+/**
+ * Flow measures of one issue.
+ */
+export interface IssueFlow {
+  readonly issueKey: string;
+  readonly issueType: string;
+  readonly status: string;
+  /** Days from creation to completion */
+  readonly leadTimeDays?: number | undefined;
+  /** Days from start to completion */
+  readonly cycleTimeDays?: number | undefined;
+  /** Days since work started, for issues in an in-progress status */
+  readonly ageDays?: number | undefined;
+  /** Days in active statuses since work started */
+  readonly activeDays: number;
+  /** Days in any other status since work started */
+  readonly waitDays: number;
+  /** Share of the time since work started spent in active statuses (0-1) */
+  readonly flowEfficiency?: number | undefined;
+}
+
+/**
+ * Flow metrics of a set of issues.
+ */
+export interface FlowMetrics {
+  readonly issueCount: number;
+  readonly completedCount: number;
+  readonly inProgressCount: number;
+  /** Cycle times of completed issues */
+  readonly cycleTime?: Distribution | undefined;
+  /** Lead times of completed issues */
+  readonly leadTime?: Distribution | undefined;
+  /** Active share of the cycle time of completed issues (0-1) */
+  readonly flowEfficiency?: number | undefined;
+  /** Statuses in category order, longest average first */
+  readonly timeInStatus: readonly StatusTime[];
+  /** In-progress status with the longest average time */
+  readonly bottleneck?: string | undefined;
+  readonly issues: readonly IssueFlow[];
+}
+
+/**
+ * Issues in each status category at the end of one day.
+ */
+export interface CumulativeFlowDay {
+  /** Day (YYYY-MM-DD, UTC) */
+  readonly date: string;
+  readonly new: number;
+  readonly indeterminate: number;
+  readonly done: number;
+}
+
+/**
+ * Cumulative flow of a set of issues over a date range.
+ */
+export interface CumulativeFlow {
+  /** First day (YYYY-MM-DD) */
+  readonly from: string;
+  /** Last day (YYYY-MM-DD) */
+  readonly to: string;
+  readonly days: readonly CumulativeFlowDay[];
+  /** Average issues in progress at the end of a day */
+  readonly averageWip: number;
+  /** Issues completed per day over the range */
+  readonly throughputPerDay: number;
+  /** Issues created per day over the range */
+  readonly arrivalsPerDay: number;
+}
+
+/**
+ * How an in-progress item's age compares with historical cycle times:
+ * below p50, below p85, below p95, or at p95 and above.
+ */
+export type AgingRisk = "on-track" | "watch" | "at-risk" | "critical";
+
+/**
+ * Age of one in-progress item.
+ */
+export interface WipAgingItem {
+  readonly issueKey: string;
+  readonly issueType: string;
+  readonly status: string;
+  /** Days since work started */
+  readonly ageDays: number;
+  /** Days in the current status */
+  readonly daysInStatus: number;
+  /** Undefined when there are no historical cycle times */
+  readonly risk?: AgingRisk | undefined;
+}
+
+/**
+ * In-progress items by age, against historical cycle times.
+ */
+export interface WipAging {
+  /** Cycle times the ages are compared with */
+  readonly cycleTime?: Distribution | undefined;
+  /** Oldest first */
+  readonly items: readonly WipAgingItem[];
+}
@@ -0,0 +1,24 @@
+/**
+ * Forecast Module
+ *
+ * Monte Carlo forecasts of when items will be done and how many will be
+ * done by a date, from historical throughput.
+ */
+
+// Types
+export type {
+  ThroughputUnit,
+  MonteCarloOptions,
+  ConfidenceLevels,
+  CompletionForecast,
+  ThroughputForecast,
+} from "./types.js";
+
+// Random numbers
+export { createRandom, randomSeed } from "./random.js";
+
+// Monte Carlo
+export { forecastCompletion, forecastThroughput } from "./monte-carlo.js";
+
+// Throughput
+export { dailyThroughput, sprintThroughput, averageSprintDays } from "./throughput.js";
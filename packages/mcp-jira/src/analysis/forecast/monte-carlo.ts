@@ -0,0 +1,132 @@
+/**
+ * Monte Carlo Forecaster
+ *
+ * Simulates many possible futures by replaying randomly picked periods of
+ * historical throughput, and reads forecasts off the spread of outcomes.
+ */
+
+import type {
+  CompletionForecast,
+  ConfidenceLevels,
+  MonteCarloOptions,
+  ThroughputForecast,
+} from "./types.js";
+import { createRandom, randomSeed } from "./random.js";
+
+/**
+ * Default number of simulated futures.
+ */
+const DEFAULT_TRIALS = 10000;
+
+/**
+ * Default number of periods after which a trial is given up.
+ */
+const DEFAULT_MAX_PERIODS = 1000;
+
+/**
+ * Gets the outcome reached in a share of trials, from the sorted outcomes.
+ *
+ * @param sorted - Outcomes in ascending order (at least one)
+ * @param share - Share of trials (0-1)
+ */
+function outcomeAt(sorted: readonly number[], share: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(share * sorted.length) - 1));
+  return sorted[index] ?? 0;
+}
+
+/**
+ * Forecasts when a number of items will be done: in each trial, periods
+ * of historical throughput are drawn until the items are done.
+ *
+ * @param samples - Items done in each historical period
+ * @param remainingItems - Items still to do
+ * @returns Periods needed at 50%, 85% and 95% confidence (85% of trials
+ *   finished within the p85 periods)
+ */
+export function forecastCompletion(
+  samples: readonly number[],
+  remainingItems: number,
+  options: MonteCarloOptions = {}
+): CompletionForecast {
+  const trials = options.trials ?? DEFAULT_TRIALS;
+  const seed = options.seed ?? randomSeed();
+  const maxPeriods = options.maxPeriods ?? DEFAULT_MAX_PERIODS;
+
+  if (remainingItems <= 0) {
+    return { remainingItems, trials, seed, periods: { p50: 0, p85: 0, p95: 0 }, unfinishedShare: 0 };
+  }
+  if (!samples.some((sample) => sample > 0)) {
+    return { remainingItems, trials, seed, unfinishedShare: 1 };
+  }
+
+  const random = createRandom(seed);
+  const outcomes: number[] = [];
+
+  for (let trial = 0; trial < trials; trial++) {
+    let done = 0;
+    let periods = 0;
+    while (done < remainingItems && periods < maxPeriods) {
+      done += samples[Math.floor(random() * samples.length)] ?? 0;
+      periods++;
+    }
+    outcomes.push(done >= remainingItems ? periods : Infinity);
+  }
+
+  outcomes.sort((a, b) => a - b);
+  const unfinishedShare = outcomes.filter((periods) => periods === Infinity).length / trials;
+  const periods: ConfidenceLevels = {
+    p50: outcomeAt(outcomes, 0.5),
+    p85: outcomeAt(outcomes, 0.85),
+    p95: outcomeAt(outcomes, 0.95),
+  };
+
+  return {
+    remainingItems,
+    trials,
+    seed,
+    periods: Number.isFinite(periods.p95) ? periods : undefined,
+    unfinishedShare,
+  };
+}
+
+/**
+ * Forecasts how many items will be done within a number of periods: in
+ * each trial, that many periods of historical throughput are drawn.
+ *
+ * @param samples - Items done in each historical period (at least one)
+ * @param periods - Periods ahead
+ * @returns Items done at least at 50%, 85% and 95% confidence (85% of
+ *   trials finished at least the p85 items)
+ */
+export function forecastThroughput(
+  samples: readonly number[],
+  periods: number,
+  options: MonteCarloOptions = {}
+): ThroughputForecast {
+  const trials = options.trials ?? DEFAULT_TRIALS;
+  const seed = options.seed ?? randomSeed();
+  const random = createRandom(seed);
+  const outcomes: number[] = [];
+
+  for (let trial = 0; trial < trials; trial++) {
+    let done = 0;
+    for (let period = 0; period < periods; period++) {
+      done += samples[Math.floor(random() * samples.length)] ?? 0;
+    }
+    outcomes.push(done);
+  }
+
+  // Higher confidence means fewer items: read the outcomes from the low end
+  outcomes.sort((a, b) => a - b);
+
+  return {
+    periods,
+    trials,
+    seed,
+    items: {
+      p50: outcomeAt(outcomes, 0.5),
+      p85: outcomeAt(outcomes, 0.15),
+      p95: outcomeAt(outcomes, 0.05),
+    },
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Seeded Random Numbers
+ *
+ * A small deterministic generator (mulberry32), so forecasts can be
+ * reproduced from their seed.
+ */
+
+/**
+ * Creates a random number generator from a seed.
+ *
+ * @returns A function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks a seed for forecasts that were not given one.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
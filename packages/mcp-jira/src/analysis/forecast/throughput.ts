@@ -0,0 +1,75 @@
+/**
+ * Throughput Sampler
+ *
+ * Counts items completed per day or per sprint, as samples for the
+ * Monte Carlo forecaster.
+ */
+
+import type { JiraSprint } from "../../domain/types.js";
+import { DAY_MS } from "../numbers.js";
+
+/**
+ * Counts completions on each day from `from` to `to` (UTC), including
+ * days without any.
+ *
+ * @param completionDates - When each item was completed (ISO timestamps)
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD)
+ */
+export function dailyThroughput(
+  completionDates: readonly string[],
+  from: string,
+  to: string
+): number[] {
+  const start = Date.parse(`${from}T00:00:00.000Z`);
+  const days = Math.max(0, Math.round((Date.parse(`${to}T00:00:00.000Z`) - start) / DAY_MS) + 1);
+  const counts = new Array<number>(days).fill(0);
+
+  for (const date of completionDates) {
+    const day = Math.floor((Date.parse(date) - start) / DAY_MS);
+    if (day >= 0 && day < days) {
+      counts[day] = (counts[day] ?? 0) + 1;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Counts completions within each sprint, between its start and its
+ * completion (or planned end). Sprints without dates are skipped.
+ *
+ * @param completionDates - When each item was completed (ISO timestamps)
+ */
+export function sprintThroughput(
+  completionDates: readonly string[],
+  sprints: readonly JiraSprint[]
+): number[] {
+  const times = completionDates.map((date) => Date.parse(date));
+
+  return sprints.flatMap((sprint) => {
+    const end = sprint.completeDate ?? sprint.endDate;
+    if (!sprint.startDate || !end) {
+      return [];
+    }
+    const start = Date.parse(sprint.startDate);
+    const finish = Date.parse(end);
+    return [times.filter((time) => time >= start && time < finish).length];
+  });
+}
+
+/**
+ * Gets the average length of sprints with dates, in days.
+ *
+ * @returns The average, or undefined when no sprint has dates
+ */
+export function averageSprintDays(sprints: readonly JiraSprint[]): number | undefined {
+  const lengths = sprints.flatMap((sprint) => {
+    const end = sprint.completeDate ?? sprint.endDate;
+    return sprint.startDate && end ? [(Date.parse(end) - Date.parse(sprint.startDate)) / DAY_MS] : [];
+  });
+
+  return lengths.length > 0
+    ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length
+    : undefined;
+}
@@ -0,0 +1,58 @@
+/**
+ * Forecast Types
+ *
+ * Type definitions for Monte Carlo forecasts from historical throughput.
+ */
+
+/**
+ * Period throughput is sampled by.
+ */
+export type ThroughputUnit = "day" | "sprint";
+
+/**
+ * Options for Monte Carlo simulations.
+ */
+export interface MonteCarloOptions {
+  /** Simulated futures (default: 10000) */
+  readonly trials?: number | undefined;
+  /** Seed of the random generator; the same seed gives the same forecast */
+  readonly seed?: number | undefined;
+  /** Periods after which a trial is given up as unfinished (default: 1000) */
+  readonly maxPeriods?: number | undefined;
+}
+
+/**
+ * Forecast values at 50%, 85% and 95% confidence.
+ */
+export interface ConfidenceLevels {
+  readonly p50: number;
+  readonly p85: number;
+  readonly p95: number;
+}
+
+/**
+ * When a number of items will be done.
+ */
+export interface CompletionForecast {
+  readonly remainingItems: number;
+  readonly trials: number;
+  readonly seed: number;
+  /**
+   * Periods until all items are done, at each confidence; undefined when
+   * more than 5% of trials did not finish within maxPeriods
+   */
+  readonly periods?: ConfidenceLevels | undefined;
+  /** Share of trials that did not finish within maxPeriods (0-1) */
+  readonly unfinishedShare: number;
+}
+
+/**
+ * How many items will be done within a number of periods.
+ */
+export interface ThroughputForecast {
+  readonly periods: number;
+  readonly trials: number;
+  readonly seed: number;
+  /** Items done at least, at each confidence */
+  readonly items: ConfidenceLevels;
+}
@@ -0,0 +1,17 @@
+/**
+ * Numeric Helpers
+ *
+ * Rounding and time constants shared by the analysis modules.
+ */
+
+/**
+ * Milliseconds per day.
+ */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rounds a value to a number of decimal places.
+ */
+export function round(value: number, digits: number): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
@@ -14,7 +14,13 @@ import type {
 import { getChangeTypeDisplayName, getChangeTypeEmoji, getChangeTypeSortOrder } from "./classifier.js";
 
 /**
- * Groups entries by the specified field.
+ * Group key of entries without a group (no epic or component).
+ */
+const UNGROUPED = "ungrouped";
+
+/**
+ * Groups entries by the specified field. When grouping by component, an
+ * entry with several components is listed under each of them.
  */
 export function groupEntries(
   entries: readonly ChangelogEntry[],
@@ -35,25 +41,27 @@ export function groupEntries(
   const groups = new Map<string, ChangelogEntry[]>();
 
   for (const entry of entries) {
-    let key: string;
+    let keys: readonly string[];
 
     switch (groupBy) {
       case "type":
-        key = entry.type;
+        keys = [entry.type];
         break;
       case "epic":
-        key = entry.epicKey ?? "ungrouped";
+        keys = [entry.epicKey ?? UNGROUPED];
         break;
       case "component":
-        key = entry.components[0] ?? "ungrouped";
+        keys = entry.components.length > 0 ? entry.components : [UNGROUPED];
         break;
       default:
-        key = "all";
+        keys = ["all"];
     }
 
-    const existing = groups.get(key) ?? [];
-    existing.push(entry);
-    groups.set(key, existing);
+    for (const key of keys) {
+      const existing = groups.get(key) ?? [];
+      existing.push(entry);
+      groups.set(key, existing);
+    }
   }
 
   // Convert to group objects and sort
@@ -70,7 +78,7 @@ export function groupEntries(
         title = groupEntries[0]?.epicSummary ?? key;
         break;
       case "component":
-        title = key;
+        title = key === UNGROUPED ? "No component" : key;
         break;
       default:
         title = key;
@@ -90,6 +98,14 @@ export function groupEntries(
     result.sort((a, b) => getChangeTypeSortOrder(a.key as any) - getChangeTypeSortOrder(b.key as any));
   }
 
+  // Largest components first, entries without one last
+  if (groupBy === "component") {
+    result.sort(
+      (a, b) =>
+        Number(a.key === UNGROUPED) - Number(b.key === UNGROUPED) || b.count - a.count
+    );
+  }
+
   return result;
 }
 
@@ -140,6 +156,10 @@ function formatMarkdown(notes: ReleaseNotes): string {
   for (const group of notes.groups) {
     lines.push(`## ${group.title}`);
     lines.push("");
+    if (group.owner) {
+      lines.push(`*Lead: ${group.owner}*`);
+      lines.push("");
+    }
 
     for (const entry of group.entries) {
       let prefix = "-";
@@ -274,6 +294,7 @@ function formatJson(notes: ReleaseNotes): string {
       })),
       groups: notes.groups.map((g) => ({
         title: g.title,
+        owner: g.owner,
         count: g.count,
         entries: g.entries.map((e) => ({
           key: e.issueKey,
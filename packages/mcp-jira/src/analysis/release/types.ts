@@ -76,6 +76,8 @@ export interface ChangelogGroup {
   readonly count: number;
   /** Has breaking changes */
   readonly hasBreaking: boolean;
+  /** Component lead (when grouping by component) */
+  readonly owner?: string | undefined;
 }
 
 /**
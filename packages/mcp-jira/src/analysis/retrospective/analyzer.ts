@@ -0,0 +1,207 @@
+/**
+ * Retrospective Analyzer
+ *
+ * Builds a sprint retrospective report from the histories of the
+ * sprint's issues and the velocity of the sprints before it.
+ */
+
+import type { JiraIssue, JiraSprint, SprintVelocityEntry } from "../../domain/types.js";
+import {
+  calculateBurndown,
+  getPointsAt,
+  isDoneAt,
+  isFlaggedAt,
+  isInSprintAt,
+  type IssueSprintHistory,
+} from "../burndown/index.js";
+import { DAY_MS, round } from "../numbers.js";
+import { analyzeTrend } from "../velocity/index.js";
+import type {
+  BlockedItem,
+  CarryOverItem,
+  ReestimatedItem,
+  SprintComparison,
+  SprintRetrospective,
+} from "./types.js";
+import { generateRetrospectivePrompts } from "./prompts.js";
+
+/**
+ * Statuses in which an issue counts as blocked.
+ */
+const BLOCKED_STATUS_PATTERN = /\b(blocked|impeded|on hold)\b/i;
+
+/**
+ * Input for building a retrospective.
+ */
+export interface RetrospectiveInput {
+  /** The sprint (must have a start date) */
+  readonly sprint: JiraSprint;
+  readonly issues: readonly JiraIssue[];
+  /** Histories of the issues (see buildIssueSprintHistory) */
+  readonly histories: readonly IssueSprintHistory[];
+  /** Velocity of the sprint, measured the same way as the prior sprints */
+  readonly velocity: SprintVelocityEntry;
+  /** Velocity of the sprints before, oldest first */
+  readonly priorSprints: readonly SprintVelocityEntry[];
+  /** Reference time while the sprint is active (default: now) */
+  readonly now?: Date | undefined;
+}
+
+/**
+ * Sums the days an issue was flagged or in a blocked status within a
+ * time window.
+ */
+function calculateBlockedDays(history: IssueSprintHistory, start: number, end: number): number {
+  const { periods } = history.timeline;
+  const boundaries = [
+    start,
+    end,
+    ...periods.map((period) => Date.parse(period.start)),
+    ...history.flagChanges.map((change) => change.at),
+  ]
+    .filter((time) => time >= start && time <= end)
+    .sort((a, b) => a - b);
+
+  let blocked = 0;
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const from = boundaries[i] ?? start;
+    const to = boundaries[i + 1] ?? end;
+    const status = periods.filter((period) => Date.parse(period.start) <= from).pop()?.status ?? "";
+    if (isFlaggedAt(history, from) || BLOCKED_STATUS_PATTERN.test(status)) {
+      blocked += to - from;
+    }
+  }
+
+  return blocked / DAY_MS;
+}
+
+/**
+ * Compares the sprint's velocity with the sprints before it.
+ */
+function compareWithPriorSprints(
+  current: SprintVelocityEntry,
+  priorSprints: readonly SprintVelocityEntry[]
+): SprintComparison | undefined {
+  if (priorSprints.length === 0) {
+    return undefined;
+  }
+
+  const averageVelocity =
+    priorSprints.reduce((sum, entry) => sum + entry.completedPoints, 0) / priorSprints.length;
+  const completionRate = (entry: SprintVelocityEntry): number | undefined =>
+    entry.committedPoints > 0 ? entry.completedPoints / entry.committedPoints : undefined;
+  const rates = priorSprints.flatMap((entry) => completionRate(entry) ?? []);
+  const currentRate = completionRate(current);
+  const trend = analyzeTrend([...priorSprints, current], { sprintCount: priorSprints.length + 1 });
+
+  return {
+    priorSprints: priorSprints.length,
+    averageVelocity: round(averageVelocity, 1),
+    completionRate: currentRate !== undefined ? round(currentRate, 2) : undefined,
+    averageCompletionRate:
+      rates.length > 0 ? round(rates.reduce((sum, rate) => sum + rate, 0) / rates.length, 2) : undefined,
+    trend: trend.direction,
+    velocityChange:
+      averageVelocity > 0 ? round((current.completedPoints - averageVelocity) / averageVelocity, 2) : undefined,
+  };
+}
+
+/**
+ * Builds the retrospective report of a sprint: committed vs. completed,
+ * carry-over, scope added and removed, re-estimates, blocked time, bugs
+ * found, a comparison with the prior sprints and discussion prompts.
+ *
+ * @throws Error if the sprint has not started
+ */
+export function buildRetrospective(input: RetrospectiveInput): SprintRetrospective {
+  const { sprint, issues, histories, velocity, priorSprints } = input;
+  const now = input.now ?? new Date();
+  const burndown = calculateBurndown(histories, sprint, now);
+
+  const start = Date.parse(burndown.startDate);
+  // Completing a sprint moves its open issues out, so look just before
+  const end = Math.min(
+    now.getTime(),
+    sprint.completeDate ? Date.parse(sprint.completeDate) - 1 : Infinity
+  );
+  const issuesByKey = new Map(issues.map((issue) => [issue.key, issue]));
+  const last = burndown.days[burndown.days.length - 1];
+
+  const carryOver: CarryOverItem[] = [];
+  const reestimated: ReestimatedItem[] = [];
+  const blocked: BlockedItem[] = [];
+  const bugsFound: string[] = [];
+
+  for (const history of histories) {
+    const issue = issuesByKey.get(history.issueKey);
+    const inSprint = isInSprintAt(history, end);
+
+    if (inSprint && !isDoneAt(history, end)) {
+      carryOver.push({
+        issueKey: history.issueKey,
+        status: issue?.status.name ?? "",
+        points: getPointsAt(history, end),
+      });
+    }
+
+    const fromPoints = getPointsAt(history, Math.max(start, history.created));
+    const toPoints = getPointsAt(history, end);
+    if (
+      fromPoints !== undefined &&
+      fromPoints !== toPoints &&
+      history.pointChanges.some((change) => change.at > start && change.at <= end)
+    ) {
+      reestimated.push({ issueKey: history.issueKey, fromPoints, toPoints });
+    }
+
+    const blockedDays = calculateBlockedDays(history, Math.max(start, history.created), end);
+    if (blockedDays > 0) {
+      blocked.push({ issueKey: history.issueKey, blockedDays: round(blockedDays, 1) });
+    }
+
+    if (
+      issue &&
+      /bug/i.test(issue.issueType.name) &&
+      history.created >= start &&
+      history.created <= end &&
+      inSprint
+    ) {
+      bugsFound.push(history.issueKey);
+    }
+  }
+  blocked.sort((a, b) => b.blockedDays - a.blockedDays);
+
+  const completedPoints = last?.completedPoints ?? 0;
+  const unique = (keys: readonly string[]): string[] => [...new Set(keys)];
+
+  const report: Omit<SprintRetrospective, "prompts"> = {
+    sprintId: sprint.id,
+    sprintName: sprint.name,
+    goal: sprint.goal,
+    startDate: burndown.startDate,
+    endDate: burndown.endDate,
+    committed: { points: burndown.committedPoints, issues: burndown.committedIssues },
+    completed: { points: completedPoints, issues: last?.completedIssues ?? 0 },
+    completionRate:
+      burndown.committedPoints > 0 ? round(completedPoints / burndown.committedPoints, 2) : undefined,
+    carryOver,
+    scopeAdded: {
+      points: burndown.addedPoints,
+      issueKeys: unique(burndown.days.flatMap((day) => day.addedIssues)),
+    },
+    scopeRemoved: {
+      points: burndown.removedPoints,
+      issueKeys: unique(burndown.days.flatMap((day) => day.removedIssues)),
+    },
+    reestimated,
+    blocked,
+    blockedDays: round(
+      blocked.reduce((sum, item) => sum + item.blockedDays, 0),
+      1
+    ),
+    bugsFound,
+    comparison: compareWithPriorSprints(velocity, priorSprints),
+  };
+
+  return { ...report, prompts: generateRetrospectivePrompts(report) };
+}
@@ -0,0 +1,24 @@
+/**
+ * Retrospective Module
+ *
+ * Builds sprint retrospective reports from issue changelogs and the
+ * velocity of prior sprints, with discussion prompts.
+ */
+
+// Types
+export type {
+  PointsAndIssues,
+  CarryOverItem,
+  ReestimatedItem,
+  BlockedItem,
+  ScopeChange,
+  SprintComparison,
+  SprintRetrospective,
+} from "./types.js";
+
+// Analyzer
+export { buildRetrospective } from "./analyzer.js";
+export type { RetrospectiveInput } from "./analyzer.js";
+
+// Prompts
+export { generateRetrospectivePrompts } from "./prompts.js";
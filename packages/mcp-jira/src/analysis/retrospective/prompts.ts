@@ -0,0 +1,152 @@
+/**
+ * Retrospective Prompt Generator
+ *
+ * Generates discussion prompts from the findings of a sprint retrospective.
+ */
+
+import type { FollowUpPrompt, PromptCategory } from "../../guidance/index.js";
+import type { SprintRetrospective } from "./types.js";
+
+/**
+ * Issue keys named in a prompt before the rest are counted.
+ */
+const MAX_NAMED_ISSUES = 3;
+
+/**
+ * Creates a follow-up prompt.
+ */
+function createPrompt(
+  prompt: string,
+  description: string,
+  category: PromptCategory
+): FollowUpPrompt {
+  return { prompt, description, category };
+}
+
+/**
+ * Lists issue keys, e.g. "PROJ-1, PROJ-2, PROJ-3 and 2 more".
+ */
+function formatKeys(keys: readonly string[]): string {
+  const named = keys.slice(0, MAX_NAMED_ISSUES).join(", ");
+  return keys.length > MAX_NAMED_ISSUES ? `${named} and ${keys.length - MAX_NAMED_ISSUES} more` : named;
+}
+
+const formatPercent = (share: number): string => `${Math.round(share * 100)}%`;
+
+/**
+ * Generates discussion prompts for a sprint retrospective: completion
+ * against the commitment and recent sprints, carry-over, scope added,
+ * re-estimates, blocked issues, bugs and the velocity trend.
+ */
+export function generateRetrospectivePrompts(
+  retrospective: Omit<SprintRetrospective, "prompts">
+): FollowUpPrompt[] {
+  const prompts: FollowUpPrompt[] = [];
+  const { sprintName, completionRate, comparison } = retrospective;
+
+  const average = comparison?.averageCompletionRate;
+  const current = comparison?.completionRate;
+  if (average !== undefined && current !== undefined && current < average - 0.1) {
+    prompts.push(
+      createPrompt(
+        `Why did we complete ${formatPercent(current)} of the sprint's points in ${sprintName}, against ${formatPercent(average)} in recent sprints?`,
+        "Completion fell below the recent average",
+        "review"
+      )
+    );
+  } else if (completionRate !== undefined && completionRate < 0.8) {
+    prompts.push(
+      createPrompt(
+        `What kept us from completing ${formatPercent(1 - completionRate)} of the committed points in ${sprintName}?`,
+        "Less than 80% of the commitment was completed",
+        "review"
+      )
+    );
+  } else if (completionRate !== undefined) {
+    prompts.push(
+      createPrompt(
+        `What helped us complete ${formatPercent(completionRate)} of our commitment in ${sprintName}, and how do we keep it up?`,
+        "The commitment was (nearly) met",
+        "review"
+      )
+    );
+  }
+
+  if (retrospective.carryOver.length > 0) {
+    const keys = retrospective.carryOver.map((item) => item.issueKey);
+    prompts.push(
+      createPrompt(
+        `Should ${formatKeys(keys)} carry over to the next sprint as they are, or be split or re-planned?`,
+        `${keys.length} issue(s) were still open when the sprint ended`,
+        "refinement"
+      )
+    );
+  }
+
+  const { scopeAdded } = retrospective;
+  if (scopeAdded.points > 0 || scopeAdded.issueKeys.length > 0) {
+    const keys = scopeAdded.issueKeys.length > 0 ? ` (${formatKeys(scopeAdded.issueKeys)})` : "";
+    prompts.push(
+      createPrompt(
+        `What made us add ${scopeAdded.points} points${keys} after the sprint started, and could it have waited?`,
+        "Scope was added mid-sprint",
+        "review"
+      )
+    );
+  }
+
+  const [largestReestimate] = [...retrospective.reestimated].sort(
+    (a, b) =>
+      Math.abs((b.toPoints ?? 0) - (b.fromPoints ?? 0)) - Math.abs((a.toPoints ?? 0) - (a.fromPoints ?? 0))
+  );
+  if (largestReestimate) {
+    prompts.push(
+      createPrompt(
+        `What did we miss when first estimating ${largestReestimate.issueKey} (${largestReestimate.fromPoints ?? "?"} → ${largestReestimate.toPoints ?? "?"} points)?`,
+        `${retrospective.reestimated.length} issue(s) were re-estimated during the sprint`,
+        "refinement"
+      )
+    );
+  }
+
+  const [longestBlocked] = retrospective.blocked;
+  if (longestBlocked) {
+    prompts.push(
+      createPrompt(
+        `What blocked ${longestBlocked.issueKey} for ${longestBlocked.blockedDays} days, and how do we unblock faster next time?`,
+        `${retrospective.blocked.length} issue(s) were blocked for ${retrospective.blockedDays} days in total`,
+        "action"
+      )
+    );
+  }
+
+  if (retrospective.bugsFound.length > 0) {
+    prompts.push(
+      createPrompt(
+        `Where did the ${retrospective.bugsFound.length} bug(s) found during ${sprintName} come from (${formatKeys(retrospective.bugsFound)})?`,
+        "Look for gaps in testing and review",
+        "research"
+      )
+    );
+  }
+
+  if (comparison?.trend === "decreasing") {
+    prompts.push(
+      createPrompt(
+        `Velocity has been decreasing over the last ${comparison.priorSprints + 1} sprints - what is slowing us down?`,
+        "Velocity trend across recent sprints",
+        "review"
+      )
+    );
+  } else if (comparison?.trend === "volatile") {
+    prompts.push(
+      createPrompt(
+        "Velocity varies a lot between sprints - what makes our sprints unpredictable?",
+        "Velocity trend across recent sprints",
+        "review"
+      )
+    );
+  }
+
+  return prompts;
+}
@@ -0,0 +1,97 @@
+/**
+ * Retrospective Types
+ *
+ * Type definitions for sprint retrospective reports.
+ */
+
+import type { FollowUpPrompt } from "../../guidance/index.js";
+import type { TrendDirection } from "../velocity/index.js";
+
+/**
+ * Points and issues of a sprint.
+ */
+export interface PointsAndIssues {
+  readonly points: number;
+  readonly issues: number;
+}
+
+/**
+ * An issue still open when the sprint ended.
+ */
+export interface CarryOverItem {
+  readonly issueKey: string;
+  readonly status: string;
+  readonly points?: number | undefined;
+}
+
+/**
+ * An issue whose estimate changed during the sprint.
+ */
+export interface ReestimatedItem {
+  readonly issueKey: string;
+  /** Story points when the sprint started (or the issue was added) */
+  readonly fromPoints?: number | undefined;
+  /** Story points when the sprint ended */
+  readonly toPoints?: number | undefined;
+}
+
+/**
+ * An issue that was blocked during the sprint.
+ */
+export interface BlockedItem {
+  readonly issueKey: string;
+  /** Days flagged or in a blocked status */
+  readonly blockedDays: number;
+}
+
+/**
+ * Scope added or removed after the sprint started.
+ */
+export interface ScopeChange {
+  readonly points: number;
+  readonly issueKeys: readonly string[];
+}
+
+/**
+ * How the sprint compares with the sprints before it.
+ */
+export interface SprintComparison {
+  readonly priorSprints: number;
+  /** Average completed points of the prior sprints */
+  readonly averageVelocity: number;
+  /** Share of this sprint's points (at its end) completed (0-1) */
+  readonly completionRate?: number | undefined;
+  /** Average share of their points completed in the prior sprints (0-1) */
+  readonly averageCompletionRate?: number | undefined;
+  /** Velocity trend over the prior sprints and this one */
+  readonly trend: TrendDirection;
+  /** Change of this sprint's velocity against the prior average (e.g., -0.25) */
+  readonly velocityChange?: number | undefined;
+}
+
+/**
+ * Retrospective report of a sprint.
+ */
+export interface SprintRetrospective {
+  readonly sprintId: number;
+  readonly sprintName: string;
+  readonly goal?: string | undefined;
+  readonly startDate: string;
+  readonly endDate: string;
+  /** In the sprint when it started */
+  readonly committed: PointsAndIssues;
+  /** Done when it ended, including issues added later */
+  readonly completed: PointsAndIssues;
+  /** Share of the committed points completed (0-1) */
+  readonly completionRate?: number | undefined;
+  readonly carryOver: readonly CarryOverItem[];
+  readonly scopeAdded: ScopeChange;
+  readonly scopeRemoved: ScopeChange;
+  readonly reestimated: readonly ReestimatedItem[];
+  readonly blocked: readonly BlockedItem[];
+  readonly blockedDays: number;
+  /** Bugs created during the sprint and taken into it */
+  readonly bugsFound: readonly string[];
+  readonly comparison?: SprintComparison | undefined;
+  readonly prompts: readonly FollowUpPrompt[];
+}
@@ -0,0 +1,126 @@
+/**
+ * Time Tracking Analyzer
+ *
+ * Compares hours logged in each sprint with the story points it delivered,
+ * giving a measured points-per-person-day rate for capacity planning.
+ */
+
+import type { JiraIssue, JiraSprint, JiraWorklog } from "../../domain/types.js";
+import { HOURS_PER_DAY } from "../../domain/duration.js";
+import { round } from "../numbers.js";
+import type {
+  SprintWork,
+  SprintTimeTracking,
+  TimeTrackingAnalysis,
+  TimeTrackingOptions,
+} from "./types.js";
+
+/**
+ * Gets the time window of a sprint, if its dates are known.
+ */
+function getSprintWindow(sprint: JiraSprint): { start: number; end: number } | undefined {
+  const start = sprint.startDate ? Date.parse(sprint.startDate) : NaN;
+  const end = Date.parse(sprint.completeDate ?? sprint.endDate ?? "");
+
+  return Number.isNaN(start) || Number.isNaN(end) ? undefined : { start, end };
+}
+
+/**
+ * Sums the work logged on an issue during a sprint.
+ * Without fetched worklogs, the issue's total time spent is used.
+ */
+function getLoggedWork(
+  issue: JiraIssue,
+  worklogs: readonly JiraWorklog[] | undefined,
+  window: { start: number; end: number } | undefined
+): { seconds: number; authors: string[] } {
+  if (!worklogs) {
+    const seconds = issue.timeTracking?.timeSpentSeconds ?? 0;
+    return { seconds, authors: seconds > 0 && issue.assignee ? [issue.assignee.accountId] : [] };
+  }
+
+  const inSprint = worklogs.filter((worklog) => {
+    if (!window) {
+      return true;
+    }
+    const started = Date.parse(worklog.started);
+    return started >= window.start && started <= window.end;
+  });
+
+  return {
+    seconds: inSprint.reduce((sum, worklog) => sum + worklog.timeSpentSeconds, 0),
+    authors: inSprint.map((worklog) => worklog.author.accountId),
+  };
+}
+
+/**
+ * Analyzes logged work against completed story points per sprint.
+ *
+ * @param sprints - Sprints with their issues
+ * @param worklogs - Worklogs by issue key; issues without an entry fall back to their time spent
+ * @param options - Analysis options
+ * @returns Per-sprint and overall points per logged person-day
+ */
+export function analyzeTimeTracking(
+  sprints: readonly SprintWork[],
+  worklogs: ReadonlyMap<string, readonly JiraWorklog[]> = new Map(),
+  options: TimeTrackingOptions = {}
+): TimeTrackingAnalysis {
+  const hoursPerDay = options.hoursPerDay ?? HOURS_PER_DAY;
+
+  const sprintResults: SprintTimeTracking[] = sprints.map(({ sprint, issues }) => {
+    const window = getSprintWindow(sprint);
+    const contributors = new Set<string>();
+    let loggedSeconds = 0;
+    let completedPoints = 0;
+    let unloggedPoints = 0;
+
+    for (const issue of issues) {
+      const logged = getLoggedWork(issue, worklogs.get(issue.key), window);
+      loggedSeconds += logged.seconds;
+      logged.authors.forEach((author) => contributors.add(author));
+
+      // Points delivered without logged work would inflate the rate
+      if (issue.status.categoryKey === "done") {
+        if (logged.seconds > 0) {
+          completedPoints += issue.storyPoints ?? 0;
+        } else {
+          unloggedPoints += issue.storyPoints ?? 0;
+        }
+      }
+    }
+
+    const loggedHours = loggedSeconds / 3600;
+    const loggedPersonDays = loggedHours / hoursPerDay;
+
+    return {
+      sprint,
+      completedPoints,
+      unloggedPoints,
+      loggedHours: round(loggedHours, 1),
+      loggedPersonDays: round(loggedPersonDays, 1),
+      contributors: contributors.size,
+      pointsPerPersonDay: loggedPersonDays > 0 ? round(completedPoints / loggedPersonDays, 2) : undefined,
+    };
+  });
+
+  const withLoggedWork = sprintResults.filter((result) => result.loggedHours > 0);
+  const totalCompletedPoints = withLoggedWork.reduce((sum, result) => sum + result.completedPoints, 0);
+  const totalUnloggedPoints = withLoggedWork.reduce((sum, result) => sum + result.unloggedPoints, 0);
+  const totalLoggedHours = withLoggedWork.reduce((sum, result) => sum + result.loggedHours, 0);
+  const totalPersonDays = totalLoggedHours / hoursPerDay;
+
+  return {
+    sprints: sprintResults,
+    sprintsWithLoggedWork: withLoggedWork.length,
+    totalCompletedPoints,
+    totalUnloggedPoints,
+    totalLoggedHours: round(totalLoggedHours, 1),
+    pointsPerPersonDay: totalPersonDays > 0 ? round(totalCompletedPoints / totalPersonDays, 2) : undefined,
+    hoursPerPoint: totalCompletedPoints > 0 ? round(totalLoggedHours / totalCompletedPoints, 1) : undefined,
+    averageContributors:
+      withLoggedWork.length > 0
+        ? round(withLoggedWork.reduce((sum, result) => sum + result.contributors, 0) / withLoggedWork.length, 1)
+        : undefined,
+  };
+}
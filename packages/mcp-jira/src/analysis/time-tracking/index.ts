@@ -0,0 +1,16 @@
+/**
+ * Time Tracking Analysis Module
+ *
+ * Compares logged work with delivered story points.
+ */
+
+// Types
+export type {
+  SprintWork,
+  SprintTimeTracking,
+  TimeTrackingAnalysis,
+  TimeTrackingOptions,
+} from "./types.js";
+
+// Analyzer
+export { analyzeTimeTracking } from "./analyzer.js";
@@ -0,0 +1,60 @@
+/**
+ * Time Tracking Analysis Types
+ *
+ * Type definitions for comparing logged work against story points.
+ */
+
+import type { JiraIssue, JiraSprint } from "../../domain/types.js";
+
+/**
+ * Issues of one sprint, as input for the analysis.
+ */
+export interface SprintWork {
+  readonly sprint: JiraSprint;
+  readonly issues: readonly JiraIssue[];
+}
+
+/**
+ * Logged work compared with delivered points for one sprint.
+ */
+export interface SprintTimeTracking {
+  readonly sprint: JiraSprint;
+  /** Story points of completed issues with work logged during the sprint */
+  readonly completedPoints: number;
+  /** Story points of completed issues without logged work (not in the rate) */
+  readonly unloggedPoints: number;
+  /** Hours logged on the sprint's issues during the sprint */
+  readonly loggedHours: number;
+  /** Logged hours expressed as working days */
+  readonly loggedPersonDays: number;
+  /** People who logged work (worklog authors, or assignees without worklogs) */
+  readonly contributors: number;
+  /** Completed points per logged person-day (undefined when nothing was logged) */
+  readonly pointsPerPersonDay?: number | undefined;
+}
+
+/**
+ * Time tracking analysis across sprints.
+ */
+export interface TimeTrackingAnalysis {
+  readonly sprints: readonly SprintTimeTracking[];
+  /** Sprints with logged work (only these count towards the totals) */
+  readonly sprintsWithLoggedWork: number;
+  readonly totalCompletedPoints: number;
+  readonly totalUnloggedPoints: number;
+  readonly totalLoggedHours: number;
+  /** Completed points per logged person-day across sprints */
+  readonly pointsPerPersonDay?: number | undefined;
+  /** Logged hours per completed point */
+  readonly hoursPerPoint?: number | undefined;
+  /** Average number of people logging work per sprint */
+  readonly averageContributors?: number | undefined;
+}
+
+/**
+ * Options for the time tracking analysis.
+ */
+export interface TimeTrackingOptions {
+  /** Working hours per day (default: 8) */
+  readonly hoursPerDay?: number | undefined;
+}
@@ -5,6 +5,7 @@
  */
 
 import type { JiraUser, SprintVelocityEntry } from "../../domain/types.js";
+import type { TimeTrackingAnalysis } from "../time-tracking/types.js";
 import type {
   CapacityForecast,
   CapacityOptions,
@@ -24,14 +25,20 @@ const DEFAULT_BUFFER_PERCENTAGE = 0.1;
 const DEFAULT_POINTS_PER_DAY = 1.0;
 
 /**
- * Calculates points per person-day from historical velocity.
+ * Calculates points per person-day. Logged work gives the real rate;
+ * otherwise it is inferred from historical velocity and team size.
  */
 function calculatePointsPerPersonDay(
   velocitySprints: readonly SprintVelocityEntry[],
   teamSize: number,
   sprintDays: number,
-  meetingOverhead: number
+  meetingOverhead: number,
+  timeTracking?: TimeTrackingAnalysis
 ): number {
+  if (timeTracking?.pointsPerPersonDay !== undefined && timeTracking.pointsPerPersonDay > 0) {
+    return timeTracking.pointsPerPersonDay;
+  }
+
   if (velocitySprints.length === 0 || teamSize === 0) {
     return DEFAULT_POINTS_PER_DAY;
   }
@@ -69,6 +76,10 @@ export function forecastCapacity(
   const meetingOverhead = options.meetingOverhead !== undefined ? options.meetingOverhead : DEFAULT_MEETING_OVERHEAD;
   const bufferPercentage = options.bufferPercentage !== undefined ? options.bufferPercentage : DEFAULT_BUFFER_PERCENTAGE;
   const velocitySprints = options.velocitySprints ?? [];
+  const timeTracking = options.timeTracking;
+  const measuredTeamSize = timeTracking?.averageContributors
+    ? Math.max(1, Math.round(timeTracking.averageContributors))
+    : undefined;
 
   const factors: string[] = [];
   let memberCapacity: TeamMemberAvailability[] | undefined;
@@ -96,6 +107,11 @@ export function forecastCapacity(
     );
 
     factors.push(`Team of ${teamMembers.length} member(s)`);
+  } else if (measuredTeamSize !== undefined) {
+    // People who logged work in past sprints
+    totalCapacity = measuredTeamSize * sprintDays;
+
+    factors.push(`Team size from logged work: ~${measuredTeamSize}`);
   } else {
     // Use velocity data to infer team size
     if (velocitySprints.length > 0) {
@@ -128,7 +144,8 @@ export function forecastCapacity(
     velocitySprints,
     teamSize,
     sprintDays,
-    meetingOverhead
+    meetingOverhead,
+    timeTracking
   );
 
   // Calculate recommended points
@@ -147,6 +164,9 @@ export function forecastCapacity(
   if (memberCapacity && memberCapacity.length > 0) {
     confidence += 0.2;
   }
+  if (timeTracking && timeTracking.sprintsWithLoggedWork >= 3) {
+    confidence += 0.1;
+  }
   confidence = Math.min(1, Math.round(confidence * 100) / 100);
 
   // Add contextual factors
@@ -160,6 +180,11 @@ export function forecastCapacity(
     factors.push(`Based on ${velocitySprints.length} sprint(s) of history`);
     factors.push(`Points per person-day: ${pointsPerPersonDay}`);
   }
+  if (timeTracking?.pointsPerPersonDay) {
+    factors.push(
+      `Points per person-day measured from logged work in ${timeTracking.sprintsWithLoggedWork} sprint(s)`
+    );
+  }
 
   return {
     sprintDays,
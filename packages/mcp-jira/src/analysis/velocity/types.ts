@@ -5,6 +5,7 @@
  */
 
 import type { SprintVelocityEntry } from "../../domain/types.js";
+import type { TimeTrackingAnalysis } from "../time-tracking/types.js";
 
 /**
  * Direction of velocity trend.
@@ -177,6 +178,8 @@ export interface CapacityOptions {
   readonly bufferPercentage?: number | undefined;
   /** Historical sprints for points/day calculation */
   readonly velocitySprints?: readonly SprintVelocityEntry[] | undefined;
+  /** Logged work per sprint; when present, points/day is measured instead of inferred */
+  readonly timeTracking?: TimeTrackingAnalysis | undefined;
 }
 
 /**
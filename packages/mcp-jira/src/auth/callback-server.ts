@@ -0,0 +1,103 @@
+/**
+ * OAuth Callback Listener
+ *
+ * Short-lived loopback HTTP server that receives the authorization
+ * redirect, so the user only has to approve access in the browser.
+ */
+
+import { createServer } from "http";
+
+/**
+ * Parameters received on the redirect URI.
+ */
+export interface OAuthCallbackParams {
+  readonly code?: string | undefined;
+  readonly state?: string | undefined;
+  readonly error?: string | undefined;
+  readonly errorDescription?: string | undefined;
+}
+
+/**
+ * Default time to wait for the user to approve access.
+ */
+const DEFAULT_CALLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Parses callback parameters from a redirect URL.
+ *
+ * @param callbackUrl - Full redirect URL (e.g., copied from the browser)
+ */
+export function parseCallbackUrl(callbackUrl: string): OAuthCallbackParams {
+  const url = new URL(callbackUrl);
+  return {
+    code: url.searchParams.get("code") ?? undefined,
+    state: url.searchParams.get("state") ?? undefined,
+    error: url.searchParams.get("error") ?? undefined,
+    errorDescription: url.searchParams.get("error_description") ?? undefined,
+  };
+}
+
+/**
+ * Whether a redirect URI can be served by a local listener.
+ */
+export function isLoopbackRedirect(redirectUri: string): boolean {
+  const { protocol, hostname } = new URL(redirectUri);
+  return protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(hostname);
+}
+
+/**
+ * Listens on the redirect URI for a single authorization callback.
+ * The listener closes after the first callback or when the timeout expires.
+ *
+ * @param redirectUri - Loopback redirect URI (e.g., http://localhost:8765/callback)
+ * @param onCallback - Handles the callback; its result decides the page shown in the browser
+ * @param timeoutMs - How long to wait before giving up
+ * @returns Resolves once the listener is accepting connections
+ */
+export function listenForCallback(
+  redirectUri: string,
+  onCallback: (params: OAuthCallbackParams) => Promise<void>,
+  timeoutMs: number = DEFAULT_CALLBACK_TIMEOUT_MS
+): Promise<{ close: () => void }> {
+  const target = new URL(redirectUri);
+  const port = Number(target.port) || 80;
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+
+  return new Promise((resolve, reject) => {
+    const server = createServer((req, res) => {
+      const requestUrl = new URL(req.url ?? "/", redirectUri);
+
+      if (requestUrl.pathname !== target.pathname) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const params = parseCallbackUrl(requestUrl.toString());
+
+      onCallback(params)
+        .then(() => {
+          res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+          res.end("<h1>Jira access granted</h1><p>You can close this window.</p>");
+        })
+        .catch((error: unknown) => {
+          res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+          res.end(`Authorization failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+        })
+        .finally(close);
+    });
+
+    const timer = setTimeout(close, timeoutMs);
+    timer.unref();
+
+    function close(): void {
+      clearTimeout(timer);
+      server.close();
+    }
+
+    server.once("error", reject);
+    server.listen(port, hostname, () => {
+      server.unref();
+      resolve({ close });
+    });
+  });
+}
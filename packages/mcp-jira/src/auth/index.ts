@@ -0,0 +1,48 @@
+/**
+ * Auth Module
+ *
+ * OAuth 2.0 (3LO) authentication with PKCE for Jira Cloud:
+ * protocol client, session with transparent refresh, and
+ * encrypted token storage.
+ */
+
+// Types
+export type {
+  OAuthTokenSet,
+  OAuthAccessibleResource,
+  OAuthPendingAuthorization,
+  OAuthLoginStatus,
+} from "./types.js";
+
+// PKCE
+export { generatePkcePair, computeCodeChallenge, generateOAuthState } from "./pkce.js";
+export type { PkcePair } from "./pkce.js";
+
+// Protocol Client
+export {
+  OAuthError,
+  OAuthLoginRequiredError,
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+  fetchAccessibleResources,
+  selectCloudId,
+} from "./oauth-client.js";
+
+// Session
+export { OAuthSession } from "./oauth-session.js";
+
+// Token Storage
+export {
+  TOKEN_STORE_SCHEMA_VERSION,
+  createMemoryTokenStore,
+  createEncryptedFileTokenStore,
+  createDefaultTokenStore,
+  getOAuthTokenStore,
+  configureOAuthTokenStore,
+} from "./token-store.js";
+export type { OAuthTokenStore } from "./token-store.js";
+
+// Callback Listener
+export { listenForCallback, parseCallbackUrl, isLoopbackRedirect } from "./callback-server.js";
+export type { OAuthCallbackParams } from "./callback-server.js";
@@ -0,0 +1,240 @@
+/**
+ * OAuth 2.0 Protocol Client
+ *
+ * Authorization code flow with PKCE against the Atlassian authorization
+ * server (or any compatible server, e.g. a local mock for testing):
+ * building the authorization URL, exchanging and refreshing tokens, and
+ * resolving the cloud ID of a Jira site via accessible-resources.
+ */
+
+import type { OAuthAuthConfig } from "../config/index.js";
+import type { OAuthTokenSet, OAuthAccessibleResource } from "./types.js";
+
+/**
+ * Audience for Atlassian API tokens.
+ */
+const ATLASSIAN_AUDIENCE = "api.atlassian.com";
+
+/**
+ * Timeout for requests to the authorization server.
+ */
+const OAUTH_REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Error thrown when an OAuth request fails.
+ */
+export class OAuthError extends Error {
+  /** OAuth error code (e.g., invalid_grant) or a local code */
+  readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = "OAuthError";
+    this.code = code;
+  }
+}
+
+/**
+ * Error thrown when no usable tokens exist and the user must log in.
+ */
+export class OAuthLoginRequiredError extends OAuthError {
+  constructor(reason: string) {
+    super(`OAuth login required: ${reason}. Run jira_oauth_login to sign in.`, "login_required");
+    this.name = "OAuthLoginRequiredError";
+  }
+}
+
+/**
+ * Raw token response from the authorization server.
+ */
+interface RawTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Builds the URL the user opens to grant access.
+ *
+ * @param config - OAuth configuration
+ * @param params - State and PKCE challenge for this request
+ */
+export function buildAuthorizationUrl(
+  config: OAuthAuthConfig,
+  params: { state: string; codeChallenge: string }
+): string {
+  const url = new URL(`${config.authorizationServerUrl}/authorize`);
+  url.searchParams.set("audience", ATLASSIAN_AUDIENCE);
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("scope", config.scopes.join(" "));
+  url.searchParams.set("redirect_uri", config.redirectUri);
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("prompt", "consent");
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+}
+
+/**
+ * Performs a fetch with a timeout.
+ */
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), OAUTH_REQUEST_TIMEOUT_MS);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    throw new OAuthError(
+      `OAuth request failed: ${error instanceof Error ? error.message : "Network error"}`,
+      "network_error"
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Calls the token endpoint and maps the response.
+ */
+async function requestTokens(
+  config: OAuthAuthConfig,
+  body: Record<string, string>,
+  previous?: OAuthTokenSet
+): Promise<OAuthTokenSet> {
+  const response = await fetchWithTimeout(`${config.authorizationServerUrl}/oauth/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({
+      client_id: config.clientId,
+      ...(config.clientSecret ? { client_secret: config.clientSecret } : {}),
+      ...body,
+    }),
+  });
+
+  const raw = (await response.json().catch(() => ({}))) as RawTokenResponse;
+
+  if (!response.ok || !raw.access_token) {
+    const code = raw.error ?? `http_${response.status}`;
+    throw new OAuthError(
+      `Token request failed (${code})${raw.error_description ? `: ${raw.error_description}` : ""}`,
+      code
+    );
+  }
+
+  const now = Date.now();
+
+  return {
+    accessToken: raw.access_token,
+    // Refresh tokens rotate; keep the previous one if none was returned
+    refreshToken: raw.refresh_token ?? previous?.refreshToken,
+    tokenType: raw.token_type ?? "Bearer",
+    expiresAt: new Date(now + (raw.expires_in ?? 3600) * 1000).toISOString(),
+    obtainedAt: new Date(now).toISOString(),
+    scope: raw.scope ?? previous?.scope,
+    cloudId: previous?.cloudId,
+  };
+}
+
+/**
+ * Exchanges an authorization code for tokens.
+ *
+ * @param config - OAuth configuration
+ * @param code - Authorization code from the callback
+ * @param codeVerifier - PKCE verifier of the authorization request
+ */
+export function exchangeAuthorizationCode(
+  config: OAuthAuthConfig,
+  code: string,
+  codeVerifier: string
+): Promise<OAuthTokenSet> {
+  return requestTokens(config, {
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: config.redirectUri,
+    code_verifier: codeVerifier,
+  });
+}
+
+/**
+ * Obtains a new access token with a refresh token.
+ *
+ * @param config - OAuth configuration
+ * @param tokens - Current tokens (must include a refresh token)
+ */
+export function refreshAccessToken(
+  config: OAuthAuthConfig,
+  tokens: OAuthTokenSet
+): Promise<OAuthTokenSet> {
+  if (!tokens.refreshToken) {
+    throw new OAuthLoginRequiredError("the access token expired and no refresh token is stored");
+  }
+
+  return requestTokens(
+    config,
+    { grant_type: "refresh_token", refresh_token: tokens.refreshToken },
+    tokens
+  );
+}
+
+/**
+ * Lists the sites an access token can reach.
+ *
+ * @param config - OAuth configuration
+ * @param accessToken - A valid access token
+ */
+export async function fetchAccessibleResources(
+  config: OAuthAuthConfig,
+  accessToken: string
+): Promise<OAuthAccessibleResource[]> {
+  const response = await fetchWithTimeout(
+    `${config.apiGatewayUrl}/oauth/token/accessible-resources`,
+    {
+      method: "GET",
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/json" },
+    }
+  );
+
+  if (!response.ok) {
+    throw new OAuthError(
+      `Failed to list accessible resources (status ${response.status})`,
+      `http_${response.status}`
+    );
+  }
+
+  const raw = (await response.json()) as Array<Partial<OAuthAccessibleResource>>;
+
+  return raw
+    .filter((r): r is OAuthAccessibleResource & typeof r => !!r.id && !!r.url)
+    .map((r) => ({ id: r.id, url: r.url, name: r.name ?? r.url, scopes: r.scopes ?? [] }));
+}
+
+/**
+ * Finds the cloud ID of a Jira site among the accessible resources.
+ *
+ * @param resources - Accessible resources of the token
+ * @param siteUrl - Configured Jira site URL
+ * @throws OAuthError if the site was not authorized
+ */
+export function selectCloudId(
+  resources: readonly OAuthAccessibleResource[],
+  siteUrl: string
+): string {
+  const normalize = (url: string): string => url.replace(/\/$/, "").toLowerCase();
+  const match = resources.find((r) => normalize(r.url) === normalize(siteUrl));
+
+  if (!match) {
+    const available = resources.map((r) => r.url).join(", ") || "none";
+    throw new OAuthError(
+      `The authorization does not include ${siteUrl} (authorized sites: ${available})`,
+      "site_not_authorized"
+    );
+  }
+
+  return match.id;
+}
@@ -0,0 +1,235 @@
+/**
+ * OAuth Session
+ *
+ * Owns the OAuth tokens of one Jira site: runs the login flow, refreshes
+ * the access token shortly before it expires, and resolves the API base
+ * URL (https://api.atlassian.com/ex/jira/{cloudId}) used by JiraClient.
+ */
+
+import type { OAuthAuthConfig } from "../config/index.js";
+import { generatePkcePair, generateOAuthState } from "./pkce.js";
+import {
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+  fetchAccessibleResources,
+  selectCloudId,
+  OAuthError,
+  OAuthLoginRequiredError,
+} from "./oauth-client.js";
+import { getOAuthTokenStore, type OAuthTokenStore } from "./token-store.js";
+import type {
+  OAuthTokenSet,
+  OAuthPendingAuthorization,
+  OAuthLoginStatus,
+} from "./types.js";
+
+/**
+ * Access tokens are refreshed when they expire within this window.
+ */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Authorization requests older than this are rejected.
+ */
+const PENDING_AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * OAuth session for a single Jira site.
+ */
+export class OAuthSession {
+  private readonly config: OAuthAuthConfig;
+  private readonly siteUrl: string;
+  private readonly store: OAuthTokenStore;
+  private readonly storeKey: string;
+  private pending: OAuthPendingAuthorization | undefined;
+  private refreshInFlight: Promise<OAuthTokenSet> | undefined;
+
+  /**
+   * @param config - OAuth configuration
+   * @param siteUrl - Jira site URL (JIRA_BASE_URL)
+   * @param store - Token store (defaults to the shared encrypted store)
+   */
+  constructor(config: OAuthAuthConfig, siteUrl: string, store?: OAuthTokenStore) {
+    this.config = config;
+    this.siteUrl = siteUrl;
+    this.store = store ?? getOAuthTokenStore();
+    this.storeKey = `${config.clientId}@${siteUrl}`;
+  }
+
+  /**
+   * Gets the redirect URI registered for the OAuth client.
+   */
+  getRedirectUri(): string {
+    return this.config.redirectUri;
+  }
+
+  /**
+   * Starts a login: creates a PKCE pair and state, and returns the
+   * authorization request. A previous pending request is replaced.
+   */
+  startLogin(): OAuthPendingAuthorization {
+    const pkce = generatePkcePair();
+    const state = generateOAuthState();
+
+    this.pending = {
+      authorizationUrl: buildAuthorizationUrl(this.config, {
+        state,
+        codeChallenge: pkce.challenge,
+      }),
+      state,
+      codeVerifier: pkce.verifier,
+      createdAt: new Date().toISOString(),
+    };
+
+    return this.pending;
+  }
+
+  /**
+   * Completes a login with the code from the authorization callback.
+   *
+   * @param code - Authorization code
+   * @param state - State echoed by the callback
+   * @returns The status after login
+   * @throws OAuthError if the state does not match or the exchange fails
+   */
+  async completeLogin(code: string, state: string): Promise<OAuthLoginStatus> {
+    const pending = this.pending;
+
+    if (!pending) {
+      throw new OAuthError("No login in progress. Start one with action: start.", "no_pending_login");
+    }
+    if (pending.state !== state) {
+      throw new OAuthError("State mismatch: the callback does not belong to this login", "invalid_state");
+    }
+    if (Date.now() - new Date(pending.createdAt).getTime() > PENDING_AUTHORIZATION_TTL_MS) {
+      this.pending = undefined;
+      throw new OAuthError("The login request expired. Start a new one.", "expired_request");
+    }
+
+    this.pending = undefined;
+
+    const tokens = await exchangeAuthorizationCode(this.config, code, pending.codeVerifier);
+    const cloudId = await this.resolveCloudId(tokens.accessToken);
+
+    this.store.save(this.storeKey, { ...tokens, cloudId });
+    return this.getStatus();
+  }
+
+  /**
+   * Removes stored tokens and any pending login.
+   *
+   * @returns true if tokens were removed
+   */
+  logout(): boolean {
+    this.pending = undefined;
+    return this.store.delete(this.storeKey);
+  }
+
+  /**
+   * Gets the login status (never includes tokens).
+   */
+  getStatus(): OAuthLoginStatus {
+    let tokens: OAuthTokenSet | undefined;
+    try {
+      tokens = this.store.load(this.storeKey);
+    } catch (error) {
+      console.error(
+        `[oauth] Failed to read tokens: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    return {
+      loggedIn: tokens !== undefined,
+      siteUrl: this.siteUrl,
+      cloudId: tokens?.cloudId ?? this.config.cloudId,
+      expiresAt: tokens?.expiresAt,
+      canRefresh: tokens?.refreshToken !== undefined,
+      scope: tokens?.scope,
+      pendingAuthorization: this.pending !== undefined,
+      storage: { kind: this.store.kind, location: this.store.location },
+    };
+  }
+
+  /**
+   * Gets a valid access token, refreshing it when it is about to expire.
+   *
+   * @throws OAuthLoginRequiredError if no tokens are stored or refresh is impossible
+   */
+  async getAccessToken(): Promise<string> {
+    const tokens = this.loadTokens();
+
+    if (new Date(tokens.expiresAt).getTime() - Date.now() > REFRESH_MARGIN_MS) {
+      return tokens.accessToken;
+    }
+
+    return (await this.refresh()).accessToken;
+  }
+
+  /**
+   * Refreshes the access token now (e.g. after a 401).
+   * Concurrent callers share a single refresh request.
+   */
+  refresh(): Promise<OAuthTokenSet> {
+    this.refreshInFlight ??= this.doRefresh().finally(() => {
+      this.refreshInFlight = undefined;
+    });
+    return this.refreshInFlight;
+  }
+
+  /**
+   * Gets the API root for Jira requests made with OAuth tokens.
+   */
+  async getApiBaseUrl(): Promise<string> {
+    const tokens = this.loadTokens();
+    let cloudId = tokens.cloudId ?? this.config.cloudId;
+
+    if (!cloudId) {
+      cloudId = await this.resolveCloudId(await this.getAccessToken());
+      this.store.save(this.storeKey, { ...this.loadTokens(), cloudId });
+    }
+
+    return `${this.config.apiGatewayUrl}/ex/jira/${cloudId}`;
+  }
+
+  private async doRefresh(): Promise<OAuthTokenSet> {
+    const current = this.loadTokens();
+
+    try {
+      const refreshed = await refreshAccessToken(this.config, current);
+      this.store.save(this.storeKey, refreshed);
+      return refreshed;
+    } catch (error) {
+      // A rejected refresh token cannot be recovered without a new login
+      if (error instanceof OAuthError && error.code === "invalid_grant") {
+        this.store.delete(this.storeKey);
+        throw new OAuthLoginRequiredError("the refresh token was rejected");
+      }
+      throw error;
+    }
+  }
+
+  private async resolveCloudId(accessToken: string): Promise<string> {
+    if (this.config.cloudId) {
+      return this.config.cloudId;
+    }
+    const resources = await fetchAccessibleResources(this.config, accessToken);
+    return selectCloudId(resources, this.siteUrl);
+  }
+
+  private loadTokens(): OAuthTokenSet {
+    let tokens: OAuthTokenSet | undefined;
+    try {
+      tokens = this.store.load(this.storeKey);
+    } catch (error) {
+      throw new OAuthLoginRequiredError(
+        `stored tokens are unreadable (${error instanceof Error ? error.message : "unknown error"})`
+      );
+    }
+
+    if (!tokens) {
+      throw new OAuthLoginRequiredError(`not signed in to ${this.siteUrl}`);
+    }
+    return tokens;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * PKCE Helpers
+ *
+ * Proof Key for Code Exchange (RFC 7636) for the OAuth 2.0
+ * authorization code flow. Only the S256 challenge method is used.
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * A PKCE verifier and its derived challenge.
+ */
+export interface PkcePair {
+  /** Secret kept by the client and sent with the token request */
+  readonly verifier: string;
+  /** SHA-256 of the verifier, sent with the authorization request */
+  readonly challenge: string;
+  /** Challenge method (always S256) */
+  readonly method: "S256";
+}
+
+/**
+ * Encodes bytes as unpadded base64url.
+ */
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Computes the S256 code challenge for a verifier.
+ *
+ * @param verifier - The code verifier
+ */
+export function computeCodeChallenge(verifier: string): string {
+  return base64Url(createHash("sha256").update(verifier).digest());
+}
+
+/**
+ * Generates a new PKCE verifier (43 characters, 256 bits of entropy)
+ * and its S256 challenge.
+ */
+export function generatePkcePair(): PkcePair {
+  const verifier = base64Url(randomBytes(32));
+  return { verifier, challenge: computeCodeChallenge(verifier), method: "S256" };
+}
+
+/**
+ * Generates an opaque state value to bind the callback to the request.
+ */
+export function generateOAuthState(): string {
+  return base64Url(randomBytes(16));
+}
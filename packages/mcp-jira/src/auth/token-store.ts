@@ -0,0 +1,315 @@
+/**
+ * OAuth Token Store
+ *
+ * Persists OAuth tokens encrypted at rest (AES-256-GCM), so a login
+ * survives server restarts without leaving bearer tokens readable on disk.
+ *
+ * The encryption key is derived from JIRA_MCP_TOKEN_KEY when set (e.g.
+ * injected from a secret manager). Otherwise a random key is generated
+ * once and kept in a separate owner-only file next to the token file.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { z } from "zod";
+import {
+  resolveDataPath,
+  readJsonDocument,
+  writeJsonDocument,
+  writeFileAtomic,
+  getSchemaVersion,
+  quarantineFile,
+  StorageError,
+  StorageSchemaError,
+} from "../storage/index.js";
+import type { OAuthTokenSet } from "./types.js";
+
+/**
+ * Current schema version of the encrypted token file.
+ */
+export const TOKEN_STORE_SCHEMA_VERSION = 1;
+
+/**
+ * Default token file name inside the data directory.
+ */
+const DEFAULT_TOKENS_FILE = "oauth-tokens.json";
+
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * Schema for stored tokens (validated after decryption).
+ */
+const StoredTokenSetSchema = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().min(1).optional(),
+  tokenType: z.string(),
+  expiresAt: z.string(),
+  obtainedAt: z.string(),
+  scope: z.string().optional(),
+  cloudId: z.string().optional(),
+});
+
+/**
+ * Schema for the decrypted payload: token sets keyed by session key.
+ */
+const TokenPayloadSchema = z.object({
+  tokens: z.record(StoredTokenSetSchema),
+});
+
+/**
+ * Schema for the encrypted envelope written to disk.
+ */
+const EncryptedEnvelopeSchema = z.object({
+  schemaVersion: z.literal(TOKEN_STORE_SCHEMA_VERSION),
+  algorithm: z.literal(CIPHER),
+  keySource: z.enum(["passphrase", "keyfile"]),
+  salt: z.string().optional(),
+  iv: z.string(),
+  authTag: z.string(),
+  ciphertext: z.string(),
+});
+
+type EncryptedEnvelope = z.infer<typeof EncryptedEnvelopeSchema>;
+
+/**
+ * Persistence backend for OAuth tokens.
+ */
+export interface OAuthTokenStore {
+  /** Backend kind (for diagnostics) */
+  readonly kind: "memory" | "file";
+  /** Where tokens are stored (file path or "memory") */
+  readonly location: string;
+  /** Loads the tokens stored under a session key */
+  load(key: string): OAuthTokenSet | undefined;
+  /** Stores tokens under a session key */
+  save(key: string, tokens: OAuthTokenSet): void;
+  /** Removes tokens; returns true if something was removed */
+  delete(key: string): boolean;
+}
+
+/**
+ * Creates a store that keeps tokens in process memory only.
+ */
+export function createMemoryTokenStore(): OAuthTokenStore {
+  const tokens = new Map<string, OAuthTokenSet>();
+
+  return {
+    kind: "memory",
+    location: "memory",
+    load: (key) => tokens.get(key),
+    save: (key, tokenSet) => {
+      tokens.set(key, tokenSet);
+    },
+    delete: (key) => tokens.delete(key),
+  };
+}
+
+/**
+ * Resolves the encryption key for an envelope.
+ * A passphrase (JIRA_MCP_TOKEN_KEY) takes precedence over the key file.
+ */
+function resolveKey(
+  keyFilePath: string,
+  passphrase: string | undefined,
+  salt: Buffer | undefined,
+  createIfMissing: boolean
+): { key: Buffer; keySource: EncryptedEnvelope["keySource"] } | undefined {
+  if (passphrase) {
+    if (!salt) {
+      return undefined;
+    }
+    return { key: scryptSync(passphrase, salt, KEY_LENGTH), keySource: "passphrase" };
+  }
+
+  if (existsSync(keyFilePath)) {
+    const key = Buffer.from(readFileSync(keyFilePath, "utf-8").trim(), "hex");
+    if (key.length !== KEY_LENGTH) {
+      throw new StorageError(`Invalid token key file ${keyFilePath}`, keyFilePath);
+    }
+    return { key, keySource: "keyfile" };
+  }
+
+  if (!createIfMissing) {
+    return undefined;
+  }
+
+  const key = randomBytes(KEY_LENGTH);
+  writeFileAtomic(keyFilePath, `${key.toString("hex")}\n`);
+  return { key, keySource: "keyfile" };
+}
+
+/**
+ * Creates a store that keeps tokens in an encrypted JSON file.
+ *
+ * @param filePath - Path of the encrypted token file
+ * @param options - Key file path (default: `<filePath>.key`) and passphrase
+ *   (default: JIRA_MCP_TOKEN_KEY)
+ */
+export function createEncryptedFileTokenStore(
+  filePath: string,
+  options?: { keyFilePath?: string; passphrase?: string | undefined }
+): OAuthTokenStore {
+  const keyFilePath = options?.keyFilePath ?? `${filePath}.key`;
+  const passphrase =
+    options && "passphrase" in options ? options.passphrase : process.env["JIRA_MCP_TOKEN_KEY"];
+
+  function readPayload(): Record<string, OAuthTokenSet> {
+    const document = readJsonDocument(filePath);
+    if (document === undefined) {
+      return {};
+    }
+
+    const version = getSchemaVersion(document);
+    if (version > TOKEN_STORE_SCHEMA_VERSION) {
+      throw new StorageSchemaError(filePath, version, TOKEN_STORE_SCHEMA_VERSION);
+    }
+
+    const envelope = EncryptedEnvelopeSchema.safeParse(document);
+    if (!envelope.success) {
+      throw new StorageError(`Invalid token file ${filePath}`, filePath);
+    }
+
+    const salt = envelope.data.salt ? Buffer.from(envelope.data.salt, "base64") : undefined;
+    const resolved =
+      envelope.data.keySource === "passphrase" && !passphrase
+        ? undefined
+        : resolveKey(keyFilePath, passphrase, salt, false);
+
+    if (!resolved || resolved.keySource !== envelope.data.keySource) {
+      throw new StorageError(
+        `Cannot decrypt ${filePath}: encryption key not available (was JIRA_MCP_TOKEN_KEY changed?)`,
+        filePath
+      );
+    }
+
+    try {
+      const decipher = createDecipheriv(
+        CIPHER,
+        resolved.key,
+        Buffer.from(envelope.data.iv, "base64")
+      );
+      decipher.setAuthTag(Buffer.from(envelope.data.authTag, "base64"));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(envelope.data.ciphertext, "base64")),
+        decipher.final(),
+      ]).toString("utf-8");
+
+      return TokenPayloadSchema.parse(JSON.parse(plaintext)).tokens;
+    } catch {
+      throw new StorageError(
+        `Cannot decrypt ${filePath}: wrong key or tampered file`,
+        filePath
+      );
+    }
+  }
+
+  function writePayload(tokens: Record<string, OAuthTokenSet>): void {
+    const salt = passphrase ? randomBytes(16) : undefined;
+    const resolved = resolveKey(keyFilePath, passphrase, salt, true);
+    if (!resolved) {
+      throw new StorageError(`No encryption key available for ${filePath}`, filePath);
+    }
+
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, resolved.key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify({ tokens }), "utf-8"),
+      cipher.final(),
+    ]);
+
+    const envelope: EncryptedEnvelope = {
+      schemaVersion: TOKEN_STORE_SCHEMA_VERSION,
+      algorithm: CIPHER,
+      keySource: resolved.keySource,
+      ...(salt ? { salt: salt.toString("base64") } : {}),
+      iv: iv.toString("base64"),
+      authTag: cipher.getAuthTag().toString("base64"),
+      ciphertext: ciphertext.toString("base64"),
+    };
+
+    writeJsonDocument(filePath, envelope);
+  }
+
+  /**
+   * Reads the payload for an update. Tokens can always be obtained again
+   * by logging in, so an unreadable file (other than a newer schema) is
+   * moved aside instead of blocking the login.
+   */
+  function readPayloadForUpdate(): Record<string, OAuthTokenSet> {
+    try {
+      return readPayload();
+    } catch (error) {
+      if (error instanceof StorageSchemaError || !existsSync(filePath)) {
+        throw error;
+      }
+      const quarantinePath = quarantineFile(filePath);
+      console.error(
+        `[oauth] ${error instanceof Error ? error.message : "Unreadable token file"}. Moved to ${quarantinePath}`
+      );
+      return {};
+    }
+  }
+
+  return {
+    kind: "file",
+    location: filePath,
+
+    load(key: string): OAuthTokenSet | undefined {
+      return readPayload()[key];
+    },
+
+    save(key: string, tokens: OAuthTokenSet): void {
+      const payload = readPayloadForUpdate();
+      payload[key] = tokens;
+      writePayload(payload);
+    },
+
+    delete(key: string): boolean {
+      const payload = readPayloadForUpdate();
+      if (!(key in payload)) {
+        return false;
+      }
+      delete payload[key];
+      writePayload(payload);
+      return true;
+    },
+  };
+}
+
+/**
+ * Creates the token store selected by environment variables:
+ * - JIRA_MCP_STORAGE=memory disables persistence
+ * - JIRA_MCP_OAUTH_TOKENS_FILE points to an explicit token file
+ * - Otherwise oauth-tokens.json in the data directory (JIRA_MCP_DATA_DIR)
+ */
+export function createDefaultTokenStore(): OAuthTokenStore {
+  if (process.env["JIRA_MCP_STORAGE"] === "memory") {
+    return createMemoryTokenStore();
+  }
+
+  const explicitFile = process.env["JIRA_MCP_OAUTH_TOKENS_FILE"];
+  return createEncryptedFileTokenStore(explicitFile || resolveDataPath(DEFAULT_TOKENS_FILE));
+}
+
+/**
+ * Token store shared by OAuth sessions (created on first use).
+ */
+let sharedTokenStore: OAuthTokenStore | undefined;
+
+/**
+ * Gets the shared token store.
+ */
+export function getOAuthTokenStore(): OAuthTokenStore {
+  sharedTokenStore ??= createDefaultTokenStore();
+  return sharedTokenStore;
+}
+
+/**
+ * Replaces the shared token store.
+ * Sessions created afterwards use the new store.
+ */
+export function configureOAuthTokenStore(store: OAuthTokenStore): void {
+  sharedTokenStore = store;
+}
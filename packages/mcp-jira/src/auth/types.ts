@@ -0,0 +1,75 @@
+/**
+ * OAuth Types
+ *
+ * Type definitions for OAuth 2.0 (3LO) authentication.
+ */
+
+/**
+ * Tokens obtained from the authorization server.
+ */
+export interface OAuthTokenSet {
+  /** Bearer token for API requests */
+  readonly accessToken: string;
+  /** Refresh token (requires the offline_access scope) */
+  readonly refreshToken?: string | undefined;
+  /** Token type reported by the server (usually "Bearer") */
+  readonly tokenType: string;
+  /** When the access token expires (ISO 8601) */
+  readonly expiresAt: string;
+  /** When the tokens were obtained or last refreshed (ISO 8601) */
+  readonly obtainedAt: string;
+  /** Granted scopes (space separated) */
+  readonly scope?: string | undefined;
+  /** Cloud ID of the Jira site the tokens are used with */
+  readonly cloudId?: string | undefined;
+}
+
+/**
+ * A site the access token can reach, from the accessible-resources endpoint.
+ */
+export interface OAuthAccessibleResource {
+  /** Cloud ID */
+  readonly id: string;
+  /** Site URL (e.g., https://company.atlassian.net) */
+  readonly url: string;
+  /** Site name */
+  readonly name: string;
+  /** Scopes granted for this site */
+  readonly scopes: readonly string[];
+}
+
+/**
+ * An authorization request waiting for its callback.
+ */
+export interface OAuthPendingAuthorization {
+  /** URL the user opens to grant access */
+  readonly authorizationUrl: string;
+  /** State value the callback must echo */
+  readonly state: string;
+  /** PKCE verifier for the token request */
+  readonly codeVerifier: string;
+  /** When the request was created (ISO 8601) */
+  readonly createdAt: string;
+}
+
+/**
+ * OAuth login status (for diagnostics, never includes tokens).
+ */
+export interface OAuthLoginStatus {
+  /** Whether usable tokens are stored */
+  readonly loggedIn: boolean;
+  /** Jira site the session is for */
+  readonly siteUrl: string;
+  /** Resolved cloud ID */
+  readonly cloudId?: string | undefined;
+  /** Access token expiry (ISO 8601) */
+  readonly expiresAt?: string | undefined;
+  /** Whether the access token can be refreshed without user interaction */
+  readonly canRefresh: boolean;
+  /** Granted scopes */
+  readonly scope?: string | undefined;
+  /** Whether an authorization request is waiting for its callback */
+  readonly pendingAuthorization: boolean;
+  /** Token storage (kind and location) */
+  readonly storage: { readonly kind: "memory" | "file"; readonly location: string };
+}
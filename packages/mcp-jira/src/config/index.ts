@@ -5,19 +5,35 @@
 export {
   JiraConfigSchema,
   AuthConfigSchema,
+  BasicAuthConfigSchema,
+  BearerAuthConfigSchema,
+  OAuthAuthConfigSchema,
+  DEFAULT_OAUTH_SCOPES,
+  JiraDeploymentSchema,
+  ProfileNameSchema,
   CustomFieldIdSchema,
   FieldMappingsSchema,
+  CustomFieldAliasNameSchema,
+  CustomFieldTypeSchema,
+  CustomFieldAliasSchema,
   loadConfigFromEnv,
   validateConfig,
   tryLoadConfigFromEnv,
   getMissingConfigFields,
   createConfig,
+  getProfileEnvPrefix,
+  getProfileNamesFromEnv,
 } from "./schema.js";
 
 export type {
   JiraConfig,
   AuthConfig,
+  BasicAuthConfig,
+  BearerAuthConfig,
+  OAuthAuthConfig,
+  JiraDeployment,
   MissingConfigField,
   CustomFieldId,
   FieldMappings,
+  CustomFieldAliasConfig,
 } from "./schema.js";
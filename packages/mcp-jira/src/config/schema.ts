@@ -17,9 +17,42 @@ export const CustomFieldIdSchema = z
 
 export type CustomFieldId = z.infer<typeof CustomFieldIdSchema>;
 
+/**
+ * Custom field alias name schema (e.g., "Team", "Acceptance Criteria").
+ */
+export const CustomFieldAliasNameSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z][A-Za-z0-9 _-]{0,49}$/,
+    "Alias must start with a letter and contain only letters, digits, spaces, '-' or '_' (max 50)"
+  );
+
+/**
+ * Custom field alias type schema. Determines how values are read and written.
+ */
+export const CustomFieldTypeSchema = z.enum([
+  "text",
+  "number",
+  "select",
+  "multi-select",
+  "user",
+  "date",
+]);
+
+/**
+ * Custom field alias schema: the field an alias refers to and its value type.
+ */
+export const CustomFieldAliasSchema = z.object({
+  id: CustomFieldIdSchema,
+  type: CustomFieldTypeSchema,
+});
+
+export type CustomFieldAliasConfig = z.infer<typeof CustomFieldAliasSchema>;
+
 /**
  * Field mappings configuration schema.
- * Allows users to specify custom field IDs for Story Points and Sprint fields.
+ * Allows users to specify custom field IDs for Story Points and Sprint fields,
+ * and aliases for any other custom fields.
  */
 export const FieldMappingsSchema = z.object({
   storyPoints: CustomFieldIdSchema.optional().describe(
@@ -28,15 +61,19 @@ export const FieldMappingsSchema = z.object({
   sprint: CustomFieldIdSchema.optional().describe(
     "Custom field ID for Sprint (e.g., customfield_10020)"
   ),
+  customFields: z
+    .record(CustomFieldAliasNameSchema, CustomFieldAliasSchema)
+    .optional()
+    .describe("Custom field aliases keyed by name (e.g., { Team: { id: 'customfield_10050', type: 'select' } })"),
 });
 
 export type FieldMappings = z.infer<typeof FieldMappingsSchema>;
 
 /**
- * Authentication configuration schema.
- * Supports Basic Auth (email + API token) which is the standard for Jira Cloud.
+ * Basic authentication schema (email + API token).
+ * This is the standard for Jira Cloud.
  */
-export const AuthConfigSchema = z.object({
+export const BasicAuthConfigSchema = z.object({
   type: z.literal("basic"),
   email: z
     .string()
@@ -48,8 +85,106 @@ export const AuthConfigSchema = z.object({
     .describe("Jira API token from JIRA_API_TOKEN env var"),
 });
 
+/**
+ * Bearer authentication schema (Personal Access Token).
+ * Used by Jira Server / Data Center.
+ */
+export const BearerAuthConfigSchema = z.object({
+  type: z.literal("bearer"),
+  token: z
+    .string()
+    .min(1, "JIRA_PERSONAL_ACCESS_TOKEN is required")
+    .describe("Personal Access Token from JIRA_PERSONAL_ACCESS_TOKEN env var"),
+});
+
+/**
+ * Default OAuth 2.0 (3LO) scopes.
+ * offline_access is required to receive a refresh token.
+ */
+export const DEFAULT_OAUTH_SCOPES = [
+  "read:jira-work",
+  "write:jira-work",
+  "read:jira-user",
+  "offline_access",
+] as const;
+
+/**
+ * URL schema that requires HTTPS, except for loopback hosts
+ * (local redirect listeners and mock authorization servers).
+ */
+const SecureOrLoopbackUrlSchema = z
+  .string()
+  .url()
+  .refine((url) => {
+    const { protocol, hostname } = new URL(url);
+    return (
+      protocol === "https:" ||
+      (protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(hostname))
+    );
+  }, "URL must use HTTPS (plain HTTP is only allowed for localhost)");
+
+/**
+ * OAuth 2.0 authorization code flow with PKCE (Atlassian 3LO).
+ * Only usable with Jira Cloud. Tokens are obtained with the jira_oauth_login
+ * tool and kept in encrypted storage, never in configuration.
+ */
+export const OAuthAuthConfigSchema = z.object({
+  type: z.literal("oauth"),
+  clientId: z
+    .string()
+    .min(1, "JIRA_OAUTH_CLIENT_ID is required")
+    .describe("OAuth client ID from JIRA_OAUTH_CLIENT_ID env var"),
+  clientSecret: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("OAuth client secret from JIRA_OAUTH_CLIENT_SECRET env var"),
+  redirectUri: SecureOrLoopbackUrlSchema.default("http://localhost:8765/callback").describe(
+    "Registered callback URL from JIRA_OAUTH_REDIRECT_URI env var"
+  ),
+  scopes: z
+    .array(z.string().min(1))
+    .min(1)
+    .default([...DEFAULT_OAUTH_SCOPES])
+    .describe("Requested scopes from JIRA_OAUTH_SCOPES env var"),
+  cloudId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Jira site cloud ID from JIRA_OAUTH_CLOUD_ID (resolved automatically when omitted)"),
+  authorizationServerUrl: SecureOrLoopbackUrlSchema.default("https://auth.atlassian.com")
+    .transform((url) => url.replace(/\/$/, ""))
+    .describe("Authorization server from JIRA_OAUTH_AUTH_URL env var"),
+  apiGatewayUrl: SecureOrLoopbackUrlSchema.default("https://api.atlassian.com")
+    .transform((url) => url.replace(/\/$/, ""))
+    .describe("API gateway from JIRA_OAUTH_API_URL env var"),
+});
+
+/**
+ * Authentication configuration schema.
+ * Supports Basic Auth (Cloud), Bearer Personal Access Tokens (Data Center)
+ * and OAuth 2.0 (Cloud).
+ */
+export const AuthConfigSchema = z.discriminatedUnion("type", [
+  BasicAuthConfigSchema,
+  BearerAuthConfigSchema,
+  OAuthAuthConfigSchema,
+]);
+
+export type BasicAuthConfig = z.infer<typeof BasicAuthConfigSchema>;
+export type BearerAuthConfig = z.infer<typeof BearerAuthConfigSchema>;
+export type OAuthAuthConfig = z.infer<typeof OAuthAuthConfigSchema>;
 export type AuthConfig = z.infer<typeof AuthConfigSchema>;
 
+/**
+ * Jira deployment flavor.
+ * - cloud: Jira Cloud, REST API v3 with token-based search pagination
+ * - datacenter: Jira Server / Data Center, REST API v2 with startAt pagination
+ */
+export const JiraDeploymentSchema = z.enum(["cloud", "datacenter"]);
+
+export type JiraDeployment = z.infer<typeof JiraDeploymentSchema>;
+
 /**
  * Main Jira configuration schema.
  */
@@ -64,6 +199,9 @@ export const JiraConfigSchema = z.object({
     .transform((url) => url.replace(/\/$/, "")) // Remove trailing slash
     .describe("Jira instance base URL from JIRA_BASE_URL env var"),
   auth: AuthConfigSchema,
+  deployment: JiraDeploymentSchema.default("cloud").describe(
+    "Jira deployment flavor from JIRA_DEPLOYMENT env var (cloud or datacenter)"
+  ),
   timeout: z
     .number()
     .int()
@@ -80,56 +218,163 @@ export const JiraConfigSchema = z.object({
   fieldMappings: FieldMappingsSchema.optional().describe(
     "Custom field ID mappings for Story Points and Sprint fields"
   ),
+}).refine((config) => config.auth.type !== "oauth" || config.deployment === "cloud", {
+  message: "OAuth 2.0 authentication is only available for Jira Cloud",
+  path: ["deployment"],
 });
 
 export type JiraConfig = z.infer<typeof JiraConfigSchema>;
 
 /**
- * Loads configuration from environment variables.
- * Throws if required variables are missing or invalid.
+ * Connection profile name schema.
+ * Names are case-insensitive in environment variables (JIRA_PROFILE_<NAME>_*).
  */
+export const ProfileNameSchema = z
+  .string()
+  .regex(
+    /^[a-z][a-z0-9_-]{0,31}$/i,
+    "Profile name must start with a letter and contain only letters, digits, '-' or '_' (max 32)"
+  );
+
+/**
+ * Reads a configuration variable by its unprefixed name (e.g. "BASE_URL").
+ */
+type EnvReader = (name: string) => string | undefined;
+
+/**
+ * Gets the environment variable prefix for a profile.
+ * The default profile uses JIRA_*; named profiles use JIRA_PROFILE_<NAME>_*.
+ */
+export function getProfileEnvPrefix(profile?: string): string {
+  return profile ? `JIRA_PROFILE_${profile.toUpperCase().replace(/-/g, "_")}_` : "JIRA_";
+}
+
+/**
+ * Creates a reader for a profile's environment variables.
+ * Empty values are treated as unset.
+ */
+function createEnvReader(profile?: string): EnvReader {
+  const prefix = getProfileEnvPrefix(profile);
+  return (name) => process.env[`${prefix}${name}`] || undefined;
+}
+
 /**
  * Builds field mappings from environment variables.
  * Returns undefined if no field mappings are configured.
  */
-function loadFieldMappingsFromEnv(): FieldMappings | undefined {
-  const storyPoints = process.env["JIRA_FIELD_STORY_POINTS"];
-  const sprint = process.env["JIRA_FIELD_SPRINT"];
+function loadFieldMappingsFromEnv(env: EnvReader): Record<string, unknown> | undefined {
+  const storyPoints = env("FIELD_STORY_POINTS");
+  const sprint = env("FIELD_SPRINT");
+  const aliases = env("FIELD_ALIASES");
 
-  if (!storyPoints && !sprint) {
+  if (!storyPoints && !sprint && !aliases) {
     return undefined;
   }
 
   return {
-    storyPoints: storyPoints || undefined,
-    sprint: sprint || undefined,
+    storyPoints,
+    sprint,
+    customFields: aliases ? parseFieldAliases(aliases) : undefined,
   };
 }
 
-export function loadConfigFromEnv(): JiraConfig {
-  const rawConfig = {
-    baseUrl: process.env["JIRA_BASE_URL"],
-    auth: {
-      type: "basic" as const,
-      email: process.env["JIRA_USER_EMAIL"],
-      apiToken: process.env["JIRA_API_TOKEN"],
-    },
-    timeout: process.env["JIRA_TIMEOUT"]
-      ? parseInt(process.env["JIRA_TIMEOUT"], 10)
-      : undefined,
-    maxRetries: process.env["JIRA_MAX_RETRIES"]
-      ? parseInt(process.env["JIRA_MAX_RETRIES"], 10)
-      : undefined,
-    fieldMappings: loadFieldMappingsFromEnv(),
+/**
+ * Parses custom field aliases from a comma-separated list of
+ * "Name=customfield_NNNNN:type" entries. Entries are validated by the schema.
+ */
+function parseFieldAliases(value: string): Record<string, unknown> {
+  const aliases: Record<string, unknown> = {};
+
+  for (const entry of value.split(",")) {
+    const separator = entry.lastIndexOf("=");
+    const name = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+    const [id, type] = (separator === -1 ? "" : entry.slice(separator + 1)).split(":");
+
+    if (name) {
+      aliases[name] = { id: id?.trim(), type: type?.trim() };
+    }
+  }
+
+  return aliases;
+}
+
+/**
+ * Builds authentication settings from environment variables.
+ * Precedence: Personal Access Token, OAuth client, email + API token.
+ */
+function loadAuthFromEnv(env: EnvReader): Record<string, unknown> {
+  const personalAccessToken = env("PERSONAL_ACCESS_TOKEN");
+
+  if (personalAccessToken) {
+    return { type: "bearer", token: personalAccessToken };
+  }
+
+  const oauthClientId = env("OAUTH_CLIENT_ID");
+
+  if (oauthClientId) {
+    const scopes = env("OAUTH_SCOPES");
+    return {
+      type: "oauth",
+      clientId: oauthClientId,
+      clientSecret: env("OAUTH_CLIENT_SECRET"),
+      redirectUri: env("OAUTH_REDIRECT_URI"),
+      scopes: scopes ? scopes.split(/[\s,]+/).filter(Boolean) : undefined,
+      cloudId: env("OAUTH_CLOUD_ID"),
+      authorizationServerUrl: env("OAUTH_AUTH_URL"),
+      apiGatewayUrl: env("OAUTH_API_URL"),
+    };
+  }
+
+  return {
+    type: "basic",
+    email: env("USER_EMAIL"),
+    apiToken: env("API_TOKEN"),
   };
+}
 
-  const result = JiraConfigSchema.safeParse(rawConfig);
+/**
+ * Gets the deployment flavor from environment variables.
+ * Defaults to datacenter when a Personal Access Token is used, cloud otherwise.
+ */
+function loadDeploymentFromEnv(env: EnvReader): string {
+  return env("DEPLOYMENT") ?? (env("PERSONAL_ACCESS_TOKEN") ? "datacenter" : "cloud");
+}
+
+/**
+ * Builds the raw (unvalidated) configuration for a profile.
+ * Timeout and retry settings fall back to the shared JIRA_* values.
+ */
+function buildRawConfigFromEnv(profile?: string): Record<string, unknown> {
+  const env = createEnvReader(profile);
+  const timeout = env("TIMEOUT") ?? process.env["JIRA_TIMEOUT"];
+  const maxRetries = env("MAX_RETRIES") ?? process.env["JIRA_MAX_RETRIES"];
+
+  return {
+    baseUrl: env("BASE_URL"),
+    auth: loadAuthFromEnv(env),
+    deployment: loadDeploymentFromEnv(env),
+    timeout: timeout ? parseInt(timeout, 10) : undefined,
+    maxRetries: maxRetries ? parseInt(maxRetries, 10) : undefined,
+    fieldMappings: loadFieldMappingsFromEnv(env),
+  };
+}
+
+/**
+ * Loads configuration from environment variables.
+ * Throws if required variables are missing or invalid.
+ *
+ * @param profile - Named profile to load (default: the JIRA_* variables)
+ */
+export function loadConfigFromEnv(profile?: string): JiraConfig {
+  const result = JiraConfigSchema.safeParse(buildRawConfigFromEnv(profile));
 
   if (!result.success) {
     const errors = result.error.errors
       .map((e) => `${e.path.join(".")}: ${e.message}`)
       .join("\n");
-    throw new Error(`Invalid Jira configuration:\n${errors}`);
+    throw new Error(
+      `Invalid Jira configuration${profile ? ` for profile '${profile}'` : ""}:\n${errors}`
+    );
   }
 
   return result.data;
@@ -154,31 +399,40 @@ export interface MissingConfigField {
 
 /**
  * Gets list of missing required configuration fields.
+ *
+ * @param profile - Named profile to check (default: the JIRA_* variables)
  */
-export function getMissingConfigFields(): MissingConfigField[] {
+export function getMissingConfigFields(profile?: string): MissingConfigField[] {
+  const env = createEnvReader(profile);
+  const prefix = getProfileEnvPrefix(profile);
   const missing: MissingConfigField[] = [];
 
-  if (!process.env["JIRA_BASE_URL"]) {
+  if (!env("BASE_URL")) {
     missing.push({
       name: "baseUrl",
-      envVar: "JIRA_BASE_URL",
+      envVar: `${prefix}BASE_URL`,
       description: "Jira instance URL (e.g., https://company.atlassian.net)",
     });
   }
 
-  if (!process.env["JIRA_USER_EMAIL"]) {
+  // Email and API token are not needed with a Personal Access Token or OAuth
+  if (env("PERSONAL_ACCESS_TOKEN") || env("OAUTH_CLIENT_ID")) {
+    return missing;
+  }
+
+  if (!env("USER_EMAIL")) {
     missing.push({
       name: "email",
-      envVar: "JIRA_USER_EMAIL",
+      envVar: `${prefix}USER_EMAIL`,
       description: "Your Jira account email address",
     });
   }
 
-  if (!process.env["JIRA_API_TOKEN"]) {
+  if (!env("API_TOKEN")) {
     missing.push({
       name: "apiToken",
-      envVar: "JIRA_API_TOKEN",
-      description: "Your Jira API token",
+      envVar: `${prefix}API_TOKEN`,
+      description: `Your Jira API token (or ${prefix}OAUTH_CLIENT_ID for OAuth; Jira Data Center: ${prefix}PERSONAL_ACCESS_TOKEN)`,
     });
   }
 
@@ -189,50 +443,60 @@ export function getMissingConfigFields(): MissingConfigField[] {
  * Attempts to load configuration from environment variables.
  * Returns the config if successful, or undefined if required variables are missing.
  * Does NOT throw - use this for graceful startup.
+ *
+ * @param profile - Named profile to load (default: the JIRA_* variables)
  */
-export function tryLoadConfigFromEnv(): JiraConfig | undefined {
-  const missing = getMissingConfigFields();
+export function tryLoadConfigFromEnv(profile?: string): JiraConfig | undefined {
+  const missing = getMissingConfigFields(profile);
   if (missing.length > 0) {
     return undefined;
   }
 
-  const rawConfig = {
-    baseUrl: process.env["JIRA_BASE_URL"],
-    auth: {
-      type: "basic" as const,
-      email: process.env["JIRA_USER_EMAIL"],
-      apiToken: process.env["JIRA_API_TOKEN"],
-    },
-    timeout: process.env["JIRA_TIMEOUT"]
-      ? parseInt(process.env["JIRA_TIMEOUT"], 10)
-      : undefined,
-    maxRetries: process.env["JIRA_MAX_RETRIES"]
-      ? parseInt(process.env["JIRA_MAX_RETRIES"], 10)
-      : undefined,
-    fieldMappings: loadFieldMappingsFromEnv(),
-  };
-
-  const result = JiraConfigSchema.safeParse(rawConfig);
+  const result = JiraConfigSchema.safeParse(buildRawConfigFromEnv(profile));
   return result.success ? result.data : undefined;
 }
 
+/**
+ * Gets the named profiles declared in JIRA_PROFILES (comma separated).
+ * Invalid names are skipped with a warning.
+ */
+export function getProfileNamesFromEnv(): string[] {
+  const raw = process.env["JIRA_PROFILES"];
+  if (!raw) {
+    return [];
+  }
+
+  const names: string[] = [];
+  for (const name of raw.split(",").map((n) => n.trim()).filter(Boolean)) {
+    if (ProfileNameSchema.safeParse(name).success) {
+      names.push(name);
+    } else {
+      console.error(`[config] Ignoring invalid profile name in JIRA_PROFILES: ${name}`);
+    }
+  }
+  return names;
+}
+
 /**
  * Creates a JiraConfig from provided values.
  * Used by the jira_configure tool for runtime configuration.
  */
 export function createConfig(params: {
   baseUrl: string;
-  email: string;
-  apiToken: string;
+  email?: string | undefined;
+  apiToken?: string | undefined;
+  personalAccessToken?: string | undefined;
+  deployment?: JiraDeployment | undefined;
   fieldMappings?: FieldMappings;
 }): JiraConfig {
+  const auth = params.personalAccessToken
+    ? { type: "bearer" as const, token: params.personalAccessToken }
+    : { type: "basic" as const, email: params.email, apiToken: params.apiToken };
+
   const rawConfig = {
     baseUrl: params.baseUrl,
-    auth: {
-      type: "basic" as const,
-      email: params.email,
-      apiToken: params.apiToken,
-    },
+    auth,
+    deployment: params.deployment ?? (params.personalAccessToken ? "datacenter" : "cloud"),
     fieldMappings: params.fieldMappings,
   };
 
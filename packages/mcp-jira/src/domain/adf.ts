@@ -0,0 +1,908 @@
+/**
+ * Atlassian Document Format (ADF) <-> Markdown
+ *
+ * Jira Cloud (REST API v3) stores rich text as ADF. Issue descriptions and
+ * comments are handed to tools as Markdown, and Markdown written by tools
+ * is converted back to ADF, so lists, task lists, tables, code blocks,
+ * headings, links and panels survive in both directions.
+ *
+ * Nodes without a Markdown equivalent are rendered as readable text that
+ * converts back to itself: mentions as @name, status lozenges as [STATUS],
+ * dates as YYYY-MM-DD and smart links as <url>.
+ * Markdown characters in plain text are backslash-escaped, so text like
+ * `2*3*4` reads back literally.
+ *
+ * Mentions are written as `@[Display Name]`; callers resolve the names to
+ * account IDs and pass them to markdownToAdf.
+ */
+
+/**
+ * ADF mark (inline formatting).
+ */
+export interface AdfMark {
+  type: string;
+  attrs?: Record<string, unknown>;
+}
+
+/**
+ * ADF node.
+ */
+export interface AdfNode {
+  type: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  marks?: AdfMark[];
+  content?: AdfNode[];
+}
+
+/**
+ * ADF document root.
+ */
+export interface AdfDocument extends AdfNode {
+  type: "doc";
+  version: 1;
+  content: AdfNode[];
+}
+
+/**
+ * Inline node types (everything else is rendered as a block).
+ */
+const INLINE_TYPES = new Set([
+  "text",
+  "hardBreak",
+  "mention",
+  "emoji",
+  "date",
+  "status",
+  "inlineCard",
+  "mediaInline",
+  "placeholder",
+]);
+
+/**
+ * Panel types, written as `> [!TYPE]` alerts in Markdown.
+ */
+const PANEL_TYPES = ["info", "note", "success", "warning", "error"];
+
+/**
+ * Marks in the order they are applied, innermost first.
+ */
+const MARK_SYNTAX: ReadonlyArray<[string, string]> = [
+  ["em", "_"],
+  ["strong", "**"],
+  ["strike", "~~"],
+];
+
+/**
+ * Characters in text that Markdown would read as syntax: backslashes,
+ * code, emphasis and strikethrough markers, `[` opening a link, `<`
+ * opening an autolink and `_` at a word boundary.
+ */
+const MARKDOWN_SPECIAL = /[\\`*~]|\[(?=[^\]]*\]\()|<(?=https?:\/\/)|(?<![\p{L}\p{N}_])_|_(?![\p{L}\p{N}_])/gu;
+
+/**
+ * Text at the start of a line that Markdown would read as a heading,
+ * blockquote, bullet, rule or numbered list.
+ */
+const LINE_START_MARKER = /^(\s*)(#{1,6}(?=\s|$)|>|[-+](?=\s|$|-{2,}\s*$)|(\d{1,9})([.)])(?=\s|$))/;
+
+function isAdfNode(value: unknown): value is AdfNode {
+  return typeof value === "object" && value !== null && typeof (value as AdfNode).type === "string";
+}
+
+function attr(node: AdfNode, name: string): string | undefined {
+  const value = node.attrs?.[name];
+  return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
+
+// ============================================================================
+// ADF -> Markdown
+// ============================================================================
+
+/**
+ * Converts an ADF document (or node) to Markdown.
+ *
+ * @param document - ADF document as returned by the Jira API
+ * @returns Markdown text (empty for empty or invalid documents)
+ */
+export function adfToMarkdown(document: unknown): string {
+  if (!isAdfNode(document)) {
+    return "";
+  }
+  const nodes = document.type === "doc" ? (document.content ?? []) : [document];
+  return renderBlocks(nodes).trim();
+}
+
+function renderBlocks(nodes: readonly AdfNode[], separator = "\n\n"): string {
+  return nodes
+    .filter(isAdfNode)
+    .map((node) => (INLINE_TYPES.has(node.type) ? renderInline([node]) : renderBlock(node)))
+    .filter((text) => text.trim() !== "")
+    .join(separator);
+}
+
+function renderBlock(node: AdfNode): string {
+  const content = node.content ?? [];
+
+  switch (node.type) {
+    case "paragraph":
+      return renderInline(content);
+
+    case "heading": {
+      const level = Math.min(Math.max(Number(attr(node, "level") ?? 1), 1), 6);
+      return `${"#".repeat(level)} ${renderInline(content)}`;
+    }
+
+    case "bulletList":
+    case "decisionList":
+      return renderList(content, () => "- ");
+
+    case "orderedList": {
+      const start = Number(attr(node, "order") ?? 1);
+      return renderList(content, (index) => `${start + index}. `);
+    }
+
+    case "taskList":
+      return renderTaskList(content);
+
+    case "codeBlock": {
+      const code = content.map((child) => child.text ?? "").join("");
+      const fence = code.includes("```") ? "````" : "```";
+      return `${fence}${attr(node, "language") ?? ""}\n${code}\n${fence}`;
+    }
+
+    case "blockquote":
+      return prefixLines(renderBlocks(content), "> ");
+
+    case "panel": {
+      const panelType = (attr(node, "panelType") ?? "info").toUpperCase();
+      return prefixLines(`[!${panelType}]\n${renderBlocks(content)}`, "> ");
+    }
+
+    case "rule":
+      return "---";
+
+    case "table":
+      return renderTable(content);
+
+    case "expand":
+    case "nestedExpand": {
+      const title = attr(node, "title");
+      const body = renderBlocks(content);
+      return title ? `**${title}**\n\n${body}` : body;
+    }
+
+    case "mediaSingle":
+    case "mediaGroup":
+      return renderBlocks(content, "\n");
+
+    case "media":
+      return `[media: ${attr(node, "alt") ?? attr(node, "id") ?? "attachment"}]`;
+
+    case "blockCard":
+    case "embedCard":
+      return attr(node, "url") ? `<${attr(node, "url")}>` : "";
+
+    default:
+      if (node.text !== undefined) {
+        return node.text;
+      }
+      return content.every((child) => INLINE_TYPES.has(child.type))
+        ? renderInline(content)
+        : renderBlocks(content);
+  }
+}
+
+/**
+ * Renders list items; continuation lines are indented under the marker.
+ */
+function renderList(items: readonly AdfNode[], marker: (index: number) => string): string {
+  return items
+    .map((item, index) => {
+      const prefix = marker(index);
+      const body = item.type === "listItem" || item.type === "decisionItem"
+        ? renderListItemBody(item)
+        : renderBlock(item);
+      return indentContinuation(`${prefix}${body}`, " ".repeat(prefix.length));
+    })
+    .join("\n");
+}
+
+function renderListItemBody(item: AdfNode): string {
+  const content = item.content ?? [];
+  // Decision items hold inline content directly
+  return content.every((child) => INLINE_TYPES.has(child.type))
+    ? renderInline(content)
+    : renderBlocks(content, "\n");
+}
+
+/**
+ * Renders a task list as a Markdown checklist. Nested task lists follow
+ * the item they belong to.
+ */
+function renderTaskList(items: readonly AdfNode[]): string {
+  return items
+    .map((item) => {
+      if (item.type === "taskList") {
+        return prefixLines(renderTaskList(item.content ?? []), "  ");
+      }
+      const checked = attr(item, "state") === "DONE" ? "x" : " ";
+      return indentContinuation(`- [${checked}] ${renderInline(item.content ?? [])}`, "      ");
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a table as a GitHub-flavored Markdown table; the first row is the header.
+ */
+function renderTable(rows: readonly AdfNode[]): string {
+  const cells = rows.map((row) =>
+    (row.content ?? []).map((cell) =>
+      renderBlocks(cell.content ?? [], "<br>").replace(/\n/g, "<br>").replace(/\|/g, "\\|")
+    )
+  );
+  const columns = Math.max(1, ...cells.map((row) => row.length));
+  const line = (row: string[]): string =>
+    `| ${Array.from({ length: columns }, (_, i) => row[i] ?? "").join(" | ")} |`;
+
+  const [header = [], ...body] = cells;
+  return [line(header), line(Array.from({ length: columns }, () => "---")), ...body.map(line)].join("\n");
+}
+
+/**
+ * Renders inline nodes. Adjacent text nodes with the same marks are merged
+ * so formatting is not split into fragments like `**a****b**`.
+ */
+function renderInline(nodes: readonly AdfNode[]): string {
+  let output = "";
+  let pendingText = "";
+  let pendingMarks: AdfMark[] = [];
+
+  const flush = (): void => {
+    if (pendingText) {
+      const isCode = pendingMarks.some((mark) => mark.type === "code");
+      const text = isCode ? pendingText : escapeText(pendingText, output === "" || output.endsWith("\n"));
+      output += applyMarks(text, pendingMarks);
+    }
+    pendingText = "";
+    pendingMarks = [];
+  };
+
+  for (const node of nodes.filter(isAdfNode)) {
+    if (node.type === "text") {
+      const marks = node.marks ?? [];
+      if (pendingText && JSON.stringify(marks) !== JSON.stringify(pendingMarks)) {
+        flush();
+      }
+      pendingText += node.text ?? "";
+      pendingMarks = marks;
+      continue;
+    }
+
+    flush();
+    output += renderInlineNode(node);
+  }
+
+  flush();
+  return output;
+}
+
+function renderInlineNode(node: AdfNode): string {
+  switch (node.type) {
+    case "hardBreak":
+      return "\n";
+
+    case "mention": {
+      const text = attr(node, "text") ?? attr(node, "id") ?? "";
+      return text.startsWith("@") ? text : `@${text}`;
+    }
+
+    case "emoji":
+      return attr(node, "text") ?? attr(node, "shortName") ?? "";
+
+    case "date": {
+      const timestamp = Number(attr(node, "timestamp"));
+      return Number.isFinite(timestamp)
+        ? new Date(timestamp).toISOString().slice(0, 10)
+        : (attr(node, "timestamp") ?? "");
+    }
+
+    case "status":
+      return `[${attr(node, "text") ?? ""}]`;
+
+    case "inlineCard":
+      return attr(node, "url") ? `<${attr(node, "url")}>` : "";
+
+    case "mediaInline":
+      return `[media: ${attr(node, "alt") ?? attr(node, "id") ?? "attachment"}]`;
+
+    case "placeholder":
+      return "";
+
+    default:
+      return node.text ?? renderInline(node.content ?? []);
+  }
+}
+
+/**
+ * Escapes text so Markdown reads it back literally.
+ *
+ * @param atLineStart - Whether the text starts a line, where block markers apply
+ */
+function escapeText(text: string, atLineStart: boolean): string {
+  return text
+    .replace(MARKDOWN_SPECIAL, (char) => `\\${char}`)
+    .split("\n")
+    .map((line, index) => {
+      if (index === 0 && !atLineStart) {
+        return line;
+      }
+      // Numbered items are escaped at the delimiter (`1\\. `), other markers before them
+      return line.replace(
+        LINE_START_MARKER,
+        (_match, indent: string, marker: string, digits?: string, delimiter?: string) =>
+          digits !== undefined ? `${indent}${digits}\\${delimiter}` : `${indent}\\${marker}`
+      );
+    })
+    .join("\n");
+}
+
+function applyMarks(text: string, marks: readonly AdfMark[]): string {
+  const types = new Set(marks.map((mark) => mark.type));
+  let result = text;
+
+  if (types.has("code")) {
+    const fence = text.includes("`") ? "``" : "`";
+    const pad = fence.length > 1 ? " " : "";
+    result = `${fence}${pad}${text}${pad}${fence}`;
+  } else {
+    for (const [type, syntax] of MARK_SYNTAX) {
+      if (types.has(type)) {
+        result = wrapPreservingWhitespace(result, syntax);
+      }
+    }
+  }
+
+  const link = marks.find((mark) => mark.type === "link");
+  const href = link?.attrs?.["href"];
+  if (typeof href === "string") {
+    result = `[${result}](${href})`;
+  }
+
+  return result;
+}
+
+/**
+ * Wraps text in a Markdown marker, keeping surrounding whitespace outside
+ * (`** bold**` is not valid emphasis).
+ */
+function wrapPreservingWhitespace(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  const [, leading = "", core = "", trailing = ""] = match ?? [];
+  return core ? `${leading}${marker}${core}${marker}${trailing}` : text;
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join("\n");
+}
+
+function indentContinuation(text: string, indent: string): string {
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 || !line ? line : `${indent}${line}`))
+    .join("\n");
+}
+
+// ============================================================================
+// Markdown -> ADF
+// ============================================================================
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([^\s`]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s*>/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+)(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK_MARKER = /^\[([ xX])\]\s+(.*)$/;
+
+const MENTION = /@\[([^\]\n]+)\]/g;
+
+/**
+ * Parser state shared while converting one document.
+ */
+interface ParseContext {
+  nextLocalId: number;
+}
+
+/**
+ * Options for converting Markdown to ADF.
+ */
+export interface MarkdownToAdfOptions {
+  /** Account IDs keyed by lower-cased display name, for `@[Display Name]` mentions */
+  mentions?: ReadonlyMap<string, string>;
+}
+
+/**
+ * Converts Markdown to an ADF document.
+ * Plain text without Markdown syntax becomes paragraphs, with single
+ * newlines kept as hard breaks.
+ *
+ * @param markdown - Markdown text
+ * @param options - Resolved mentions
+ * @returns ADF document for the Jira REST API v3
+ */
+export function markdownToAdf(markdown: string, options: MarkdownToAdfOptions = {}): AdfDocument {
+  const context: ParseContext = { nextLocalId: 1 };
+  let content = parseBlocks(markdown.replace(/\r\n?/g, "\n").split("\n"), context);
+
+  if (options.mentions && options.mentions.size > 0) {
+    content = applyMentions(content, options.mentions);
+  }
+
+  return {
+    type: "doc",
+    version: 1,
+    content: content.length > 0 ? content : [{ type: "paragraph", content: [] }],
+  };
+}
+
+/**
+ * Lists the display names mentioned as `@[Display Name]`, without duplicates.
+ */
+export function extractMentionNames(markdown: string): string[] {
+  const names = new Map<string, string>();
+  for (const match of markdown.matchAll(MENTION)) {
+    const name = (match[1] ?? "").trim();
+    if (name && !names.has(name.toLowerCase())) {
+      names.set(name.toLowerCase(), name);
+    }
+  }
+  return [...names.values()];
+}
+
+/**
+ * Rewrites `@[Display Name]` mentions in Markdown or plain text.
+ * Mentions for which `replace` returns undefined are left unchanged.
+ */
+export function replaceMentions(
+  text: string,
+  replace: (name: string) => string | undefined
+): string {
+  return text.replace(MENTION, (mention, name: string) => replace(name.trim()) ?? mention);
+}
+
+/**
+ * Replaces resolved `@[Display Name]` mentions in text nodes with mention
+ * nodes. Code is left alone.
+ */
+function applyMentions(nodes: AdfNode[], mentions: ReadonlyMap<string, string>): AdfNode[] {
+  return nodes.flatMap((node): AdfNode[] => {
+    if (node.type !== "text") {
+      return node.content ? [{ ...node, content: applyMentions(node.content, mentions) }] : [node];
+    }
+
+    const text = node.text ?? "";
+    if (node.marks?.some((mark) => mark.type === "code") || !text.includes("@[")) {
+      return [node];
+    }
+
+    const result: AdfNode[] = [];
+    const pushText = (value: string): void => {
+      if (value) {
+        result.push({ ...node, text: value });
+      }
+    };
+    let last = 0;
+
+    for (const match of text.matchAll(MENTION)) {
+      const name = (match[1] ?? "").trim();
+      const id = mentions.get(name.toLowerCase());
+      if (id === undefined || match.index === undefined) {
+        continue;
+      }
+      pushText(text.slice(last, match.index));
+      result.push({ type: "mention", attrs: { id, text: `@${name}` } });
+      last = match.index + match[0].length;
+    }
+
+    pushText(text.slice(last));
+    return result;
+  });
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isTableStart(lines: readonly string[], index: number): boolean {
+  const line = lines[index] ?? "";
+  const next = lines[index + 1];
+  return line.includes("|") && next !== undefined && next.includes("-") && TABLE_SEPARATOR.test(next);
+}
+
+/**
+ * Whether a line starts a block other than a paragraph.
+ */
+function startsBlock(lines: readonly string[], index: number): boolean {
+  const line = lines[index] ?? "";
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+function parseBlocks(lines: readonly string[], context: ParseContext): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i] ?? "";
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1] ?? "```";
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i] ?? "").trim().startsWith(marker)) {
+        code.push(lines[i] ?? "");
+        i++;
+      }
+      i++; // closing fence
+      const node: AdfNode = { type: "codeBlock", content: [] };
+      if (fence[2]) {
+        node.attrs = { language: fence[2] };
+      }
+      if (code.length > 0) {
+        node.content = [{ type: "text", text: code.join("\n") }];
+      }
+      blocks.push(node);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const text = (heading[2] ?? "").replace(/\s+#+\s*$/, "");
+      blocks.push({
+        type: "heading",
+        attrs: { level: heading[1]?.length ?? 1 },
+        content: parseInline(text),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i] ?? "")) {
+        quoted.push((lines[i] ?? "").replace(/^\s*> ?/, ""));
+        i++;
+      }
+      blocks.push(parseQuote(quoted, context));
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const rows: string[] = [lines[i] ?? ""];
+      i += 2; // header and separator
+      while (i < lines.length && (lines[i] ?? "").trim() && (lines[i] ?? "").includes("|")) {
+        rows.push(lines[i] ?? "");
+        i++;
+      }
+      blocks.push(parseTable(rows));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { node, next } = parseList(lines, i, context);
+      blocks.push(node);
+      i = next;
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block
+    const paragraph: string[] = [];
+    while (i < lines.length && (lines[i] ?? "").trim() && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push((lines[i] ?? "").trim());
+      i++;
+    }
+    blocks.push({ type: "paragraph", content: parseInlineLines(paragraph) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parses lines as inline content, joined by hard breaks.
+ */
+function parseInlineLines(lines: readonly string[]): AdfNode[] {
+  return lines.flatMap((line, index) =>
+    index === 0 ? parseInline(line) : [{ type: "hardBreak" }, ...parseInline(line)]
+  );
+}
+
+/**
+ * Parses a blockquote; `> [!WARNING]` alerts become panels.
+ */
+function parseQuote(lines: readonly string[], context: ParseContext): AdfNode {
+  const alert = (lines[0] ?? "").trim().match(/^\[!(\w+)\]$/);
+  const panelType = alert?.[1]?.toLowerCase();
+
+  if (panelType && PANEL_TYPES.includes(panelType)) {
+    return { type: "panel", attrs: { panelType }, content: parseBlocks(lines.slice(1), context) };
+  }
+  return { type: "blockquote", content: parseBlocks(lines, context) };
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function parseTable(rows: readonly string[]): AdfNode {
+  const [headerRow = "", ...bodyRows] = rows;
+  const header = splitTableRow(headerRow);
+
+  const toRow = (cells: string[], cellType: string): AdfNode => ({
+    type: "tableRow",
+    content: header.map((_, index) => ({
+      type: cellType,
+      attrs: {},
+      content: (cells[index] ?? "")
+        .split(/<br\s*\/?>/i)
+        .map((text) => ({ type: "paragraph", content: parseInline(text.trim()) })),
+    })),
+  });
+
+  return {
+    type: "table",
+    attrs: { isNumberColumnEnabled: false, layout: "default" },
+    content: [toRow(header, "tableHeader"), ...bodyRows.map((row) => toRow(splitTableRow(row), "tableCell"))],
+  };
+}
+
+interface ParsedListItem {
+  text: string;
+  /** Continuation lines, dedented to the item's content column */
+  lines: string[];
+}
+
+/**
+ * Parses a bullet, ordered or task list starting at the given line.
+ * Lines indented under an item (nested lists, code, continuation text)
+ * belong to that item.
+ */
+function parseList(
+  lines: readonly string[],
+  start: number,
+  context: ParseContext
+): { node: AdfNode; next: number } {
+  const first = lines[start]?.match(LIST_ITEM);
+  const baseIndent = first?.[1]?.length ?? 0;
+  const ordered = /\d/.test(first?.[2] ?? "");
+  const items: Array<ParsedListItem & { offset: number }> = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i] ?? "";
+    const match = line.match(LIST_ITEM);
+    const current = items[items.length - 1];
+
+    if (match && (match[1]?.length ?? 0) === baseIndent && /\d/.test(match[2] ?? "") === ordered) {
+      const offset = baseIndent + (match[2]?.length ?? 1) + (match[3]?.length ?? 1);
+      items.push({ text: match[4] ?? "", lines: [], offset });
+      i++;
+      continue;
+    }
+
+    if (!current) {
+      break;
+    }
+
+    if (!line.trim()) {
+      // A blank line continues the list only if indented content or a sibling follows
+      let j = i + 1;
+      while (j < lines.length && !(lines[j] ?? "").trim()) {
+        j++;
+      }
+      const following = lines[j];
+      if (following === undefined || indentOf(following) <= baseIndent) {
+        const sibling = following?.match(LIST_ITEM);
+        if (!sibling || /\d/.test(sibling[2] ?? "") !== ordered) {
+          break;
+        }
+      }
+      current.lines.push("");
+      i++;
+      continue;
+    }
+
+    if (indentOf(line) > baseIndent) {
+      current.lines.push(line.slice(Math.min(current.offset, indentOf(line))));
+      i++;
+      continue;
+    }
+
+    // Lazy continuation of the item's text
+    const previous = lines[i - 1] ?? "";
+    if (previous.trim() && !startsBlock(lines, i)) {
+      current.lines.push(line.trim());
+      i++;
+      continue;
+    }
+
+    break;
+  }
+
+  const isTaskList = !ordered && items.every((item) => TASK_MARKER.test(item.text));
+  const node = isTaskList
+    ? buildTaskList(items, context)
+    : buildList(items, ordered, first?.[2] ?? "1.", context);
+
+  return { node, next: i };
+}
+
+function buildList(
+  items: readonly ParsedListItem[],
+  ordered: boolean,
+  firstMarker: string,
+  context: ParseContext
+): AdfNode {
+  const listItems = items.map((item): AdfNode => {
+    const content = parseBlocks([item.text, ...item.lines], context);
+    // A list item must start with a paragraph
+    const firstType = content[0]?.type;
+    if (firstType !== "paragraph" && firstType !== "codeBlock") {
+      content.unshift({ type: "paragraph", content: [] });
+    }
+    return { type: "listItem", content };
+  });
+
+  if (!ordered) {
+    return { type: "bulletList", content: listItems };
+  }
+
+  const order = parseInt(firstMarker, 10);
+  const node: AdfNode = { type: "orderedList", content: listItems };
+  if (order !== 1) {
+    node.attrs = { order };
+  }
+  return node;
+}
+
+function buildTaskList(items: readonly ParsedListItem[], context: ParseContext): AdfNode {
+  const content: AdfNode[] = [];
+  const localId = (): string => String(context.nextLocalId++);
+  const list: AdfNode = { type: "taskList", attrs: { localId: localId() }, content };
+
+  for (const item of items) {
+    const [, state = " ", text = ""] = item.text.match(TASK_MARKER) ?? [];
+    const inline = parseInline(text);
+    const nested: AdfNode[] = [];
+
+    for (const child of parseBlocks(item.lines, context)) {
+      if (child.type === "taskList") {
+        nested.push(child);
+      } else if (child.type === "paragraph") {
+        inline.push({ type: "hardBreak" }, ...(child.content ?? []));
+      } else {
+        // Task items hold inline content only: keep other blocks as text
+        inline.push({ type: "hardBreak" }, { type: "text", text: adfToMarkdown(child) });
+      }
+    }
+
+    content.push({
+      type: "taskItem",
+      attrs: { localId: localId(), state: state.trim() ? "DONE" : "TODO" },
+      content: inline,
+    });
+    content.push(...nested);
+  }
+
+  return list;
+}
+
+/**
+ * Inline Markdown tokens: escapes, code spans, links, autolinks, strong
+ * emphasis (`***`), strong, strikethrough and emphasis.
+ */
+const INLINE_TOKEN =
+  /\\([!-/:-@[-`{-~])|(`+)(.+?)\2(?!`)|\[([^\]]+)\]\(([^)\s]+)\)|<(https?:\/\/[^>\s]+)>|\*\*\*(.+?)\*\*\*|___(.+?)___|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^\s*](?:.*?[^\s*])?)\*|(?<![\p{L}\p{N}_])_([^\s_](?:.*?[^\s_])?)_(?![\p{L}\p{N}_])/u;
+
+/**
+ * Parses inline Markdown into ADF text nodes with marks.
+ */
+function parseInline(text: string, marks: readonly AdfMark[] = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+
+  const pushText = (value: string, textMarks: readonly AdfMark[]): void => {
+    if (!value) {
+      return;
+    }
+    const previous = nodes[nodes.length - 1];
+    if (
+      previous?.type === "text" &&
+      JSON.stringify(previous.marks ?? []) === JSON.stringify(textMarks)
+    ) {
+      previous.text = `${previous.text ?? ""}${value}`;
+      return;
+    }
+    nodes.push(textMarks.length > 0 ? { type: "text", text: value, marks: [...textMarks] } : { type: "text", text: value });
+  };
+
+  let rest = text;
+
+  while (rest) {
+    const match = rest.match(INLINE_TOKEN);
+
+    if (!match || match.index === undefined) {
+      pushText(rest, marks);
+      break;
+    }
+
+    pushText(rest.slice(0, match.index), marks);
+    rest = rest.slice(match.index + match[0].length);
+
+    const [
+      ,
+      escaped,
+      ,
+      code,
+      linkText,
+      href,
+      autolink,
+      strongEm,
+      strongEmAlt,
+      strong,
+      strongAlt,
+      strike,
+      em,
+      emAlt,
+    ] = match;
+
+    if (escaped !== undefined) {
+      pushText(escaped, marks);
+    } else if (code !== undefined) {
+      // Code only combines with links in ADF
+      const codeText = /^ .* $/.test(code) ? code.slice(1, -1) : code;
+      pushText(codeText, [...marks.filter((mark) => mark.type === "link"), { type: "code" }]);
+    } else if (linkText !== undefined && href !== undefined) {
+      nodes.push(...parseInline(linkText, [...marks, { type: "link", attrs: { href } }]));
+    } else if (autolink !== undefined) {
+      if (marks.length === 0) {
+        nodes.push({ type: "inlineCard", attrs: { url: autolink } });
+      } else {
+        pushText(autolink, [...marks, { type: "link", attrs: { href: autolink } }]);
+      }
+    } else if (strongEm !== undefined || strongEmAlt !== undefined) {
+      nodes.push(
+        ...parseInline(strongEm ?? strongEmAlt ?? "", [...marks, { type: "strong" }, { type: "em" }])
+      );
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push(...parseInline(strong ?? strongAlt ?? "", [...marks, { type: "strong" }]));
+    } else if (strike !== undefined) {
+      nodes.push(...parseInline(strike, [...marks, { type: "strike" }]));
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push(...parseInline(em ?? emAlt ?? "", [...marks, { type: "em" }]));
+    }
+  }
+
+  return nodes;
+}
@@ -0,0 +1,68 @@
+/**
+ * Component Ownership
+ *
+ * Helpers for routing work by component: who new issues with a component
+ * go to, and who leads the components an issue touches.
+ */
+
+import type { JiraComponent, JiraUser } from "./types.js";
+
+/**
+ * The user responsible for new issues with a component.
+ */
+export interface ComponentOwner {
+  readonly user: JiraUser;
+  readonly component: string;
+  /** Whether the user is the component's default assignee or only its lead */
+  readonly role: "default assignee" | "lead";
+}
+
+/**
+ * Finds the owner of the first named component that has one: its default
+ * assignee, or its lead when the component leaves issues unassigned.
+ *
+ * @param components - The project's components (see JiraClient.getComponents)
+ * @param names - Component names, in order of preference (case-insensitive)
+ */
+export function findComponentOwner(
+  components: readonly JiraComponent[],
+  names: readonly string[]
+): ComponentOwner | undefined {
+  for (const component of findComponents(components, names)) {
+    if (component.defaultAssignee?.active) {
+      return { user: component.defaultAssignee, component: component.name, role: "default assignee" };
+    }
+    if (component.lead?.active) {
+      return { user: component.lead, component: component.name, role: "lead" };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the distinct active leads of the named components.
+ */
+export function getComponentLeads(
+  components: readonly JiraComponent[],
+  names: readonly string[]
+): JiraUser[] {
+  const leads = new Map<string, JiraUser>();
+  for (const component of findComponents(components, names)) {
+    if (component.lead?.active && !leads.has(component.lead.accountId)) {
+      leads.set(component.lead.accountId, component.lead);
+    }
+  }
+  return [...leads.values()];
+}
+
+/**
+ * Finds the named components, in the order of the names.
+ */
+function findComponents(
+  components: readonly JiraComponent[],
+  names: readonly string[]
+): JiraComponent[] {
+  return names
+    .map((name) => components.find((c) => c.name.toLowerCase() === name.trim().toLowerCase()))
+    .filter((component): component is JiraComponent => component !== undefined);
+}
@@ -0,0 +1,118 @@
+/**
+ * Custom Field Aliases
+ *
+ * Helpers for custom fields that users address by a name of their own
+ * (e.g., "Team" for customfield_10050) instead of the field ID.
+ */
+
+import type { CustomFieldAlias, CustomFieldType, JiraField } from "./types.js";
+
+/**
+ * Finds an alias by name (case-insensitive).
+ */
+export function findCustomFieldAlias(
+  aliases: readonly CustomFieldAlias[],
+  name: string
+): CustomFieldAlias | undefined {
+  const wanted = name.trim().toLowerCase();
+  return aliases.find((alias) => alias.name.toLowerCase() === wanted);
+}
+
+/**
+ * Checks that a value can be written to a custom field of the given type.
+ * null is always accepted and clears the field.
+ *
+ * @returns A description of the problem, or undefined if the value is valid
+ */
+export function checkCustomFieldValue(type: CustomFieldType, value: unknown): string | undefined {
+  if (value === null) {
+    return undefined;
+  }
+
+  switch (type) {
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? undefined : "Expected a number";
+    case "multi-select":
+      return typeof value === "string" ||
+        (Array.isArray(value) && value.every((item) => typeof item === "string"))
+        ? undefined
+        : "Expected an option value or an array of option values";
+    case "date":
+      return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? undefined
+        : "Expected a date in YYYY-MM-DD format";
+    case "user":
+      return typeof value === "string" && value.length > 0
+        ? undefined
+        : "Expected an account ID (Cloud) or username (Data Center)";
+    case "text":
+    case "select":
+      return typeof value === "string" ? undefined : "Expected a string";
+  }
+}
+
+/**
+ * Suggests the alias type for a field from its schema.
+ *
+ * @returns The alias type, or undefined if the field cannot be aliased
+ */
+export function suggestCustomFieldType(field: JiraField): CustomFieldType | undefined {
+  switch (field.schemaType) {
+    case "string":
+      return "text";
+    case "number":
+      return "number";
+    case "option":
+      return "select";
+    case "user":
+      return "user";
+    case "date":
+      return "date";
+    case "array":
+      if (field.itemsType === "option") return "multi-select";
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Derives an alias name from a field name, keeping letters, digits,
+ * spaces, '-' and '_'.
+ */
+export function suggestCustomFieldAliasName(fieldName: string): string | undefined {
+  const name = fieldName
+    .replace(/[^A-Za-z0-9 _-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^[^A-Za-z]+/, "")
+    .slice(0, 50)
+    .trim();
+
+  return name.length > 0 ? name : undefined;
+}
+
+/**
+ * Checks custom field values keyed by alias against the configured aliases.
+ *
+ * @returns One "alias: problem" message per invalid value
+ */
+export function checkCustomFieldValues(
+  aliases: readonly CustomFieldAlias[],
+  values: Readonly<Record<string, unknown>>
+): string[] {
+  const problems: string[] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    const alias = findCustomFieldAlias(aliases, name);
+    const problem = alias
+      ? checkCustomFieldValue(alias.type, value)
+      : `Unknown alias (configured: ${aliases.map((a) => a.name).join(", ") || "none"}). Add it with jira_configure_fields`;
+
+    if (problem) {
+      problems.push(`${name}: ${problem}`);
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,71 @@
+/**
+ * Jira Durations
+ *
+ * Parses and formats durations in Jira's notation ("1w 2d 3h 30m"), as used
+ * for estimates and logged work. Like Jira's default time tracking settings,
+ * a day has 8 hours and a week 5 days.
+ */
+
+/**
+ * Working hours per day.
+ */
+export const HOURS_PER_DAY = 8;
+
+/**
+ * Working days per week.
+ */
+export const DAYS_PER_WEEK = 5;
+
+const UNIT_SECONDS: Record<string, number> = {
+  w: DAYS_PER_WEEK * HOURS_PER_DAY * 3600,
+  d: HOURS_PER_DAY * 3600,
+  h: 3600,
+  m: 60,
+};
+
+const DURATION = /^(?:\s*\d+(?:\.\d+)?\s*[wdhm])+\s*$/i;
+const DURATION_PART = /(\d+(?:\.\d+)?)\s*([wdhm])/gi;
+
+/**
+ * Parses a Jira duration. A bare number is read as minutes, like in Jira.
+ *
+ * @param text - Duration such as "1d 4h", "90m" or "1.5h"
+ * @returns Duration in seconds, or undefined if the text is not a duration
+ */
+export function parseDuration(text: string): number | undefined {
+  const trimmed = text.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 60;
+  }
+
+  if (!DURATION.test(trimmed)) {
+    return undefined;
+  }
+
+  let seconds = 0;
+  for (const [, amount, unit] of trimmed.matchAll(DURATION_PART)) {
+    seconds += Number(amount) * (UNIT_SECONDS[unit!.toLowerCase()] ?? 0);
+  }
+
+  return Math.round(seconds);
+}
+
+/**
+ * Formats seconds as a Jira duration, rounded to minutes (e.g. "1d 2h 30m").
+ */
+export function formatDuration(seconds: number): string {
+  let minutes = Math.round(Math.max(0, seconds) / 60);
+  const parts: string[] = [];
+
+  for (const unit of ["w", "d", "h", "m"]) {
+    const unitMinutes = (UNIT_SECONDS[unit] ?? 60) / 60;
+    const amount = Math.floor(minutes / unitMinutes);
+    if (amount > 0) {
+      parts.push(`${amount}${unit}`);
+      minutes -= amount * unitMinutes;
+    }
+  }
+
+  return parts.length > 0 ? parts.join(" ") : "0m";
+}
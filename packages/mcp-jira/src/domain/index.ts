@@ -5,3 +5,9 @@
 export * from "./types.js";
 export * from "./jira-client.js";
 export * from "./mappers.js";
+export * from "./adf.js";
+export * from "./duration.js";
+export * from "./custom-fields.js";
+export * from "./user-resolution.js";
+export * from "./project-metadata.js";
+export * from "./components.js";
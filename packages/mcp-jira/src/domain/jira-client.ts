@@ -2,14 +2,33 @@
  * Jira API Client
  *
  * Centralized client for all Jira REST API interactions.
- * Handles authentication, retries, and error handling.
+ * Handles authentication, rate limiting, retries, response caching, and error handling.
  *
- * Compatible with: Jira Cloud REST API v3 (2024+)
- * Note: Uses the new /search/jql endpoint which requires bounded JQL queries.
+ * Compatible with:
+ * - Jira Cloud REST API v3 (2024+). Uses the new /search/jql endpoint which
+ *   requires bounded JQL queries and token-based pagination.
+ * - Jira Server / Data Center REST API v2, with startAt pagination exposed
+ *   through the same nextPageToken interface.
+ *
+ * With OAuth 2.0 (3LO), requests go through the Atlassian API gateway
+ * (/ex/jira/{cloudId}) and the access token is refreshed transparently.
  */
 
-import type { JiraConfig } from "../config/index.js";
+import type { JiraConfig, JiraDeployment } from "../config/index.js";
 import type { ResolvedFieldMappings } from "../server-state.js";
+import { OAuthSession, OAuthError } from "../auth/index.js";
+import {
+  createDefaultResponseCache,
+  type ResponseCache,
+  type ResponseCacheStats,
+  type CacheRequest,
+} from "./response-cache.js";
+import {
+  createDefaultRateLimiter,
+  parseRetryDelay,
+  type RateLimiter,
+  type ReleaseSlot,
+} from "./rate-limiter.js";
 import type {
   JiraIssue,
   JiraIssueExtended,
@@ -17,10 +36,23 @@ import type {
   JiraSearchResult,
   JiraPaginationOptions,
   JiraCommentsResult,
+  JiraComment,
+  JiraCommentVisibility,
+  JiraUser,
+  AddCommentInput,
+  UpdateCommentInput,
+  CommentWriteResult,
+  CreateIssueLinkInput,
+  JiraWorklog,
+  JiraWorklogsResult,
+  JiraWorklogOptions,
+  AddWorklogInput,
+  JiraIssueLinkType,
   CreateIssueInput,
   UpdateIssueInput,
   TransitionIssueInput,
   CreateIssueResult,
+  BulkCreateIssueResult,
   UpdateIssueResult,
   TransitionIssueResult,
   JiraTransitionsResult,
@@ -35,42 +67,123 @@ import type {
   JiraField,
   JiraChangelogResult,
   JiraChangelogOptions,
+  JiraAttachment,
+  JiraAttachmentContent,
+  AddAttachmentInput,
+  JiraWatchers,
+  JiraVotes,
+  AssignableScope,
+  UserResolution,
+  JiraProjectDetails,
+  JiraIssueType,
+  JiraFieldMeta,
+  JiraPriority,
+  JiraIssueTypeStatuses,
+  JiraWorkflow,
+  JiraVersion,
+  JiraComponent,
+  CreateVersionInput,
+  ReleaseVersionInput,
 } from "./types.js";
 import {
   mapIssue,
   mapIssueExtended,
   mapSearchResult,
   mapCommentsResult,
+  mapComment,
+  mapUser,
   mapTransitionsResult,
+  mapIssueLinkType,
+  mapWorklog,
+  mapWorklogsResult,
+  mapAttachment,
   mapBoardsResult,
   mapBoard,
   mapSprintsResult,
   mapSprintExtended,
+  mapSprintRemovedIssueKeys,
   mapChangelogResult,
-  textToAdf,
+  mapWatchers,
+  mapVotes,
+  mapProjectDetails,
+  mapIssueType,
+  mapFieldMeta,
+  mapPriority,
+  mapIssueTypeStatuses,
+  mapWorkflow,
+  mapVersion,
+  mapComponent,
+  type RawChangelogEntry,
   STORY_POINTS_FIELD_CANDIDATES,
   SPRINT_FIELD_CANDIDATES,
 } from "./mappers.js";
+import { markdownToAdf, extractMentionNames, replaceMentions } from "./adf.js";
+import { findCustomFieldAlias, checkCustomFieldValue } from "./custom-fields.js";
+import { pickUser, UserResolutionCache } from "./user-resolution.js";
+
+/**
+ * Jira API types. "web" addresses pages outside the REST APIs, such as
+ * Data Center attachment downloads; "greenhouse" is the board reports API.
+ */
+type JiraApiType = "rest" | "agile" | "greenhouse" | "web";
 
 /**
- * Minimum supported Jira API version.
+ * Options for a Jira API request.
  */
-const MIN_API_VERSION = "3";
-const SUPPORTED_DEPLOYMENT = "Cloud";
+interface RequestOptions {
+  params?: Record<string, string | number | undefined>;
+  /** JSON body, or FormData for multipart uploads */
+  body?: unknown;
+  api?: JiraApiType;
+  /** Read the response as raw bytes instead of JSON */
+  responseType?: "json" | "bytes";
+  /** Stop reading a bytes response after this many bytes */
+  maxBytes?: number;
+}
 
 /**
- * Jira API types.
+ * API base paths for different Jira APIs, per deployment flavor.
  */
-type JiraApiType = "rest" | "agile";
+const API_BASES: Record<JiraDeployment, Record<JiraApiType, string>> = {
+  cloud: {
+    rest: "/rest/api/3",
+    agile: "/rest/agile/1.0",
+    greenhouse: "/rest/greenhouse/1.0",
+    web: "",
+  },
+  datacenter: {
+    rest: "/rest/api/2",
+    agile: "/rest/agile/1.0",
+    greenhouse: "/rest/greenhouse/1.0",
+    web: "",
+  },
+};
 
 /**
- * API base paths for different Jira APIs.
+ * Expected serverInfo.deploymentType and REST API version per deployment flavor.
  */
-const API_BASES: Record<JiraApiType, string> = {
-  rest: "/rest/api/3",
-  agile: "/rest/agile/1.0",
+const DEPLOYMENT_REQUIREMENTS: Record<
+  JiraDeployment,
+  { deploymentTypes: readonly string[]; apiVersion: string; label: string }
+> = {
+  cloud: { deploymentTypes: ["Cloud"], apiVersion: "3", label: "Cloud" },
+  datacenter: {
+    deploymentTypes: ["Server", "DataCenter"],
+    apiVersion: "2",
+    label: "Server / Data Center",
+  },
 };
 
+/**
+ * Longest Retry-After the client waits for before giving up on a request.
+ */
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+/**
+ * Maximum issues per bulk create request (Jira's limit).
+ */
+const MAX_BULK_CREATE = 50;
+
 /**
  * Error thrown when Jira API returns an error.
  */
@@ -135,6 +248,32 @@ export class JiraSprintNotFoundError extends JiraApiError {
   }
 }
 
+/**
+ * Error thrown when a project is not found.
+ */
+export class JiraProjectNotFoundError extends JiraApiError {
+  readonly projectKey: string;
+
+  constructor(projectKey: string) {
+    super(`Project '${projectKey}' not found`, 404);
+    this.name = "JiraProjectNotFoundError";
+    this.projectKey = projectKey;
+  }
+}
+
+/**
+ * Error thrown when a version is not found.
+ */
+export class JiraVersionNotFoundError extends JiraApiError {
+  readonly versionId: string;
+
+  constructor(versionId: string) {
+    super(`Version '${versionId}' not found`, 404);
+    this.name = "JiraVersionNotFoundError";
+    this.versionId = versionId;
+  }
+}
+
 /**
  * Error thrown for invalid sprint state transitions.
  */
@@ -214,26 +353,82 @@ const BASE_SEARCH_FIELDS = [
   "reporter",
   "created",
   "updated",
+  "resolutiondate",
   "labels",
   "components",
+  "fixVersions",
+  "timetracking",
 ];
 
+/**
+ * Reads a response body as bytes, stopping after `maxBytes`.
+ */
+async function readBytes(response: Response, maxBytes = Infinity): Promise<Uint8Array> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return new Uint8Array();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (length < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    length += value.length;
+  }
+
+  // Release the connection without downloading the rest
+  await reader.cancel().catch(() => {});
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return length > maxBytes ? bytes.subarray(0, maxBytes) : bytes;
+}
+
 // Default search fields and extended issue fields are now computed dynamically
 // via getSearchFields() and getExtendedFields() methods in JiraClient
 
 export class JiraClient {
   private readonly config: JiraConfig;
   private readonly logger: Logger;
-  private readonly authHeader: string;
+  private readonly authHeader: string | undefined;
+  private readonly oauthSession: OAuthSession | undefined;
+  private readonly cache: ResponseCache;
+  private readonly rateLimiter: RateLimiter;
   private fieldMappings: ResolvedFieldMappings;
-
-  constructor(config: JiraConfig, logger?: Logger, fieldMappings?: ResolvedFieldMappings) {
+  private readonly resolvedUsers = new UserResolutionCache();
+
+  constructor(
+    config: JiraConfig,
+    logger?: Logger,
+    fieldMappings?: ResolvedFieldMappings,
+    cache?: ResponseCache,
+    rateLimiter?: RateLimiter
+  ) {
     this.config = config;
     this.logger = logger ?? noopLogger;
-
-    // Pre-compute auth header (Basic Auth with email:apiToken)
-    const credentials = `${config.auth.email}:${config.auth.apiToken}`;
-    this.authHeader = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    this.cache = cache ?? createDefaultResponseCache();
+    this.rateLimiter = rateLimiter ?? createDefaultRateLimiter();
+
+    // Pre-compute auth header (Basic Auth with email:apiToken, or Bearer PAT).
+    // OAuth tokens expire, so they are resolved per request by the session.
+    if (config.auth.type === "oauth") {
+      this.oauthSession = new OAuthSession(config.auth, config.baseUrl);
+    } else if (config.auth.type === "bearer") {
+      this.authHeader = `Bearer ${config.auth.token}`;
+    } else {
+      const credentials = `${config.auth.email}:${config.auth.apiToken}`;
+      this.authHeader = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
 
     // Initialize field mappings (defaults if not provided)
     this.fieldMappings = fieldMappings ?? {
@@ -241,6 +436,7 @@ export class JiraClient {
       storyPointsCandidates: [...STORY_POINTS_FIELD_CANDIDATES],
       sprintField: SPRINT_FIELD_CANDIDATES[0],
       sprintCandidates: [...SPRINT_FIELD_CANDIDATES],
+      customFields: [],
     };
   }
 
@@ -259,6 +455,77 @@ export class JiraClient {
     return this.fieldMappings;
   }
 
+  /**
+   * Gets the deployment flavor this client talks to.
+   */
+  getDeployment(): JiraDeployment {
+    return this.config.deployment;
+  }
+
+  /**
+   * Gets the OAuth session when the client uses OAuth 2.0 authentication.
+   */
+  getOAuthSession(): OAuthSession | undefined {
+    return this.oauthSession;
+  }
+
+  /**
+   * Gets response cache statistics.
+   */
+  getCacheStats(): ResponseCacheStats {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Removes all cached responses.
+   *
+   * @returns Number of entries removed
+   */
+  clearCache(): number {
+    return this.cache.clear();
+  }
+
+  /**
+   * Gets the Authorization header value for the next request.
+   */
+  private async getAuthorization(): Promise<string> {
+    if (this.oauthSession) {
+      return `Bearer ${await this.oauthSession.getAccessToken()}`;
+    }
+    return this.authHeader ?? "";
+  }
+
+  /**
+   * Gets the root URL that API base paths are appended to.
+   * OAuth requests go through the API gateway for the site's cloud ID.
+   */
+  private async getApiRoot(): Promise<string> {
+    return this.oauthSession ? this.oauthSession.getApiBaseUrl() : this.config.baseUrl;
+  }
+
+  /**
+   * Whether the client targets Jira Server / Data Center (REST API v2).
+   */
+  private isDataCenter(): boolean {
+    return this.config.deployment === "datacenter";
+  }
+
+  /**
+   * Formats rich text for the API: Markdown converted to ADF for Cloud (v3),
+   * plain text for Data Center (v2).
+   */
+  private formatRichText(text: string): unknown {
+    return this.isDataCenter() ? text : markdownToAdf(text);
+  }
+
+  /**
+   * Builds a user reference for the API.
+   * Cloud identifies users by accountId; Data Center by username.
+   */
+  private userRef(userId: string): Record<string, string> {
+    return this.isDataCenter() ? { name: userId } : { accountId: userId };
+  }
+
   /**
    * Gets the search fields including configured custom field candidates.
    */
@@ -267,6 +534,7 @@ export class JiraClient {
       ...BASE_SEARCH_FIELDS,
       ...this.fieldMappings.storyPointsCandidates,
       ...this.fieldMappings.sprintCandidates,
+      ...this.fieldMappings.customFields.map((alias) => alias.id),
     ];
   }
 
@@ -279,6 +547,9 @@ export class JiraClient {
       "parent",
       "subtasks",
       "issuelinks",
+      "attachment",
+      "votes",
+      "watches",
     ];
   }
 
@@ -305,17 +576,18 @@ export class JiraClient {
         emailAddress: string;
       }>("GET", "/myself");
 
-      // Check compatibility - Cloud deployment always uses latest API v3
-      const isCloud = serverInfo.deploymentType === SUPPORTED_DEPLOYMENT;
-      const compatible = isCloud;
+      // Check compatibility - the server must match the configured deployment flavor
+      const requirements = DEPLOYMENT_REQUIREMENTS[this.config.deployment];
+      const compatible = requirements.deploymentTypes.includes(serverInfo.deploymentType);
 
       if (!compatible) {
+        const suggested = serverInfo.deploymentType === "Cloud" ? "cloud" : "datacenter";
         return {
           success: true,
           serverInfo,
           user,
           compatible: false,
-          error: `Incompatible Jira deployment: ${serverInfo.deploymentType}. This client requires Jira ${SUPPORTED_DEPLOYMENT} with API v${MIN_API_VERSION}+.`,
+          error: `Incompatible Jira deployment: ${serverInfo.deploymentType}. This client is configured for Jira ${requirements.label} (API v${requirements.apiVersion}). Set JIRA_DEPLOYMENT=${suggested} (or deployment: \"${suggested}\" in jira_configure) to match your instance.`,
         };
       }
 
@@ -343,6 +615,8 @@ export class JiraClient {
 
   /**
    * Makes an authenticated request to the Jira API.
+   * Reads are served from the response cache while fresh; writes
+   * invalidate the cached responses they affect.
    *
    * @param method - HTTP method
    * @param path - API path (without base)
@@ -351,14 +625,57 @@ export class JiraClient {
   private async request<T>(
     method: string,
     path: string,
-    options?: {
-      params?: Record<string, string | number | undefined>;
-      body?: unknown;
-      api?: JiraApiType;
-    }
+    options?: RequestOptions
   ): Promise<T> {
-    const apiBase = API_BASES[options?.api ?? "rest"];
-    const url = new URL(`${this.config.baseUrl}${apiBase}${path}`);
+    const cacheRequest: CacheRequest = {
+      method,
+      api: options?.api ?? "rest",
+      path,
+      params: options?.params,
+      body: options?.body,
+    };
+
+    if (this.cache.isWrite(cacheRequest)) {
+      try {
+        return (await this.send<T>(method, path, options)).data;
+      } finally {
+        // Also after failures: a timed-out write may still have been applied
+        this.cache.invalidateAfterWrite(cacheRequest);
+      }
+    }
+
+    const cached = this.cache.get(cacheRequest);
+    if (cached?.fresh) {
+      this.logger.debug("Jira API cache hit", { method, path });
+      return cached.value as T;
+    }
+
+    const response = await this.send<T>(method, path, options, cached?.etag);
+
+    if (response.notModified && cached) {
+      return (this.cache.revalidate(cacheRequest) ?? cached.value) as T;
+    }
+
+    this.cache.set(cacheRequest, response.data, response.etag);
+    return response.data;
+  }
+
+  /**
+   * Sends a request to the Jira API with retries.
+   *
+   * @param method - HTTP method
+   * @param path - API path (without base)
+   * @param options - Request options including params, body, and API type
+   * @param etag - ETag of a cached response to revalidate (If-None-Match)
+   */
+  private async send<T>(
+    method: string,
+    path: string,
+    options?: RequestOptions,
+    etag?: string
+  ): Promise<{ data: T; etag: string | null; notModified: boolean }> {
+    const apiBase = API_BASES[this.config.deployment][options?.api ?? "rest"];
+    const url = new URL(`${await this.withOAuthErrors(() => this.getApiRoot())}${apiBase}${path}`);
 
     // Add query parameters
     if (options?.params) {
@@ -380,41 +697,58 @@ export class JiraClient {
 
     const startTime = Date.now();
     let lastError: Error | null = null;
+    let refreshedAfterUnauthorized = false;
+    // After a rate limit response the limiter pauses all requests, so no extra backoff
+    let rateLimited = false;
 
     // Retry loop
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
-      if (attempt > 0) {
-        // Exponential backoff
-        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+      if (attempt > 0 && !rateLimited) {
+        const delay = this.getBackoffDelay(attempt);
         this.logger.debug("Retrying request", { requestId, attempt, delay });
         await this.sleep(delay);
       }
+      rateLimited = false;
+
+      let release: ReleaseSlot | undefined;
 
       try {
+        const authorization = await this.withOAuthErrors(() => this.getAuthorization());
+
+        release = await this.rateLimiter.acquire();
+
         const controller = new AbortController();
         const timeoutId = setTimeout(
           () => controller.abort(),
           this.config.timeout
         );
 
+        const multipart = options?.body instanceof FormData;
         const fetchOptions: RequestInit = {
           method,
           headers: {
-            Authorization: this.authHeader,
-            "Content-Type": "application/json",
-            Accept: "application/json",
+            Authorization: authorization,
+            // fetch sets the multipart boundary itself
+            ...(multipart ? {} : { "Content-Type": "application/json" }),
+            Accept: options?.responseType === "bytes" ? "*/*" : "application/json",
             "X-Request-Id": requestId,
+            // Jira rejects multipart uploads without this header (XSRF check)
+            ...(multipart ? { "X-Atlassian-Token": "no-check" } : {}),
+            ...(etag ? { "If-None-Match": etag } : {}),
           },
           signal: controller.signal,
         };
 
-        if (options?.body) {
+        if (multipart) {
+          fetchOptions.body = options.body as FormData;
+        } else if (options?.body) {
           fetchOptions.body = JSON.stringify(options.body);
         }
 
         const response = await fetch(url.toString(), fetchOptions);
 
         clearTimeout(timeoutId);
+        this.rateLimiter.observe(response.headers);
 
         const duration = Date.now() - startTime;
 
@@ -424,8 +758,22 @@ export class JiraClient {
           duration,
         });
 
+        if (response.status === 304 && etag) {
+          return { data: undefined as T, etag, notModified: true };
+        }
+
         // Handle error responses
         if (!response.ok) {
+          // An OAuth access token may be revoked before its expiry: refresh once and retry
+          const session = this.oauthSession;
+          if (response.status === 401 && session && !refreshedAfterUnauthorized) {
+            refreshedAfterUnauthorized = true;
+            this.logger.debug("Refreshing OAuth token after 401", { requestId });
+            await this.withOAuthErrors(() => session.refresh());
+            attempt--;
+            continue;
+          }
+
           if (response.status === 401 || response.status === 403) {
             throw new JiraAuthError();
           }
@@ -436,18 +784,33 @@ export class JiraClient {
           }
 
           if (response.status === 429) {
-            // Rate limited - retry
-            this.logger.warn("Rate limited by Jira API", { requestId });
+            // Rate limited - wait as long as Jira asks, then retry
+            const retryDelay = parseRetryDelay(response.headers) ?? this.getBackoffDelay(attempt + 1);
+            if (retryDelay > MAX_RATE_LIMIT_WAIT_MS) {
+              throw new JiraApiError(
+                `Rate limited by Jira; retry after ${Math.ceil(retryDelay / 1000)} seconds`,
+                429,
+                requestId
+              );
+            }
+            this.logger.warn("Rate limited by Jira API", { requestId, retryDelay });
+            this.rateLimiter.pauseFor(retryDelay);
+            rateLimited = true;
             lastError = new JiraApiError("Rate limited", 429, requestId);
             continue;
           }
 
           if (response.status >= 500) {
-            // Server error - retry
+            // Server error - retry (503 may carry Retry-After)
             this.logger.warn("Jira API server error", {
               requestId,
               status: response.status,
             });
+            const retryDelay = parseRetryDelay(response.headers);
+            if (retryDelay !== undefined && retryDelay <= MAX_RATE_LIMIT_WAIT_MS) {
+              this.rateLimiter.pauseFor(retryDelay);
+              rateLimited = true;
+            }
             lastError = new JiraApiError(
               "Server error",
               response.status,
@@ -466,9 +829,15 @@ export class JiraClient {
           );
         }
 
-        // Parse response
-        const data = (await response.json()) as T;
-        return data;
+        if (options?.responseType === "bytes") {
+          const data = (await readBytes(response, options.maxBytes)) as T;
+          return { data, etag: null, notModified: false };
+        }
+
+        // Parse response (writes may answer 204 No Content or an empty 201)
+        const text = response.status === 204 ? "" : await response.text();
+        const data = (text ? JSON.parse(text) : undefined) as T;
+        return { data, etag: response.headers.get("ETag"), notModified: false };
       } catch (error) {
         if (error instanceof JiraApiError) {
           throw error;
@@ -490,6 +859,8 @@ export class JiraClient {
           0,
           requestId
         );
+      } finally {
+        release?.();
       }
     }
 
@@ -497,6 +868,28 @@ export class JiraClient {
     throw lastError ?? new JiraApiError("Request failed", 0);
   }
 
+  /**
+   * Runs an OAuth operation, converting OAuth failures into API errors
+   * so tools report them (e.g. "OAuth login required") without retrying.
+   */
+  private async withOAuthErrors<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        throw new JiraApiError(error.message, 401);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Exponential backoff delay before a retry attempt.
+   */
+  private getBackoffDelay(attempt: number): number {
+    return Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+  }
+
   /**
    * Sleep for the specified duration.
    */
@@ -523,13 +916,15 @@ export class JiraClient {
         `/issue/${issueKey}`,
         {
           params: {
-            fields:
-              "summary,description,status,priority,issuetype,project,assignee,reporter,created,updated,labels,components",
+            fields: [
+              "summary,description,status,priority,issuetype,project,assignee,reporter,created,updated,resolutiondate,labels,components,fixVersions,timetracking",
+              ...this.fieldMappings.customFields.map((alias) => alias.id),
+            ].join(","),
           },
         }
       );
 
-      return mapIssue(raw as Parameters<typeof mapIssue>[0]);
+      return mapIssue(raw as Parameters<typeof mapIssue>[0], this.fieldMappings.customFields);
     } catch (error) {
       if (error instanceof JiraApiError && error.statusCode === 404) {
         throw new JiraNotFoundError(issueKey);
@@ -551,6 +946,10 @@ export class JiraClient {
   ): Promise<JiraSearchResult> {
     const maxResults = Math.min(options?.maxResults ?? 50, 50); // Cap at 50 per skill constraints
 
+    if (this.isDataCenter()) {
+      return this.searchJqlWithStartAt(jql, maxResults, options);
+    }
+
     // Build request body for new /search/jql endpoint (Jira Cloud 2024+ migration)
     // Note: The new endpoint requires bounded JQL queries (must include project, assignee, etc.)
     const body: Record<string, unknown> = {
@@ -568,7 +967,52 @@ export class JiraClient {
 
     const raw = await this.request<unknown>("POST", "/search/jql", { body });
 
-    return mapSearchResult(raw as Parameters<typeof mapSearchResult>[0]);
+    return mapSearchResult(
+      raw as Parameters<typeof mapSearchResult>[0],
+      this.fieldMappings.customFields
+    );
+  }
+
+  /**
+   * Searches using the REST API v2 /search endpoint (Jira Server / Data Center).
+   * Offset pagination is exposed as an opaque nextPageToken (the next startAt)
+   * so callers can paginate the same way on every deployment flavor.
+   */
+  private async searchJqlWithStartAt(
+    jql: string,
+    maxResults: number,
+    options?: JiraSearchOptions
+  ): Promise<JiraSearchResult> {
+    const tokenStartAt = options?.nextPageToken ? parseInt(options.nextPageToken, 10) : NaN;
+    const startAt = Number.isNaN(tokenStartAt) ? (options?.startAt ?? 0) : tokenStartAt;
+
+    const raw = await this.request<{
+      issues: unknown[];
+      startAt?: number;
+      maxResults?: number;
+      total?: number;
+    }>("POST", "/search", {
+      body: {
+        jql,
+        startAt,
+        maxResults,
+        fields: options?.fields ?? this.getSearchFields(),
+      },
+    });
+
+    const result = mapSearchResult(
+      raw as Parameters<typeof mapSearchResult>[0],
+      this.fieldMappings.customFields
+    );
+    const nextStartAt = startAt + result.issues.length;
+    const isLast = result.issues.length === 0 || nextStartAt >= (raw.total ?? 0);
+
+    return {
+      ...result,
+      startAt,
+      nextPageToken: isLast ? undefined : String(nextStartAt),
+      isLast,
+    };
   }
 
   /**
@@ -626,6 +1070,10 @@ export class JiraClient {
       throw new Error(`Invalid issue key format: ${issueKey}`);
     }
 
+    if (this.isDataCenter()) {
+      return this.getIssueChangelogExpanded(issueKey, options);
+    }
+
     try {
       const raw = await this.request<unknown>(
         "GET",
@@ -647,6 +1095,40 @@ export class JiraClient {
     }
   }
 
+  /**
+   * Gets the changelog through ?expand=changelog (Jira Server / Data Center,
+   * which has no paginated changelog endpoint). Pagination is applied locally.
+   */
+  private async getIssueChangelogExpanded(
+    issueKey: string,
+    options?: JiraChangelogOptions
+  ): Promise<JiraChangelogResult> {
+    const startAt = options?.startAt ?? 0;
+    const maxResults = options?.maxResults ?? 100;
+
+    try {
+      const raw = await this.request<{
+        changelog?: { histories?: RawChangelogEntry[] };
+      }>("GET", `/issue/${issueKey}`, {
+        params: { fields: "summary", expand: "changelog" },
+      });
+
+      const histories = raw.changelog?.histories ?? [];
+
+      return mapChangelogResult({
+        values: histories.slice(startAt, startAt + maxResults),
+        startAt,
+        maxResults,
+        total: histories.length,
+      });
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Gets a single issue with extended data including parent, subtasks, and links.
    * Used for deep analysis to understand issue hierarchy.
@@ -672,7 +1154,10 @@ export class JiraClient {
         }
       );
 
-      return mapIssueExtended(raw as Parameters<typeof mapIssueExtended>[0]);
+      return mapIssueExtended(
+        raw as Parameters<typeof mapIssueExtended>[0],
+        this.fieldMappings.customFields
+      );
     } catch (error) {
       if (error instanceof JiraApiError && error.statusCode === 404) {
         throw new JiraNotFoundError(issueKey);
@@ -776,6 +1261,132 @@ export class JiraClient {
    * @returns The created issue key and ID
    */
   async createIssue(input: CreateIssueInput): Promise<CreateIssueResult> {
+    const response = await this.request<{
+      id: string;
+      key: string;
+      self: string;
+    }>("POST", "/issue", {
+      body: { fields: await this.buildCreateFields(input) },
+    });
+
+    return {
+      id: response.id,
+      key: response.key,
+      self: response.self,
+    };
+  }
+
+  /**
+   * Creates several issues with Jira's bulk endpoint, in chunks of 50.
+   * Jira creates the valid issues of a chunk and reports the others.
+   * If a chunk fails after issues were created, the results so far are
+   * returned with the remaining inputs marked as failed, so callers never
+   * lose track of created issues.
+   *
+   * @param inputs - The issues to create
+   * @returns One result per input, in input order
+   * @throws The request error if it happens before any issue was created
+   */
+  async createIssues(inputs: readonly CreateIssueInput[]): Promise<BulkCreateIssueResult[]> {
+    const results: BulkCreateIssueResult[] = [];
+
+    for (let start = 0; start < inputs.length; start += MAX_BULK_CREATE) {
+      const chunk = inputs.slice(start, start + MAX_BULK_CREATE);
+
+      let response: {
+        issues?: Array<{ id: string; key: string; self: string }>;
+        errors?: Array<{
+          failedElementNumber?: number;
+          elementErrors?: { errorMessages?: string[]; errors?: Record<string, string> };
+        }>;
+      };
+
+      try {
+        response = await this.request("POST", "/issue/bulk", {
+          body: {
+            issueUpdates: await Promise.all(
+              chunk.map(async (input) => ({ fields: await this.buildCreateFields(input) }))
+            ),
+          },
+        });
+      } catch (error) {
+        // Jira rejects the whole request when no issue of the chunk is valid
+        if (error instanceof JiraApiError && error.statusCode === 400) {
+          const reason = "Rejected by Jira (check project, issue type and field values)";
+          results.push(...chunk.map((_, offset) => ({ index: start + offset, error: reason })));
+          continue;
+        }
+        if (!results.some((result) => result.issue)) {
+          throw error;
+        }
+        const reason =
+          error instanceof JiraApiError
+            ? `${error.message} (status: ${error.statusCode})`
+            : error instanceof Error
+              ? error.message
+              : "Unknown error";
+        for (let index = start; index < inputs.length; index++) {
+          results.push({ index, error: reason });
+        }
+        break;
+      }
+
+      const failures = new Map<number, string>();
+      for (const failure of response.errors ?? []) {
+        if (failure.failedElementNumber === undefined) {
+          continue;
+        }
+        const messages = [
+          ...(failure.elementErrors?.errorMessages ?? []),
+          ...Object.entries(failure.elementErrors?.errors ?? {}).map(([field, message]) => `${field}: ${message}`),
+        ];
+        failures.set(failure.failedElementNumber, messages.join("; ") || "Creation failed");
+      }
+
+      // Created issues are returned in input order, skipping the failed ones
+      const created = [...(response.issues ?? [])];
+      chunk.forEach((_, offset) => {
+        const error = failures.get(offset);
+        const issue = error === undefined ? created.shift() : undefined;
+        results.push(
+          issue
+            ? { index: start + offset, issue: { id: issue.id, key: issue.key, self: issue.self } }
+            : { index: start + offset, error: error ?? "Creation failed" }
+        );
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Deletes an issue.
+   *
+   * @param issueKey - The issue key
+   * @param deleteSubtasks - Also delete the issue's subtasks (required if it has any)
+   * @throws JiraNotFoundError if the issue doesn't exist
+   */
+  async deleteIssue(issueKey: string, deleteSubtasks = false): Promise<void> {
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
+    }
+
+    try {
+      await this.request<void>("DELETE", `/issue/${issueKey}`, {
+        params: { deleteSubtasks: deleteSubtasks ? "true" : undefined },
+      });
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the fields of a new issue.
+   */
+  private async buildCreateFields(input: CreateIssueInput): Promise<Record<string, unknown>> {
     // Build the fields object for the API
     const fields: Record<string, unknown> = {
       project: { key: input.projectKey },
@@ -785,11 +1396,11 @@ export class JiraClient {
 
     // Add optional fields
     if (input.description) {
-      fields["description"] = textToAdf(input.description);
+      fields["description"] = this.formatRichText(input.description);
     }
 
     if (input.assigneeAccountId) {
-      fields["assignee"] = { accountId: input.assigneeAccountId };
+      fields["assignee"] = this.userRef(input.assigneeAccountId);
     }
 
     if (input.priorityName) {
@@ -800,6 +1411,10 @@ export class JiraClient {
       fields["labels"] = [...input.labels];
     }
 
+    if (input.componentNames && input.componentNames.length > 0) {
+      fields["components"] = input.componentNames.map((name) => ({ name }));
+    }
+
     if (input.parentKey) {
       fields["parent"] = { key: input.parentKey };
     }
@@ -809,34 +1424,92 @@ export class JiraClient {
       fields[this.fieldMappings.storyPointsField] = input.storyPoints;
     }
 
-    const response = await this.request<{
-      id: string;
-      key: string;
-      self: string;
-    }>("POST", "/issue", {
-      body: { fields },
-    });
+    if (input.customFields) {
+      Object.assign(fields, await this.buildCustomFieldValues(input.customFields));
+    }
 
-    return {
-      id: response.id,
-      key: response.key,
-      self: response.self,
-    };
+    return fields;
   }
 
   /**
-   * Updates an existing Jira issue.
+   * Converts custom field values keyed by alias to API field values.
+   * Multi-line text fields take ADF on Cloud, so text values look up the
+   * field's schema (cached metadata) there.
    *
-   * @param input - The issue update input (partial update)
-   * @returns Success indicator
+   * @throws Error if an alias is not configured or a value does not fit its type
    */
-  async updateIssue(input: UpdateIssueInput): Promise<UpdateIssueResult> {
-    // Validate issue key format
-    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(input.issueKey)) {
-      throw new Error(`Invalid issue key format: ${input.issueKey}`);
-    }
-
-    // Build the fields object for partial update
+  private async buildCustomFieldValues(
+    values: Readonly<Record<string, unknown>>
+  ): Promise<Record<string, unknown>> {
+    const fields: Record<string, unknown> = {};
+
+    for (const [name, value] of Object.entries(values)) {
+      const alias = findCustomFieldAlias(this.fieldMappings.customFields, name);
+      if (!alias) {
+        throw new Error(`Unknown custom field alias: ${name}`);
+      }
+
+      const problem = checkCustomFieldValue(alias.type, value);
+      if (problem) {
+        throw new Error(`Invalid value for custom field '${alias.name}': ${problem}`);
+      }
+
+      if (value === null) {
+        fields[alias.id] = null;
+        continue;
+      }
+
+      switch (alias.type) {
+        case "select":
+          fields[alias.id] = { value };
+          break;
+        case "multi-select":
+          fields[alias.id] = (Array.isArray(value) ? value : [value]).map((option) => ({
+            value: option,
+          }));
+          break;
+        case "user":
+          fields[alias.id] = this.userRef(value as string);
+          break;
+        case "text":
+          fields[alias.id] = (await this.isRichTextField(alias.id))
+            ? this.formatRichText(value as string)
+            : value;
+          break;
+        case "number":
+        case "date":
+          fields[alias.id] = value;
+          break;
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Whether a text field takes rich text (a multi-line field on Cloud).
+   */
+  private async isRichTextField(fieldId: string): Promise<boolean> {
+    if (this.isDataCenter()) {
+      return false;
+    }
+    const field = (await this.getFields()).find((f) => f.id === fieldId);
+    return field?.customType?.endsWith(":textarea") ?? false;
+  }
+
+  /**
+   * Updates an existing Jira issue.
+   *
+   * @param input - The issue update input (partial update)
+   * @returns Success indicator
+   */
+  async updateIssue(input: UpdateIssueInput): Promise<UpdateIssueResult> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(input.issueKey)) {
+      throw new Error(`Invalid issue key format: ${input.issueKey}`);
+    }
+
+    // Build the fields object for partial update
     const fields: Record<string, unknown> = {};
 
     if (input.summary !== undefined) {
@@ -844,12 +1517,12 @@ export class JiraClient {
     }
 
     if (input.description !== undefined) {
-      fields["description"] = textToAdf(input.description);
+      fields["description"] = this.formatRichText(input.description);
     }
 
     if (input.assigneeAccountId !== undefined) {
       fields["assignee"] = input.assigneeAccountId
-        ? { accountId: input.assigneeAccountId }
+        ? this.userRef(input.assigneeAccountId)
         : null; // null to unassign
     }
 
@@ -866,6 +1539,10 @@ export class JiraClient {
       fields[this.fieldMappings.storyPointsField] = input.storyPoints;
     }
 
+    if (input.customFields) {
+      Object.assign(fields, await this.buildCustomFieldValues(input.customFields));
+    }
+
     // Only make the request if there are fields to update
     if (Object.keys(fields).length === 0) {
       return { success: true, issueKey: input.issueKey };
@@ -960,36 +1637,656 @@ export class JiraClient {
       body["fields"] = input.fields;
     }
 
-    // Add comment if provided
-    if (input.comment) {
-      body["update"] = {
-        comment: [
-          {
-            add: {
-              body: textToAdf(input.comment),
-            },
-          },
-        ],
-      };
+    // Add comment if provided
+    if (input.comment) {
+      body["update"] = {
+        comment: [
+          {
+            add: {
+              body: this.formatRichText(input.comment),
+            },
+          },
+        ],
+      };
+    }
+
+    try {
+      await this.request<void>("POST", `/issue/${input.issueKey}/transitions`, {
+        body,
+      });
+
+      // Get the updated issue to return the new status
+      const updatedIssue = await this.getIssue(input.issueKey);
+
+      return {
+        success: true,
+        issueKey: input.issueKey,
+        transitionName: transitionName ?? `Transition ${transitionId}`,
+        newStatus: updatedIssue.status.name,
+      };
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(input.issueKey);
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // User and Comment Operations
+  // ============================================================================
+
+  /**
+   * Searches users by display name, email or username.
+   *
+   * @param query - Search text
+   * @param maxResults - Maximum number of users to return
+   * @returns Matching users
+   */
+  async findUsers(query: string, maxResults = 10): Promise<JiraUser[]> {
+    const raw = await this.request<Array<Parameters<typeof mapUser>[0]>>(
+      "GET",
+      "/user/search",
+      {
+        // Data Center searches by "username", which also matches names and emails
+        params: this.isDataCenter()
+          ? { username: query, maxResults }
+          : { query, maxResults },
+      }
+    );
+
+    return raw.map(mapUser);
+  }
+
+  /**
+   * Searches users who can be assigned issues in a project, or a given issue.
+   *
+   * @param query - Display name, email or username
+   * @param scope - Project or issue the users must be assignable to
+   * @param maxResults - Maximum number of users to return
+   * @returns Matching assignable users
+   */
+  async findAssignableUsers(
+    query: string,
+    scope: AssignableScope,
+    maxResults = 10
+  ): Promise<JiraUser[]> {
+    const scopeKey = scope.projectKey !== undefined ? scope.projectKey : scope.issueKey;
+
+    try {
+      const raw = await this.request<Array<Parameters<typeof mapUser>[0]>>(
+        "GET",
+        "/user/assignable/search",
+        {
+          params: {
+            ...(this.isDataCenter() ? { username: query } : { query }),
+            project: scope.projectKey,
+            issueKey: scope.issueKey,
+            maxResults,
+          },
+        }
+      );
+
+      return raw.map(mapUser);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(scopeKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves a display name, email or account ID to one assignable user.
+   * Resolved users are remembered for a few minutes per project or issue.
+   *
+   * @param query - Display name, email or account ID
+   * @param scope - Project or issue the user must be assignable to
+   */
+  async resolveAssignableUser(query: string, scope: AssignableScope): Promise<UserResolution> {
+    const scopeKey = scope.projectKey !== undefined ? scope.projectKey : scope.issueKey;
+
+    const cached = this.resolvedUsers.get(scopeKey, query);
+    if (cached) {
+      return { status: "resolved", user: cached };
+    }
+
+    const resolution = pickUser(query, await this.findAssignableUsers(query, scope));
+    if (resolution.status === "resolved") {
+      this.resolvedUsers.set(scopeKey, query, resolution.user);
+    }
+
+    return resolution;
+  }
+
+  /**
+   * Resolves mentioned display names to account IDs (usernames on Data Center).
+   * A name resolves when exactly one active user has that display name, or
+   * when the search returns a single user.
+   */
+  private async resolveMentions(
+    names: readonly string[]
+  ): Promise<{ mentions: Map<string, string>; unresolved: string[] }> {
+    const mentions = new Map<string, string>();
+    const unresolved: string[] = [];
+
+    for (const name of names) {
+      const users = (await this.findUsers(name)).filter((user) => user.active);
+      const exact = users.filter(
+        (user) => user.displayName.toLowerCase() === name.toLowerCase()
+      );
+      const match = exact.length === 1 ? exact[0] : users.length === 1 ? users[0] : undefined;
+
+      if (match?.accountId) {
+        mentions.set(name.toLowerCase(), match.accountId);
+      } else {
+        unresolved.push(name);
+      }
+    }
+
+    return { mentions, unresolved };
+  }
+
+  /**
+   * Formats a comment body, resolving `@[Display Name]` mentions:
+   * mention nodes in ADF for Cloud, [~username] markup for Data Center.
+   */
+  private async formatCommentBody(
+    markdown: string
+  ): Promise<{ body: unknown; unresolvedMentions: string[] }> {
+    const { mentions, unresolved } = await this.resolveMentions(extractMentionNames(markdown));
+
+    const body = this.isDataCenter()
+      ? replaceMentions(markdown, (name) => {
+          const username = mentions.get(name.toLowerCase());
+          return username ? `[~${username}]` : undefined;
+        })
+      : markdownToAdf(markdown, { mentions });
+
+    return { body, unresolvedMentions: unresolved };
+  }
+
+  /**
+   * Builds the comment request body.
+   */
+  private buildCommentPayload(
+    body: unknown,
+    visibility: JiraCommentVisibility | undefined
+  ): Record<string, unknown> {
+    return visibility
+      ? { body, visibility: { type: visibility.type, value: visibility.value } }
+      : { body };
+  }
+
+  /**
+   * Adds a comment to an issue.
+   *
+   * @param input - Issue key, Markdown body and optional visibility restriction
+   * @returns The created comment and any mentions that could not be resolved
+   */
+  async addComment(input: AddCommentInput): Promise<CommentWriteResult> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(input.issueKey)) {
+      throw new Error(`Invalid issue key format: ${input.issueKey}`);
+    }
+
+    const { body, unresolvedMentions } = await this.formatCommentBody(input.body);
+
+    try {
+      const raw = await this.request<Parameters<typeof mapComment>[0]>(
+        "POST",
+        `/issue/${input.issueKey}/comment`,
+        { body: this.buildCommentPayload(body, input.visibility) }
+      );
+
+      return { comment: mapComment(raw), unresolvedMentions };
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(input.issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the body (and visibility) of an existing comment.
+   * Omitting visibility keeps the comment's current restriction.
+   *
+   * @param input - Issue key, comment ID, new Markdown body and optional visibility
+   * @returns The updated comment and any mentions that could not be resolved
+   */
+  async updateComment(input: UpdateCommentInput): Promise<CommentWriteResult> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(input.issueKey)) {
+      throw new Error(`Invalid issue key format: ${input.issueKey}`);
+    }
+
+    const { body, unresolvedMentions } = await this.formatCommentBody(input.body);
+
+    try {
+      const raw = await this.request<Parameters<typeof mapComment>[0]>(
+        "PUT",
+        `/issue/${input.issueKey}/comment/${encodeURIComponent(input.commentId)}`,
+        { body: this.buildCommentPayload(body, input.visibility) }
+      );
+
+      return { comment: mapComment(raw), unresolvedMentions };
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(input.issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a single comment.
+   *
+   * @param issueKey - The issue key
+   * @param commentId - The comment ID
+   * @returns The comment
+   */
+  async getComment(issueKey: string, commentId: string): Promise<JiraComment> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
+    }
+
+    try {
+      const raw = await this.request<Parameters<typeof mapComment>[0]>(
+        "GET",
+        `/issue/${issueKey}/comment/${encodeURIComponent(commentId)}`
+      );
+
+      return mapComment(raw);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a comment.
+   *
+   * @param issueKey - The issue key
+   * @param commentId - The comment ID
+   */
+  async deleteComment(issueKey: string, commentId: string): Promise<void> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
+    }
+
+    try {
+      await this.request<void>(
+        "DELETE",
+        `/issue/${issueKey}/comment/${encodeURIComponent(commentId)}`
+      );
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Worklog Operations
+  // ============================================================================
+
+  /**
+   * Gets work logged on an issue.
+   *
+   * @param issueKey - The issue key
+   * @param options - Pagination and start date filter
+   * @returns Paginated worklogs, oldest first
+   */
+  async getWorklogs(
+    issueKey: string,
+    options?: JiraWorklogOptions
+  ): Promise<JiraWorklogsResult> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
+    }
+
+    const startedAfter = options?.startedAfter ? Date.parse(options.startedAfter) : undefined;
+
+    try {
+      const raw = await this.request<unknown>(
+        "GET",
+        `/issue/${issueKey}/worklog`,
+        {
+          params: {
+            startAt: options?.startAt ?? 0,
+            maxResults: options?.maxResults ?? 100,
+            // Data Center ignores startedAfter; filtered below as well
+            startedAfter: this.isDataCenter() ? undefined : startedAfter,
+          },
+        }
+      );
+
+      const result = mapWorklogsResult(raw as Parameters<typeof mapWorklogsResult>[0]);
+
+      if (startedAfter === undefined || Number.isNaN(startedAfter)) {
+        return result;
+      }
+
+      return {
+        ...result,
+        worklogs: result.worklogs.filter((worklog) => Date.parse(worklog.started) >= startedAfter),
+      };
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Logs work on an issue.
+   *
+   * @param input - Time spent, start time, comment and estimate adjustment
+   * @returns The created worklog
+   */
+  async addWorklog(input: AddWorklogInput): Promise<JiraWorklog> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(input.issueKey)) {
+      throw new Error(`Invalid issue key format: ${input.issueKey}`);
+    }
+
+    const started = input.started ? new Date(input.started) : new Date();
+    if (Number.isNaN(started.getTime())) {
+      throw new Error(`Invalid start time: ${input.started}`);
+    }
+
+    const body: Record<string, unknown> = {
+      timeSpentSeconds: input.timeSpentSeconds,
+      // Jira expects yyyy-MM-dd'T'HH:mm:ss.SSSZ with a numeric offset
+      started: started.toISOString().replace("Z", "+0000"),
+    };
+
+    if (input.comment) {
+      body["comment"] = this.formatRichText(input.comment);
+    }
+
+    const minutes = (seconds: number | undefined): string | undefined =>
+      seconds === undefined ? undefined : `${Math.round(seconds / 60)}m`;
+
+    try {
+      const raw = await this.request<Parameters<typeof mapWorklog>[0]>(
+        "POST",
+        `/issue/${input.issueKey}/worklog`,
+        {
+          params: {
+            adjustEstimate: input.adjustEstimate,
+            newEstimate: input.adjustEstimate === "new" ? minutes(input.newEstimateSeconds) : undefined,
+            reduceBy: input.adjustEstimate === "manual" ? minutes(input.reduceBySeconds) : undefined,
+          },
+          body,
+        }
+      );
+
+      return mapWorklog(raw);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(input.issueKey);
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Attachment Operations
+  // ============================================================================
+
+  /**
+   * Gets the metadata of an attachment.
+   *
+   * @param attachmentId - The attachment ID
+   * @returns The attachment metadata
+   * @throws JiraApiError with status 404 if the attachment doesn't exist
+   */
+  async getAttachment(attachmentId: string): Promise<JiraAttachment> {
+    if (!/^\d+$/.test(attachmentId)) {
+      throw new Error(`Invalid attachment ID: ${attachmentId}`);
+    }
+
+    const raw = await this.request<Parameters<typeof mapAttachment>[0]>(
+      "GET",
+      `/attachment/${attachmentId}`
+    );
+
+    return mapAttachment(raw);
+  }
+
+  /**
+   * Downloads an attachment, reading at most `maxBytes` bytes.
+   * Reading stops at the limit, so large files are not transferred in full.
+   *
+   * @param attachmentId - The attachment ID
+   * @param maxBytes - Maximum number of bytes to read
+   * @returns The attachment metadata and the bytes read
+   * @throws JiraApiError with status 404 if the attachment doesn't exist
+   */
+  async getAttachmentContent(attachmentId: string, maxBytes: number): Promise<JiraAttachmentContent> {
+    const attachment = await this.getAttachment(attachmentId);
+
+    if (attachment.size === 0) {
+      return { attachment, bytes: new Uint8Array(), truncated: false };
+    }
+
+    // Cloud redirects to the media service; Data Center serves files outside the REST API
+    const bytes = this.isDataCenter()
+      ? await this.request<Uint8Array>(
+          "GET",
+          `/secure/attachment/${attachment.id}/${encodeURIComponent(attachment.filename)}`,
+          { api: "web", responseType: "bytes", maxBytes }
+        )
+      : await this.request<Uint8Array>("GET", `/attachment/content/${attachment.id}`, {
+          responseType: "bytes",
+          maxBytes,
+        });
+
+    return { attachment, bytes, truncated: attachment.size > bytes.length };
+  }
+
+  /**
+   * Attaches a file to an issue (multipart upload).
+   *
+   * @param input - Issue, file name and content
+   * @returns The created attachment
+   * @throws JiraNotFoundError if the issue doesn't exist
+   */
+  async addAttachment(input: AddAttachmentInput): Promise<JiraAttachment> {
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(input.issueKey)) {
+      throw new Error(`Invalid issue key format: ${input.issueKey}`);
+    }
+
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([input.content], { type: input.mimeType ?? "application/octet-stream" }),
+      input.filename
+    );
+
+    try {
+      const raw = await this.request<Array<Parameters<typeof mapAttachment>[0]>>(
+        "POST",
+        `/issue/${input.issueKey}/attachments`,
+        { body: form }
+      );
+
+      const created = raw[0];
+      if (!created) {
+        throw new JiraApiError("Jira returned no attachment", 500);
+      }
+      return mapAttachment(created);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(input.issueKey);
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Issue Link Operations
+  // ============================================================================
+
+  /**
+   * Lists the issue link types configured on the instance.
+   *
+   * @returns Link types with their inward and outward descriptions
+   */
+  async getIssueLinkTypes(): Promise<JiraIssueLinkType[]> {
+    const raw = await this.request<{
+      issueLinkTypes: Array<Parameters<typeof mapIssueLinkType>[0]>;
+    }>("GET", "/issueLinkType");
+
+    return raw.issueLinkTypes.map(mapIssueLinkType);
+  }
+
+  /**
+   * Links two issues.
+   *
+   * @param input - Link type name and the inward/outward issues
+   */
+  async createIssueLink(input: CreateIssueLinkInput): Promise<void> {
+    for (const key of [input.inwardIssueKey, input.outwardIssueKey]) {
+      if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(key)) {
+        throw new Error(`Invalid issue key format: ${key}`);
+      }
+    }
+
+    try {
+      await this.request<void>("POST", "/issueLink", {
+        body: {
+          type: { name: input.typeName },
+          inwardIssue: { key: input.inwardIssueKey },
+          outwardIssue: { key: input.outwardIssueKey },
+        },
+      });
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(`${input.inwardIssueKey} or ${input.outwardIssueKey}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an issue link.
+   *
+   * @param linkId - The link ID (from the issue's links)
+   */
+  async deleteIssueLink(linkId: string): Promise<void> {
+    await this.request<void>("DELETE", `/issueLink/${encodeURIComponent(linkId)}`);
+  }
+
+  // ============================================================================
+  // Watcher and Vote Operations
+  // ============================================================================
+
+  /**
+   * Gets the users watching an issue.
+   *
+   * @param issueKey - The issue key
+   * @returns Watch count and watchers
+   */
+  async getWatchers(issueKey: string): Promise<JiraWatchers> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
+    }
+
+    try {
+      const raw = await this.request<Parameters<typeof mapWatchers>[0]>(
+        "GET",
+        `/issue/${issueKey}/watchers`
+      );
+
+      return mapWatchers(raw);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the votes on an issue.
+   *
+   * @param issueKey - The issue key
+   * @returns Vote count and, with permission, the voters
+   */
+  async getVotes(issueKey: string): Promise<JiraVotes> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
+    }
+
+    try {
+      const raw = await this.request<Parameters<typeof mapVotes>[0]>(
+        "GET",
+        `/issue/${issueKey}/votes`
+      );
+
+      return mapVotes(raw);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a watcher to an issue.
+   *
+   * @param issueKey - The issue key
+   * @param userId - Account ID (Cloud) or username (Data Center)
+   */
+  async addWatcher(issueKey: string, userId: string): Promise<void> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
+    }
+
+    try {
+      // The body is the bare user ID as a JSON string
+      await this.request<void>("POST", `/issue/${issueKey}/watchers`, { body: userId });
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a watcher from an issue.
+   *
+   * @param issueKey - The issue key
+   * @param userId - Account ID (Cloud) or username (Data Center)
+   */
+  async removeWatcher(issueKey: string, userId: string): Promise<void> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
     }
 
     try {
-      await this.request<void>("POST", `/issue/${input.issueKey}/transitions`, {
-        body,
+      await this.request<void>("DELETE", `/issue/${issueKey}/watchers`, {
+        params: this.isDataCenter() ? { username: userId } : { accountId: userId },
       });
-
-      // Get the updated issue to return the new status
-      const updatedIssue = await this.getIssue(input.issueKey);
-
-      return {
-        success: true,
-        issueKey: input.issueKey,
-        transitionName: transitionName ?? `Transition ${transitionId}`,
-        newStatus: updatedIssue.status.name,
-      };
     } catch (error) {
       if (error instanceof JiraApiError && error.statusCode === 404) {
-        throw new JiraNotFoundError(input.issueKey);
+        throw new JiraNotFoundError(issueKey);
       }
       throw error;
     }
@@ -1161,7 +2458,40 @@ export class JiraClient {
         }
       );
 
-      return mapSearchResult(raw as Parameters<typeof mapSearchResult>[0]);
+      return mapSearchResult(
+        raw as Parameters<typeof mapSearchResult>[0],
+        this.fieldMappings.customFields
+      );
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraSprintNotFoundError(sprintId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the keys of the issues removed from a sprint while it ran, from
+   * the board's sprint report. The sprint issues endpoint only lists the
+   * issues still in the sprint.
+   *
+   * @param boardId - The board the sprint belongs to
+   * @param sprintId - The sprint ID
+   * @returns Keys of the removed issues
+   * @throws JiraSprintNotFoundError if the sprint doesn't exist on the board
+   */
+  async getSprintRemovedIssueKeys(boardId: number, sprintId: number): Promise<string[]> {
+    try {
+      const raw = await this.request<Parameters<typeof mapSprintRemovedIssueKeys>[0]>(
+        "GET",
+        "/rapid/charts/sprintreport",
+        {
+          params: { rapidViewId: boardId, sprintId },
+          api: "greenhouse",
+        }
+      );
+
+      return mapSprintRemovedIssueKeys(raw);
     } catch (error) {
       if (error instanceof JiraApiError && error.statusCode === 404) {
         throw new JiraSprintNotFoundError(sprintId);
@@ -1282,6 +2612,374 @@ export class JiraClient {
     }
   }
 
+  // ============================================================================
+  // Project Metadata Operations
+  // ============================================================================
+
+  /**
+   * Gets a project with its issue types, components and versions.
+   *
+   * @param projectKey - The project key
+   * @returns Project details
+   */
+  async getProject(projectKey: string): Promise<JiraProjectDetails> {
+    try {
+      const raw = await this.request<Parameters<typeof mapProjectDetails>[0]>(
+        "GET",
+        `/project/${projectKey}`
+      );
+
+      return mapProjectDetails(raw);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraProjectNotFoundError(projectKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads every page of a create metadata list. Cloud lists the items
+   * under `listKey`, Data Center under "values".
+   *
+   * @param path - API path of the list
+   * @param listKey - Property holding the items on Cloud
+   * @param pageSize - Items requested per page
+   */
+  private async getCreateMetaList<T>(
+    path: string,
+    listKey: "issueTypes" | "fields",
+    pageSize: number
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    for (;;) {
+      const raw = await this.request<
+        Partial<Record<"issueTypes" | "fields" | "values", T[]>> & { total?: number; isLast?: boolean }
+      >("GET", path, {
+        params: { startAt: items.length, maxResults: pageSize },
+      });
+      const page = raw[listKey] ?? raw.values ?? [];
+      items.push(...page);
+
+      // Without total or isLast there is no way to tell that more pages follow
+      const more = raw.isLast === false || (raw.total !== undefined && items.length < raw.total);
+      if (page.length === 0 || !more) {
+        return items;
+      }
+    }
+  }
+
+  /**
+   * Gets the issue types the authenticated user can create in a project.
+   *
+   * @param projectKey - The project key
+   * @returns Creatable issue types
+   */
+  async getCreateIssueTypes(projectKey: string): Promise<JiraIssueType[]> {
+    try {
+      const issueTypes = await this.getCreateMetaList<Parameters<typeof mapIssueType>[0]>(
+        `/issue/createmeta/${projectKey}/issuetypes`,
+        "issueTypes",
+        100
+      );
+
+      return issueTypes.map(mapIssueType);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraProjectNotFoundError(projectKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the fields on the create screen of an issue type in a project.
+   *
+   * @param projectKey - The project key
+   * @param issueTypeId - The issue type ID
+   * @returns Fields with whether they are required and their allowed values
+   */
+  async getCreateFields(projectKey: string, issueTypeId: string): Promise<JiraFieldMeta[]> {
+    try {
+      const fields = await this.getCreateMetaList<Parameters<typeof mapFieldMeta>[0]>(
+        `/issue/createmeta/${projectKey}/issuetypes/${issueTypeId}`,
+        "fields",
+        200
+      );
+
+      return fields.map(mapFieldMeta);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraProjectNotFoundError(projectKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the fields that can be edited on an issue.
+   *
+   * @param issueKey - The issue key
+   * @returns Editable fields with their allowed values
+   */
+  async getEditFields(issueKey: string): Promise<JiraFieldMeta[]> {
+    // Validate issue key format
+    if (!/^[A-Z][A-Z0-9]*-\d+$/i.test(issueKey)) {
+      throw new Error(`Invalid issue key format: ${issueKey}`);
+    }
+
+    try {
+      const raw = await this.request<{
+        fields?: Record<string, Omit<Parameters<typeof mapFieldMeta>[0], "fieldId">>;
+      }>("GET", `/issue/${issueKey}/editmeta`);
+
+      return Object.entries(raw.fields ?? {}).map(([fieldId, field]) =>
+        mapFieldMeta({ ...field, fieldId })
+      );
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraNotFoundError(issueKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets all priorities of the Jira instance.
+   *
+   * @returns Priorities, highest first
+   */
+  async getPriorities(): Promise<JiraPriority[]> {
+    const raw = await this.request<Array<Parameters<typeof mapPriority>[0]>>("GET", "/priority");
+
+    return raw.map(mapPriority);
+  }
+
+  /**
+   * Gets the statuses of each issue type in a project.
+   *
+   * @param projectKey - The project key
+   * @returns Statuses per issue type
+   */
+  async getProjectStatuses(projectKey: string): Promise<JiraIssueTypeStatuses[]> {
+    try {
+      const raw = await this.request<Array<Parameters<typeof mapIssueTypeStatuses>[0]>>(
+        "GET",
+        `/project/${projectKey}/statuses`
+      );
+
+      return raw.map(mapIssueTypeStatuses);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraProjectNotFoundError(projectKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the workflow graphs used by a project, via its workflow scheme.
+   * Requires Jira Cloud and administrator permission.
+   *
+   * @param projectId - The project ID (not the key)
+   * @returns Workflows with their transitions and issue types
+   */
+  async getProjectWorkflows(projectId: string): Promise<JiraWorkflow[]> {
+    if (this.isDataCenter()) {
+      throw new Error("Workflow graphs are only available on Jira Cloud");
+    }
+
+    const schemes = await this.request<{
+      values?: Array<{
+        workflowScheme?: {
+          defaultWorkflow?: string;
+          issueTypeMappings?: Record<string, string>;
+        };
+      }>;
+    }>("GET", "/workflowscheme/project", { params: { projectId } });
+
+    const scheme = schemes.values?.[0]?.workflowScheme;
+    if (!scheme) {
+      return [];
+    }
+
+    // Group the issue types by the workflow they are mapped to
+    const issueTypesByWorkflow = new Map<string, string[]>();
+    for (const [issueTypeId, workflowName] of Object.entries(scheme.issueTypeMappings ?? {})) {
+      issueTypesByWorkflow.set(workflowName, [
+        ...(issueTypesByWorkflow.get(workflowName) ?? []),
+        issueTypeId,
+      ]);
+    }
+    if (scheme.defaultWorkflow && !issueTypesByWorkflow.has(scheme.defaultWorkflow)) {
+      issueTypesByWorkflow.set(scheme.defaultWorkflow, []);
+    }
+
+    const workflows: JiraWorkflow[] = [];
+    for (const [workflowName, issueTypeIds] of issueTypesByWorkflow) {
+      const raw = await this.request<{
+        values?: Array<Parameters<typeof mapWorkflow>[0]>;
+      }>("GET", "/workflow/search", {
+        params: { workflowName, expand: "transitions,statuses" },
+      });
+
+      const workflow = raw.values?.[0];
+      if (workflow) {
+        workflows.push(
+          mapWorkflow(workflow, issueTypeIds, workflowName === scheme.defaultWorkflow)
+        );
+      }
+    }
+
+    return workflows;
+  }
+
+  // ============================================================================
+  // Version Operations
+  // ============================================================================
+
+  /**
+   * Gets all versions of a project, in the project's version order.
+   *
+   * @param projectKey - The project key
+   * @returns Versions, including released and archived ones
+   */
+  async getVersions(projectKey: string): Promise<JiraVersion[]> {
+    try {
+      const raw = await this.request<Array<Parameters<typeof mapVersion>[0]>>(
+        "GET",
+        `/project/${projectKey}/versions`
+      );
+
+      return raw.map(mapVersion);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraProjectNotFoundError(projectKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the unresolved issues fixed in a version.
+   *
+   * @param versionId - The version ID
+   * @returns Number of unresolved issues
+   */
+  async getUnresolvedIssueCount(versionId: string): Promise<number> {
+    try {
+      const raw = await this.request<{ issuesUnresolvedCount?: number }>(
+        "GET",
+        `/version/${versionId}/unresolvedIssueCount`
+      );
+
+      return raw.issuesUnresolvedCount ?? 0;
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraVersionNotFoundError(versionId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a version in a project.
+   *
+   * @param input - Version name, dates and description
+   * @returns The created version
+   */
+  async createVersion(input: CreateVersionInput): Promise<JiraVersion> {
+    const project = await this.getProject(input.projectKey);
+
+    const raw = await this.request<Parameters<typeof mapVersion>[0]>("POST", "/version", {
+      body: {
+        projectId: Number(project.id),
+        name: input.name,
+        description: input.description,
+        startDate: input.startDate,
+        releaseDate: input.releaseDate,
+      },
+    });
+
+    return mapVersion(raw);
+  }
+
+  /**
+   * Marks a version as released, optionally moving its unresolved issues
+   * to another version.
+   *
+   * @param input - Version, release date and target version
+   * @returns The released version
+   */
+  async releaseVersion(input: ReleaseVersionInput): Promise<JiraVersion> {
+    const moveUnfixedIssuesTo = input.moveUnresolvedToId
+      ? await this.getVersionSelf(input.moveUnresolvedToId)
+      : undefined;
+
+    try {
+      const raw = await this.request<Parameters<typeof mapVersion>[0]>(
+        "PUT",
+        `/version/${input.versionId}`,
+        {
+          body: {
+            released: true,
+            releaseDate: input.releaseDate,
+            moveUnfixedIssuesTo,
+          },
+        }
+      );
+
+      return mapVersion(raw);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraVersionNotFoundError(input.versionId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the self URL of a version, which Jira uses to reference versions
+   * in some request bodies.
+   */
+  private async getVersionSelf(versionId: string): Promise<string> {
+    try {
+      return (await this.request<{ self: string }>("GET", `/version/${versionId}`)).self;
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraVersionNotFoundError(versionId);
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Component Operations
+  // ============================================================================
+
+  /**
+   * Gets all components of a project with their leads and default assignees.
+   *
+   * @param projectKey - The project key
+   * @returns Components of the project
+   */
+  async getComponents(projectKey: string): Promise<JiraComponent[]> {
+    try {
+      const raw = await this.request<Array<Parameters<typeof mapComponent>[0]>>(
+        "GET",
+        `/project/${projectKey}/components`
+      );
+
+      return raw.map(mapComponent);
+    } catch (error) {
+      if (error instanceof JiraApiError && error.statusCode === 404) {
+        throw new JiraProjectNotFoundError(projectKey);
+      }
+      throw error;
+    }
+  }
+
   // ============================================================================
   // Field Discovery Operations
   // ============================================================================
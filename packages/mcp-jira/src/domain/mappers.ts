@@ -15,6 +15,7 @@ import type {
   JiraIssueCompact,
   JiraComment,
   JiraComponent,
+  ComponentAssigneeType,
   JiraSearchResult,
   JiraCommentsResult,
   JiraSprint,
@@ -22,6 +23,7 @@ import type {
   JiraIssueRef,
   JiraIssueLink,
   JiraIssueLinkType,
+  JiraAttachment,
   JiraTransition,
   JiraTransitionsResult,
   JiraBoard,
@@ -33,13 +35,32 @@ import type {
   JiraChangelogEntry,
   JiraChangelogItem,
   JiraChangelogResult,
+  JiraTimeTracking,
+  JiraWorklog,
+  JiraWorklogsResult,
+  CustomFieldAlias,
+  CustomFieldType,
+  CustomFieldValue,
+  JiraWatchers,
+  JiraVotes,
+  JiraVersion,
+  JiraProjectDetails,
+  JiraFieldMeta,
+  JiraIssueTypeStatuses,
+  JiraWorkflow,
 } from "./types.js";
+import { adfToMarkdown } from "./adf.js";
 
 /**
  * Raw API response types (partial, for mapping purposes).
  */
 interface RawUser {
-  accountId: string;
+  /** Cloud user identifier */
+  accountId?: string;
+  /** Server / Data Center username */
+  name?: string;
+  /** Server / Data Center user key */
+  key?: string;
   displayName: string;
   emailAddress?: string;
   avatarUrls?: Record<string, string>;
@@ -81,6 +102,20 @@ interface RawComponent {
   id: string;
   name: string;
   description?: string;
+  lead?: RawUser;
+  assigneeType?: ComponentAssigneeType;
+  /** Effective default assignee (assignee is the configured one) */
+  realAssignee?: RawUser;
+}
+
+interface RawVersion {
+  id: string;
+  name: string;
+  description?: string;
+  released?: boolean;
+  archived?: boolean;
+  startDate?: string;
+  releaseDate?: string;
 }
 
 interface RawComment {
@@ -89,6 +124,7 @@ interface RawComment {
   body: unknown; // Can be string or ADF
   created: string;
   updated: string;
+  visibility?: { type: string; value: string };
 }
 
 interface RawSprint {
@@ -101,6 +137,35 @@ interface RawSprint {
   goal?: string;
 }
 
+interface RawTimeTracking {
+  originalEstimateSeconds?: number;
+  remainingEstimateSeconds?: number;
+  timeSpentSeconds?: number;
+}
+
+/**
+ * Raw attachment from API.
+ */
+interface RawAttachment {
+  id: string | number;
+  filename: string;
+  mimeType?: string;
+  size: number;
+  created: string;
+  author?: RawUser;
+}
+
+interface RawWorklog {
+  id: string;
+  issueId?: string;
+  author: RawUser;
+  comment?: unknown; // Can be string or ADF
+  started: string;
+  timeSpentSeconds: number;
+  created: string;
+  updated: string;
+}
+
 interface RawIssue {
   id: string;
   key: string;
@@ -116,8 +181,11 @@ interface RawIssue {
     reporter?: RawUser;
     created: string;
     updated: string;
+    resolutiondate?: string | null;
     labels?: string[];
     components?: RawComponent[];
+    fixVersions?: RawVersion[];
+    timetracking?: RawTimeTracking;
     // Custom fields - index signature for dynamic field names
     [key: string]: unknown;
   };
@@ -196,6 +264,9 @@ interface RawIssueExtended extends RawIssue {
     parent?: RawParent;
     subtasks?: RawSubtask[];
     issuelinks?: RawIssueLink[];
+    attachment?: RawAttachment[];
+    votes?: { votes?: number };
+    watches?: { watchCount?: number };
   };
 }
 
@@ -204,7 +275,8 @@ interface RawIssueExtended extends RawIssue {
  */
 export function mapUser(raw: RawUser): JiraUser {
   return {
-    accountId: raw.accountId,
+    // Server / Data Center has no accountId; the username identifies the user
+    accountId: raw.accountId ?? raw.name ?? raw.key ?? "",
     displayName: raw.displayName,
     emailAddress: raw.emailAddress,
     avatarUrl: raw.avatarUrls?.["48x48"] ?? raw.avatarUrls?.["32x32"],
@@ -274,6 +346,24 @@ export function mapComponent(raw: RawComponent): JiraComponent {
     id: raw.id,
     name: raw.name,
     description: raw.description,
+    lead: raw.lead ? mapUser(raw.lead) : undefined,
+    assigneeType: raw.assigneeType,
+    defaultAssignee: raw.realAssignee ? mapUser(raw.realAssignee) : undefined,
+  };
+}
+
+/**
+ * Maps a raw version to domain version.
+ */
+export function mapVersion(raw: RawVersion): JiraVersion {
+  return {
+    id: raw.id,
+    name: raw.name,
+    description: raw.description,
+    released: raw.released ?? false,
+    archived: raw.archived ?? false,
+    startDate: raw.startDate,
+    releaseDate: raw.releaseDate,
   };
 }
 
@@ -338,6 +428,51 @@ export function extractStoryPoints(
   return undefined;
 }
 
+/**
+ * Parses a legacy sprint string as returned by Jira Server / Data Center, e.g.
+ * "com.atlassian.greenhopper.service.sprint.Sprint@1a2b[id=12,rapidViewId=3,state=ACTIVE,name=Sprint 4,startDate=...,endDate=...,completeDate=<null>,...]"
+ */
+export function parseLegacySprintString(value: string): RawSprint | undefined {
+  const match = /\[(.*)\]\s*$/.exec(value);
+  if (!match?.[1]) {
+    return undefined;
+  }
+
+  const attributes = new Map<string, string>();
+  // Values may contain commas (sprint names), so split only before "key="
+  for (const part of match[1].split(/,(?=[A-Za-z]+=)/)) {
+    const separator = part.indexOf("=");
+    if (separator > 0) {
+      const attrValue = part.slice(separator + 1);
+      if (attrValue !== "<null>" && attrValue !== "") {
+        attributes.set(part.slice(0, separator), attrValue);
+      }
+    }
+  }
+
+  const id = Number(attributes.get("id"));
+  const name = attributes.get("name");
+  if (!Number.isFinite(id) || !name) {
+    return undefined;
+  }
+
+  const sprint: RawSprint = {
+    id,
+    name,
+    state: (attributes.get("state") ?? "future").toLowerCase(),
+  };
+  const startDate = attributes.get("startDate");
+  const endDate = attributes.get("endDate");
+  const completeDate = attributes.get("completeDate");
+  const goal = attributes.get("goal");
+  if (startDate) sprint.startDate = startDate;
+  if (endDate) sprint.endDate = endDate;
+  if (completeDate) sprint.completeDate = completeDate;
+  if (goal) sprint.goal = goal;
+
+  return sprint;
+}
+
 /**
  * Extracts sprint data from custom fields.
  * Tries multiple field IDs.
@@ -356,9 +491,10 @@ export function extractSprints(
   for (const fieldId of candidates) {
     const value = fields[fieldId];
     if (Array.isArray(value) && value.length > 0) {
-      // Sprint field is an array of sprint objects
+      // Sprint field is an array of sprint objects (Cloud) or legacy sprint strings (Data Center)
       const sprints = value
-        .filter((s): s is RawSprint => s && typeof s === "object" && "id" in s && "name" in s)
+        .map((s: unknown) => (typeof s === "string" ? parseLegacySprintString(s) : s))
+        .filter((s): s is RawSprint => !!s && typeof s === "object" && "id" in s && "name" in s)
         .map(mapSprint);
 
       if (sprints.length === 0) {
@@ -376,7 +512,28 @@ export function extractSprints(
 }
 
 /**
- * Extracts plain text from Jira content (handles ADF and plain text).
+ * Extracts time tracking from the timetracking field, falling back to the
+ * flat timeoriginalestimate / timeestimate / timespent fields.
+ *
+ * @returns Time tracking in seconds, or undefined when nothing is tracked
+ */
+export function extractTimeTracking(fields: Record<string, unknown>): JiraTimeTracking | undefined {
+  const tracking = (fields["timetracking"] ?? {}) as RawTimeTracking;
+  const seconds = (value: unknown): number | undefined =>
+    typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+  const result: JiraTimeTracking = {
+    originalEstimateSeconds: seconds(tracking.originalEstimateSeconds ?? fields["timeoriginalestimate"]),
+    remainingEstimateSeconds: seconds(tracking.remainingEstimateSeconds ?? fields["timeestimate"]),
+    timeSpentSeconds: seconds(tracking.timeSpentSeconds ?? fields["timespent"]),
+  };
+
+  return Object.values(result).some((value) => value !== undefined) ? result : undefined;
+}
+
+/**
+ * Extracts text from Jira rich text content.
+ * ADF (Cloud) is converted to Markdown; Data Center returns plain text.
  */
 function extractTextContent(content: unknown): string | undefined {
   if (content === null || content === undefined) {
@@ -387,29 +544,79 @@ function extractTextContent(content: unknown): string | undefined {
     return content;
   }
 
-  // Handle Atlassian Document Format (ADF)
-  if (typeof content === "object" && "content" in content) {
-    const adf = content as { content?: Array<{ content?: Array<{ text?: string }> }> };
-    const texts: string[] = [];
+  return adfToMarkdown(content) || undefined;
+}
 
-    for (const block of adf.content ?? []) {
-      for (const inline of block.content ?? []) {
-        if (inline.text) {
-          texts.push(inline.text);
-        }
-      }
+/**
+ * Option or user object names, as found in select and user field values.
+ */
+function optionName(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+  const option = value as Record<string, unknown>;
+  const name = option["value"] ?? option["displayName"] ?? option["name"];
+  return typeof name === "string" ? name : undefined;
+}
+
+/**
+ * Reads a custom field value as the alias type describes it.
+ */
+function readCustomFieldValue(type: CustomFieldType, value: unknown): CustomFieldValue | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+
+  switch (type) {
+    case "number":
+      return typeof value === "number" && !isNaN(value) ? value : undefined;
+    case "text":
+      return extractTextContent(value);
+    case "multi-select": {
+      const values = (Array.isArray(value) ? value : [value])
+        .map(optionName)
+        .filter((name): name is string => name !== undefined);
+      return values.length > 0 ? values : undefined;
     }
+    case "select":
+    case "user":
+    case "date":
+      return optionName(value);
+  }
+}
 
-    return texts.join("\n") || undefined;
+/**
+ * Extracts the values of configured custom field aliases.
+ * Unset fields are left out.
+ *
+ * @returns Values keyed by alias name, or undefined if none is set
+ */
+export function extractCustomFields(
+  fields: Record<string, unknown>,
+  aliases: readonly CustomFieldAlias[]
+): Record<string, CustomFieldValue> | undefined {
+  const result: Record<string, CustomFieldValue> = {};
+
+  for (const alias of aliases) {
+    const value = readCustomFieldValue(alias.type, fields[alias.id]);
+    if (value !== undefined) {
+      result[alias.name] = value;
+    }
   }
 
-  return undefined;
+  return Object.keys(result).length > 0 ? result : undefined;
 }
 
 /**
  * Maps a raw issue to domain issue.
+ *
+ * @param raw - The raw issue
+ * @param customFields - Custom field aliases to read (default: none)
  */
-export function mapIssue(raw: RawIssue): JiraIssue {
+export function mapIssue(raw: RawIssue, customFields: readonly CustomFieldAlias[] = []): JiraIssue {
   const fields = raw.fields;
   const storyPoints = extractStoryPoints(fields);
   const { sprint, sprints } = extractSprints(fields);
@@ -428,11 +635,15 @@ export function mapIssue(raw: RawIssue): JiraIssue {
     reporter: fields.reporter ? mapUser(fields.reporter) : undefined,
     created: fields.created,
     updated: fields.updated,
+    resolutionDate: fields.resolutiondate ?? undefined,
     labels: fields.labels ?? [],
     components: (fields.components ?? []).map(mapComponent),
+    fixVersions: (fields.fixVersions ?? []).map(mapVersion),
     storyPoints,
     sprint,
     sprints,
+    timeTracking: extractTimeTracking(fields),
+    customFields: extractCustomFields(fields, customFields),
   };
 }
 
@@ -465,6 +676,10 @@ export function mapComment(raw: RawComment): JiraComment {
     body: extractTextContent(raw.body) ?? "",
     created: raw.created,
     updated: raw.updated,
+    visibility:
+      raw.visibility && (raw.visibility.type === "role" || raw.visibility.type === "group")
+        ? { type: raw.visibility.type, value: raw.visibility.value }
+        : undefined,
   };
 }
 
@@ -474,18 +689,21 @@ export function mapComment(raw: RawComment): JiraComment {
  * Supports both the old format (startAt, maxResults, total) and the new
  * Jira Cloud API v3 format (nextPageToken, isLast).
  */
-export function mapSearchResult(raw: {
-  issues: RawIssue[];
-  // Old format fields (deprecated in new API)
-  startAt?: number;
-  maxResults?: number;
-  total?: number;
-  // New format fields (Jira Cloud API v3 2024+)
-  nextPageToken?: string;
-  isLast?: boolean;
-}): JiraSearchResult {
-  return {
-    issues: raw.issues.map(mapIssue),
+export function mapSearchResult(
+  raw: {
+    issues: RawIssue[];
+    // Old format fields (deprecated in new API)
+    startAt?: number;
+    maxResults?: number;
+    total?: number;
+    // New format fields (Jira Cloud API v3 2024+)
+    nextPageToken?: string;
+    isLast?: boolean;
+  },
+  customFields: readonly CustomFieldAlias[] = []
+): JiraSearchResult {
+  return {
+    issues: raw.issues.map((issue) => mapIssue(issue, customFields)),
     startAt: raw.startAt ?? 0,
     maxResults: raw.maxResults ?? raw.issues.length,
     total: raw.total ?? -1, // -1 indicates total is unknown (new API doesn't provide it)
@@ -562,7 +780,7 @@ function mapSubtaskRef(raw: RawSubtask): JiraIssueRef {
 /**
  * Maps a raw issue link type to domain link type.
  */
-function mapIssueLinkType(raw: RawIssueLinkType): JiraIssueLinkType {
+export function mapIssueLinkType(raw: RawIssueLinkType): JiraIssueLinkType {
   return {
     id: raw.id,
     name: raw.name,
@@ -601,8 +819,11 @@ export function mapIssueLink(raw: RawIssueLink): JiraIssueLink | null {
 /**
  * Maps a raw extended issue to domain extended issue.
  */
-export function mapIssueExtended(raw: RawIssueExtended): JiraIssueExtended {
-  const baseIssue = mapIssue(raw);
+export function mapIssueExtended(
+  raw: RawIssueExtended,
+  customFields: readonly CustomFieldAlias[] = []
+): JiraIssueExtended {
+  const baseIssue = mapIssue(raw, customFields);
   const fields = raw.fields;
 
   // Map parent if present
@@ -621,6 +842,23 @@ export function mapIssueExtended(raw: RawIssueExtended): JiraIssueExtended {
     parent,
     subtasks,
     issueLinks,
+    attachments: (fields.attachment ?? []).map(mapAttachment),
+    votes: fields.votes?.votes,
+    watchCount: fields.watches?.watchCount,
+  };
+}
+
+/**
+ * Maps a raw attachment to domain attachment.
+ */
+export function mapAttachment(raw: RawAttachment): JiraAttachment {
+  return {
+    id: String(raw.id),
+    filename: raw.filename,
+    mimeType: raw.mimeType ?? "application/octet-stream",
+    size: raw.size,
+    created: raw.created,
+    author: raw.author ? mapUser(raw.author) : undefined,
   };
 }
 
@@ -667,42 +905,6 @@ export function mapTransitionsResult(raw: {
   };
 }
 
-/**
- * Converts plain text to Atlassian Document Format (ADF).
- * This is the format required by Jira API v3 for description fields.
- */
-export function textToAdf(text: string): object {
-  // Split text into paragraphs by double newlines
-  const paragraphs = text.split(/\n\n+/).filter((p) => p.trim());
-
-  const content = paragraphs.map((paragraph) => {
-    // Handle single newlines within a paragraph as hard breaks
-    const lines = paragraph.split(/\n/);
-    const inlineContent: Array<{ type: string; text?: string }> = [];
-
-    lines.forEach((line, index) => {
-      if (line.trim()) {
-        inlineContent.push({ type: "text", text: line });
-      }
-      // Add hardBreak between lines (but not after the last line)
-      if (index < lines.length - 1) {
-        inlineContent.push({ type: "hardBreak" });
-      }
-    });
-
-    return {
-      type: "paragraph",
-      content: inlineContent.filter((item) => item.type === "hardBreak" || item.text),
-    };
-  });
-
-  return {
-    type: "doc",
-    version: 1,
-    content: content.length > 0 ? content : [{ type: "paragraph", content: [] }],
-  };
-}
-
 // ============================================================================
 // Board and Sprint Mappers (Agile API)
 // ============================================================================
@@ -839,6 +1041,16 @@ export function mapSprintsResult(raw: {
   };
 }
 
+/**
+ * Maps a raw sprint report to the keys of the issues removed from the
+ * sprint before it was completed.
+ */
+export function mapSprintRemovedIssueKeys(raw: {
+  contents?: { puntedIssues?: Array<{ key?: string }> };
+}): string[] {
+  return (raw.contents?.puntedIssues ?? []).flatMap((issue) => (issue.key ? [issue.key] : []));
+}
+
 // ============================================================================
 // Changelog Mappers
 // ============================================================================
@@ -859,7 +1071,7 @@ interface RawChangelogItem {
 /**
  * Raw changelog entry (history) from Jira API.
  */
-interface RawChangelogEntry {
+export interface RawChangelogEntry {
   id: string;
   author: RawUser;
   created: string;
@@ -909,3 +1121,171 @@ export function mapChangelogResult(raw: {
     total: raw.total,
   };
 }
+
+/**
+ * Maps a raw worklog to domain worklog.
+ */
+export function mapWorklog(raw: RawWorklog): JiraWorklog {
+  return {
+    id: raw.id,
+    issueId: raw.issueId,
+    author: mapUser(raw.author),
+    comment: extractTextContent(raw.comment),
+    started: raw.started,
+    timeSpentSeconds: raw.timeSpentSeconds,
+    created: raw.created,
+    updated: raw.updated,
+  };
+}
+
+/**
+ * Maps a raw worklogs response to domain worklogs result.
+ */
+export function mapWorklogsResult(raw: {
+  worklogs: RawWorklog[];
+  startAt: number;
+  maxResults: number;
+  total: number;
+}): JiraWorklogsResult {
+  return {
+    worklogs: raw.worklogs.map(mapWorklog),
+    startAt: raw.startAt,
+    maxResults: raw.maxResults,
+    total: raw.total,
+  };
+}
+
+// ============================================================================
+// Watcher and Vote Mappers
+// ============================================================================
+
+/**
+ * Maps a raw watchers response to domain watchers.
+ */
+export function mapWatchers(raw: {
+  watchCount?: number;
+  isWatching?: boolean;
+  watchers?: RawUser[];
+}): JiraWatchers {
+  const watchers = (raw.watchers ?? []).map(mapUser);
+
+  return {
+    watchCount: raw.watchCount ?? watchers.length,
+    isWatching: raw.isWatching ?? false,
+    watchers,
+  };
+}
+
+/**
+ * Maps a raw votes response to domain votes.
+ */
+export function mapVotes(raw: {
+  votes?: number;
+  hasVoted?: boolean;
+  voters?: RawUser[];
+}): JiraVotes {
+  return {
+    votes: raw.votes ?? 0,
+    hasVoted: raw.hasVoted ?? false,
+    voters: (raw.voters ?? []).map(mapUser),
+  };
+}
+
+// ============================================================================
+// Project Metadata Mappers
+// ============================================================================
+
+/**
+ * Maps a raw project (GET /project/{key}) to domain project details.
+ */
+export function mapProjectDetails(
+  raw: RawProject & {
+    lead?: RawUser;
+    issueTypes?: RawIssueType[];
+    components?: RawComponent[];
+    versions?: RawVersion[];
+  }
+): JiraProjectDetails {
+  return {
+    ...mapProject(raw),
+    lead: raw.lead ? mapUser(raw.lead) : undefined,
+    issueTypes: (raw.issueTypes ?? []).map(mapIssueType),
+    components: (raw.components ?? []).map(mapComponent),
+    versions: (raw.versions ?? []).map(mapVersion),
+  };
+}
+
+/**
+ * Maps a raw create-meta or edit-meta field to domain field metadata.
+ */
+export function mapFieldMeta(raw: {
+  fieldId: string;
+  name: string;
+  required?: boolean;
+  hasDefaultValue?: boolean;
+  schema?: { type?: string };
+  allowedValues?: unknown[];
+}): JiraFieldMeta {
+  const allowedValues = raw.allowedValues
+    ?.map(optionName)
+    .filter((value): value is string => value !== undefined);
+
+  return {
+    id: raw.fieldId,
+    name: raw.name,
+    required: raw.required ?? false,
+    hasDefaultValue: raw.hasDefaultValue ?? false,
+    schemaType: raw.schema?.type,
+    allowedValues: allowedValues && allowedValues.length > 0 ? allowedValues : undefined,
+  };
+}
+
+/**
+ * Maps a raw project statuses entry (GET /project/{key}/statuses).
+ */
+export function mapIssueTypeStatuses(raw: {
+  id: string;
+  name: string;
+  subtask?: boolean;
+  statuses?: RawStatus[];
+}): JiraIssueTypeStatuses {
+  return {
+    issueTypeId: raw.id,
+    issueTypeName: raw.name,
+    subtask: raw.subtask ?? false,
+    statuses: (raw.statuses ?? []).map(mapStatus),
+  };
+}
+
+/**
+ * Maps a raw workflow (GET /workflow/search with transitions and statuses)
+ * to a domain workflow graph with status names.
+ */
+export function mapWorkflow(
+  raw: {
+    id: { name: string };
+    statuses?: Array<{ id: string; name: string }>;
+    transitions?: Array<{ id: string; name: string; from?: string[]; to?: string; type?: string }>;
+  },
+  issueTypeIds: readonly string[],
+  isDefault: boolean
+): JiraWorkflow {
+  const statusNames = new Map((raw.statuses ?? []).map((status) => [status.id, status.name]));
+  const statusName = (id: string): string => statusNames.get(id) ?? id;
+
+  return {
+    name: raw.id.name,
+    issueTypeIds,
+    isDefault,
+    statuses: [...statusNames.values()],
+    transitions: (raw.transitions ?? [])
+      // The initial transition creates the issue and cannot be used afterwards
+      .filter((transition) => transition.type !== "initial" && transition.to !== undefined)
+      .map((transition) => ({
+        id: transition.id,
+        name: transition.name,
+        from: (transition.from ?? []).map(statusName),
+        to: statusName(transition.to ?? ""),
+      })),
+  };
+}
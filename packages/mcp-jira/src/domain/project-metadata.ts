@@ -0,0 +1,75 @@
+/**
+ * Project Metadata Checks
+ *
+ * Helpers for checking issue write input against a project's create or
+ * edit metadata, so that unknown issue types, priorities or missing fields
+ * are reported with the valid values instead of an opaque 400 from Jira.
+ */
+
+import type { JiraFieldMeta } from "./types.js";
+
+/**
+ * Fields Jira fills in itself even when they are required without a default.
+ */
+const IMPLICIT_FIELDS: ReadonlySet<string> = new Set(["reporter"]);
+
+/**
+ * Finds a value by name (case-insensitive).
+ */
+export function findByName<T extends { readonly name: string }>(
+  values: readonly T[],
+  name: string
+): T | undefined {
+  const wanted = name.trim().toLowerCase();
+  return values.find((value) => value.name.toLowerCase() === wanted);
+}
+
+/**
+ * Describes a value that is not among the valid values.
+ */
+export function describeInvalidValue(
+  value: string,
+  what: string,
+  validValues: readonly string[]
+): string {
+  return `'${value}' is not a valid ${what}. Valid values: ${validValues.join(", ")}`;
+}
+
+/**
+ * Checks a value against a field's allowed values (case-insensitive).
+ *
+ * @returns A description of the problem, or undefined if the value is allowed
+ *   or the field has no fixed set of values
+ */
+export function checkAllowedValue(
+  field: JiraFieldMeta,
+  value: string
+): string | undefined {
+  if (!field.allowedValues) {
+    return undefined;
+  }
+  const wanted = value.trim().toLowerCase();
+
+  return field.allowedValues.some((allowed) => allowed.toLowerCase() === wanted)
+    ? undefined
+    : describeInvalidValue(value, field.name.toLowerCase(), field.allowedValues);
+}
+
+/**
+ * Finds required fields without a default value that are not provided.
+ *
+ * @param fields - Create screen fields of the issue type
+ * @param providedFieldIds - IDs of the fields the input sets
+ */
+export function findMissingRequiredFields(
+  fields: readonly JiraFieldMeta[],
+  providedFieldIds: ReadonlySet<string>
+): JiraFieldMeta[] {
+  return fields.filter(
+    (field) =>
+      field.required &&
+      !field.hasDefaultValue &&
+      !providedFieldIds.has(field.id) &&
+      !IMPLICIT_FIELDS.has(field.id)
+  );
+}
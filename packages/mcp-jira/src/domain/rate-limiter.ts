@@ -0,0 +1,290 @@
+/**
+ * Rate Limiter
+ *
+ * Client-side throttling for Jira API requests: a token bucket bounds the
+ * request rate, a max-in-flight limit bounds concurrency, and Retry-After /
+ * X-RateLimit-* headers pause all requests until Jira accepts them again.
+ *
+ * Requests are queued by priority. Interactive requests (e.g. get_issue)
+ * are always dispatched before bulk analysis requests, and one in-flight
+ * slot is kept free for them, so long analysis jobs cannot starve them.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Request priority.
+ */
+export type RequestPriority = "interactive" | "bulk";
+
+/**
+ * Default sustained request rate (requests per second).
+ */
+export const DEFAULT_REQUESTS_PER_SECOND = 10;
+
+/**
+ * Default burst size (token bucket capacity).
+ */
+export const DEFAULT_BURST = 20;
+
+/**
+ * Default maximum number of concurrent requests.
+ */
+export const DEFAULT_MAX_IN_FLIGHT = 4;
+
+/**
+ * Options for creating a rate limiter.
+ */
+export interface RateLimiterOptions {
+  /** Sustained rate; 0 disables the token bucket */
+  requestsPerSecond?: number;
+  burst?: number;
+  maxInFlight?: number;
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+/**
+ * Releases an acquired request slot. Safe to call more than once.
+ */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+  resolve: (release: ReleaseSlot) => void;
+}
+
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+
+/**
+ * Runs an operation with the given priority for all Jira requests it makes.
+ */
+export function withRequestPriority<T>(priority: RequestPriority, operation: () => Promise<T>): Promise<T> {
+  return priorityContext.run(priority, operation);
+}
+
+/**
+ * Gets the priority of the current operation (default: interactive).
+ */
+export function getRequestPriority(): RequestPriority {
+  return priorityContext.getStore() ?? "interactive";
+}
+
+/**
+ * Runs a task for each item with at most `limit` tasks in flight.
+ * Results are returned in the order of the items.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Parses how long to wait before retrying from rate limit headers.
+ * Supports Retry-After (seconds or HTTP date) and X-RateLimit-Reset
+ * (ISO date or epoch seconds).
+ *
+ * @returns Delay in milliseconds, or undefined when no header applies
+ */
+export function parseRetryDelay(headers: Headers, now: number = Date.now()): number | undefined {
+  const retryAfter = headers.get("Retry-After");
+
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = headers.get("X-RateLimit-Reset");
+
+  if (reset) {
+    const epochSeconds = Number(reset);
+    const resetAt = Number.isFinite(epochSeconds) ? epochSeconds * 1000 : Date.parse(reset);
+    if (!Number.isNaN(resetAt)) {
+      return Math.max(0, resetAt - now);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Token bucket rate limiter with a concurrency cap and priority queue.
+ */
+export class RateLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly maxInFlight: number;
+  private readonly now: () => number;
+  private readonly queues: Record<RequestPriority, Waiter[]> = { interactive: [], bulk: [] };
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight: Record<RequestPriority, number> = { interactive: 0, bulk: 0 };
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.requestsPerSecond = Math.max(0, options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND);
+    this.burst = Math.max(1, options.burst ?? DEFAULT_BURST);
+    this.maxInFlight = Math.max(1, options.maxInFlight ?? DEFAULT_MAX_IN_FLIGHT);
+    this.now = options.now ?? Date.now;
+    this.tokens = this.burst;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * Waits for a request slot.
+   *
+   * @param priority - Request priority (default: priority of the current operation)
+   * @returns Function that releases the slot when the request finished
+   */
+  acquire(priority: RequestPriority = getRequestPriority()): Promise<ReleaseSlot> {
+    return new Promise((resolve) => {
+      this.queues[priority].push({ resolve });
+      this.drain();
+    });
+  }
+
+  /**
+   * Stops dispatching requests for the given duration (e.g. after a 429).
+   * A longer pause already in effect is kept.
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+
+  /**
+   * Pauses dispatching when a response reports the rate limit as exhausted.
+   */
+  observe(headers: Headers): void {
+    if (headers.get("X-RateLimit-Remaining") !== "0") {
+      return;
+    }
+    const delay = parseRetryDelay(headers, this.now());
+    if (delay !== undefined) {
+      this.pauseFor(delay);
+    }
+  }
+
+  /**
+   * Bulk requests leave one slot free for interactive requests.
+   */
+  private get bulkLimit(): number {
+    return Math.max(1, this.maxInFlight - 1);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    if (this.requestsPerSecond > 0) {
+      const elapsed = (now - this.lastRefill) / 1000;
+      this.tokens = Math.min(this.burst, this.tokens + elapsed * this.requestsPerSecond);
+    }
+    this.lastRefill = now;
+  }
+
+  private nextPriority(): RequestPriority | undefined {
+    const total = this.inFlight.interactive + this.inFlight.bulk;
+    if (total >= this.maxInFlight) {
+      return undefined;
+    }
+    if (this.queues.interactive.length > 0) {
+      return "interactive";
+    }
+    if (this.queues.bulk.length > 0 && this.inFlight.bulk < this.bulkLimit) {
+      return "bulk";
+    }
+    return undefined;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    for (;;) {
+      const priority = this.nextPriority();
+      if (!priority) {
+        return;
+      }
+
+      const now = this.now();
+      if (now < this.pausedUntil) {
+        this.wakeAfter(this.pausedUntil - now);
+        return;
+      }
+
+      if (this.requestsPerSecond > 0 && this.tokens < 1) {
+        this.wakeAfter(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+        return;
+      }
+
+      const waiter = this.queues[priority].shift();
+      if (!waiter) {
+        return;
+      }
+
+      if (this.requestsPerSecond > 0) {
+        this.tokens -= 1;
+      }
+      this.inFlight[priority]++;
+      waiter.resolve(this.createRelease(priority));
+    }
+  }
+
+  private createRelease(priority: RequestPriority): ReleaseSlot {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.inFlight[priority]--;
+      this.drain();
+    };
+  }
+
+  private wakeAfter(ms: number): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.ceil(ms));
+  }
+}
+
+/**
+ * Creates the limiter for a client from environment variables:
+ * JIRA_MCP_RATE_LIMIT (requests per second, 0 disables), JIRA_MCP_RATE_BURST
+ * and JIRA_MCP_MAX_IN_FLIGHT.
+ */
+export function createDefaultRateLimiter(): RateLimiter {
+  const readNumber = (name: string, fallback: number, min: number): number => {
+    const raw = process.env[name];
+    const value = raw === undefined || raw === "" ? NaN : Number(raw);
+    return Number.isFinite(value) && value >= min ? value : fallback;
+  };
+
+  return new RateLimiter({
+    requestsPerSecond: readNumber("JIRA_MCP_RATE_LIMIT", DEFAULT_REQUESTS_PER_SECOND, 0),
+    burst: readNumber("JIRA_MCP_RATE_BURST", DEFAULT_BURST, 1),
+    maxInFlight: readNumber("JIRA_MCP_MAX_IN_FLIGHT", DEFAULT_MAX_IN_FLIGHT, 1),
+  });
+}
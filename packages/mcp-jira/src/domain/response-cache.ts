@@ -0,0 +1,629 @@
+/**
+ * Response Cache
+ *
+ * In-memory cache for Jira API read responses, consulted by
+ * JiraClient.request. Entries are keyed on method + path + query params
+ * (plus the body for search POSTs) and expire per resource kind: closed
+ * sprints are effectively immutable, while the active sprint changes all
+ * the time.
+ *
+ * Successful writes invalidate the entries they affect (write-through),
+ * and expired entries that carry an ETag are revalidated with
+ * If-None-Match instead of being downloaded again.
+ */
+
+/**
+ * Resource kinds with their own time-to-live.
+ */
+export type CacheResource =
+  | "closed-sprint"
+  | "active-sprint"
+  | "issue"
+  | "board"
+  | "metadata";
+
+/**
+ * Time-to-live in seconds per resource kind.
+ */
+export type CacheTtls = Record<CacheResource, number>;
+
+/**
+ * Default time-to-live per resource kind (seconds).
+ */
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  "closed-sprint": 12 * 60 * 60,
+  "active-sprint": 30,
+  issue: 60,
+  board: 10 * 60,
+  metadata: 60 * 60,
+};
+
+/**
+ * Default maximum number of cached responses per client.
+ */
+export const DEFAULT_CACHE_MAX_ENTRIES = 200;
+
+const CACHE_RESOURCES = Object.keys(DEFAULT_CACHE_TTLS) as CacheResource[];
+
+/**
+ * A Jira API request as seen by the cache.
+ */
+export interface CacheRequest {
+  method: string;
+  /** API family ("rest" or "agile") */
+  api: string;
+  /** Path below the API base, e.g. "/issue/PROJ-1" */
+  path: string;
+  params?: Record<string, string | number | undefined> | undefined;
+  body?: unknown;
+}
+
+/**
+ * Cached response returned by a lookup.
+ */
+export interface CachedResponse {
+  value: unknown;
+  /** false when the entry expired and must be revalidated with its ETag */
+  fresh: boolean;
+  etag: string | undefined;
+}
+
+/**
+ * Statistics for one resource kind.
+ */
+export interface CacheResourceStats {
+  ttlSeconds: number;
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cache statistics exposed by the diagnostic tool.
+ */
+export interface ResponseCacheStats {
+  enabled: boolean;
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  /** Expired entries confirmed unchanged by a 304 response */
+  revalidations: number;
+  stores: number;
+  /** Entries removed by writes or explicit clears */
+  invalidations: number;
+  /** Entries dropped to stay within maxEntries */
+  evictions: number;
+  hitRate: number;
+  byResource: Record<CacheResource, CacheResourceStats>;
+}
+
+/**
+ * Options for creating a response cache.
+ */
+export interface ResponseCacheOptions {
+  enabled?: boolean;
+  maxEntries?: number;
+  ttls?: Partial<CacheTtls>;
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  resource: CacheResource;
+  tags: ReadonlySet<string>;
+  etag: string | undefined;
+  expiresAt: number;
+}
+
+/**
+ * Classification of a cacheable response.
+ */
+interface ReadClassification {
+  resource: CacheResource;
+  tags: string[];
+}
+
+/**
+ * Rule for a cacheable read endpoint.
+ * Sprint states learned from responses let later rules pick the closed-sprint TTL.
+ */
+interface ReadRule {
+  api: string;
+  method: string;
+  pattern: RegExp;
+  classify: (
+    match: RegExpMatchArray,
+    request: CacheRequest,
+    value: unknown,
+    sprintStates: Map<number, string>
+  ) => ReadClassification;
+}
+
+/**
+ * Tag shared by every result whose membership can change when any issue changes.
+ */
+const SEARCH_TAG = "search";
+
+/**
+ * Tag shared by closedSprints() searches, whose membership changes when a sprint closes.
+ */
+const CLOSED_SPRINTS_TAG = "closed-sprints";
+
+/**
+ * Tag shared by board sprint lists.
+ */
+const SPRINT_LIST_TAG = "sprints";
+
+const ISSUE_PATH = /^\/issue\/([A-Z][A-Z0-9]*-\d+|\d+)(?:\/|$)/i;
+
+function issueTag(key: string): string {
+  return `issue:${key.toUpperCase()}`;
+}
+
+function sprintTag(sprintId: number | string): string {
+  return `sprint:${sprintId}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Collects issue tags from a single issue or a list of issues in a response.
+ */
+function collectIssueTags(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return [];
+  }
+  const issues = Array.isArray(value["issues"]) ? (value["issues"] as unknown[]) : [value];
+
+  return issues.flatMap((issue) =>
+    isRecord(issue) && typeof issue["key"] === "string" ? [issueTag(issue["key"])] : []
+  );
+}
+
+/**
+ * Records sprint states found in a sprint or sprint list response.
+ */
+function learnSprintStates(value: unknown, sprintStates: Map<number, string>): void {
+  if (!isRecord(value)) {
+    return;
+  }
+  const sprints = Array.isArray(value["values"]) ? (value["values"] as unknown[]) : [value];
+
+  for (const sprint of sprints) {
+    if (isRecord(sprint) && typeof sprint["id"] === "number" && typeof sprint["state"] === "string") {
+      sprintStates.set(sprint["id"], sprint["state"].toLowerCase());
+    }
+  }
+}
+
+/**
+ * Classifies a JQL search by the sprints it targets.
+ */
+function classifySearch(request: CacheRequest, value: unknown): ReadClassification {
+  const jql = isRecord(request.body) && typeof request.body["jql"] === "string"
+    ? request.body["jql"]
+    : "";
+  const issueTags = collectIssueTags(value);
+
+  if (/closedSprints\s*\(/i.test(jql) && !/(open|future)Sprints\s*\(/i.test(jql)) {
+    return { resource: "closed-sprint", tags: [CLOSED_SPRINTS_TAG, ...issueTags] };
+  }
+  if (/openSprints\s*\(/i.test(jql)) {
+    return { resource: "active-sprint", tags: [SEARCH_TAG, ...issueTags] };
+  }
+  return { resource: "issue", tags: [SEARCH_TAG, ...issueTags] };
+}
+
+/**
+ * Cacheable read endpoints.
+ */
+const READ_RULES: readonly ReadRule[] = [
+  {
+    api: "rest",
+    method: "POST",
+    pattern: /^\/search(?:\/jql)?$/,
+    classify: (_match, request, value) => classifySearch(request, value),
+  },
+  {
+    api: "rest",
+    method: "GET",
+    pattern: ISSUE_PATH,
+    classify: (match, _request, value) => ({
+      resource: "issue",
+      tags: [issueTag(match[1] ?? ""), ...collectIssueTags(value)],
+    }),
+  },
+  {
+    api: "rest",
+    method: "GET",
+    pattern: /^\/field$/,
+    classify: () => ({ resource: "metadata", tags: ["fields"] }),
+  },
+  {
+    api: "rest",
+    method: "GET",
+    pattern: /^\/(?:project|issue\/createmeta)\/([A-Z][A-Z0-9]*)(?:\/|$)/i,
+    classify: (match) => ({ resource: "metadata", tags: [`project:${(match[1] ?? "").toUpperCase()}`] }),
+  },
+  {
+    api: "rest",
+    method: "GET",
+    pattern: /^\/(priority|workflowscheme\/project|workflow\/search)$/,
+    classify: (match) => ({ resource: "metadata", tags: [match[1] ?? ""] }),
+  },
+  {
+    api: "agile",
+    method: "GET",
+    pattern: /^\/board(?:\/(\d+))?$/,
+    classify: (match) => ({
+      resource: "board",
+      tags: [match[1] ? `board:${match[1]}` : "boards"],
+    }),
+  },
+  {
+    api: "agile",
+    method: "GET",
+    pattern: /^\/board\/(\d+)\/sprint$/,
+    classify: (match, _request, value, sprintStates) => {
+      learnSprintStates(value, sprintStates);
+      return { resource: "board", tags: [`board:${match[1]}`, SPRINT_LIST_TAG] };
+    },
+  },
+  {
+    api: "agile",
+    method: "GET",
+    pattern: /^\/sprint\/(\d+)$/,
+    classify: (match, _request, value, sprintStates) => {
+      learnSprintStates(value, sprintStates);
+      const state = sprintStates.get(Number(match[1]));
+      const resource: CacheResource =
+        state === "closed" ? "closed-sprint" : state === "active" ? "active-sprint" : "board";
+      return { resource, tags: [sprintTag(match[1] ?? "")] };
+    },
+  },
+  {
+    api: "agile",
+    method: "GET",
+    pattern: /^\/sprint\/(\d+)\/issue$/,
+    classify: (match, _request, value, sprintStates) => {
+      const closed = sprintStates.get(Number(match[1])) === "closed";
+      return {
+        resource: closed ? "closed-sprint" : "active-sprint",
+        tags: [
+          sprintTag(match[1] ?? ""),
+          ...(closed ? [] : [SEARCH_TAG]),
+          ...collectIssueTags(value),
+        ],
+      };
+    },
+  },
+];
+
+/**
+ * Gets the tags invalidated by a successful write.
+ *
+ * @returns Tags to invalidate, or undefined when the whole cache must be cleared
+ */
+function getWriteTags(request: CacheRequest, sprintStates: Map<number, string>): string[] | undefined {
+  if (request.api === "rest") {
+    const issueMatch = request.path.match(ISSUE_PATH);
+    if (issueMatch?.[1]) {
+      return [issueTag(issueMatch[1]), SEARCH_TAG];
+    }
+    if (request.method === "POST" && (request.path === "/issue" || request.path === "/issue/bulk")) {
+      return [SEARCH_TAG];
+    }
+    const body = request.body;
+    if (request.method === "POST" && request.path === "/issueLink" && isRecord(body)) {
+      // Both linked issues change; deleting a link by ID cannot be attributed
+      const keys = [body["inwardIssue"], body["outwardIssue"]]
+        .map((issue) => (isRecord(issue) && typeof issue["key"] === "string" ? issue["key"] : undefined))
+        .filter((key): key is string => key !== undefined);
+      return [...keys.map(issueTag), SEARCH_TAG];
+    }
+    return undefined;
+  }
+
+  const sprintIssues = request.path.match(/^\/sprint\/(\d+)\/issue$/);
+  if (sprintIssues?.[1]) {
+    const moved = isRecord(request.body) && Array.isArray(request.body["issues"])
+      ? (request.body["issues"] as unknown[]).filter((key): key is string => typeof key === "string")
+      : [];
+    return [sprintTag(sprintIssues[1]), SEARCH_TAG, ...moved.map(issueTag)];
+  }
+
+  const sprint = request.path.match(/^\/sprint\/(\d+)$/);
+  if (sprint?.[1]) {
+    // The sprint may have started or closed: its TTL class and closedSprints() results change
+    sprintStates.delete(Number(sprint[1]));
+    return [sprintTag(sprint[1]), SPRINT_LIST_TAG, SEARCH_TAG, CLOSED_SPRINTS_TAG];
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds the cache key for a request.
+ */
+function buildKey(request: CacheRequest): string {
+  const params = Object.entries(request.params ?? {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join("&");
+  const body = request.body === undefined ? "" : ` ${JSON.stringify(request.body)}`;
+
+  return `${request.method} ${request.api}:${request.path}?${params}${body}`;
+}
+
+function createEmptyResourceStats(ttls: CacheTtls): Record<CacheResource, CacheResourceStats> {
+  const stats = {} as Record<CacheResource, CacheResourceStats>;
+  for (const resource of CACHE_RESOURCES) {
+    stats[resource] = { ttlSeconds: ttls[resource], entries: 0, hits: 0, misses: 0 };
+  }
+  return stats;
+}
+
+/**
+ * LRU cache of Jira API responses for one client.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly sprintStates = new Map<number, string>();
+  private readonly enabled: boolean;
+  private readonly maxEntries: number;
+  private readonly ttls: CacheTtls;
+  private readonly now: () => number;
+  private readonly counters = {
+    hits: 0,
+    misses: 0,
+    revalidations: 0,
+    stores: 0,
+    invalidations: 0,
+    evictions: 0,
+  };
+  private readonly resourceCounters: Record<CacheResource, { hits: number; misses: number }>;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.enabled = options.enabled ?? true;
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES);
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+    this.now = options.now ?? Date.now;
+    this.resourceCounters = Object.fromEntries(
+      CACHE_RESOURCES.map((resource) => [resource, { hits: 0, misses: 0 }])
+    ) as Record<CacheResource, { hits: number; misses: number }>;
+  }
+
+  /**
+   * Whether the request is a cacheable read.
+   */
+  isCacheable(request: CacheRequest): boolean {
+    return this.enabled && this.findRule(request) !== undefined;
+  }
+
+  /**
+   * Whether the request modifies Jira data.
+   * Search POSTs are reads; every other non-GET request is a write.
+   */
+  isWrite(request: CacheRequest): boolean {
+    return request.method !== "GET" && this.findRule(request) === undefined;
+  }
+
+  /**
+   * Looks up a cached response.
+   *
+   * @returns The cached response (possibly stale with an ETag), or undefined on a miss
+   */
+  get(request: CacheRequest): CachedResponse | undefined {
+    if (!this.isCacheable(request)) {
+      return undefined;
+    }
+
+    const key = buildKey(request);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt > this.now()) {
+      // Refresh LRU position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.counters.hits++;
+      this.resourceCounters[entry.resource].hits++;
+      return { value: entry.value, fresh: true, etag: entry.etag };
+    }
+
+    this.counters.misses++;
+    this.resourceCounters[entry.resource].misses++;
+
+    if (entry.etag) {
+      return { value: entry.value, fresh: false, etag: entry.etag };
+    }
+
+    this.entries.delete(key);
+    return undefined;
+  }
+
+  /**
+   * Stores a read response.
+   *
+   * @param request - The request
+   * @param value - Parsed response body
+   * @param etag - ETag response header, if any
+   */
+  set(request: CacheRequest, value: unknown, etag?: string | null): void {
+    const rule = this.enabled ? this.findRule(request) : undefined;
+    const match = rule ? request.path.match(rule.pattern) : null;
+    if (!rule || !match) {
+      return;
+    }
+
+    const { resource, tags } = rule.classify(match, request, value, this.sprintStates);
+    const key = buildKey(request);
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      resource,
+      tags: new Set(tags),
+      etag: etag ?? undefined,
+      expiresAt: this.now() + this.ttls[resource] * 1000,
+    });
+    this.counters.stores++;
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  /**
+   * Renews an expired entry after the server answered 304 Not Modified.
+   *
+   * @returns The cached value, or undefined if the entry is gone
+   */
+  revalidate(request: CacheRequest): unknown {
+    const key = buildKey(request);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, expiresAt: this.now() + this.ttls[entry.resource] * 1000 });
+    this.counters.revalidations++;
+    return entry.value;
+  }
+
+  /**
+   * Invalidates the entries affected by a successful write.
+   * Writes the cache cannot attribute clear it entirely.
+   *
+   * @returns Number of entries removed
+   */
+  invalidateAfterWrite(request: CacheRequest): number {
+    const tags = getWriteTags(request, this.sprintStates);
+    return tags ? this.invalidateTags(tags) : this.clear();
+  }
+
+  /**
+   * Removes entries carrying any of the given tags.
+   *
+   * @returns Number of entries removed
+   */
+  invalidateTags(tags: readonly string[]): number {
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (tags.some((tag) => entry.tags.has(tag))) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    this.counters.invalidations += removed;
+    return removed;
+  }
+
+  /**
+   * Removes all entries.
+   *
+   * @returns Number of entries removed
+   */
+  clear(): number {
+    const removed = this.entries.size;
+    this.entries.clear();
+    this.sprintStates.clear();
+    this.counters.invalidations += removed;
+    return removed;
+  }
+
+  /**
+   * Gets cache statistics.
+   */
+  getStats(): ResponseCacheStats {
+    const byResource = createEmptyResourceStats(this.ttls);
+
+    for (const resource of CACHE_RESOURCES) {
+      byResource[resource].hits = this.resourceCounters[resource].hits;
+      byResource[resource].misses = this.resourceCounters[resource].misses;
+    }
+    for (const entry of this.entries.values()) {
+      byResource[entry.resource].entries++;
+    }
+
+    const lookups = this.counters.hits + this.counters.misses;
+
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      ...this.counters,
+      hitRate: lookups === 0 ? 0 : Math.round((this.counters.hits / lookups) * 1000) / 1000,
+      byResource,
+    };
+  }
+
+  private findRule(request: CacheRequest): ReadRule | undefined {
+    return READ_RULES.find(
+      (rule) =>
+        rule.api === request.api &&
+        rule.method === request.method &&
+        rule.pattern.test(request.path)
+    );
+  }
+}
+
+/**
+ * Parses TTL overrides from JIRA_MCP_CACHE_TTL.
+ * Format: "active-sprint=15,closed-sprint=86400" (seconds).
+ * Unknown resource kinds and invalid values are ignored.
+ */
+export function loadCacheTtlsFromEnv(): CacheTtls {
+  const ttls: CacheTtls = { ...DEFAULT_CACHE_TTLS };
+  const raw = process.env["JIRA_MCP_CACHE_TTL"];
+
+  if (!raw) {
+    return ttls;
+  }
+
+  for (const part of raw.split(",")) {
+    const [name, secondsText] = part.split("=").map((s) => s.trim());
+    const seconds = Number(secondsText);
+
+    if (!CACHE_RESOURCES.includes(name as CacheResource) || !Number.isFinite(seconds) || seconds < 0) {
+      continue;
+    }
+
+    ttls[name as CacheResource] = seconds;
+  }
+
+  return ttls;
+}
+
+/**
+ * Creates the cache for a client from environment variables.
+ * JIRA_MCP_CACHE=off disables caching; JIRA_MCP_CACHE_MAX_ENTRIES bounds its size.
+ */
+export function createDefaultResponseCache(): ResponseCache {
+  const mode = process.env["JIRA_MCP_CACHE"]?.toLowerCase();
+  const maxEntries = Number(process.env["JIRA_MCP_CACHE_MAX_ENTRIES"]);
+
+  return new ResponseCache({
+    enabled: mode !== "off" && mode !== "false" && mode !== "0",
+    maxEntries: Number.isInteger(maxEntries) && maxEntries > 0 ? maxEntries : DEFAULT_CACHE_MAX_ENTRIES,
+    ttls: loadCacheTtlsFromEnv(),
+  });
+}
@@ -73,6 +73,14 @@ export interface JiraIssueType {
   readonly subtask: boolean;
 }
 
+/**
+ * Comment visibility restriction: only members of the role or group can see it.
+ */
+export interface JiraCommentVisibility {
+  readonly type: "role" | "group";
+  readonly value: string;
+}
+
 /**
  * Jira comment representation.
  */
@@ -82,8 +90,38 @@ export interface JiraComment {
   readonly body: string;
   readonly created: string;
   readonly updated: string;
+  readonly visibility?: JiraCommentVisibility | undefined;
+}
+
+/**
+ * Time tracking values of an issue, in seconds.
+ */
+export interface JiraTimeTracking {
+  readonly originalEstimateSeconds?: number | undefined;
+  readonly remainingEstimateSeconds?: number | undefined;
+  readonly timeSpentSeconds?: number | undefined;
+}
+
+/**
+ * Value type of a custom field alias.
+ */
+export type CustomFieldType = "text" | "number" | "select" | "multi-select" | "user" | "date";
+
+/**
+ * A custom field known under a user-defined name (e.g., "Team").
+ */
+export interface CustomFieldAlias {
+  readonly name: string;
+  readonly id: string;
+  readonly type: CustomFieldType;
 }
 
+/**
+ * Readable value of a custom field: text, number, option value(s),
+ * user display name or ISO date.
+ */
+export type CustomFieldValue = string | number | readonly string[];
+
 /**
  * Jira issue representation.
  */
@@ -101,11 +139,19 @@ export interface JiraIssue {
   readonly reporter?: JiraUser | undefined;
   readonly created: string;
   readonly updated: string;
+  /** When the issue was resolved; undefined while unresolved */
+  readonly resolutionDate?: string | undefined;
   readonly labels: readonly string[];
   readonly components: readonly JiraComponent[];
+  /** Versions the issue is (to be) fixed in */
+  readonly fixVersions?: readonly JiraVersion[] | undefined;
   readonly storyPoints?: number | undefined;
   readonly sprint?: JiraSprint | undefined;
   readonly sprints?: readonly JiraSprint[] | undefined;
+  /** Estimates and time spent (undefined when time tracking is unused) */
+  readonly timeTracking?: JiraTimeTracking | undefined;
+  /** Values of configured custom field aliases that are set, keyed by alias */
+  readonly customFields?: Readonly<Record<string, CustomFieldValue>> | undefined;
 }
 
 /**
@@ -129,6 +175,34 @@ export interface JiraComponent {
   readonly id: string;
   readonly name: string;
   readonly description?: string | undefined;
+  /** Component lead (only on project component listings) */
+  readonly lead?: JiraUser | undefined;
+  /** Who new issues with this component are assigned to */
+  readonly assigneeType?: ComponentAssigneeType | undefined;
+  /** The user new issues are assigned to, resolved from assigneeType */
+  readonly defaultAssignee?: JiraUser | undefined;
+}
+
+/**
+ * Default assignee rule of a component.
+ */
+export type ComponentAssigneeType =
+  | "PROJECT_DEFAULT"
+  | "COMPONENT_LEAD"
+  | "PROJECT_LEAD"
+  | "UNASSIGNED";
+
+/**
+ * Jira project version (fix version / affects version).
+ */
+export interface JiraVersion {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string | undefined;
+  readonly released: boolean;
+  readonly archived: boolean;
+  readonly startDate?: string | undefined;
+  readonly releaseDate?: string | undefined;
 }
 
 /**
@@ -237,6 +311,19 @@ export interface JiraIssueLink {
   readonly linkedIssue: JiraIssueRef;
 }
 
+/**
+ * File attached to an issue.
+ */
+export interface JiraAttachment {
+  readonly id: string;
+  readonly filename: string;
+  readonly mimeType: string;
+  /** Size in bytes */
+  readonly size: number;
+  readonly created: string;
+  readonly author?: JiraUser | undefined;
+}
+
 /**
  * Extended issue with parent/subtask/link information.
  * Used for deep analysis to understand issue hierarchy.
@@ -245,6 +332,11 @@ export interface JiraIssueExtended extends JiraIssue {
   readonly parent?: JiraIssueRef | undefined;
   readonly subtasks: readonly JiraIssueRef[];
   readonly issueLinks: readonly JiraIssueLink[];
+  readonly attachments: readonly JiraAttachment[];
+  /** Number of votes (undefined when voting is disabled) */
+  readonly votes?: number | undefined;
+  /** Number of watchers (undefined when watching is disabled) */
+  readonly watchCount?: number | undefined;
 }
 
 // ============================================================================
@@ -262,8 +354,11 @@ export interface CreateIssueInput {
   readonly assigneeAccountId?: string | undefined;
   readonly priorityName?: string | undefined;
   readonly labels?: readonly string[] | undefined;
+  readonly componentNames?: readonly string[] | undefined;
   readonly parentKey?: string | undefined;
   readonly storyPoints?: number | undefined;
+  /** Custom field values keyed by alias (see CustomFieldAlias) */
+  readonly customFields?: Readonly<Record<string, unknown>> | undefined;
 }
 
 /**
@@ -277,6 +372,8 @@ export interface UpdateIssueInput {
   readonly priorityName?: string | undefined;
   readonly labels?: readonly string[] | undefined;
   readonly storyPoints?: number | undefined;
+  /** Custom field values keyed by alias; null clears the field */
+  readonly customFields?: Readonly<Record<string, unknown>> | undefined;
 }
 
 /**
@@ -310,6 +407,43 @@ export interface TransitionIssueInput {
   readonly comment?: string | undefined;
 }
 
+/**
+ * Input for adding a comment to an issue.
+ * The body is Markdown; `@[Display Name]` mentions are resolved to users.
+ */
+export interface AddCommentInput {
+  readonly issueKey: string;
+  readonly body: string;
+  readonly visibility?: JiraCommentVisibility | undefined;
+}
+
+/**
+ * Input for editing an existing comment.
+ */
+export interface UpdateCommentInput extends AddCommentInput {
+  readonly commentId: string;
+}
+
+/**
+ * Result of adding or editing a comment.
+ */
+export interface CommentWriteResult {
+  readonly comment: JiraComment;
+  /** Mentioned names that did not match exactly one user (left as plain text) */
+  readonly unresolvedMentions: readonly string[];
+}
+
+/**
+ * Input for linking two issues. The inward issue is the source of the
+ * link type's outward description: for "Blocks", inwardIssueKey blocks
+ * outwardIssueKey.
+ */
+export interface CreateIssueLinkInput {
+  readonly typeName: string;
+  readonly inwardIssueKey: string;
+  readonly outwardIssueKey: string;
+}
+
 /**
  * Result of creating an issue.
  */
@@ -319,6 +453,16 @@ export interface CreateIssueResult {
   readonly self: string;
 }
 
+/**
+ * Outcome of one issue in a bulk create.
+ */
+export interface BulkCreateIssueResult {
+  /** Position of the issue in the input */
+  readonly index: number;
+  readonly issue?: CreateIssueResult | undefined;
+  readonly error?: string | undefined;
+}
+
 /**
  * Result of updating an issue.
  */
@@ -509,3 +653,223 @@ export interface JiraChangelogOptions {
   readonly startAt?: number | undefined;
   readonly maxResults?: number | undefined;
 }
+
+// ============================================================================
+// Attachment Types
+// ============================================================================
+
+/**
+ * Downloaded attachment content, possibly cut off at a size limit.
+ */
+export interface JiraAttachmentContent {
+  readonly attachment: JiraAttachment;
+  readonly bytes: Uint8Array;
+  /** Whether the content was cut off before the end of the file */
+  readonly truncated: boolean;
+}
+
+/**
+ * Input for attaching a file to an issue.
+ */
+export interface AddAttachmentInput {
+  readonly issueKey: string;
+  readonly filename: string;
+  readonly content: Uint8Array;
+  readonly mimeType?: string | undefined;
+}
+
+// ============================================================================
+// Worklog Types
+// ============================================================================
+
+/**
+ * Work logged on an issue.
+ */
+export interface JiraWorklog {
+  readonly id: string;
+  readonly issueId?: string | undefined;
+  readonly author: JiraUser;
+  readonly comment?: string | undefined;
+  /** When the work started (ISO 8601) */
+  readonly started: string;
+  readonly timeSpentSeconds: number;
+  readonly created: string;
+  readonly updated: string;
+}
+
+/**
+ * Paginated worklogs result.
+ */
+export interface JiraWorklogsResult {
+  readonly worklogs: readonly JiraWorklog[];
+  readonly startAt: number;
+  readonly maxResults: number;
+  readonly total: number;
+}
+
+/**
+ * Options for fetching worklogs.
+ */
+export interface JiraWorklogOptions {
+  readonly startAt?: number | undefined;
+  readonly maxResults?: number | undefined;
+  /** Only worklogs started on or after this time (ISO 8601) */
+  readonly startedAfter?: string | undefined;
+}
+
+/**
+ * How logging work changes the remaining estimate:
+ * auto reduces it by the time spent, leave keeps it, new sets it,
+ * manual reduces it by a given amount.
+ */
+export type WorklogEstimateAdjustment = "auto" | "leave" | "new" | "manual";
+
+/**
+ * Input for logging work on an issue.
+ */
+export interface AddWorklogInput {
+  readonly issueKey: string;
+  readonly timeSpentSeconds: number;
+  /** When the work started (ISO 8601, default: now) */
+  readonly started?: string | undefined;
+  /** Markdown comment */
+  readonly comment?: string | undefined;
+  readonly adjustEstimate?: WorklogEstimateAdjustment | undefined;
+  /** Remaining estimate when adjustEstimate is "new" */
+  readonly newEstimateSeconds?: number | undefined;
+  /** Amount to reduce the remaining estimate by when adjustEstimate is "manual" */
+  readonly reduceBySeconds?: number | undefined;
+}
+
+// ============================================================================
+// Watcher and Vote Types
+// ============================================================================
+
+/**
+ * Users watching an issue.
+ */
+export interface JiraWatchers {
+  readonly watchCount: number;
+  /** Whether the authenticated user watches the issue */
+  readonly isWatching: boolean;
+  readonly watchers: readonly JiraUser[];
+}
+
+/**
+ * Votes on an issue. Voters are only listed with the permission to view them.
+ */
+export interface JiraVotes {
+  readonly votes: number;
+  /** Whether the authenticated user voted for the issue */
+  readonly hasVoted: boolean;
+  readonly voters: readonly JiraUser[];
+}
+
+// ============================================================================
+// User Resolution Types
+// ============================================================================
+
+/**
+ * Where a user must be assignable: a project, or an existing issue.
+ */
+export type AssignableScope =
+  | { readonly projectKey: string; readonly issueKey?: undefined }
+  | { readonly issueKey: string; readonly projectKey?: undefined };
+
+/**
+ * Outcome of resolving a display name, email or account ID to one user.
+ */
+export type UserResolution =
+  | { readonly status: "resolved"; readonly user: JiraUser }
+  | { readonly status: "ambiguous"; readonly candidates: readonly JiraUser[] }
+  | { readonly status: "not-found" };
+
+// ============================================================================
+// Project Metadata Types
+// ============================================================================
+
+/**
+ * Project with its issue types, components and versions.
+ */
+export interface JiraProjectDetails extends JiraProject {
+  readonly lead?: JiraUser | undefined;
+  readonly issueTypes: readonly JiraIssueType[];
+  readonly components: readonly JiraComponent[];
+  readonly versions: readonly JiraVersion[];
+}
+
+/**
+ * A field on an issue type's create screen or on an issue's edit screen.
+ */
+export interface JiraFieldMeta {
+  readonly id: string;
+  readonly name: string;
+  readonly required: boolean;
+  /** Whether Jira fills the field in when it is omitted */
+  readonly hasDefaultValue: boolean;
+  readonly schemaType?: string | undefined;
+  /** Names (or values) of the options, for fields with a fixed set of values */
+  readonly allowedValues?: readonly string[] | undefined;
+}
+
+/**
+ * Statuses an issue type can be in within a project.
+ */
+export interface JiraIssueTypeStatuses {
+  readonly issueTypeId: string;
+  readonly issueTypeName: string;
+  readonly subtask: boolean;
+  readonly statuses: readonly JiraStatus[];
+}
+
+/**
+ * Transition between statuses in a workflow.
+ */
+export interface JiraWorkflowTransition {
+  readonly id: string;
+  readonly name: string;
+  /** Source status names; empty for global transitions available from any status */
+  readonly from: readonly string[];
+  readonly to: string;
+}
+
+/**
+ * Workflow graph and the issue types of a project that use it.
+ */
+export interface JiraWorkflow {
+  readonly name: string;
+  /** Issue type IDs mapped to this workflow in the project's workflow scheme */
+  readonly issueTypeIds: readonly string[];
+  /** Whether the workflow applies to issue types that are not mapped explicitly */
+  readonly isDefault: boolean;
+  readonly statuses: readonly string[];
+  readonly transitions: readonly JiraWorkflowTransition[];
+}
+
+// ============================================================================
+// Version Types
+// ============================================================================
+
+/**
+ * Input for creating a version.
+ */
+export interface CreateVersionInput {
+  readonly projectKey: string;
+  readonly name: string;
+  readonly description?: string | undefined;
+  /** Start date (YYYY-MM-DD) */
+  readonly startDate?: string | undefined;
+  /** Planned release date (YYYY-MM-DD) */
+  readonly releaseDate?: string | undefined;
+}
+
+/**
+ * Input for releasing a version.
+ */
+export interface ReleaseVersionInput {
+  readonly versionId: string;
+  /** Release date (YYYY-MM-DD) */
+  readonly releaseDate: string;
+  /** Version that unresolved issues are moved to (default: they stay) */
+  readonly moveUnresolvedToId?: string | undefined;
+}
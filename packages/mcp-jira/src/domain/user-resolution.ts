@@ -0,0 +1,92 @@
+/**
+ * User Resolution
+ *
+ * Picks the one user meant by a display name, email or account ID from
+ * search results, and remembers resolved users for a short while so
+ * repeated writes do not search again.
+ */
+
+import type { JiraUser, UserResolution } from "./types.js";
+
+/**
+ * How long a resolved user is remembered.
+ */
+export const USER_RESOLUTION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Picks the user a query refers to among search results.
+ * Inactive users are ignored. An exact account ID, email or display name
+ * match wins; otherwise the query resolves only when one user matches.
+ *
+ * @param query - Display name, email or account ID
+ * @param users - Users returned by a search for the query
+ */
+export function pickUser(query: string, users: readonly JiraUser[]): UserResolution {
+  const wanted = query.trim().toLowerCase();
+  const active = users.filter((user) => user.active);
+
+  const byId = active.find((user) => user.accountId.toLowerCase() === wanted);
+  if (byId) {
+    return { status: "resolved", user: byId };
+  }
+
+  const byEmail = active.filter((user) => user.emailAddress?.toLowerCase() === wanted);
+  const byName = active.filter((user) => user.displayName.toLowerCase() === wanted);
+  const candidates = byEmail.length > 0 ? byEmail : byName.length > 0 ? byName : active;
+
+  if (candidates.length === 1 && candidates[0]) {
+    return { status: "resolved", user: candidates[0] };
+  }
+
+  return candidates.length > 1 ? { status: "ambiguous", candidates } : { status: "not-found" };
+}
+
+/**
+ * Options for the user resolution cache.
+ */
+export interface UserResolutionCacheOptions {
+  ttlMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Short-lived cache of resolved users, keyed by scope and query.
+ */
+export class UserResolutionCache {
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+  private readonly entries = new Map<string, { user: JiraUser; expiresAt: number }>();
+
+  constructor(options: UserResolutionCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? USER_RESOLUTION_TTL_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Gets a resolved user, if still fresh.
+   */
+  get(scope: string, query: string): JiraUser | undefined {
+    const key = this.key(scope, query);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.user;
+  }
+
+  /**
+   * Remembers a resolved user.
+   */
+  set(scope: string, query: string, user: JiraUser): void {
+    this.entries.set(this.key(scope, query), { user, expiresAt: this.now() + this.ttlMs });
+  }
+
+  private key(scope: string, query: string): string {
+    return `${scope.toUpperCase()}\n${query.trim().toLowerCase()}`;
+  }
+}
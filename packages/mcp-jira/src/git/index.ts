@@ -39,8 +39,23 @@ export {
   getProjectBranchPattern,
   getProjectDefaultBranch,
   validateRepositoryUrl,
+  configureRepositoryStore,
+  getRepositoryStoreInfo,
 } from "./repository-store.js";
 
+// Repository Store Backends
+export {
+  createMemoryBackend,
+  createJsonFileBackend,
+  createDefaultBackend,
+  StoredRepositoryMappingSchema,
+  REPOSITORY_STORE_SCHEMA_VERSION,
+} from "./repository-backend.js";
+export type {
+  RepositoryStoreBackend,
+  StoredRepositoryMapping,
+} from "./repository-backend.js";
+
 // Branch Generator
 export {
   generateBranchName,
@@ -69,6 +84,7 @@ export {
   generatePRBody,
   generateTestingChecklist,
   suggestLabels,
+  suggestReviewers,
   extractAcceptanceCriteria,
   jiraIssueToContext,
 } from "./pr-context-builder.js";
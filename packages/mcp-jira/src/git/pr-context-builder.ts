@@ -242,7 +242,7 @@ export function generateTestingChecklist(issues: readonly IssueContext[]): strin
 }
 
 /**
- * Suggests labels based on issue types.
+ * Suggests labels based on issue types and components.
  */
 export function suggestLabels(issues: readonly IssueContext[]): string[] {
   const labels = new Set<string>();
@@ -256,6 +256,11 @@ export function suggestLabels(issues: readonly IssueContext[]): string[] {
     }
   }
 
+  // Add component labels (e.g., "Billing API" -> "component/billing-api")
+  for (const component of issues.flatMap((i) => i.components ?? [])) {
+    labels.add(`component/${component.trim().toLowerCase().replace(/\s+/g, "-")}`);
+  }
+
   // Add size label based on story points
   const totalPoints = issues.reduce((sum, i) => sum + (i.storyPoints ?? 0), 0);
   if (totalPoints > 0) {
@@ -297,14 +302,61 @@ export function buildPRContext(
     testingChecklist: includeTestingChecklist ? generateTestingChecklist(issues) : [],
     relatedIssues: issues,
     suggestedLabels: suggestLabels(issues),
+    suggestedReviewers: suggestReviewers(issues),
     reviewersRecommendation: generateReviewersRecommendation(issues),
   };
 }
 
+/**
+ * Suggests reviewers: the leads of the issues' components first, as the
+ * owners of the code touched, then the issues' watchers.
+ */
+export function suggestReviewers(issues: readonly IssueContext[]): string[] {
+  const { leads, watchers } = collectReviewers(issues);
+  return [...leads, ...watchers];
+}
+
+/**
+ * Collects the distinct component leads and watchers of the issues.
+ * Assignees are left out, as they are usually the authors of the change.
+ */
+function collectReviewers(issues: readonly IssueContext[]): {
+  leads: string[];
+  watchers: string[];
+} {
+  const seen = new Set(
+    issues.flatMap((i) => (i.assignee ? [i.assignee.toLowerCase()] : []))
+  );
+  const pick = (names: readonly string[]): string[] =>
+    names.filter((name) => {
+      const key = name.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return {
+    leads: pick(issues.flatMap((i) => i.componentLeads ?? [])),
+    watchers: pick(issues.flatMap((i) => i.watchers ?? [])),
+  };
+}
+
 /**
  * Generates reviewers recommendation based on issue context.
+ * Component leads and watchers are recommended when there are any;
+ * otherwise the issue types and size decide.
  */
 function generateReviewersRecommendation(issues: readonly IssueContext[]): string | undefined {
+  const { leads, watchers } = collectReviewers(issues);
+  if (leads.length > 0) {
+    return watchers.length > 0
+      ? `Request review from the component leads: ${leads.join(", ")}. The issue watchers may also want to review: ${watchers.join(", ")}`
+      : `Request review from the component leads: ${leads.join(", ")}`;
+  }
+  if (watchers.length > 0) {
+    return `Request review from the issue watchers: ${watchers.join(", ")}`;
+  }
+
   const totalPoints = issues.reduce((sum, i) => sum + (i.storyPoints ?? 0), 0);
   const hasHotfix = issues.some((i) => i.type.toLowerCase() === "hotfix");
   const hasBug = issues.some((i) => i.type.toLowerCase() === "bug");
@@ -352,11 +404,20 @@ export function jiraIssueToContext(issue: {
   issueType: string;
   description?: string | null | undefined;
   storyPoints?: number | undefined;
+  assignee?: string | undefined;
+  watchers?: readonly string[] | undefined;
+  components?: readonly string[] | undefined;
+  componentLeads?: readonly string[] | undefined;
 }): IssueContext {
   const context: IssueContext = {
     key: issue.key,
     summary: issue.summary,
     type: issue.issueType,
+    ...(issue.assignee && { assignee: issue.assignee }),
+    ...(issue.watchers && issue.watchers.length > 0 && { watchers: issue.watchers }),
+    ...(issue.components && issue.components.length > 0 && { components: issue.components }),
+    ...(issue.componentLeads &&
+      issue.componentLeads.length > 0 && { componentLeads: issue.componentLeads }),
   };
 
   // Add optional fields only if they have values
@@ -0,0 +1,182 @@
+/**
+ * Repository Store Backends
+ *
+ * Pluggable persistence for project-to-repository mappings.
+ * The default backend is a versioned JSON file under the data directory,
+ * so links survive server restarts and can be shared as a checked-in file.
+ */
+
+import { z } from "zod";
+import {
+  resolveDataPath,
+  readJsonDocument,
+  writeJsonDocument,
+  getSchemaVersion,
+  quarantineFile,
+  StorageError,
+  StorageSchemaError,
+} from "../storage/index.js";
+
+/**
+ * Current schema version of the repositories file.
+ *
+ * History:
+ * - 0: bare array of mappings (no envelope)
+ * - 1: { schemaVersion, repositories }
+ */
+export const REPOSITORY_STORE_SCHEMA_VERSION = 1;
+
+/**
+ * Default file name inside the data directory.
+ */
+const DEFAULT_REPOSITORIES_FILE = "repositories.json";
+
+/**
+ * Schema for a stored mapping.
+ * Only the project key and URL are required so that hand-written
+ * (checked-in) files stay short; the store fills in the rest.
+ */
+export const StoredRepositoryMappingSchema = z.object({
+  projectKey: z.string().regex(/^[A-Z][A-Z0-9]*$/i),
+  repository: z.object({
+    url: z.string().min(1),
+    name: z.string().optional(),
+    defaultBranch: z.string().optional(),
+    branchPattern: z.string().optional(),
+    provider: z.string().optional(),
+  }),
+  linkedAt: z.string().optional(),
+  linkedBy: z.string().optional(),
+});
+
+export type StoredRepositoryMapping = z.infer<typeof StoredRepositoryMappingSchema>;
+
+/**
+ * Schema for the versioned repositories document.
+ */
+const RepositoriesDocumentSchema = z.object({
+  schemaVersion: z.literal(REPOSITORY_STORE_SCHEMA_VERSION),
+  repositories: z.array(StoredRepositoryMappingSchema),
+});
+
+/**
+ * Persistence backend for repository mappings.
+ */
+export interface RepositoryStoreBackend {
+  /** Backend kind (for diagnostics) */
+  readonly kind: "memory" | "file";
+  /** Where mappings are stored (file path or "memory") */
+  readonly location: string;
+  /** Loads all stored mappings */
+  load(): StoredRepositoryMapping[];
+  /** Replaces all stored mappings */
+  save(mappings: readonly StoredRepositoryMapping[]): void;
+}
+
+/**
+ * Creates a backend that keeps mappings in process memory only.
+ */
+export function createMemoryBackend(
+  initial: readonly StoredRepositoryMapping[] = []
+): RepositoryStoreBackend {
+  let stored = [...initial];
+
+  return {
+    kind: "memory",
+    location: "memory",
+    load: () => [...stored],
+    save: (mappings) => {
+      stored = [...mappings];
+    },
+  };
+}
+
+/**
+ * Upgrades a raw document to the current schema version.
+ */
+function migrateDocument(document: unknown, filePath: string): unknown {
+  const version = getSchemaVersion(document);
+
+  if (version > REPOSITORY_STORE_SCHEMA_VERSION) {
+    throw new StorageSchemaError(filePath, version, REPOSITORY_STORE_SCHEMA_VERSION);
+  }
+
+  if (version === 0) {
+    // v0 stored a bare array of mappings
+    return {
+      schemaVersion: REPOSITORY_STORE_SCHEMA_VERSION,
+      repositories: Array.isArray(document) ? document : [],
+    };
+  }
+
+  return document;
+}
+
+/**
+ * Creates a backend that stores mappings in a versioned JSON file.
+ * Writes are atomic. An unreadable file is moved aside (".corrupt-<timestamp>")
+ * instead of being overwritten.
+ *
+ * @param filePath - Path of the JSON file
+ */
+export function createJsonFileBackend(filePath: string): RepositoryStoreBackend {
+  return {
+    kind: "file",
+    location: filePath,
+
+    load(): StoredRepositoryMapping[] {
+      let document: unknown;
+      try {
+        document = readJsonDocument(filePath);
+      } catch (error) {
+        if (error instanceof StorageError) {
+          const movedTo = quarantineFile(filePath);
+          console.error(
+            `[repository-store] ${error.message}; moved to ${movedTo} and starting empty`
+          );
+          return [];
+        }
+        throw error;
+      }
+
+      if (document === undefined) {
+        return [];
+      }
+
+      const result = RepositoriesDocumentSchema.safeParse(
+        migrateDocument(document, filePath)
+      );
+
+      if (!result.success) {
+        const errors = result.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join("; ");
+        throw new StorageError(`Invalid repositories file ${filePath}: ${errors}`, filePath);
+      }
+
+      return result.data.repositories;
+    },
+
+    save(mappings: readonly StoredRepositoryMapping[]): void {
+      writeJsonDocument(filePath, {
+        schemaVersion: REPOSITORY_STORE_SCHEMA_VERSION,
+        repositories: mappings,
+      });
+    },
+  };
+}
+
+/**
+ * Creates the backend selected by environment variables:
+ * - JIRA_MCP_STORAGE=memory disables persistence
+ * - JIRA_MCP_REPOSITORIES_FILE points to an explicit (e.g. checked-in) file
+ * - Otherwise repositories.json in the data directory (JIRA_MCP_DATA_DIR)
+ */
+export function createDefaultBackend(): RepositoryStoreBackend {
+  if (process.env["JIRA_MCP_STORAGE"] === "memory") {
+    return createMemoryBackend();
+  }
+
+  const explicitFile = process.env["JIRA_MCP_REPOSITORIES_FILE"];
+  return createJsonFileBackend(explicitFile || resolveDataPath(DEFAULT_REPOSITORIES_FILE));
+}
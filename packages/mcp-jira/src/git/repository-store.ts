@@ -1,8 +1,11 @@
 /**
  * Repository Store
  *
- * In-memory storage for project-to-repository mappings.
+ * Storage for project-to-repository mappings.
  * Stores links between Jira projects and Git repositories.
+ *
+ * Mappings are cached in memory and written through to a pluggable
+ * backend (a JSON file by default) so they survive server restarts.
  */
 
 import type {
@@ -10,11 +13,22 @@ import type {
   ProjectRepositoryMapping,
   RepositoryLinkResult,
 } from "./types.js";
+import {
+  createDefaultBackend,
+  createMemoryBackend,
+  type RepositoryStoreBackend,
+  type StoredRepositoryMapping,
+} from "./repository-backend.js";
+
+/**
+ * Active persistence backend (resolved lazily from the environment).
+ */
+let backend: RepositoryStoreBackend | undefined;
 
 /**
- * In-memory storage for project-repository mappings.
+ * In-memory cache of project-repository mappings, loaded from the backend.
  */
-const repositoryStore = new Map<string, ProjectRepositoryMapping>();
+let repositoryStore: Map<string, ProjectRepositoryMapping> | undefined;
 
 /**
  * Extracts repository name from URL.
@@ -41,6 +55,110 @@ function detectProvider(url: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Converts a stored mapping into a complete mapping, filling in
+ * derived fields that hand-written files may omit.
+ */
+function toMapping(stored: StoredRepositoryMapping, loadedAt: string): ProjectRepositoryMapping {
+  const url = stored.repository.url;
+  return {
+    projectKey: stored.projectKey.toUpperCase(),
+    repository: {
+      url,
+      name: stored.repository.name ?? extractRepoName(url),
+      defaultBranch: stored.repository.defaultBranch ?? "main",
+      branchPattern: stored.repository.branchPattern,
+      provider: stored.repository.provider ?? detectProvider(url),
+    },
+    linkedAt: stored.linkedAt ?? loadedAt,
+    linkedBy: stored.linkedBy,
+  };
+}
+
+/**
+ * Converts a mapping into its stored form (omitting undefined values).
+ */
+function toStoredMapping(mapping: ProjectRepositoryMapping): StoredRepositoryMapping {
+  return JSON.parse(JSON.stringify(mapping)) as StoredRepositoryMapping;
+}
+
+/**
+ * Gets the active backend, creating the default one on first use.
+ */
+function getBackend(): RepositoryStoreBackend {
+  if (!backend) {
+    backend = createDefaultBackend();
+  }
+  return backend;
+}
+
+/**
+ * Gets the mapping cache, loading it from the backend on first use.
+ * If the backend cannot be read, falls back to memory-only storage for
+ * this session so the stored file is never overwritten.
+ */
+function getStore(): Map<string, ProjectRepositoryMapping> {
+  if (repositoryStore) {
+    return repositoryStore;
+  }
+
+  const store = new Map<string, ProjectRepositoryMapping>();
+  const loadedAt = new Date().toISOString();
+
+  try {
+    for (const stored of getBackend().load()) {
+      const mapping = toMapping(stored, loadedAt);
+      store.set(mapping.projectKey, mapping);
+    }
+  } catch (error) {
+    console.error(
+      `[repository-store] Failed to load repository mappings from ${getBackend().location}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }. Using memory-only storage for this session.`
+    );
+    backend = createMemoryBackend();
+  }
+
+  repositoryStore = store;
+  return store;
+}
+
+/**
+ * Writes the current mappings through to the backend.
+ *
+ * @returns true if persisted, false if the write failed
+ */
+function persist(): boolean {
+  try {
+    getBackend().save(Array.from(getStore().values()).map(toStoredMapping));
+    return true;
+  } catch (error) {
+    console.error(
+      `[repository-store] Failed to persist repository mappings: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    return false;
+  }
+}
+
+/**
+ * Replaces the persistence backend.
+ * The mapping cache is reloaded from the new backend on next access.
+ */
+export function configureRepositoryStore(newBackend: RepositoryStoreBackend): void {
+  backend = newBackend;
+  repositoryStore = undefined;
+}
+
+/**
+ * Gets information about where repository mappings are stored.
+ */
+export function getRepositoryStoreInfo(): { kind: RepositoryStoreBackend["kind"]; location: string } {
+  const active = getBackend();
+  return { kind: active.kind, location: active.location };
+}
+
 /**
  * Validates repository URL format.
  */
@@ -90,7 +208,8 @@ export function linkRepository(
   }
 
   // Check if mapping already exists
-  const existing = repositoryStore.get(normalizedKey);
+  const store = getStore();
+  const existing = store.get(normalizedKey);
   const isUpdate = existing !== undefined;
 
   // Create repository info
@@ -110,16 +229,20 @@ export function linkRepository(
     linkedBy: options.linkedBy,
   };
 
-  repositoryStore.set(normalizedKey, mapping);
+  store.set(normalizedKey, mapping);
+  const persisted = persist();
+
+  const message = isUpdate
+    ? `Updated repository mapping for project ${normalizedKey}`
+    : `Linked repository to project ${normalizedKey}`;
 
   return {
     success: true,
     projectKey: normalizedKey,
     repository,
-    message: isUpdate
-      ? `Updated repository mapping for project ${normalizedKey}`
-      : `Linked repository to project ${normalizedKey}`,
+    message: persisted ? message : `${message} (not persisted - mapping will be lost on restart)`,
     isUpdate,
+    persisted,
   };
 }
 
@@ -127,14 +250,14 @@ export function linkRepository(
  * Gets repository mapping for a project.
  */
 export function getProjectRepository(projectKey: string): ProjectRepositoryMapping | undefined {
-  return repositoryStore.get(projectKey.toUpperCase());
+  return getStore().get(projectKey.toUpperCase());
 }
 
 /**
  * Gets all repository mappings.
  */
 export function getAllRepositoryMappings(): ProjectRepositoryMapping[] {
-  return Array.from(repositoryStore.values());
+  return Array.from(getStore().values());
 }
 
 /**
@@ -146,7 +269,7 @@ export function getRepositoryMappings(projectKey?: string): ProjectRepositoryMap
   }
 
   const normalizedKey = projectKey.toUpperCase();
-  const mapping = repositoryStore.get(normalizedKey);
+  const mapping = getStore().get(normalizedKey);
   return mapping ? [mapping] : [];
 }
 
@@ -154,35 +277,40 @@ export function getRepositoryMappings(projectKey?: string): ProjectRepositoryMap
  * Removes repository mapping for a project.
  */
 export function unlinkRepository(projectKey: string): boolean {
-  return repositoryStore.delete(projectKey.toUpperCase());
+  const removed = getStore().delete(projectKey.toUpperCase());
+  if (removed) {
+    persist();
+  }
+  return removed;
 }
 
 /**
  * Checks if a project has a linked repository.
  */
 export function hasLinkedRepository(projectKey: string): boolean {
-  return repositoryStore.has(projectKey.toUpperCase());
+  return getStore().has(projectKey.toUpperCase());
 }
 
 /**
  * Gets repository count.
  */
 export function getRepositoryCount(): number {
-  return repositoryStore.size;
+  return getStore().size;
 }
 
 /**
- * Clears all repository mappings (for testing).
+ * Clears all repository mappings in memory (for testing). The stored
+ * mappings are left untouched.
  */
 export function clearAllMappings(): void {
-  repositoryStore.clear();
+  getStore().clear();
 }
 
 /**
  * Gets the default branch pattern for a project.
  */
 export function getProjectBranchPattern(projectKey: string): string | undefined {
-  const mapping = repositoryStore.get(projectKey.toUpperCase());
+  const mapping = getStore().get(projectKey.toUpperCase());
   return mapping?.repository.branchPattern;
 }
 
@@ -190,6 +318,6 @@ export function getProjectBranchPattern(projectKey: string): string | undefined
  * Gets the default branch for a project.
  */
 export function getProjectDefaultBranch(projectKey: string): string {
-  const mapping = repositoryStore.get(projectKey.toUpperCase());
+  const mapping = getStore().get(projectKey.toUpperCase());
   return mapping?.repository.defaultBranch ?? "main";
 }
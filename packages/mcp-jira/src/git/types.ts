@@ -166,6 +166,14 @@ export interface IssueContext {
   readonly acceptanceCriteria?: string | undefined;
   /** Story points */
   readonly storyPoints?: number | undefined;
+  /** Assignee display name */
+  readonly assignee?: string | undefined;
+  /** Display names of active watchers */
+  readonly watchers?: readonly string[] | undefined;
+  /** Component names */
+  readonly components?: readonly string[] | undefined;
+  /** Display names of the active leads of the issue's components */
+  readonly componentLeads?: readonly string[] | undefined;
 }
 
 /**
@@ -182,6 +190,8 @@ export interface PRContextResult {
   readonly relatedIssues: readonly IssueContext[];
   /** Labels to apply */
   readonly suggestedLabels: readonly string[];
+  /** Suggested reviewers: the issues' component leads, then their watchers, except their assignees */
+  readonly suggestedReviewers: readonly string[];
   /** Reviewers recommendation */
   readonly reviewersRecommendation?: string | undefined;
 }
@@ -214,4 +224,6 @@ export interface RepositoryLinkResult {
   readonly message: string;
   /** Whether this was an update to existing mapping */
   readonly isUpdate: boolean;
+  /** Whether the mapping was written to persistent storage */
+  readonly persisted?: boolean | undefined;
 }
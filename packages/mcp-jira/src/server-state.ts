@@ -1,12 +1,14 @@
 /**
  * Server State Management
  *
- * Manages the runtime state of the MCP Jira server, including
- * configuration status and client instance.
+ * Manages the runtime state of the MCP Jira server: named connection
+ * profiles (one client, configuration and field mappings per Jira site)
+ * and which profile is active.
  */
 
 import type { JiraConfig, FieldMappings } from "./config/index.js";
 import { JiraClient } from "./domain/jira-client.js";
+import type { CustomFieldAlias } from "./domain/types.js";
 import {
   STORY_POINTS_FIELD_CANDIDATES,
   SPRINT_FIELD_CANDIDATES,
@@ -24,6 +26,8 @@ export interface ResolvedFieldMappings {
   sprintField: string;
   /** All candidates for reading sprint (primary field first) */
   sprintCandidates: string[];
+  /** User-defined custom field aliases */
+  customFields: CustomFieldAlias[];
 }
 
 /**
@@ -68,14 +72,49 @@ export function resolveFieldMappings(mappings?: FieldMappings): ResolvedFieldMap
     ];
   }
 
+  const customFields: CustomFieldAlias[] = Object.entries(mappings?.customFields ?? {}).map(
+    ([name, alias]) => ({ name, id: alias.id, type: alias.type })
+  );
+
   return {
     storyPointsField,
     storyPointsCandidates,
     sprintField,
     sprintCandidates,
+    customFields,
   };
 }
 
+/**
+ * Name of the profile created from the base JIRA_* environment variables
+ * and by jira_configure when no profile name is given.
+ */
+export const DEFAULT_PROFILE_NAME = "default";
+
+/**
+ * A named connection to a Jira site.
+ */
+export interface ConnectionProfile {
+  /** Profile name */
+  name: string;
+  client: JiraClient;
+  config: JiraConfig;
+  fieldMappings: ResolvedFieldMappings;
+}
+
+/**
+ * Profile summary for listing (never includes credentials).
+ */
+export interface ConnectionProfileSummary {
+  name: string;
+  active: boolean;
+  baseUrl: string;
+  deployment: JiraConfig["deployment"];
+  authType: JiraConfig["auth"]["type"];
+  storyPointsField: string;
+  sprintField: string;
+}
+
 /**
  * Server configuration state.
  */
@@ -83,74 +122,168 @@ export type ServerState =
   | { status: "unconfigured" }
   | {
       status: "configured";
+      /** Name of the profile this state belongs to */
+      profile: string;
       client: JiraClient;
       config: JiraConfig;
       fieldMappings: ResolvedFieldMappings;
     };
 
 /**
- * Global server state singleton.
- * The server can be in one of two states:
+ * Configured connection profiles by name.
+ * The server is "configured" while at least one profile exists:
  * - unconfigured: No valid credentials, only setup tools available
- * - configured: Valid credentials, all tools available
+ * - configured: Valid credentials, all tools available (active profile by default)
  */
-let serverState: ServerState = { status: "unconfigured" };
+const profiles = new Map<string, ConnectionProfile>();
+
+/**
+ * Name of the profile tools use when no profile argument is given.
+ */
+let activeProfileName: string | undefined;
+
+/**
+ * Builds the server state for a profile.
+ */
+function toServerState(profile: ConnectionProfile | undefined): ServerState {
+  if (!profile) {
+    return { status: "unconfigured" };
+  }
+  return { status: "configured", profile: profile.name, ...profile };
+}
+
+/**
+ * Gets a profile by name, or the active profile when no name is given.
+ */
+function resolveProfile(profileName?: string): ConnectionProfile | undefined {
+  const name = profileName ?? activeProfileName;
+  return name === undefined ? undefined : profiles.get(name);
+}
 
 /**
  * Gets the current server state.
+ *
+ * @param profileName - Profile to get the state for (default: active profile)
  */
-export function getServerState(): ServerState {
-  return serverState;
+export function getServerState(profileName?: string): ServerState {
+  return toServerState(resolveProfile(profileName));
 }
 
 /**
- * Sets the server state to configured with a client instance.
+ * Configures a profile with a client instance and makes it the active profile.
+ *
+ * @param profileName - Profile to configure (default: "default")
  */
 export function setConfigured(
   config: JiraConfig,
   client: JiraClient,
-  fieldMappings?: ResolvedFieldMappings
+  fieldMappings?: ResolvedFieldMappings,
+  profileName: string = DEFAULT_PROFILE_NAME
 ): void {
   const resolvedMappings = fieldMappings ?? resolveFieldMappings(config.fieldMappings);
-  serverState = { status: "configured", client, config, fieldMappings: resolvedMappings };
+  profiles.set(profileName, {
+    name: profileName,
+    client,
+    config,
+    fieldMappings: resolvedMappings,
+  });
+  activeProfileName = profileName;
 }
 
 /**
- * Sets the server state to unconfigured.
+ * Removes all profiles, returning the server to the unconfigured state.
  */
 export function setUnconfigured(): void {
-  serverState = { status: "unconfigured" };
+  profiles.clear();
+  activeProfileName = undefined;
 }
 
 /**
  * Checks if the server is configured.
  */
 export function isConfigured(): boolean {
-  return serverState.status === "configured";
+  return profiles.size > 0;
 }
 
 /**
  * Gets the Jira client if configured.
- * Returns undefined if not configured.
+ * Returns undefined if not configured or the profile does not exist.
+ *
+ * @param profileName - Profile to use (default: active profile)
  */
-export function getClient(): JiraClient | undefined {
-  return serverState.status === "configured" ? serverState.client : undefined;
+export function getClient(profileName?: string): JiraClient | undefined {
+  return resolveProfile(profileName)?.client;
 }
 
 /**
  * Gets the current configuration if available.
  * Returns undefined if not configured.
+ *
+ * @param profileName - Profile to use (default: active profile)
  */
-export function getConfig(): JiraConfig | undefined {
-  return serverState.status === "configured" ? serverState.config : undefined;
+export function getConfig(profileName?: string): JiraConfig | undefined {
+  return resolveProfile(profileName)?.config;
 }
 
 /**
  * Gets the current field mappings if configured.
  * Returns undefined if not configured.
+ *
+ * @param profileName - Profile to use (default: active profile)
+ */
+export function getFieldMappings(profileName?: string): ResolvedFieldMappings | undefined {
+  return resolveProfile(profileName)?.fieldMappings;
+}
+
+/**
+ * Gets the name of the active profile.
+ */
+export function getActiveProfileName(): string | undefined {
+  return activeProfileName;
+}
+
+/**
+ * Lists configured profiles.
  */
-export function getFieldMappings(): ResolvedFieldMappings | undefined {
-  return serverState.status === "configured" ? serverState.fieldMappings : undefined;
+export function listProfiles(): ConnectionProfileSummary[] {
+  return [...profiles.values()].map((profile) => ({
+    name: profile.name,
+    active: profile.name === activeProfileName,
+    baseUrl: profile.config.baseUrl,
+    deployment: profile.config.deployment,
+    authType: profile.config.auth.type,
+    storyPointsField: profile.fieldMappings.storyPointsField,
+    sprintField: profile.fieldMappings.sprintField,
+  }));
+}
+
+/**
+ * Makes a profile the active one.
+ *
+ * @returns true if switched, false if the profile does not exist
+ */
+export function switchProfile(profileName: string): boolean {
+  if (!profiles.has(profileName)) {
+    return false;
+  }
+  activeProfileName = profileName;
+  return true;
+}
+
+/**
+ * Removes a profile. When the active profile is removed, the first
+ * remaining profile becomes active.
+ *
+ * @returns true if removed, false if the profile does not exist
+ */
+export function removeProfile(profileName: string): boolean {
+  if (!profiles.delete(profileName)) {
+    return false;
+  }
+  if (activeProfileName === profileName) {
+    activeProfileName = profiles.keys().next().value;
+  }
+  return true;
 }
 
 /**
@@ -158,21 +291,19 @@ export function getFieldMappings(): ResolvedFieldMappings | undefined {
  * Requires the server to be in configured state.
  *
  * @param mappings - New field mappings to apply
+ * @param profileName - Profile to update (default: active profile)
  * @returns true if updated, false if not configured
  */
-export function updateFieldMappings(mappings: FieldMappings): boolean {
-  if (serverState.status !== "configured") {
+export function updateFieldMappings(mappings: FieldMappings, profileName?: string): boolean {
+  const profile = resolveProfile(profileName);
+  if (!profile) {
     return false;
   }
 
-  const resolvedMappings = resolveFieldMappings(mappings);
-  serverState = {
-    ...serverState,
-    fieldMappings: resolvedMappings,
-  };
+  profile.fieldMappings = resolveFieldMappings(mappings);
 
   // Update the client's field mappings as well
-  serverState.client.updateFieldMappings(resolvedMappings);
+  profile.client.updateFieldMappings(profile.fieldMappings);
 
   return true;
 }
@@ -181,21 +312,19 @@ export function updateFieldMappings(mappings: FieldMappings): boolean {
  * Resets field mappings to defaults.
  * Requires the server to be in configured state.
  *
+ * @param profileName - Profile to reset (default: active profile)
  * @returns true if reset, false if not configured
  */
-export function resetFieldMappings(): boolean {
-  if (serverState.status !== "configured") {
+export function resetFieldMappings(profileName?: string): boolean {
+  const profile = resolveProfile(profileName);
+  if (!profile) {
     return false;
   }
 
-  const resolvedMappings = resolveFieldMappings(undefined);
-  serverState = {
-    ...serverState,
-    fieldMappings: resolvedMappings,
-  };
+  profile.fieldMappings = resolveFieldMappings(undefined);
 
   // Update the client's field mappings as well
-  serverState.client.updateFieldMappings(resolvedMappings);
+  profile.client.updateFieldMappings(profile.fieldMappings);
 
   return true;
 }
@@ -7,6 +7,9 @@
  * The server supports graceful startup:
  * - With valid credentials: All Jira tools are available
  * - Without credentials: Setup tools guide the user through configuration
+ *
+ * Additional Jira sites can be configured as named profiles
+ * (JIRA_PROFILES=name1,name2 with JIRA_PROFILE_<NAME>_* variables).
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -14,10 +17,21 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   tryLoadConfigFromEnv,
   getMissingConfigFields,
+  getProfileNamesFromEnv,
+  type JiraConfig,
 } from "./config/index.js";
 import { JiraClient } from "./domain/jira-client.js";
 import { registerTools } from "./tools/index.js";
-import { setConfigured, setUnconfigured, resolveFieldMappings } from "./server-state.js";
+import {
+  setConfigured,
+  setUnconfigured,
+  resolveFieldMappings,
+  switchProfile,
+  isConfigured,
+  listProfiles,
+  getActiveProfileName,
+  DEFAULT_PROFILE_NAME,
+} from "./server-state.js";
 import { startWatcher, stopWatcher, getWatcherConfig } from "./dev/watcher.js";
 
 const SERVER_NAME = "mcp-jira";
@@ -45,21 +59,57 @@ function createServer(): Server {
   return server;
 }
 
+/**
+ * Creates a client for a configuration and registers it as a profile.
+ */
+function configureProfile(config: JiraConfig, profileName: string): void {
+  // Resolve field mappings from config
+  const fieldMappings = resolveFieldMappings(config.fieldMappings);
+  const client = new JiraClient(config, undefined, fieldMappings);
+  setConfigured(config, client, fieldMappings, profileName);
+
+  if (client.getOAuthSession()?.getStatus().loggedIn === false) {
+    console.error(
+      `Profile '${profileName}' uses OAuth but is not signed in. Use jira_oauth_login to sign in.`
+    );
+  }
+}
+
 /**
  * Main entry point.
  */
 async function main(): Promise<void> {
   // Try to load configuration from environment (graceful - no exit on failure)
   const config = tryLoadConfigFromEnv();
-
   if (config) {
-    // Resolve field mappings from config
-    const fieldMappings = resolveFieldMappings(config.fieldMappings);
-    // Configuration available - create client and set configured state
-    const client = new JiraClient(config, undefined, fieldMappings);
-    setConfigured(config, client, fieldMappings);
+    configureProfile(config, DEFAULT_PROFILE_NAME);
+  }
+
+  // Named profiles for additional Jira sites
+  for (const profileName of getProfileNamesFromEnv()) {
+    const profileConfig = tryLoadConfigFromEnv(profileName);
+    if (profileConfig) {
+      configureProfile(profileConfig, profileName);
+    } else {
+      const missingVars = getMissingConfigFields(profileName).map((f) => f.envVar).join(", ");
+      console.error(
+        `Skipping profile '${profileName}': ${missingVars ? `missing ${missingVars}` : "invalid configuration"}`
+      );
+    }
+  }
+
+  if (isConfigured()) {
+    // Default profile (or the first named one) is active unless JIRA_ACTIVE_PROFILE says otherwise
+    const profiles = listProfiles();
+    const requested = process.env["JIRA_ACTIVE_PROFILE"];
+    if (requested && !switchProfile(requested)) {
+      console.error(`JIRA_ACTIVE_PROFILE '${requested}' is not configured`);
+    }
+    if (!requested || !profiles.some((p) => p.name === requested)) {
+      switchProfile(profiles[0]?.name ?? DEFAULT_PROFILE_NAME);
+    }
     console.error(
-      `${SERVER_NAME} v${SERVER_VERSION} started (configured: ${config.baseUrl})`
+      `${SERVER_NAME} v${SERVER_VERSION} started (configured profiles: ${profiles.map((p) => p.name).join(", ")}; active: ${getActiveProfileName()})`
     );
   } else {
     // No configuration - start in unconfigured mode
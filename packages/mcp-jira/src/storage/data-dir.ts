@@ -0,0 +1,39 @@
+/**
+ * Data Directory
+ *
+ * Resolves where the server keeps its on-disk state (repository links,
+ * deployment ledger, etc.). Configurable via JIRA_MCP_DATA_DIR.
+ */
+
+import { homedir } from "os";
+import { join, isAbsolute, resolve } from "path";
+
+/**
+ * Default data directory name, created under the user's home directory.
+ */
+const DEFAULT_DATA_DIR_NAME = ".mcp-jira";
+
+/**
+ * Gets the data directory used for persisted server state.
+ *
+ * Uses JIRA_MCP_DATA_DIR when set (relative paths are resolved against
+ * the current working directory), otherwise ~/.mcp-jira.
+ */
+export function getDataDirectory(): string {
+  const configured = process.env["JIRA_MCP_DATA_DIR"];
+
+  if (configured) {
+    return isAbsolute(configured) ? configured : resolve(configured);
+  }
+
+  return join(homedir(), DEFAULT_DATA_DIR_NAME);
+}
+
+/**
+ * Resolves a file path inside the data directory.
+ *
+ * @param fileName - File name relative to the data directory
+ */
+export function resolveDataPath(fileName: string): string {
+  return join(getDataDirectory(), fileName);
+}
@@ -0,0 +1,24 @@
+/**
+ * Storage Module
+ *
+ * On-disk persistence helpers shared by stateful features
+ * (repository links, deployment ledger).
+ */
+
+// Data Directory
+export { getDataDirectory, resolveDataPath } from "./data-dir.js";
+
+// JSON File Storage
+export {
+  StorageError,
+  StorageSchemaError,
+  writeFileAtomic,
+  readJsonDocument,
+  writeJsonDocument,
+  getSchemaVersion,
+  quarantineFile,
+} from "./json-file.js";
+
+// JSON Lines Storage
+export { readJsonLines, appendJsonLine, writeJsonLines } from "./jsonl-file.js";
+export type { JsonLinesReadResult } from "./jsonl-file.js";
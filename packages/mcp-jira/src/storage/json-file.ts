@@ -0,0 +1,154 @@
+/**
+ * JSON File Storage
+ *
+ * Helpers for reading and writing versioned JSON documents on disk.
+ * Writes are atomic (temp file + rename) so a crash or restart mid-write
+ * never leaves a truncated file behind.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { dirname } from "path";
+import { randomUUID } from "crypto";
+
+/**
+ * Error thrown when a stored file cannot be read or written.
+ */
+export class StorageError extends Error {
+  readonly filePath: string;
+
+  constructor(message: string, filePath: string) {
+    super(message);
+    this.name = "StorageError";
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Error thrown when a stored document was written by a newer schema
+ * version than this server understands.
+ */
+export class StorageSchemaError extends StorageError {
+  readonly foundVersion: number;
+  readonly supportedVersion: number;
+
+  constructor(filePath: string, foundVersion: number, supportedVersion: number) {
+    super(
+      `Unsupported schema version ${foundVersion} in ${filePath} (supported: ${supportedVersion})`,
+      filePath
+    );
+    this.name = "StorageSchemaError";
+    this.foundVersion = foundVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+/**
+ * Writes a file atomically.
+ * Content is written to a temporary sibling file, then renamed over the target.
+ * Parent directories are created when missing.
+ *
+ * @param filePath - Target file path
+ * @param content - File content
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+  try {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    if (existsSync(tempPath)) {
+      try {
+        unlinkSync(tempPath);
+      } catch {
+        // Best effort cleanup
+      }
+    }
+    throw new StorageError(
+      `Failed to write ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      filePath
+    );
+  }
+}
+
+/**
+ * Reads and parses a JSON document.
+ *
+ * @param filePath - File to read
+ * @returns Parsed JSON, or undefined when the file does not exist
+ * @throws StorageError if the file exists but is not valid JSON
+ */
+export function readJsonDocument(filePath: string): unknown {
+  if (!existsSync(filePath)) {
+    return undefined;
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new StorageError(
+      `Failed to read ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      filePath
+    );
+  }
+
+  if (content.trim() === "") {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(content) as unknown;
+  } catch {
+    throw new StorageError(`Invalid JSON in ${filePath}`, filePath);
+  }
+}
+
+/**
+ * Writes a JSON document atomically with stable, human-readable formatting
+ * (suitable for checking into a repository).
+ *
+ * @param filePath - Target file path
+ * @param document - Document to serialize
+ */
+export function writeJsonDocument(filePath: string, document: unknown): void {
+  writeFileAtomic(filePath, `${JSON.stringify(document, null, 2)}\n`);
+}
+
+/**
+ * Gets the schema version of a stored document.
+ * Documents without a numeric schemaVersion are treated as version 0
+ * (the pre-versioning format).
+ */
+export function getSchemaVersion(document: unknown): number {
+  if (
+    document !== null &&
+    typeof document === "object" &&
+    "schemaVersion" in document &&
+    typeof document.schemaVersion === "number"
+  ) {
+    return document.schemaVersion;
+  }
+  return 0;
+}
+
+/**
+ * Moves an unreadable file aside so it is not overwritten, keeping it
+ * available for manual recovery.
+ *
+ * @param filePath - The corrupt file
+ * @returns The path the file was moved to
+ */
+export function quarantineFile(filePath: string): string {
+  const quarantinePath = `${filePath}.corrupt-${Date.now()}`;
+  renameSync(filePath, quarantinePath);
+  return quarantinePath;
+}
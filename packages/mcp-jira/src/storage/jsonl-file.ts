@@ -0,0 +1,126 @@
+/**
+ * JSON Lines Storage
+ *
+ * Helpers for append-only logs stored as JSON Lines (one JSON value per line).
+ * A torn final line (e.g. after a crash mid-append) is skipped on read
+ * rather than failing the whole file, and the next append starts on a new
+ * line so it is not glued onto the torn one.
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  statSync,
+} from "fs";
+import { dirname } from "path";
+import { StorageError, writeFileAtomic } from "./json-file.js";
+
+/**
+ * Result of reading a JSON Lines file.
+ */
+export interface JsonLinesReadResult {
+  /** Parsed records, in file order */
+  readonly records: unknown[];
+  /** Number of lines that could not be parsed */
+  readonly invalidLines: number;
+}
+
+/**
+ * Reads all records from a JSON Lines file.
+ *
+ * @param filePath - File to read
+ * @returns Parsed records (empty when the file does not exist)
+ */
+export function readJsonLines(filePath: string): JsonLinesReadResult {
+  if (!existsSync(filePath)) {
+    return { records: [], invalidLines: 0 };
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new StorageError(
+      `Failed to read ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      filePath
+    );
+  }
+
+  const records: unknown[] = [];
+  let invalidLines = 0;
+
+  for (const line of content.split("\n")) {
+    if (line.trim() === "") {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as unknown);
+    } catch {
+      invalidLines++;
+    }
+  }
+
+  return { records, invalidLines };
+}
+
+/**
+ * Checks whether a file ends in the middle of a line.
+ */
+function endsMidLine(filePath: string): boolean {
+  if (!existsSync(filePath)) {
+    return false;
+  }
+  const { size } = statSync(filePath);
+  if (size === 0) {
+    return false;
+  }
+
+  const fd = openSync(filePath, "r");
+  try {
+    const last = Buffer.alloc(1);
+    readSync(fd, last, 0, 1, size - 1);
+    return last[0] !== 0x0a;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Appends a single record to a JSON Lines file.
+ * Parent directories are created when missing. When the file ends with a
+ * torn line, the record is written on a new line after it.
+ *
+ * @param filePath - Target file path
+ * @param record - Record to append
+ */
+export function appendJsonLine(filePath: string, record: unknown): void {
+  try {
+    mkdirSync(dirname(filePath), { recursive: true });
+    const separator = endsMidLine(filePath) ? "\n" : "";
+    appendFileSync(filePath, `${separator}${JSON.stringify(record)}\n`, {
+      encoding: "utf-8",
+      mode: 0o600,
+    });
+  } catch (error) {
+    throw new StorageError(
+      `Failed to append to ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      filePath
+    );
+  }
+}
+
+/**
+ * Atomically replaces a JSON Lines file with the given records
+ * (used for compaction).
+ *
+ * @param filePath - Target file path
+ * @param records - Records to write
+ */
+export function writeJsonLines(filePath: string, records: readonly unknown[]): void {
+  writeFileAtomic(filePath, records.map((r) => `${JSON.stringify(r)}\n`).join(""));
+}
@@ -0,0 +1,253 @@
+/**
+ * Add Attachment Tool
+ *
+ * MCP tool for attaching generated files (test plans, reports, logs) to Jira issues.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+
+/**
+ * Maximum size of an uploaded file (Jira's default attachment limit).
+ */
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * MIME types by file extension, for files uploaded without one.
+ */
+const MIME_TYPES: Record<string, string> = {
+  md: "text/markdown",
+  txt: "text/plain",
+  log: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  xml: "application/xml",
+  html: "text/html",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  pdf: "application/pdf",
+  zip: "application/zip",
+};
+
+/**
+ * Guesses a MIME type from a file name.
+ */
+export function guessMimeType(filename: string): string {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Input schema for add_attachment tool.
+ */
+export const AddAttachmentInputSchema = z.object({
+  issueKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+    .describe("The Jira issue key (e.g., PROJECT-123)"),
+  filename: z
+    .string()
+    .min(1, "File name cannot be empty")
+    .max(255, "File name must be 255 characters or less")
+    .regex(/^[^/\\]+$/, "File name cannot contain path separators")
+    .describe("Name of the attached file (e.g., test-plan.md)"),
+  content: z
+    .string()
+    .describe("File content: text, or base64 with encoding 'base64'"),
+  encoding: z
+    .enum(["utf8", "base64"])
+    .default("utf8")
+    .describe("Encoding of content (default: utf8)"),
+  mimeType: z
+    .string()
+    .regex(/^[\w.+-]+\/[\w.+-]+$/, "MIME type must look like type/subtype")
+    .optional()
+    .describe("MIME type (default: guessed from the file name)"),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("If true, validate without uploading"),
+});
+
+export type AddAttachmentInput = z.infer<typeof AddAttachmentInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const addAttachmentTool = {
+  name: "add_attachment",
+  description:
+    "Attaches a file to a Jira issue, e.g. a test plan generated by devflow_generate_docs. Content is text, or base64 for binary files (max 10 MB). Use dryRun:true to validate without uploading.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      filename: {
+        type: "string",
+        description: "Name of the attached file (e.g., test-plan.md)",
+        maxLength: 255,
+      },
+      content: {
+        type: "string",
+        description: "File content: text, or base64 with encoding 'base64'",
+      },
+      encoding: {
+        type: "string",
+        enum: ["utf8", "base64"],
+        description: "Encoding of content (default: utf8)",
+      },
+      mimeType: {
+        type: "string",
+        description: "MIME type (default: guessed from the file name)",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, validate without uploading",
+        default: false,
+      },
+    },
+    required: ["issueKey", "filename", "content"],
+  },
+};
+
+/**
+ * Executes the add_attachment tool.
+ */
+export async function executeAddAttachment(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = AddAttachmentInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { issueKey, filename, content, encoding, dryRun } = parseResult.data;
+  const mimeType = parseResult.data.mimeType ?? guessMimeType(filename);
+
+  if (encoding === "base64" && !/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(content)) {
+    return {
+      content: [{ type: "text", text: "Validation error: content: Invalid base64 content" }],
+      isError: true,
+    };
+  }
+
+  const bytes = new Uint8Array(Buffer.from(content, encoding));
+
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Validation error: content: File is ${bytes.length} bytes; the maximum is ${MAX_UPLOAD_BYTES}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Dry run mode - just validate and return what would be uploaded
+  if (dryRun) {
+    const preview = {
+      dryRun: true,
+      issueKey,
+      wouldAttach: { filename, mimeType, size: bytes.length },
+      message: "Validation passed. Set dryRun:false to upload the file.",
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+    };
+  }
+
+  try {
+    const attachment = await client.addAttachment({ issueKey, filename, content: bytes, mimeType });
+
+    const response = {
+      success: true,
+      issueKey,
+      attachment: {
+        id: attachment.id,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+      },
+      message: `Attached '${attachment.filename}' to ${issueKey}`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Issue '${issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to add attachment: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to add attachment: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Add Comment Tool
+ *
+ * MCP tool for posting comments on Jira issues.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+import { extractMentionNames } from "../domain/adf.js";
+
+/**
+ * Comment visibility restriction (shared with update_comment).
+ */
+export const CommentVisibilitySchema = z.object({
+  type: z.enum(["role", "group"]).describe("Restrict by project role or group"),
+  value: z
+    .string()
+    .min(1, "Visibility value cannot be empty")
+    .describe("Role name (e.g., Developers) or group name"),
+});
+
+/**
+ * JSON schema for the visibility argument (shared with update_comment).
+ */
+export const commentVisibilityProperty = {
+  type: "object",
+  description:
+    "Restrict who can see the comment to a project role or group (e.g., {type:'role', value:'Developers'})",
+  properties: {
+    type: { type: "string", enum: ["role", "group"] },
+    value: { type: "string", description: "Role or group name" },
+  },
+  required: ["type", "value"],
+};
+
+/**
+ * Input schema for add_comment tool.
+ */
+export const AddCommentInputSchema = z.object({
+  issueKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+    .describe("The Jira issue key (e.g., PROJECT-123)"),
+  body: z
+    .string()
+    .min(1, "Comment body cannot be empty")
+    .describe("Comment in Markdown (converted to ADF); mention users as @[Display Name]"),
+  visibility: CommentVisibilitySchema.optional().describe("Restrict comment visibility"),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("If true, validate without posting"),
+});
+
+export type AddCommentInput = z.infer<typeof AddCommentInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const addCommentTool = {
+  name: "add_comment",
+  description:
+    "Adds a comment to a Jira issue. The body is Markdown; mention users with @[Display Name]. Optionally restrict visibility to a project role or group. Use dryRun:true to validate without posting.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      body: {
+        type: "string",
+        description: "Comment in Markdown (converted to ADF); mention users as @[Display Name]",
+      },
+      visibility: commentVisibilityProperty,
+      dryRun: {
+        type: "boolean",
+        description: "If true, validate without posting",
+        default: false,
+      },
+    },
+    required: ["issueKey", "body"],
+  },
+};
+
+/**
+ * Executes the add_comment tool.
+ */
+export async function executeAddComment(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = AddCommentInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { dryRun, ...commentInput } = parseResult.data;
+
+  // Dry run mode - just validate and return what would be posted
+  if (dryRun) {
+    const preview = {
+      dryRun: true,
+      issueKey: commentInput.issueKey,
+      body: commentInput.body,
+      mentions: extractMentionNames(commentInput.body),
+      visibility: commentInput.visibility,
+      message: "Validation passed. Set dryRun:false to post the comment.",
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+    };
+  }
+
+  try {
+    const result = await client.addComment(commentInput);
+
+    const response = {
+      success: true,
+      issueKey: commentInput.issueKey,
+      comment: result.comment,
+      ...(result.unresolvedMentions.length > 0 && {
+        unresolvedMentions: result.unresolvedMentions,
+        hint: "Unresolved mentions were posted as plain text. Use the user's exact display name.",
+      }),
+      message: `Comment ${result.comment.id} added to ${commentInput.issueKey}`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Issue '${commentInput.issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to add comment: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to add comment: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
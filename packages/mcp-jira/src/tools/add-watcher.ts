@@ -0,0 +1,203 @@
+/**
+ * Add Watcher Tool
+ *
+ * MCP tool for adding watchers (e.g., stakeholders) to a Jira issue.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+
+/**
+ * Maximum watchers added per request.
+ */
+const MAX_WATCHERS = 20;
+
+/**
+ * Input schema for add_watcher tool.
+ */
+export const AddWatcherInputSchema = z.object({
+  issueKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+    .describe("The Jira issue key (e.g., PROJECT-123)"),
+  accountIds: z
+    .array(z.string().min(1, "Account ID cannot be empty"))
+    .min(1, "At least one account ID is required")
+    .max(MAX_WATCHERS, `Maximum ${MAX_WATCHERS} watchers per request`)
+    .describe("Account IDs (Cloud) or usernames (Data Center) of the users to add"),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("If true, show who would be added without adding"),
+});
+
+export type AddWatcherInput = z.infer<typeof AddWatcherInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const addWatcherTool = {
+  name: "add_watcher",
+  description:
+    "Adds one or more watchers to a Jira issue so they are notified of changes. Users who already watch the issue are skipped. Use dryRun:true to preview.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      accountIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Account IDs (Cloud) or usernames (Data Center) of the users to add",
+        minItems: 1,
+        maxItems: MAX_WATCHERS,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, show who would be added without adding",
+        default: false,
+      },
+    },
+    required: ["issueKey", "accountIds"],
+  },
+};
+
+/**
+ * Executes the add_watcher tool.
+ */
+export async function executeAddWatcher(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = AddWatcherInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { issueKey, accountIds, dryRun } = parseResult.data;
+
+  try {
+    // Also confirms the issue exists, so later 404s concern the user
+    const current = await client.getWatchers(issueKey);
+    const watching = new Set(current.watchers.map((user) => user.accountId));
+
+    const requested = [...new Set(accountIds)];
+    const alreadyWatching = requested.filter((id) => watching.has(id));
+    const toAdd = requested.filter((id) => !watching.has(id));
+
+    if (dryRun) {
+      const preview = {
+        dryRun: true,
+        issueKey: issueKey.toUpperCase(),
+        wouldAdd: toAdd,
+        ...(alreadyWatching.length > 0 && { alreadyWatching }),
+        message: "Set dryRun:false to add these watchers.",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+      };
+    }
+
+    const added: string[] = [];
+    const failed: Array<{ accountId: string; reason: string }> = [];
+
+    for (const accountId of toAdd) {
+      try {
+        await client.addWatcher(issueKey, accountId);
+        added.push(accountId);
+      } catch (error) {
+        if (error instanceof JiraAuthError) {
+          throw error;
+        }
+        const reason =
+          error instanceof JiraNotFoundError
+            ? "User not found"
+            : error instanceof Error
+              ? error.message
+              : "Unknown error";
+        failed.push({ accountId, reason });
+      }
+    }
+
+    const response = {
+      success: failed.length === 0,
+      issueKey: issueKey.toUpperCase(),
+      added,
+      ...(alreadyWatching.length > 0 && { alreadyWatching }),
+      ...(failed.length > 0 && { failed }),
+      message: `Added ${added.length} of ${toAdd.length} watcher(s)`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+      ...(toAdd.length > 0 && added.length === 0 && { isError: true }),
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Issue '${issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to add watchers: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to add watchers: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
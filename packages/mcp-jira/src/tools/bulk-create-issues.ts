@@ -0,0 +1,471 @@
+/**
+ * Bulk Create Issues Tool
+ *
+ * MCP tool for creating a breakdown of issues (epic -> stories -> subtasks)
+ * in one call. Issues reference their parents by local IDs; each level of
+ * the tree is created with Jira's bulk endpoint once its parents exist.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import { JiraApiError, JiraAuthError } from "../domain/jira-client.js";
+import type { CreateIssueInput } from "../domain/types.js";
+
+/**
+ * Maximum issues per request.
+ */
+const MAX_ISSUES = 100;
+
+/**
+ * Schema for one issue of the breakdown.
+ */
+const BulkIssueSchema = z
+  .object({
+    id: z
+      .string()
+      .min(1, "Local ID cannot be empty")
+      .max(50, "Local ID must be 50 characters or less")
+      .describe("Local ID of the issue, referenced by parentId of its children"),
+    summary: z
+      .string()
+      .min(1, "Summary cannot be empty")
+      .max(255, "Summary must be 255 characters or less")
+      .describe("The issue summary/title"),
+    issueTypeName: z
+      .string()
+      .min(1, "Issue type cannot be empty")
+      .describe("The issue type name (e.g., Epic, Story, Sub-task)"),
+    projectKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+      .optional()
+      .describe("Project key, if different from the request's projectKey"),
+    parentId: z
+      .string()
+      .optional()
+      .describe("Local ID of the parent issue in this request"),
+    parentKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Parent key must be in format PROJECT-123")
+      .optional()
+      .describe("Key of an existing parent issue"),
+    description: z
+      .string()
+      .optional()
+      .describe("Description in Markdown"),
+    assigneeAccountId: z
+      .string()
+      .optional()
+      .describe("Atlassian account ID of the assignee"),
+    priorityName: z
+      .string()
+      .optional()
+      .describe("Priority name (e.g., High, Medium, Low)"),
+    labels: z
+      .array(z.string())
+      .optional()
+      .describe("Labels to apply"),
+    storyPoints: z
+      .number()
+      .min(0)
+      .optional()
+      .describe("Story points estimation"),
+  })
+  .refine((issue) => !(issue.parentId && issue.parentKey), {
+    message: "Use either parentId or parentKey, not both",
+  });
+
+type BulkIssue = z.infer<typeof BulkIssueSchema>;
+
+/**
+ * Input schema for bulk_create_issues tool.
+ */
+export const BulkCreateIssuesInputSchema = z
+  .object({
+    projectKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+      .describe("The project key (e.g., PROJ)"),
+    issues: z
+      .array(BulkIssueSchema)
+      .min(1, "At least one issue is required")
+      .max(MAX_ISSUES, `Maximum ${MAX_ISSUES} issues per request`)
+      .describe("Issues to create; children reference their parent by parentId"),
+    rollbackOnFailure: z
+      .boolean()
+      .default(false)
+      .describe("If true, delete the created issues when any issue fails"),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("If true, validate without creating"),
+  })
+  .superRefine((data, ctx) => {
+    const ids = new Map<string, BulkIssue>();
+
+    data.issues.forEach((issue, index) => {
+      if (ids.has(issue.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["issues", index, "id"],
+          message: `Duplicate local ID '${issue.id}'`,
+        });
+      }
+      ids.set(issue.id, issue);
+    });
+
+    data.issues.forEach((issue, index) => {
+      if (issue.parentId === undefined) {
+        return;
+      }
+      if (!ids.has(issue.parentId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["issues", index, "parentId"],
+          message: `Unknown parent ID '${issue.parentId}'`,
+        });
+        return;
+      }
+
+      // Follow the parents; revisiting this issue means a cycle
+      const seen = new Set<string>([issue.id]);
+      for (let parent = ids.get(issue.parentId); parent; parent = parent.parentId ? ids.get(parent.parentId) : undefined) {
+        if (seen.has(parent.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["issues", index, "parentId"],
+            message: `Parent references of '${issue.id}' form a cycle`,
+          });
+          return;
+        }
+        seen.add(parent.id);
+      }
+    });
+  });
+
+export type BulkCreateIssuesInput = z.infer<typeof BulkCreateIssuesInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const bulkCreateIssuesTool = {
+  name: "bulk_create_issues",
+  description:
+    "Creates a breakdown of up to 100 issues (e.g., epic -> stories -> subtasks) with Jira's bulk endpoint. Each issue has a local id; children set parentId to their parent's id (or parentKey for an existing issue). Reports the outcome per issue; with rollbackOnFailure:true the created issues are deleted again if any issue fails. Use dryRun:true to validate without creating.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      projectKey: {
+        type: "string",
+        description: "The project key (e.g., PROJ)",
+        pattern: "^[A-Z][A-Z0-9]*$",
+      },
+      issues: {
+        type: "array",
+        description: "Issues to create; children reference their parent by parentId",
+        items: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Local ID of the issue, referenced by parentId of its children",
+              maxLength: 50,
+            },
+            summary: {
+              type: "string",
+              description: "The issue summary/title",
+              maxLength: 255,
+            },
+            issueTypeName: {
+              type: "string",
+              description: "The issue type name (e.g., Epic, Story, Sub-task)",
+            },
+            projectKey: {
+              type: "string",
+              description: "Project key, if different from the request's projectKey",
+              pattern: "^[A-Z][A-Z0-9]*$",
+            },
+            parentId: {
+              type: "string",
+              description: "Local ID of the parent issue in this request",
+            },
+            parentKey: {
+              type: "string",
+              description: "Key of an existing parent issue",
+              pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+            },
+            description: {
+              type: "string",
+              description: "Description in Markdown",
+            },
+            assigneeAccountId: {
+              type: "string",
+              description: "Atlassian account ID of the assignee",
+            },
+            priorityName: {
+              type: "string",
+              description: "Priority name (e.g., High, Medium, Low)",
+            },
+            labels: {
+              type: "array",
+              items: { type: "string" },
+              description: "Labels to apply",
+            },
+            storyPoints: {
+              type: "number",
+              description: "Story points estimation",
+              minimum: 0,
+            },
+          },
+          required: ["id", "summary", "issueTypeName"],
+        },
+        minItems: 1,
+        maxItems: MAX_ISSUES,
+      },
+      rollbackOnFailure: {
+        type: "boolean",
+        description: "If true, delete the created issues when any issue fails",
+        default: false,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, validate without creating",
+        default: false,
+      },
+    },
+    required: ["projectKey", "issues"],
+  },
+};
+
+/**
+ * Outcome for one issue of the breakdown.
+ */
+interface IssueResult {
+  id: string;
+  summary: string;
+  status: "created" | "failed" | "skipped" | "rolled_back";
+  key?: string;
+  parentKey?: string;
+  reason?: string;
+}
+
+/**
+ * Groups issues by depth in the tree, roots first.
+ */
+function groupByLevel(issues: readonly BulkIssue[]): BulkIssue[][] {
+  const byId = new Map(issues.map((issue) => [issue.id, issue]));
+  const levels: BulkIssue[][] = [];
+
+  for (const issue of issues) {
+    let depth = 0;
+    for (let parentId = issue.parentId; parentId !== undefined; parentId = byId.get(parentId)?.parentId) {
+      depth++;
+    }
+    (levels[depth] ??= []).push(issue);
+  }
+
+  return levels.filter((level) => level !== undefined);
+}
+
+/**
+ * Executes the bulk_create_issues tool.
+ */
+export async function executeBulkCreateIssues(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = BulkCreateIssuesInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { projectKey, issues, rollbackOnFailure, dryRun } = parseResult.data;
+  const levels = groupByLevel(issues);
+
+  const toCreateInput = (issue: BulkIssue, parentKey: string | undefined): CreateIssueInput => ({
+    projectKey: issue.projectKey ?? projectKey,
+    summary: issue.summary,
+    issueTypeName: issue.issueTypeName,
+    description: issue.description,
+    assigneeAccountId: issue.assigneeAccountId,
+    priorityName: issue.priorityName,
+    labels: issue.labels,
+    parentKey,
+    storyPoints: issue.storyPoints,
+  });
+
+  // Dry run mode - just validate and return what would be created
+  if (dryRun) {
+    const preview = {
+      dryRun: true,
+      wouldCreate: levels.flatMap((level, depth) =>
+        level.map((issue) => ({
+          id: issue.id,
+          level: depth,
+          project: issue.projectKey ?? projectKey,
+          issueType: issue.issueTypeName,
+          summary: issue.summary,
+          parent: issue.parentKey ?? (issue.parentId ? `(new) ${issue.parentId}` : undefined),
+        }))
+      ),
+      message: `Validation passed. Set dryRun:false to create ${issues.length} issue(s) in ${levels.length} step(s).`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+    };
+  }
+
+  try {
+    const results = new Map<string, IssueResult>(
+      issues.map((issue) => [issue.id, { id: issue.id, summary: issue.summary, status: "failed" }])
+    );
+    const createdKeys = new Map<string, string>();
+    // Creation order, so a rollback can delete children before their parents
+    const creationOrder: string[] = [];
+
+    for (const level of levels) {
+      const ready: Array<{ issue: BulkIssue; parentKey: string | undefined }> = [];
+
+      for (const issue of level) {
+        const parentKey = issue.parentId ? createdKeys.get(issue.parentId) : issue.parentKey;
+        if (issue.parentId && !parentKey) {
+          Object.assign(results.get(issue.id)!, {
+            status: "skipped",
+            reason: `Parent '${issue.parentId}' was not created`,
+          });
+          continue;
+        }
+        ready.push({ issue, parentKey });
+      }
+
+      if (ready.length === 0) {
+        continue;
+      }
+
+      try {
+        const outcomes = await client.createIssues(
+          ready.map(({ issue, parentKey }) => toCreateInput(issue, parentKey))
+        );
+
+        for (const outcome of outcomes) {
+          const item = ready[outcome.index];
+          if (!item) {
+            continue;
+          }
+          const result = results.get(item.issue.id)!;
+          if (item.parentKey) {
+            result.parentKey = item.parentKey;
+          }
+          if (outcome.issue) {
+            result.status = "created";
+            result.key = outcome.issue.key;
+            createdKeys.set(item.issue.id, outcome.issue.key);
+            creationOrder.push(item.issue.id);
+          } else {
+            result.reason = outcome.error ?? "Creation failed";
+          }
+        }
+      } catch (error) {
+        if (error instanceof JiraAuthError && creationOrder.length === 0) {
+          throw error;
+        }
+        const reason =
+          error instanceof JiraApiError
+            ? `${error.message} (status: ${error.statusCode})`
+            : error instanceof Error
+              ? error.message
+              : "Unknown error";
+        for (const { issue } of ready) {
+          results.get(issue.id)!.reason = reason;
+        }
+      }
+    }
+
+    const all = [...results.values()];
+    const count = (status: IssueResult["status"]): number =>
+      all.filter((result) => result.status === status).length;
+    const incomplete = count("failed") + count("skipped") > 0;
+    const rollbackErrors: string[] = [];
+
+    if (incomplete && rollbackOnFailure) {
+      for (const id of [...creationOrder].reverse()) {
+        const result = results.get(id)!;
+        try {
+          await client.deleteIssue(result.key!);
+          result.status = "rolled_back";
+        } catch (error) {
+          rollbackErrors.push(
+            `${result.key}: ${error instanceof Error ? error.message : "Unknown error"}`
+          );
+        }
+      }
+    }
+
+    const response = {
+      success: !incomplete,
+      created: count("created"),
+      failed: count("failed"),
+      skipped: count("skipped"),
+      ...(incomplete && rollbackOnFailure && { rolledBack: count("rolled_back") }),
+      ...(rollbackErrors.length > 0 && { rollbackErrors }),
+      results: all,
+      message: incomplete
+        ? rollbackOnFailure
+          ? `Not all issues could be created; ${count("rolled_back")} created issue(s) were deleted again`
+          : `Created ${count("created")} of ${issues.length} issue(s)`
+        : `Created ${issues.length} issue(s)`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+      ...(count("created") === 0 && { isError: true }),
+    };
+  } catch (error) {
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to create issues: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to create issues: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
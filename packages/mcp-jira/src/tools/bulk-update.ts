@@ -0,0 +1,499 @@
+/**
+ * Bulk Update Tool
+ *
+ * MCP tool for editing and transitioning a set of issues selected by JQL
+ * or key list. Large sets must be confirmed with the token returned by a
+ * preview, which is bound to the exact issues and changes.
+ */
+
+import { createHash } from "crypto";
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+import type { JiraIssue, UpdateIssueInput } from "../domain/types.js";
+import { runWithConcurrency } from "../domain/rate-limiter.js";
+
+/**
+ * Maximum issues per request.
+ */
+const MAX_ISSUES = 200;
+
+/**
+ * Sets larger than this need a confirmation token.
+ */
+const CONFIRMATION_THRESHOLD = 10;
+
+const DEFAULT_CONCURRENCY = 5;
+const MAX_CONCURRENCY = 10;
+
+/**
+ * Input schema for bulk_update tool.
+ */
+export const BulkUpdateInputSchema = z
+  .object({
+    jql: z
+      .string()
+      .min(1, "JQL query cannot be empty")
+      .optional()
+      .describe("JQL query selecting the issues"),
+    issueKeys: z
+      .array(z.string().regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123"))
+      .min(1, "At least one issue key is required")
+      .max(MAX_ISSUES, `Maximum ${MAX_ISSUES} issues per request`)
+      .optional()
+      .describe("Issue keys to update"),
+    addLabels: z
+      .array(z.string().min(1).regex(/^\S+$/, "Labels cannot contain spaces"))
+      .optional()
+      .describe("Labels to add"),
+    removeLabels: z
+      .array(z.string().min(1))
+      .optional()
+      .describe("Labels to remove"),
+    priorityName: z
+      .string()
+      .optional()
+      .describe("New priority name"),
+    assigneeAccountId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("New assignee account ID (null to unassign)"),
+    storyPoints: z
+      .number()
+      .min(0)
+      .optional()
+      .describe("New story points value"),
+    transition: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Transition to execute, by transition or target status name (e.g., 'QA')"),
+    concurrency: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_CONCURRENCY)
+      .optional()
+      .default(DEFAULT_CONCURRENCY)
+      .describe("Issues updated in parallel"),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe(`Token from the preview, required for more than ${CONFIRMATION_THRESHOLD} issues`),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("If true, preview the affected issues and changes"),
+  })
+  .refine((data) => (data.jql === undefined) !== (data.issueKeys === undefined), {
+    message: "Provide either jql or issueKeys",
+  })
+  .refine(
+    (data) =>
+      data.addLabels !== undefined ||
+      data.removeLabels !== undefined ||
+      data.priorityName !== undefined ||
+      data.assigneeAccountId !== undefined ||
+      data.storyPoints !== undefined ||
+      data.transition !== undefined,
+    { message: "Provide at least one change (labels, priorityName, assigneeAccountId, storyPoints or transition)" }
+  );
+
+export type BulkUpdateInput = z.infer<typeof BulkUpdateInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const bulkUpdateTool = {
+  name: "bulk_update",
+  description: `Edits and/or transitions up to ${MAX_ISSUES} issues selected by JQL or key list: add/remove labels, set priority, assignee or story points, and execute a transition. Run with dryRun:true first to preview the affected issues and per-issue changes; sets larger than ${CONFIRMATION_THRESHOLD} issues require the confirmationToken from the preview. Returns a per-issue result report.`,
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      jql: {
+        type: "string",
+        description: "JQL query selecting the issues",
+      },
+      issueKeys: {
+        type: "array",
+        items: { type: "string", pattern: "^[A-Z][A-Z0-9]*-\\d+$" },
+        description: "Issue keys to update",
+        minItems: 1,
+        maxItems: MAX_ISSUES,
+      },
+      addLabels: {
+        type: "array",
+        items: { type: "string" },
+        description: "Labels to add",
+      },
+      removeLabels: {
+        type: "array",
+        items: { type: "string" },
+        description: "Labels to remove",
+      },
+      priorityName: {
+        type: "string",
+        description: "New priority name",
+      },
+      assigneeAccountId: {
+        type: ["string", "null"],
+        description: "New assignee account ID (null to unassign)",
+      },
+      storyPoints: {
+        type: "number",
+        description: "New story points value",
+        minimum: 0,
+      },
+      transition: {
+        type: "string",
+        description: "Transition to execute, by transition or target status name (e.g., 'QA')",
+      },
+      concurrency: {
+        type: "number",
+        description: `Issues updated in parallel (1-${MAX_CONCURRENCY}, default ${DEFAULT_CONCURRENCY})`,
+        minimum: 1,
+        maximum: MAX_CONCURRENCY,
+      },
+      confirmationToken: {
+        type: "string",
+        description: `Token from the preview, required for more than ${CONFIRMATION_THRESHOLD} issues`,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, preview the affected issues and changes",
+        default: false,
+      },
+    },
+  },
+};
+
+/**
+ * Field changes planned for one issue, as "from -> to".
+ */
+type FieldDiff = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Changes planned for one issue.
+ */
+interface PlannedUpdate {
+  issueKey: string;
+  summary: string;
+  status: string;
+  diff: FieldDiff;
+  update?: UpdateIssueInput;
+  transition?: string;
+}
+
+/**
+ * Outcome for one issue.
+ */
+interface UpdateResult {
+  issueKey: string;
+  status: "updated" | "unchanged" | "failed";
+  changes?: string[];
+  newStatus?: string;
+  reason?: string;
+}
+
+/**
+ * Plans the changes for one issue; unchanged fields are left out.
+ */
+function planUpdate(issue: JiraIssue, input: BulkUpdateInput): PlannedUpdate {
+  const diff: FieldDiff = {};
+  const update: {
+    issueKey: string;
+    labels?: string[];
+    priorityName?: string;
+    assigneeAccountId?: string | null;
+    storyPoints?: number;
+  } = { issueKey: issue.key };
+
+  if (input.addLabels || input.removeLabels) {
+    const remove = new Set(input.removeLabels ?? []);
+    const labels = [...new Set([...issue.labels, ...(input.addLabels ?? [])])].filter(
+      (label) => !remove.has(label)
+    );
+    if (labels.length !== issue.labels.length || labels.some((label, i) => label !== issue.labels[i])) {
+      diff["labels"] = { from: issue.labels, to: labels };
+      update.labels = labels;
+    }
+  }
+
+  if (input.priorityName !== undefined && issue.priority?.name.toLowerCase() !== input.priorityName.toLowerCase()) {
+    diff["priority"] = { from: issue.priority?.name ?? null, to: input.priorityName };
+    update.priorityName = input.priorityName;
+  }
+
+  if (input.assigneeAccountId !== undefined && (issue.assignee?.accountId ?? null) !== input.assigneeAccountId) {
+    diff["assignee"] = { from: issue.assignee?.displayName ?? null, to: input.assigneeAccountId };
+    update.assigneeAccountId = input.assigneeAccountId;
+  }
+
+  if (input.storyPoints !== undefined && issue.storyPoints !== input.storyPoints) {
+    diff["storyPoints"] = { from: issue.storyPoints ?? null, to: input.storyPoints };
+    update.storyPoints = input.storyPoints;
+  }
+
+  const transition =
+    input.transition !== undefined && issue.status.name.toLowerCase() !== input.transition.toLowerCase()
+      ? input.transition
+      : undefined;
+  if (transition) {
+    diff["status"] = { from: issue.status.name, to: `(transition '${transition}')` };
+  }
+
+  return {
+    issueKey: issue.key,
+    summary: issue.summary,
+    status: issue.status.name,
+    diff,
+    ...(Object.keys(update).length > 1 && { update }),
+    ...(transition && { transition }),
+  };
+}
+
+/**
+ * Token binding a confirmation to the selected issues and the requested changes.
+ */
+function confirmationToken(issueKeys: readonly string[], input: BulkUpdateInput): string {
+  const changes = {
+    addLabels: input.addLabels,
+    removeLabels: input.removeLabels,
+    priorityName: input.priorityName,
+    assigneeAccountId: input.assigneeAccountId,
+    storyPoints: input.storyPoints,
+    transition: input.transition,
+  };
+  return createHash("sha256")
+    .update(JSON.stringify([[...issueKeys].sort(), changes]))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+/**
+ * Loads the selected issues.
+ *
+ * @returns The issues, keys that could not be loaded, and whether the JQL matched too many issues
+ */
+async function loadIssues(
+  client: JiraClient,
+  input: BulkUpdateInput
+): Promise<{ issues: JiraIssue[]; missing: string[]; overflow: boolean }> {
+  if (input.issueKeys) {
+    const keys = [...new Set(input.issueKeys.map((key) => key.toUpperCase()))];
+    const loaded = await runWithConcurrency(keys, input.concurrency, async (key) => {
+      try {
+        return await client.getIssue(key);
+      } catch (error) {
+        if (error instanceof JiraNotFoundError) {
+          return undefined;
+        }
+        throw error;
+      }
+    });
+    return {
+      issues: loaded.filter((issue): issue is JiraIssue => issue !== undefined),
+      missing: keys.filter((_, i) => loaded[i] === undefined),
+      overflow: false,
+    };
+  }
+
+  const issues: JiraIssue[] = [];
+  let nextPageToken: string | undefined;
+
+  do {
+    const result = await client.searchJql(input.jql!, { maxResults: 50, nextPageToken });
+    issues.push(...result.issues);
+    nextPageToken = result.nextPageToken;
+  } while (nextPageToken && issues.length <= MAX_ISSUES);
+
+  return { issues, missing: [], overflow: issues.length > MAX_ISSUES };
+}
+
+/**
+ * Applies the planned changes to one issue.
+ */
+async function applyUpdate(client: JiraClient, plan: PlannedUpdate): Promise<UpdateResult> {
+  const changes: string[] = [];
+
+  try {
+    if (plan.update) {
+      await client.updateIssue(plan.update);
+      changes.push(...Object.keys(plan.diff).filter((field) => field !== "status"));
+    }
+
+    let newStatus: string | undefined;
+    if (plan.transition) {
+      const wanted = plan.transition.toLowerCase();
+      const { transitions } = await client.getTransitions(plan.issueKey);
+      const match =
+        transitions.find((t) => t.name.toLowerCase() === wanted) ??
+        transitions.find((t) => t.to.name.toLowerCase() === wanted);
+      if (!match) {
+        throw new Error(
+          `Transition '${plan.transition}' not available from '${plan.status}'. Available: ${transitions.map((t) => t.name).join(", ")}`
+        );
+      }
+      const result = await client.transitionIssue({
+        issueKey: plan.issueKey,
+        transitionId: match.id,
+        transitionName: match.name,
+      });
+      newStatus = result.newStatus;
+      changes.push("status");
+    }
+
+    return { issueKey: plan.issueKey, status: "updated", changes, ...(newStatus && { newStatus }) };
+  } catch (error) {
+    if (error instanceof JiraAuthError) {
+      throw error;
+    }
+    const reason =
+      error instanceof JiraApiError
+        ? `${error.message} (status: ${error.statusCode})`
+        : error instanceof Error
+          ? error.message
+          : "Unknown error";
+    // Earlier changes of this issue were applied before the failure
+    return { issueKey: plan.issueKey, status: "failed", ...(changes.length > 0 && { changes }), reason };
+  }
+}
+
+/**
+ * Executes the bulk_update tool.
+ */
+export async function executeBulkUpdate(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = BulkUpdateInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const data = parseResult.data;
+
+  try {
+    const { issues, missing, overflow } = await loadIssues(client, data);
+
+    if (overflow) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `The query matches more than ${MAX_ISSUES} issues. Narrow the JQL and try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const plans = issues.map((issue) => planUpdate(issue, data));
+    const toChange = plans.filter((plan) => plan.update || plan.transition);
+    const token = confirmationToken(
+      toChange.map((plan) => plan.issueKey),
+      data
+    );
+    const needsConfirmation = toChange.length > CONFIRMATION_THRESHOLD && data.confirmationToken !== token;
+
+    if (data.dryRun || needsConfirmation) {
+      const preview = {
+        ...(data.dryRun && { dryRun: true }),
+        matched: issues.length,
+        toChange: toChange.length,
+        unchanged: plans.length - toChange.length,
+        ...(missing.length > 0 && { notFound: missing }),
+        changes: toChange.map((plan) => ({ issueKey: plan.issueKey, summary: plan.summary, diff: plan.diff })),
+        ...(toChange.length > CONFIRMATION_THRESHOLD && { confirmationToken: token }),
+        message: !data.dryRun
+          ? data.confirmationToken
+            ? "The selected issues or changes differ from the preview the token was issued for. Review this preview and confirm with the new confirmationToken."
+            : `${toChange.length} issues would change. Review the preview and repeat the request with confirmationToken to apply it.`
+          : toChange.length > CONFIRMATION_THRESHOLD
+            ? "Set dryRun:false and pass confirmationToken to apply these changes."
+            : "Set dryRun:false to apply these changes.",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+        ...(needsConfirmation && !data.dryRun && { isError: true }),
+      };
+    }
+
+    const applied = await runWithConcurrency(toChange, data.concurrency, (plan) => applyUpdate(client, plan));
+    const results: UpdateResult[] = [
+      ...applied,
+      ...plans
+        .filter((plan) => !plan.update && !plan.transition)
+        .map((plan): UpdateResult => ({ issueKey: plan.issueKey, status: "unchanged" })),
+      ...missing.map((issueKey): UpdateResult => ({ issueKey, status: "failed", reason: "Issue not found" })),
+    ];
+    const count = (status: UpdateResult["status"]): number =>
+      results.filter((result) => result.status === status).length;
+
+    const response = {
+      success: count("failed") === 0,
+      updated: count("updated"),
+      unchanged: count("unchanged"),
+      failed: count("failed"),
+      results,
+      message: `Updated ${count("updated")} of ${results.length} issue(s)`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+      ...(count("updated") === 0 && count("failed") > 0 && { isError: true }),
+    };
+  } catch (error) {
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to update issues: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to update issues: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
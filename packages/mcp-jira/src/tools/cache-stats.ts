@@ -0,0 +1,76 @@
+/**
+ * Cache Stats Tool
+ *
+ * Diagnostic tool for the Jira API response cache: shows hit rates and
+ * entries per resource kind, and can clear the cache to force fresh data.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+
+/**
+ * Input schema for jira_cache_stats tool.
+ */
+export const CacheStatsInputSchema = z.object({
+  clear: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Clear all cached responses after reading the statistics"),
+});
+
+export type CacheStatsInput = z.infer<typeof CacheStatsInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const cacheStatsTool = {
+  name: "jira_cache_stats",
+  description:
+    "Shows Jira API response cache statistics: hits, misses, ETag revalidations, invalidations and " +
+    "entries per resource kind (closed sprints, active sprint, issues, boards, metadata) with their TTLs. " +
+    "Set clear to true to drop all cached responses.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      clear: {
+        type: "boolean",
+        description: "Clear all cached responses after reading the statistics",
+        default: false,
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * Executes the jira_cache_stats tool.
+ */
+export function executeCacheStats(
+  client: JiraClient,
+  input: unknown
+): {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+} {
+  const parseResult = CacheStatsInputSchema.safeParse(input ?? {});
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const stats = client.getCacheStats();
+  const response = parseResult.data.clear
+    ? { ...stats, cleared: client.clearCache() }
+    : stats;
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+  };
+}
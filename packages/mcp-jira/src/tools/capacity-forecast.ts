@@ -7,12 +7,29 @@
 import { z } from "zod";
 import type { JiraClient } from "../domain/jira-client.js";
 import { JiraAuthError } from "../domain/jira-client.js";
-import type { JiraIssue, SprintVelocityEntry, JiraSprint } from "../domain/types.js";
+import type { JiraIssue, JiraWorklog, SprintVelocityEntry, JiraSprint } from "../domain/types.js";
 import {
   forecastCapacity,
   getCapacitySummary,
   getSeasonalAdjustment,
 } from "../analysis/velocity/index.js";
+import {
+  analyzeTimeTracking,
+  type SprintWork,
+  type TimeTrackingAnalysis,
+} from "../analysis/time-tracking/index.js";
+import { runWithConcurrency } from "../domain/rate-limiter.js";
+
+/**
+ * Maximum number of issues whose worklogs are fetched; other issues with
+ * logged time are left out of the measured rate.
+ */
+const MAX_WORKLOG_ISSUES = 100;
+
+/**
+ * Worklog requests in flight at once.
+ */
+const WORKLOG_CONCURRENCY = 4;
 
 /**
  * Input schema for capacity forecast tool.
@@ -53,6 +70,11 @@ export const CapacityForecastInputSchema = z.object({
     .optional()
     .default(0.1)
     .describe("Buffer percentage for planning (default: 0.1 = 10%)"),
+  useWorklogs: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Measure points per person-day from logged work when the team logs time (default: true)"),
   outputMode: z
     .enum(["summary", "detailed", "full"])
     .optional()
@@ -101,6 +123,10 @@ export const capacityForecastTool = {
         minimum: 0,
         maximum: 0.5,
       },
+      useWorklogs: {
+        type: "boolean",
+        description: "Measure points per person-day from logged work when the team logs time (default: true)",
+      },
       outputMode: {
         type: "string",
         enum: ["summary", "detailed", "full"],
@@ -135,13 +161,13 @@ function groupIssuesBySprint(
 }
 
 /**
- * Fetches velocity history for the project.
+ * Fetches the issues of the project's most recent closed sprints.
  */
-async function fetchVelocityHistory(
+async function fetchSprintHistory(
   client: JiraClient,
   projectKey: string,
   sprintCount: number
-): Promise<SprintVelocityEntry[]> {
+): Promise<SprintWork[]> {
   const allIssues: JiraIssue[] = [];
   let nextPageToken: string | undefined;
   let pagesLoaded = 0;
@@ -178,30 +204,84 @@ async function fetchVelocityHistory(
       const dateB = b.sprint.completeDate ?? "";
       return dateA.localeCompare(dateB);
     })
-    .slice(-sprintCount)
-    .map(({ sprint, issues }) => {
-      let completedPoints = 0;
-      let committedPoints = 0;
-      let completedIssues = 0;
-
-      for (const issue of issues) {
-        const points = issue.storyPoints ?? 0;
-        committedPoints += points;
-
-        if (issue.status.categoryKey === "done") {
-          completedPoints += points;
-          completedIssues++;
-        }
+    .slice(-sprintCount);
+}
+
+/**
+ * Calculates velocity entries for sprints.
+ */
+function toVelocityHistory(sprints: readonly SprintWork[]): SprintVelocityEntry[] {
+  return sprints.map(({ sprint, issues }) => {
+    let completedPoints = 0;
+    let committedPoints = 0;
+    let completedIssues = 0;
+
+    for (const issue of issues) {
+      const points = issue.storyPoints ?? 0;
+      committedPoints += points;
+
+      if (issue.status.categoryKey === "done") {
+        completedPoints += points;
+        completedIssues++;
       }
+    }
 
-      return {
-        sprint,
-        completedPoints,
-        completedIssues,
-        committedPoints,
-        committedIssues: issues.length,
-      };
-    });
+    return {
+      sprint,
+      completedPoints,
+      completedIssues,
+      committedPoints,
+      committedIssues: issues.length,
+    };
+  });
+}
+
+/**
+ * Fetches worklogs of sprint issues that have time logged, so work can be
+ * attributed to the sprint it was logged in. Issues of the most recent
+ * sprints come first; the rest are returned as capped.
+ */
+async function fetchWorklogs(
+  client: JiraClient,
+  sprints: readonly SprintWork[]
+): Promise<{ worklogs: Map<string, readonly JiraWorklog[]>; capped: Set<string> }> {
+  const issueKeys = [
+    ...new Set(
+      [...sprints].reverse().flatMap(({ issues }) =>
+        issues
+          .filter((issue) => (issue.timeTracking?.timeSpentSeconds ?? 0) > 0)
+          .map((issue) => issue.key)
+      )
+    ),
+  ];
+  const fetched = issueKeys.slice(0, MAX_WORKLOG_ISSUES);
+
+  const results = await runWithConcurrency(fetched, WORKLOG_CONCURRENCY, (issueKey) =>
+    client.getWorklogs(issueKey, { maxResults: 1000 })
+  );
+
+  return {
+    worklogs: new Map(fetched.map((issueKey, index) => [issueKey, results[index]?.worklogs ?? []])),
+    capped: new Set(issueKeys.slice(MAX_WORKLOG_ISSUES)),
+  };
+}
+
+/**
+ * Measures logged work against delivered points. Issues whose worklogs
+ * were not fetched are left out, so their lifetime time spent is not
+ * mixed with work logged within each sprint.
+ */
+async function measureTimeTracking(
+  client: JiraClient,
+  sprints: readonly SprintWork[]
+): Promise<{ analysis: TimeTrackingAnalysis; cappedIssues: number }> {
+  const { worklogs, capped } = await fetchWorklogs(client, sprints);
+  const measured = sprints.map(({ sprint, issues }) => ({
+    sprint,
+    issues: issues.filter((issue) => !capped.has(issue.key)),
+  }));
+
+  return { analysis: analyzeTimeTracking(measured, worklogs), cappedIssues: capped.size };
 }
 
 /**
@@ -232,17 +312,24 @@ export async function executeCapacityForecast(
     velocitySprintCount,
     meetingOverhead,
     bufferPercentage,
+    useWorklogs,
     outputMode,
   } = parseResult.data;
   const normalizedProjectKey = projectKey.toUpperCase();
 
   try {
     // Fetch velocity history
-    const velocityHistory = await fetchVelocityHistory(
+    const sprintHistory = await fetchSprintHistory(
       client,
       normalizedProjectKey,
       velocitySprintCount
     );
+    const velocityHistory = toVelocityHistory(sprintHistory);
+
+    // Compare logged work with delivered points
+    const timeTracking = useWorklogs ? await measureTimeTracking(client, sprintHistory) : undefined;
+    const measuredTimeTracking =
+      timeTracking && timeTracking.analysis.sprintsWithLoggedWork > 0 ? timeTracking.analysis : undefined;
 
     // Calculate capacity forecast
     const forecast = forecastCapacity(undefined, {
@@ -250,6 +337,7 @@ export async function executeCapacityForecast(
       meetingOverhead,
       bufferPercentage,
       velocitySprints: velocityHistory,
+      timeTracking: measuredTimeTracking,
     });
 
     // Get seasonal adjustment for current date
@@ -291,6 +379,31 @@ export async function executeCapacityForecast(
       };
     }
 
+    // Logged work basis
+    if (measuredTimeTracking) {
+      response["timeTracking"] = {
+        sprintsWithLoggedWork: measuredTimeTracking.sprintsWithLoggedWork,
+        loggedHours: measuredTimeTracking.totalLoggedHours,
+        unloggedPoints: measuredTimeTracking.totalUnloggedPoints,
+        hoursPerPoint: measuredTimeTracking.hoursPerPoint,
+        pointsPerPersonDay: measuredTimeTracking.pointsPerPersonDay,
+        averageContributors: measuredTimeTracking.averageContributors,
+        ...(timeTracking && timeTracking.cappedIssues > 0 && {
+          note: `Worklogs were fetched for the first ${MAX_WORKLOG_ISSUES} issues with logged time (most recent sprints first); ${timeTracking.cappedIssues} other issue(s) are left out of the measured rate`,
+        }),
+        ...(outputMode === "full" && {
+          sprints: measuredTimeTracking.sprints.map((s) => ({
+            sprint: s.sprint.name,
+            completedPoints: s.completedPoints,
+            unloggedPoints: s.unloggedPoints,
+            loggedHours: s.loggedHours,
+            pointsPerPersonDay: s.pointsPerPersonDay,
+            contributors: s.contributors,
+          })),
+        }),
+      };
+    }
+
     // Seasonal adjustment
     if (seasonalAdj.factor !== 1.0) {
       response["seasonalAdjustment"] = {
@@ -3,17 +3,25 @@
  *
  * MCP tool for configuring custom field mappings at runtime.
  * Allows users to specify their Jira instance's exact field IDs
- * for Story Points and Sprint fields.
+ * for Story Points and Sprint fields, and to name other custom fields
+ * (aliases) so they can be read and written like built-in fields.
  */
 
 import { z } from "zod";
-import { CustomFieldIdSchema } from "../config/index.js";
+import {
+  CustomFieldIdSchema,
+  CustomFieldAliasNameSchema,
+  CustomFieldAliasSchema,
+} from "../config/index.js";
+import type { CustomFieldAliasConfig } from "../config/index.js";
+import { findCustomFieldAlias } from "../domain/custom-fields.js";
 import {
   getFieldMappings,
   updateFieldMappings,
   resetFieldMappings,
   getServerState,
 } from "../server-state.js";
+import type { ResolvedFieldMappings } from "../server-state.js";
 
 /**
  * Input schema for jira_configure_fields tool.
@@ -25,10 +33,18 @@ export const ConfigureFieldsInputSchema = z.object({
   sprint: CustomFieldIdSchema.optional().describe(
     "Custom field ID for Sprint (e.g., customfield_10020)"
   ),
+  customFields: z
+    .record(CustomFieldAliasNameSchema, CustomFieldAliasSchema)
+    .optional()
+    .describe("Custom field aliases to add or replace, keyed by name"),
+  removeCustomFields: z
+    .array(z.string())
+    .optional()
+    .describe("Names of custom field aliases to remove"),
   reset: z
     .boolean()
     .optional()
-    .describe("Reset to default field candidates"),
+    .describe("Reset to default field candidates and remove all aliases"),
 });
 
 export type ConfigureFieldsInput = z.infer<typeof ConfigureFieldsInputSchema>;
@@ -39,9 +55,10 @@ export type ConfigureFieldsInput = z.infer<typeof ConfigureFieldsInputSchema>;
 export const configureFieldsTool = {
   name: "jira_configure_fields",
   description:
-    "Configure custom field mappings for Story Points and Sprint fields. " +
+    "Configure custom field mappings for Story Points and Sprint fields, and aliases for other custom fields. " +
     "Use this when your Jira instance uses non-standard field IDs. " +
-    "Use the jira_discover_fields tool to find the correct field IDs. " +
+    "Aliased fields (e.g., Team -> customfield_10050, type select) appear in get_issue/search_jql output under customFields and can be set through create_issue/update_issue. " +
+    "Use the jira_discover_fields tool to find the correct field IDs and suggested aliases. " +
     "Set reset:true to restore default field candidates.",
   inputSchema: {
     type: "object" as const,
@@ -57,24 +74,68 @@ export const configureFieldsTool = {
         description: "Custom field ID for Sprint (e.g., customfield_10020)",
         pattern: "^customfield_\\d+$",
       },
+      customFields: {
+        type: "object",
+        description:
+          "Custom field aliases to add or replace, keyed by name (e.g., { \"Team\": { \"id\": \"customfield_10050\", \"type\": \"select\" } })",
+        additionalProperties: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Custom field ID (e.g., customfield_10050)",
+              pattern: "^customfield_\\d+$",
+            },
+            type: {
+              type: "string",
+              enum: ["text", "number", "select", "multi-select", "user", "date"],
+              description: "Value type of the field",
+            },
+          },
+          required: ["id", "type"],
+        },
+      },
+      removeCustomFields: {
+        type: "array",
+        items: { type: "string" },
+        description: "Names of custom field aliases to remove",
+      },
       reset: {
         type: "boolean",
-        description: "Reset to default field candidates",
+        description: "Reset to default field candidates and remove all aliases",
       },
     },
     required: [],
   },
 };
 
+/**
+ * Formats field mappings for output.
+ */
+function formatMappings(mappings: ResolvedFieldMappings | undefined): Record<string, unknown> {
+  return {
+    storyPointsField: mappings?.storyPointsField,
+    storyPointsCandidates: mappings?.storyPointsCandidates,
+    sprintField: mappings?.sprintField,
+    sprintCandidates: mappings?.sprintCandidates,
+    customFields: Object.fromEntries(
+      (mappings?.customFields ?? []).map((alias) => [alias.name, { id: alias.id, type: alias.type }])
+    ),
+  };
+}
+
 /**
  * Executes the jira_configure_fields tool.
+ *
+ * @param input - Tool input
+ * @param profile - Connection profile to configure (default: active profile)
  */
-export function executeConfigureFields(input: unknown): {
+export function executeConfigureFields(input: unknown, profile?: string): {
   content: Array<{ type: "text"; text: string }>;
   isError?: boolean;
 } {
   // Check if server is configured
-  const state = getServerState();
+  const state = getServerState(profile);
   if (state.status !== "configured") {
     return {
       content: [
@@ -100,22 +161,17 @@ export function executeConfigureFields(input: unknown): {
     };
   }
 
-  const { storyPoints, sprint, reset } = parseResult.data;
+  const { storyPoints, sprint, customFields, removeCustomFields, reset } = parseResult.data;
 
   // Handle reset
   if (reset) {
-    resetFieldMappings();
-    const currentMappings = getFieldMappings();
+    resetFieldMappings(profile);
+    const currentMappings = getFieldMappings(profile);
 
     const response = {
       success: true,
       action: "reset",
-      fieldMappings: {
-        storyPointsField: currentMappings?.storyPointsField,
-        storyPointsCandidates: currentMappings?.storyPointsCandidates,
-        sprintField: currentMappings?.sprintField,
-        sprintCandidates: currentMappings?.sprintCandidates,
-      },
+      fieldMappings: formatMappings(currentMappings),
       message: "Field mappings reset to defaults",
     };
 
@@ -130,18 +186,13 @@ export function executeConfigureFields(input: unknown): {
   }
 
   // Check if any field is provided
-  if (!storyPoints && !sprint) {
+  if (!storyPoints && !sprint && !customFields && !removeCustomFields) {
     // Return current mappings
-    const currentMappings = getFieldMappings();
+    const currentMappings = getFieldMappings(profile);
 
     const response = {
-      currentMappings: {
-        storyPointsField: currentMappings?.storyPointsField,
-        storyPointsCandidates: currentMappings?.storyPointsCandidates,
-        sprintField: currentMappings?.sprintField,
-        sprintCandidates: currentMappings?.sprintCandidates,
-      },
-      hint: "Provide storyPoints or sprint to update, or reset:true to restore defaults",
+      currentMappings: formatMappings(currentMappings),
+      hint: "Provide storyPoints, sprint, customFields or removeCustomFields to update, or reset:true to restore defaults",
     };
 
     return {
@@ -154,11 +205,43 @@ export function executeConfigureFields(input: unknown): {
     };
   }
 
-  // Update field mappings
-  const success = updateFieldMappings({
-    storyPoints,
-    sprint,
-  });
+  const previousMappings = getFieldMappings(profile);
+  const previousAliases = previousMappings?.customFields ?? [];
+
+  const unknownAliases = (removeCustomFields ?? []).filter(
+    (name) => !findCustomFieldAlias(previousAliases, name)
+  );
+  if (unknownAliases.length > 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unknown custom field alias(es): ${unknownAliases.join(", ")}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Aliases are merged: names match case-insensitively, so "team" replaces "Team"
+  const replaced = [...(removeCustomFields ?? []), ...Object.keys(customFields ?? {})];
+  const aliases: Record<string, CustomFieldAliasConfig> = {};
+  for (const alias of previousAliases) {
+    if (!replaced.some((name) => findCustomFieldAlias([alias], name))) {
+      aliases[alias.name] = { id: alias.id, type: alias.type };
+    }
+  }
+  Object.assign(aliases, customFields);
+
+  // Update field mappings, keeping the fields that are not provided
+  const success = updateFieldMappings(
+    {
+      storyPoints: storyPoints ?? previousMappings?.storyPointsField,
+      sprint: sprint ?? previousMappings?.sprintField,
+      customFields: aliases,
+    },
+    profile
+  );
 
   if (!success) {
     return {
@@ -172,7 +255,7 @@ export function executeConfigureFields(input: unknown): {
     };
   }
 
-  const currentMappings = getFieldMappings();
+  const currentMappings = getFieldMappings(profile);
 
   const response = {
     success: true,
@@ -180,13 +263,10 @@ export function executeConfigureFields(input: unknown): {
     updated: {
       storyPoints: storyPoints ?? "(unchanged)",
       sprint: sprint ?? "(unchanged)",
+      ...(customFields && { customFields: Object.keys(customFields) }),
+      ...(removeCustomFields && { removedCustomFields: removeCustomFields }),
     },
-    fieldMappings: {
-      storyPointsField: currentMappings?.storyPointsField,
-      storyPointsCandidates: currentMappings?.storyPointsCandidates,
-      sprintField: currentMappings?.sprintField,
-      sprintCandidates: currentMappings?.sprintCandidates,
-    },
+    fieldMappings: formatMappings(currentMappings),
     message: "Field mappings updated successfully",
   };
 
@@ -6,9 +6,9 @@
  */
 
 import { z } from "zod";
-import { createConfig } from "../config/index.js";
+import { createConfig, ProfileNameSchema } from "../config/index.js";
 import { JiraClient } from "../domain/jira-client.js";
-import { setConfigured } from "../server-state.js";
+import { setConfigured, DEFAULT_PROFILE_NAME } from "../server-state.js";
 
 /**
  * Input schema for jira_configure tool.
@@ -25,16 +25,33 @@ export const ConfigureInputSchema = z.object({
   email: z
     .string()
     .email("email must be a valid email address")
-    .describe("Your Jira account email"),
+    .optional()
+    .describe("Your Jira account email (Cloud)"),
   apiToken: z
     .string()
     .min(1, "apiToken is required")
-    .describe("Your Jira API token"),
+    .optional()
+    .describe("Your Jira API token (Cloud)"),
+  personalAccessToken: z
+    .string()
+    .min(1, "personalAccessToken must not be empty")
+    .optional()
+    .describe("Personal Access Token (Server / Data Center)"),
+  deployment: z
+    .enum(["cloud", "datacenter"])
+    .optional()
+    .describe("Jira deployment flavor (defaults to datacenter with a Personal Access Token)"),
+  profile: ProfileNameSchema.optional().describe(
+    "Connection profile to configure (default: default). Use a new name to add another Jira site."
+  ),
   confirmSecurityWarning: z
     .boolean()
     .optional()
     .describe("Set to true to acknowledge security warning"),
-});
+}).refine(
+  (input) => input.personalAccessToken !== undefined || (input.email !== undefined && input.apiToken !== undefined),
+  { message: "Provide either personalAccessToken or both email and apiToken", path: ["apiToken"] }
+);
 
 export type ConfigureInput = z.infer<typeof ConfigureInputSchema>;
 
@@ -58,11 +75,25 @@ export const configureTool = {
       },
       email: {
         type: "string",
-        description: "Your Jira account email",
+        description: "Your Jira account email (Cloud)",
       },
       apiToken: {
         type: "string",
-        description: "Your Jira API token",
+        description: "Your Jira API token (Cloud)",
+      },
+      personalAccessToken: {
+        type: "string",
+        description: "Personal Access Token (Server / Data Center). Replaces email and apiToken.",
+      },
+      deployment: {
+        type: "string",
+        enum: ["cloud", "datacenter"],
+        description: "Jira deployment flavor (default: cloud, or datacenter with a Personal Access Token)",
+      },
+      profile: {
+        type: "string",
+        description:
+          "Connection profile to configure (default: \"default\"). Use a new name to add another Jira site; it becomes the active profile.",
       },
       confirmSecurityWarning: {
         type: "boolean",
@@ -70,7 +101,7 @@ export const configureTool = {
           "Set to true to acknowledge that credentials will be visible in chat history",
       },
     },
-    required: ["baseUrl", "email", "apiToken"],
+    required: ["baseUrl"],
   },
 };
 
@@ -94,7 +125,27 @@ export async function executeConfigure(input: unknown): Promise<{
     };
   }
 
-  const { baseUrl, email, apiToken, confirmSecurityWarning } = parseResult.data;
+  const {
+    baseUrl,
+    email,
+    apiToken,
+    personalAccessToken,
+    deployment,
+    profile = DEFAULT_PROFILE_NAME,
+    confirmSecurityWarning,
+  } = parseResult.data;
+
+  const envExample = personalAccessToken
+    ? `export JIRA_BASE_URL="${baseUrl}"
+export JIRA_PERSONAL_ACCESS_TOKEN="your-personal-access-token"`
+    : `export JIRA_BASE_URL="${baseUrl}"
+export JIRA_USER_EMAIL="${email}"
+export JIRA_API_TOKEN="your-api-token"`;
+
+  const credentialsExample = personalAccessToken
+    ? `personalAccessToken: "your-personal-access-token"`
+    : `email: "${email}",
+  apiToken: "your-api-token"`;
 
   // Security warning check
   if (!confirmSecurityWarning) {
@@ -109,9 +160,7 @@ The credentials you provide will be visible in the chat history of this conversa
 **For better security, consider using environment variables instead:**
 
 \`\`\`bash
-export JIRA_BASE_URL="${baseUrl}"
-export JIRA_USER_EMAIL="${email}"
-export JIRA_API_TOKEN="your-api-token"
+${envExample}
 \`\`\`
 
 Then restart the MCP server.
@@ -121,8 +170,7 @@ Then restart the MCP server.
 \`\`\`
 jira_configure(
   baseUrl: "${baseUrl}",
-  email: "${email}",
-  apiToken: "your-api-token",
+  ${credentialsExample},
   confirmSecurityWarning: true
 )
 \`\`\`
@@ -137,7 +185,7 @@ Your credentials will be stored in memory only (not persisted to disk) and will
   // Create config (validates format)
   let config;
   try {
-    config = createConfig({ baseUrl, email, apiToken });
+    config = createConfig({ baseUrl, email, apiToken, personalAccessToken, deployment });
   } catch (error) {
     return {
       content: [
@@ -156,8 +204,12 @@ Your credentials will be stored in memory only (not persisted to disk) and will
   try {
     const connectionInfo = await client.verifyConnection();
 
+    if (!connectionInfo.success || !connectionInfo.compatible) {
+      throw new Error(connectionInfo.error ?? "Connection verification failed");
+    }
+
     // Update server state
-    setConfigured(config, client);
+    setConfigured(config, client, undefined, profile);
 
     const userName = connectionInfo.user?.displayName ?? "Unknown";
     const userEmail = connectionInfo.user?.emailAddress;
@@ -170,6 +222,7 @@ Your credentials will be stored in memory only (not persisted to disk) and will
           text: `## Jira Configured Successfully
 
 **Instance**: ${baseUrl}
+**Profile**: ${profile} (active)
 **Connected as**: ${userName}${userEmail ? ` (${userEmail})` : ""}
 **Deployment**: ${deployment}
 
@@ -190,8 +243,10 @@ All Jira tools are now available:
     let helpText = "";
     if (errorMessage.includes("401") || errorMessage.includes("Unauthorized")) {
       helpText =
-        "\n\n**Tip**: Check that your email and API token are correct. " +
-        "API tokens can be generated at: https://id.atlassian.com/manage-profile/security/api-tokens";
+        (personalAccessToken
+          ? "\n\n**Tip**: Check that your Personal Access Token is valid and not expired."
+          : "\n\n**Tip**: Check that your email and API token are correct. " +
+            "API tokens can be generated at: https://id.atlassian.com/manage-profile/security/api-tokens");
     } else if (
       errorMessage.includes("403") ||
       errorMessage.includes("Forbidden")
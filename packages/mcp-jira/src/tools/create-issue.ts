@@ -6,55 +6,87 @@
 
 import { z } from "zod";
 import type { JiraClient } from "../domain/jira-client.js";
-import { JiraApiError, JiraAuthError } from "../domain/jira-client.js";
+import { checkCustomFieldValues, findCustomFieldAlias } from "../domain/custom-fields.js";
+import {
+  findByName,
+  describeInvalidValue,
+  checkAllowedValue,
+  findMissingRequiredFields,
+} from "../domain/project-metadata.js";
+import { findComponentOwner } from "../domain/components.js";
+import type { ComponentOwner } from "../domain/components.js";
+import type { JiraIssueType } from "../domain/types.js";
+import { resolveAssignee } from "./find-users.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraProjectNotFoundError,
+} from "../domain/jira-client.js";
 
 /**
  * Input schema for create_issue tool.
  */
-export const CreateIssueInputSchema = z.object({
-  projectKey: z
-    .string()
-    .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
-    .describe("The project key (e.g., PROJ)"),
-  summary: z
-    .string()
-    .min(1, "Summary cannot be empty")
-    .max(255, "Summary must be 255 characters or less")
-    .describe("The issue summary/title"),
-  issueTypeName: z
-    .string()
-    .describe("The issue type name (e.g., Bug, Story, Task, Sub-task)"),
-  description: z
-    .string()
-    .optional()
-    .describe("Plain text description (converted to Atlassian Document Format)"),
-  assigneeAccountId: z
-    .string()
-    .optional()
-    .describe("Atlassian account ID of the assignee"),
-  priorityName: z
-    .string()
-    .optional()
-    .describe("Priority name (e.g., High, Medium, Low)"),
-  labels: z
-    .array(z.string())
-    .optional()
-    .describe("Array of labels to apply"),
-  parentKey: z
-    .string()
-    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Parent key must be in format PROJECT-123")
-    .optional()
-    .describe("Parent issue key for subtasks"),
-  storyPoints: z
-    .number()
-    .min(0)
-    .optional()
-    .describe("Story points estimation"),
-  dryRun: z
-    .boolean()
-    .default(false)
-    .describe("If true, validate without creating"),
-});
+export const CreateIssueInputSchema = z
+  .object({
+    projectKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+      .describe("The project key (e.g., PROJ)"),
+    summary: z
+      .string()
+      .min(1, "Summary cannot be empty")
+      .max(255, "Summary must be 255 characters or less")
+      .describe("The issue summary/title"),
+    issueTypeName: z
+      .string()
+      .describe("The issue type name (e.g., Bug, Story, Task, Sub-task)"),
+    description: z
+      .string()
+      .optional()
+      .describe("Description in Markdown (converted to Atlassian Document Format)"),
+    assigneeAccountId: z
+      .string()
+      .optional()
+      .describe("Atlassian account ID of the assignee"),
+    assignee: z
+      .string()
+      .min(1, "Assignee cannot be empty")
+      .optional()
+      .describe("Assignee display name or email, resolved among the project's assignable users"),
+    priorityName: z
+      .string()
+      .optional()
+      .describe("Priority name (e.g., High, Medium, Low)"),
+    labels: z
+      .array(z.string())
+      .optional()
+      .describe("Array of labels to apply"),
+    componentNames: z
+      .array(z.string().min(1, "Component name cannot be empty"))
+      .optional()
+      .describe("Names of the project components the issue belongs to"),
+    parentKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Parent key must be in format PROJECT-123")
+      .optional()
+      .describe("Parent issue key for subtasks"),
+    storyPoints: z
+      .number()
+      .min(0)
+      .optional()
+      .describe("Story points estimation"),
+    customFields: z
+      .record(z.union([z.string(), z.number(), z.array(z.string())]))
+      .optional()
+      .describe("Custom field values keyed by alias from jira_configure_fields"),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("If true, validate without creating"),
+  })
+  .refine((data) => !(data.assignee && data.assigneeAccountId), {
+    message: "Provide either assignee or assigneeAccountId, not both",
+  });
 
 export type CreateIssueInput = z.infer<typeof CreateIssueInputSchema>;
 
@@ -64,7 +96,7 @@ export type CreateIssueInput = z.infer<typeof CreateIssueInputSchema>;
 export const createIssueTool = {
   name: "create_issue",
   description:
-    "Creates a new Jira issue with the specified fields. Supports project, summary, type, description, assignee, priority, labels, parent (for subtasks), and story points. Use dryRun:true to validate without creating.",
+    "Creates a new Jira issue with the specified fields. The issue type, priority and required fields are checked against the project first (see get_project_metadata). Supports project, summary, type, description, assignee (account ID, or a name or email resolved among the project's assignable users), priority, labels, components (suggesting their owner when no assignee is given), parent (for subtasks), story points, and custom fields by alias (see jira_configure_fields). Use dryRun:true to validate without creating.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -84,12 +116,17 @@ export const createIssueTool = {
       },
       description: {
         type: "string",
-        description: "Plain text description (converted to ADF)",
+        description: "Description in Markdown (converted to ADF): headings, lists, checklists, tables, code blocks, links",
       },
       assigneeAccountId: {
         type: "string",
         description: "Atlassian account ID of the assignee",
       },
+      assignee: {
+        type: "string",
+        description:
+          "Assignee display name or email, resolved among the project's assignable users (alternative to assigneeAccountId)",
+      },
       priorityName: {
         type: "string",
         description: "Priority name (e.g., High, Medium, Low)",
@@ -99,6 +136,12 @@ export const createIssueTool = {
         items: { type: "string" },
         description: "Array of labels to apply",
       },
+      componentNames: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Names of the project components the issue belongs to. Without an assignee, the component's default assignee or lead is suggested (see get_components)",
+      },
       parentKey: {
         type: "string",
         description: "Parent issue key for subtasks",
@@ -109,6 +152,15 @@ export const createIssueTool = {
         description: "Story points estimation",
         minimum: 0,
       },
+      customFields: {
+        type: "object",
+        description:
+          "Custom field values keyed by alias from jira_configure_fields (e.g., { \"Team\": \"Platform\", \"Target Release\": \"2026-12-01\" })",
+        additionalProperties: {
+          type: ["string", "number", "array"],
+          items: { type: "string" },
+        },
+      },
       dryRun: {
         type: "boolean",
         description: "If true, validate without creating",
@@ -119,6 +171,130 @@ export const createIssueTool = {
   },
 };
 
+/**
+ * Checks the input against the project's create metadata: the issue type and
+ * priority must exist, the fields set must be on the create screen, and all
+ * required fields must be set.
+ *
+ * @returns Validation problems; none when the metadata cannot be read
+ */
+async function checkAgainstProject(
+  client: JiraClient,
+  input: Omit<CreateIssueInput, "dryRun" | "assignee">
+): Promise<string[]> {
+  let issueTypes: JiraIssueType[];
+  try {
+    issueTypes = await client.getCreateIssueTypes(input.projectKey);
+  } catch (error) {
+    if (
+      error instanceof JiraAuthError ||
+      error instanceof JiraProjectNotFoundError ||
+      !(error instanceof JiraApiError)
+    ) {
+      throw error;
+    }
+    // The metadata is not readable; let Jira validate the issue itself
+    return [];
+  }
+
+  // Nothing is listed without permission to create issues; Jira reports that
+  if (issueTypes.length === 0) {
+    return [];
+  }
+
+  const issueType = findByName(issueTypes, input.issueTypeName);
+  if (!issueType) {
+    const validTypes = issueTypes.map((type) => type.name);
+    return [
+      `issueTypeName: ${describeInvalidValue(input.issueTypeName, `issue type in ${input.projectKey}`, validTypes)}`,
+    ];
+  }
+
+  const fields = await client.getCreateFields(input.projectKey, issueType.id);
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const { storyPointsField, customFields } = client.getFieldMappings();
+
+  // Fields set by the input, with the input property that sets them
+  const provided = new Map<string, string>();
+  if (input.description) provided.set("description", "description");
+  if (input.assigneeAccountId) provided.set("assignee", "assignee");
+  if (input.priorityName) provided.set("priority", "priorityName");
+  if (input.labels && input.labels.length > 0) provided.set("labels", "labels");
+  if (input.componentNames && input.componentNames.length > 0) provided.set("components", "componentNames");
+  if (input.storyPoints !== undefined) provided.set(storyPointsField, "storyPoints");
+  for (const name of Object.keys(input.customFields ?? {})) {
+    const alias = findCustomFieldAlias(customFields, name);
+    if (alias) provided.set(alias.id, `customFields.${name}`);
+  }
+
+  const where = `${issueType.name} issues in ${input.projectKey}`;
+  const problems: string[] = [];
+
+  for (const [fieldId, property] of provided) {
+    if (!fieldsById.has(fieldId)) {
+      problems.push(`${property}: Field ${fieldId} is not on the create screen of ${where}`);
+    }
+  }
+
+  const priority = fieldsById.get("priority");
+  if (input.priorityName && priority) {
+    const problem = checkAllowedValue(priority, input.priorityName);
+    if (problem) problems.push(`priorityName: ${problem}`);
+  }
+
+  const components = fieldsById.get("components");
+  if (input.componentNames && components) {
+    for (const name of input.componentNames) {
+      const problem = checkAllowedValue(components, name);
+      if (problem) problems.push(`componentNames: ${problem}`);
+    }
+  }
+
+  const missing = findMissingRequiredFields(
+    fields,
+    new Set(["project", "issuetype", "summary", ...(input.parentKey ? ["parent"] : []), ...provided.keys()])
+  );
+  if (missing.length > 0) {
+    problems.push(
+      `Missing fields required for ${where}: ${missing.map((field) => `${field.name} (${field.id})`).join(", ")}. Set custom fields by alias with customFields (see jira_configure_fields)`
+    );
+  }
+
+  return problems;
+}
+
+/**
+ * Suggests an assignee from the components of an unassigned issue: the
+ * default assignee or lead of the first component that has one.
+ *
+ * @returns The owner, or undefined when the components are not readable
+ */
+async function suggestAssignee(
+  client: JiraClient,
+  projectKey: string,
+  componentNames: readonly string[]
+): Promise<ComponentOwner | undefined> {
+  try {
+    return findComponentOwner(await client.getComponents(projectKey), componentNames);
+  } catch (error) {
+    if (error instanceof JiraAuthError || !(error instanceof JiraApiError)) {
+      throw error;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Formats a component owner as an assignee suggestion.
+ */
+function formatSuggestion(owner: ComponentOwner): Record<string, string> {
+  return {
+    accountId: owner.user.accountId,
+    displayName: owner.user.displayName,
+    reason: `${owner.role === "lead" ? "Lead" : "Default assignee"} of component ${owner.component}`,
+  };
+}
+
 /**
  * Executes the create_issue tool.
  */
@@ -142,38 +318,82 @@ export async function executeCreateIssue(
     };
   }
 
-  const { dryRun, ...createInput } = parseResult.data;
-
-  // Dry run mode - just validate and return what would be created
-  if (dryRun) {
-    const preview = {
-      dryRun: true,
-      wouldCreate: {
-        project: createInput.projectKey,
-        summary: createInput.summary,
-        issueType: createInput.issueTypeName,
-        description: createInput.description ? "(provided)" : undefined,
-        assignee: createInput.assigneeAccountId,
-        priority: createInput.priorityName,
-        labels: createInput.labels,
-        parent: createInput.parentKey,
-        storyPoints: createInput.storyPoints,
-      },
-      message: "Validation passed. Set dryRun:false to create the issue.",
-    };
+  const { dryRun, assignee, ...createInput } = parseResult.data;
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(preview, null, 2),
-        },
-      ],
-    };
+  if (createInput.customFields) {
+    const problems = checkCustomFieldValues(client.getFieldMappings().customFields, createInput.customFields);
+
+    if (problems.length > 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Validation error: ${problems.map((problem) => `customFields.${problem}`).join("; ")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
   }
 
   try {
-    const result = await client.createIssue(createInput);
+    // Resolve an assignee given by name or email
+    let assigneeAccountId = createInput.assigneeAccountId;
+    if (assignee) {
+      const resolved = await resolveAssignee(client, assignee, { projectKey: createInput.projectKey });
+      if (resolved.error) {
+        return resolved.error;
+      }
+      assigneeAccountId = resolved.accountId;
+    }
+
+    // Check against the project's metadata before Jira answers with a bare 400
+    const problems = await checkAgainstProject(client, { ...createInput, assigneeAccountId });
+    if (problems.length > 0) {
+      return {
+        content: [{ type: "text", text: `Validation error: ${problems.join("; ")}` }],
+        isError: true,
+      };
+    }
+
+    // Unassigned issues are routed by component
+    const suggestedOwner =
+      !assigneeAccountId && createInput.componentNames && createInput.componentNames.length > 0
+        ? await suggestAssignee(client, createInput.projectKey, createInput.componentNames)
+        : undefined;
+
+    // Dry run mode - just validate and return what would be created
+    if (dryRun) {
+      const preview = {
+        dryRun: true,
+        wouldCreate: {
+          project: createInput.projectKey,
+          summary: createInput.summary,
+          issueType: createInput.issueTypeName,
+          description: createInput.description ? "(provided)" : undefined,
+          assignee: assigneeAccountId,
+          priority: createInput.priorityName,
+          labels: createInput.labels,
+          components: createInput.componentNames,
+          parent: createInput.parentKey,
+          storyPoints: createInput.storyPoints,
+          customFields: createInput.customFields,
+        },
+        ...(suggestedOwner && { suggestedAssignee: formatSuggestion(suggestedOwner) }),
+        message: "Validation passed. Set dryRun:false to create the issue.",
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(preview, null, 2),
+          },
+        ],
+      };
+    }
+
+    const result = await client.createIssue({ ...createInput, assigneeAccountId });
 
     const response = {
       success: true,
@@ -185,6 +405,7 @@ export async function executeCreateIssue(
       summary: createInput.summary,
       project: createInput.projectKey,
       issueType: createInput.issueTypeName,
+      ...(suggestedOwner && { suggestedAssignee: formatSuggestion(suggestedOwner) }),
     };
 
     return {
@@ -196,6 +417,18 @@ export async function executeCreateIssue(
       ],
     };
   } catch (error) {
+    if (error instanceof JiraProjectNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Project '${createInput.projectKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     if (error instanceof JiraAuthError) {
       return {
         content: [
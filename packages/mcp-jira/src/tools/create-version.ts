@@ -0,0 +1,217 @@
+/**
+ * Create Version Tool
+ *
+ * MCP tool for creating a version (fix version) in a Jira project.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraProjectNotFoundError,
+} from "../domain/jira-client.js";
+import { findByName } from "../domain/project-metadata.js";
+
+/**
+ * Calendar date (YYYY-MM-DD).
+ */
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Input schema for create_version tool.
+ */
+export const CreateVersionInputSchema = z
+  .object({
+    projectKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+      .describe("The project key (e.g., PROJ)"),
+    name: z
+      .string()
+      .min(1, "Name cannot be empty")
+      .max(255, "Name must be 255 characters or less")
+      .describe("Version name (e.g., 2.4.0)"),
+    description: z
+      .string()
+      .optional()
+      .describe("Version description"),
+    startDate: z
+      .string()
+      .regex(DATE_REGEX, "Date must be in format YYYY-MM-DD")
+      .optional()
+      .describe("Start date (YYYY-MM-DD)"),
+    releaseDate: z
+      .string()
+      .regex(DATE_REGEX, "Date must be in format YYYY-MM-DD")
+      .optional()
+      .describe("Planned release date (YYYY-MM-DD)"),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("If true, validate without creating"),
+  })
+  .refine(
+    (data) => !data.startDate || !data.releaseDate || data.startDate <= data.releaseDate,
+    { message: "startDate must not be after releaseDate", path: ["releaseDate"] }
+  );
+
+export type CreateVersionInput = z.infer<typeof CreateVersionInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const createVersionTool = {
+  name: "create_version",
+  description:
+    "Creates a version (fix version) in a Jira project, with optional start and release dates. Use dryRun:true to validate without creating.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      projectKey: {
+        type: "string",
+        description: "The project key (e.g., PROJ)",
+        pattern: "^[A-Z][A-Z0-9]*$",
+      },
+      name: {
+        type: "string",
+        description: "Version name (e.g., 2.4.0)",
+        maxLength: 255,
+      },
+      description: {
+        type: "string",
+        description: "Version description",
+      },
+      startDate: {
+        type: "string",
+        description: "Start date (YYYY-MM-DD)",
+        pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+      },
+      releaseDate: {
+        type: "string",
+        description: "Planned release date (YYYY-MM-DD)",
+        pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, validate without creating",
+        default: false,
+      },
+    },
+    required: ["projectKey", "name"],
+  },
+};
+
+/**
+ * Executes the create_version tool.
+ */
+export async function executeCreateVersion(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = CreateVersionInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { dryRun, ...versionInput } = parseResult.data;
+
+  try {
+    // Jira rejects duplicate names with a bare 400
+    const existing = findByName(await client.getVersions(versionInput.projectKey), versionInput.name);
+    if (existing) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Version '${existing.name}' already exists in ${versionInput.projectKey.toUpperCase()} (id: ${existing.id}${existing.released ? ", released" : ""})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Dry run mode - just validate and return what would be created
+    if (dryRun) {
+      const preview = {
+        dryRun: true,
+        wouldCreate: versionInput,
+        message: "Validation passed. Set dryRun:false to create the version.",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+      };
+    }
+
+    const version = await client.createVersion(versionInput);
+
+    const response = {
+      success: true,
+      projectKey: versionInput.projectKey.toUpperCase(),
+      version,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraProjectNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Project '${versionInput.projectKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to create version: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to create version: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
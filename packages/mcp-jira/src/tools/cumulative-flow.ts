@@ -0,0 +1,287 @@
+/**
+ * Cumulative Flow Tool
+ *
+ * Cumulative flow and WIP aging from the status history of issues, for
+ * teams that work without sprints.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraSprintNotFoundError,
+} from "../domain/jira-client.js";
+import {
+  analyzeWipAging,
+  buildCumulativeFlow,
+  calculateFlowMetrics,
+  fetchScopeIssues,
+  fetchStatusTimelines,
+  formatFlowReportMarkdown,
+  type FlowScope,
+} from "../analysis/flow/index.js";
+import { DAY_MS } from "../analysis/numbers.js";
+
+/**
+ * Days covered when no start date is given.
+ */
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * Longest date range, in days.
+ */
+const MAX_RANGE_DAYS = 365;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in format YYYY-MM-DD");
+
+/**
+ * Input schema for cumulative flow tool.
+ */
+export const CumulativeFlowInputSchema = z
+  .object({
+    projectKey: z
+      .string()
+      .min(1, "Project key cannot be empty")
+      .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be alphanumeric")
+      .optional()
+      .describe("Project whose open issues and issues resolved in the range to analyze"),
+    jql: z
+      .string()
+      .min(1, "JQL cannot be empty")
+      .optional()
+      .describe("JQL selecting the issues"),
+    sprintId: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Sprint whose issues to analyze"),
+    from: dateSchema.optional().describe("First day of the range (default: 30 days before 'to')"),
+    to: dateSchema.optional().describe("Last day of the range (default: today)"),
+    maxIssues: z
+      .number()
+      .int()
+      .min(1)
+      .max(500)
+      .optional()
+      .default(200)
+      .describe("Maximum issues to analyze (default: 200, max: 500)"),
+    format: z
+      .enum(["markdown", "json"])
+      .optional()
+      .default("markdown")
+      .describe("Output format: markdown with an ASCII chart, or json"),
+  })
+  .refine(
+    (data) =>
+      [data.projectKey, data.jql, data.sprintId].filter((value) => value !== undefined).length === 1,
+    { message: "Provide one of projectKey, jql or sprintId" }
+  )
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "'from' must not be after 'to'",
+    path: ["from"],
+  });
+
+export type CumulativeFlowInput = z.infer<typeof CumulativeFlowInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const cumulativeFlowTool = {
+  name: "devflow_cumulative_flow",
+  description:
+    "Cumulative flow and WIP aging from issue changelogs, for Kanban teams: daily counts of issues per status category (to do, in progress, done) over a date range, average WIP, throughput and arrivals, and each in-progress item's age rated against the cycle-time percentiles (p50/p85/p95) of completed items. Returns Markdown with an ASCII chart, or JSON for dashboards.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      projectKey: {
+        type: "string",
+        description:
+          "Project to analyze: its open issues and issues resolved in the range (alternative to jql and sprintId)",
+      },
+      jql: {
+        type: "string",
+        description:
+          "JQL selecting the issues; include recently resolved issues for cycle-time percentiles",
+      },
+      sprintId: {
+        type: "number",
+        description: "Sprint whose issues to analyze",
+      },
+      from: {
+        type: "string",
+        description: "First day of the range, YYYY-MM-DD (default: 30 days before 'to')",
+      },
+      to: {
+        type: "string",
+        description: "Last day of the range, YYYY-MM-DD (default: today)",
+      },
+      maxIssues: {
+        type: "number",
+        description: "Maximum issues to analyze (default: 200, max: 500)",
+        minimum: 1,
+        maximum: 500,
+      },
+      format: {
+        type: "string",
+        enum: ["markdown", "json"],
+        description: "Output format: markdown with an ASCII chart (default), or json",
+      },
+    },
+  },
+};
+
+/**
+ * Executes the cumulative flow tool.
+ */
+export async function executeCumulativeFlow(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  const parseResult = CumulativeFlowInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { projectKey, jql, sprintId, maxIssues, format } = parseResult.data;
+  const now = new Date();
+  const to = parseResult.data.to ?? now.toISOString().slice(0, 10);
+  const from =
+    parseResult.data.from ??
+    new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  if ((Date.parse(to) - Date.parse(from)) / DAY_MS >= MAX_RANGE_DAYS) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Validation error: from: The date range cannot exceed ${MAX_RANGE_DAYS} days`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const scope: FlowScope =
+    sprintId !== undefined
+      ? { sprintId }
+      : {
+          jql:
+            jql ??
+            `project = "${projectKey}" AND (statusCategory != Done OR resolved >= "${from}") ORDER BY created ASC`,
+        };
+  const scopeDescription = "sprintId" in scope ? { sprintId } : { jql: scope.jql };
+
+  try {
+    const { issues, truncated } = await fetchScopeIssues(client, scope, maxIssues);
+
+    if (issues.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                ...scopeDescription,
+                message: "No issues found in scope",
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const timelines = await fetchStatusTimelines(client, issues);
+    const flow = buildCumulativeFlow(timelines, from, to, now);
+    const aging = analyzeWipAging(timelines, calculateFlowMetrics(timelines, { now }).cycleTime, now);
+    const truncation = truncated
+      ? `Only the first ${issues.length} issues were analyzed; raise maxIssues or narrow the scope`
+      : undefined;
+
+    if (format === "markdown") {
+      const markdown = formatFlowReportMarkdown(flow, aging);
+      return {
+        content: [
+          { type: "text", text: truncation ? `${markdown}\n\n_${truncation}_` : markdown },
+        ],
+      };
+    }
+
+    const response: Record<string, unknown> = {
+      ...scopeDescription,
+      issueCount: issues.length,
+      cumulativeFlow: flow,
+      wipAging: {
+        ...(aging.cycleTime && { cycleTimeDays: aging.cycleTime }),
+        items: aging.items,
+      },
+    };
+
+    if (truncation) {
+      response["truncated"] = truncation;
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraSprintNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sprint with ID ${sprintId} not found. Use get_board_sprints to list available sprints.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to build cumulative flow: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to build cumulative flow: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Delete Comment Tool
+ *
+ * MCP tool for deleting comments from Jira issues.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+
+/**
+ * Input schema for delete_comment tool.
+ */
+export const DeleteCommentInputSchema = z.object({
+  issueKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+    .describe("The Jira issue key (e.g., PROJECT-123)"),
+  commentId: z
+    .string()
+    .regex(/^\d+$/, "Comment ID must be numeric")
+    .describe("The comment ID (from get_issue_comments)"),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("If true, show the comment that would be deleted"),
+});
+
+export type DeleteCommentInput = z.infer<typeof DeleteCommentInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const deleteCommentTool = {
+  name: "delete_comment",
+  description:
+    "Deletes a comment from a Jira issue. This cannot be undone - use dryRun:true to see the comment first.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      commentId: {
+        type: "string",
+        description: "The comment ID (from get_issue_comments)",
+        pattern: "^\\d+$",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, show the comment that would be deleted",
+        default: false,
+      },
+    },
+    required: ["issueKey", "commentId"],
+  },
+};
+
+/**
+ * Executes the delete_comment tool.
+ */
+export async function executeDeleteComment(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = DeleteCommentInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { issueKey, commentId, dryRun } = parseResult.data;
+
+  try {
+    if (dryRun) {
+      const comment = await client.getComment(issueKey, commentId);
+
+      const preview = {
+        dryRun: true,
+        issueKey,
+        wouldDelete: comment,
+        message: "Set dryRun:false to delete the comment.",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+      };
+    }
+
+    await client.deleteComment(issueKey, commentId);
+
+    const response = {
+      success: true,
+      issueKey,
+      commentId,
+      message: `Comment ${commentId} deleted from ${issueKey}`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Comment ${commentId} on issue '${issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to delete comment: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to delete comment: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
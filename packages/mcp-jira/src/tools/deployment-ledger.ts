@@ -0,0 +1,199 @@
+/**
+ * Deployment Ledger Tool
+ *
+ * Inspects, compacts, exports and imports the durable deployment ledger
+ * so release progress can be reconstructed across sessions and machines.
+ */
+
+import { z } from "zod";
+import {
+  getDeploymentLedgerInfo,
+  compactDeploymentLedger,
+  exportDeploymentLedger,
+  importDeploymentLedger,
+} from "../analysis/cicd/index.js";
+
+/**
+ * Warning returned when the ledger file was left as is after a change.
+ */
+const LEDGER_NOT_REWRITTEN_WARNING =
+  "The ledger file was not rewritten (it holds unreadable records, or could not be written; see the server log). The change applies to this session only and is lost on restart.";
+
+/**
+ * Input schema for deployment ledger tool.
+ */
+export const DeploymentLedgerInputSchema = z.object({
+  action: z
+    .enum(["status", "export", "import", "compact"])
+    .optional()
+    .default("status")
+    .describe("Ledger operation to perform"),
+  environments: z
+    .array(z.enum(["development", "staging", "production", "preview", "qa"]))
+    .optional()
+    .describe("Export only these environments"),
+  issueKeys: z
+    .array(z.string().regex(/^[A-Z][A-Z0-9]*-\d+$/i))
+    .optional()
+    .describe("Export only deployments linked to these issues"),
+  data: z
+    .unknown()
+    .optional()
+    .describe("Ledger export to import (output of action: export)"),
+  mode: z
+    .enum(["merge", "replace"])
+    .optional()
+    .default("merge")
+    .describe("Import mode: merge with or replace the existing ledger"),
+  confirm: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Required for mode: replace"),
+});
+
+export type DeploymentLedgerToolInput = z.infer<typeof DeploymentLedgerInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const deploymentLedgerTool = {
+  name: "devflow_deployment_ledger",
+  description:
+    "Manages the durable deployment ledger behind devflow_deployment_link and devflow_release_status. Actions: status (location, entry count, retention policies), export (portable JSON, optionally filtered), import (merge or replace from an export), compact (apply retention policies now).",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      action: {
+        type: "string",
+        enum: ["status", "export", "import", "compact"],
+        description: "Ledger operation to perform (default: status)",
+      },
+      environments: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["development", "staging", "production", "preview", "qa"],
+        },
+        description: "Export only these environments",
+      },
+      issueKeys: {
+        type: "array",
+        items: { type: "string", pattern: "^[A-Z][A-Z0-9]*-\\d+$" },
+        description: "Export only deployments linked to these issues",
+      },
+      data: {
+        type: "object",
+        description: "Ledger export to import (output of action: export)",
+      },
+      mode: {
+        type: "string",
+        enum: ["merge", "replace"],
+        description: "Import mode (default: merge)",
+      },
+      confirm: {
+        type: "boolean",
+        description: "Set to true to confirm mode: replace",
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * Executes the deployment ledger tool.
+ */
+export function executeDeploymentLedger(input: unknown): {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+} {
+  const parseResult = DeploymentLedgerInputSchema.safeParse(input ?? {});
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { action, environments, issueKeys, data, mode, confirm } = parseResult.data;
+
+  try {
+    switch (action) {
+      case "status": {
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(getDeploymentLedgerInfo(), null, 2) },
+          ],
+        };
+      }
+
+      case "export": {
+        const exported = exportDeploymentLedger({ environments, issueKeys });
+        return {
+          content: [{ type: "text", text: JSON.stringify(exported, null, 2) }],
+        };
+      }
+
+      case "compact": {
+        const { removed, persisted } = compactDeploymentLedger();
+        const response: Record<string, unknown> = {
+          removedEntries: removed,
+          remainingEntries: getDeploymentLedgerInfo().entryCount,
+          persisted,
+        };
+        if (!persisted) {
+          response["warning"] = LEDGER_NOT_REWRITTEN_WARNING;
+        }
+        return {
+          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+        };
+      }
+
+      case "import": {
+        if (data === undefined) {
+          return {
+            content: [
+              { type: "text", text: "Validation error: data is required for action: import" },
+            ],
+            isError: true,
+          };
+        }
+
+        if (mode === "replace" && !confirm) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Replacing the ledger discards all ${getDeploymentLedgerInfo().entryCount} existing entries. Call again with confirm: true to proceed, or use mode: merge.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = importDeploymentLedger(data, mode);
+        const response: Record<string, unknown> = { mode, ...result };
+        if (!result.persisted) {
+          response["warning"] = LEDGER_NOT_REWRITTEN_WARNING;
+        }
+        return {
+          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+        };
+      }
+    }
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Deployment ledger ${action} failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
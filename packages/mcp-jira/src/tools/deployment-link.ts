@@ -63,7 +63,7 @@ export type DeploymentLinkInput = z.infer<typeof DeploymentLinkInputSchema>;
 export const deploymentLinkTool = {
   name: "devflow_deployment_link",
   description:
-    "Links deployments to Jira issues for tracking. Records which issues have been deployed to which environments, enabling release progress monitoring.",
+    "Links deployments to Jira issues for tracking. Records which issues have been deployed to which environments in a durable deployment ledger, enabling release progress monitoring across restarts.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -237,10 +237,18 @@ export async function executeDeploymentLink(
         linkedIssues: result.linked,
         failedIssues: result.failed,
         successCount: result.linked.length,
+        persisted: result.persisted,
       };
 
+      const warnings: string[] = [];
       if (invalid.length > 0) {
-        response["warnings"] = [`${invalid.length} issue(s) not found: ${invalid.join(", ")}`];
+        warnings.push(`${invalid.length} issue(s) not found: ${invalid.join(", ")}`);
+      }
+      if (!result.persisted) {
+        warnings.push("Deployment was not written to the ledger - it will be lost on restart");
+      }
+      if (warnings.length > 0) {
+        response["warnings"] = warnings;
       }
     }
 
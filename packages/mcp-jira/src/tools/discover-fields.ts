@@ -2,12 +2,17 @@
  * Discover Fields Tool
  *
  * MCP tool for discovering available custom fields from the Jira instance.
- * Helps users find the correct field IDs for Story Points and Sprint fields.
+ * Helps users find the correct field IDs for Story Points and Sprint fields,
+ * and suggests aliases for other custom fields.
  */
 
 import { z } from "zod";
 import type { JiraClient } from "../domain/jira-client.js";
 import { JiraApiError, JiraAuthError } from "../domain/jira-client.js";
+import {
+  suggestCustomFieldAliasName,
+  suggestCustomFieldType,
+} from "../domain/custom-fields.js";
 
 /**
  * Input schema for jira_discover_fields tool.
@@ -36,6 +41,7 @@ export const discoverFieldsTool = {
   description:
     "Discover available custom fields from your Jira instance. " +
     "Use this to find the correct field IDs for Story Points and Sprint fields. " +
+    "Custom fields come with a suggested alias (name and type) for jira_configure_fields. " +
     "Filter by name (e.g., 'story') or type ('number' for Story Points, 'array' for Sprint).",
   inputSchema: {
     type: "object" as const,
@@ -83,6 +89,7 @@ export async function executeDiscoverFields(
 
   try {
     const allFields = await client.getFields();
+    const aliases = client.getFieldMappings().customFields;
 
     // Filter fields based on criteria
     let filteredFields = allFields;
@@ -133,6 +140,15 @@ export async function executeDiscoverFields(
         hints.push("Likely Sprint field");
       }
 
+      // Suggest an alias for other custom fields, unless one is configured
+      const alias = aliases.find((a) => a.id === f.id);
+      const aliasType = f.custom && hints.length === 0 ? suggestCustomFieldType(f) : undefined;
+      const aliasName = aliasType ? suggestCustomFieldAliasName(f.name) : undefined;
+
+      if (alias) {
+        hints.push(`Configured as alias '${alias.name}' (${alias.type})`);
+      }
+
       return {
         id: f.id,
         name: f.name,
@@ -141,6 +157,8 @@ export async function executeDiscoverFields(
         customType: f.customType,
         itemsType: f.itemsType,
         hints: hints.length > 0 ? hints : undefined,
+        suggestedAlias:
+          !alias && aliasType && aliasName ? { name: aliasName, type: aliasType } : undefined,
       };
     });
 
@@ -169,10 +187,12 @@ export async function executeDiscoverFields(
       suggestions: suggestions.length > 0 ? suggestions : undefined,
       usage: {
         message:
-          "Found a field? Use jira_configure_fields to set it as your Story Points or Sprint field.",
+          "Found a field? Use jira_configure_fields to set it as your Story Points or Sprint field, or to add its suggested alias.",
         example: {
           storyPoints: "jira_configure_fields(storyPoints: 'customfield_10016')",
           sprint: "jira_configure_fields(sprint: 'customfield_10020')",
+          customFields:
+            "jira_configure_fields(customFields: { 'Team': { id: 'customfield_10050', type: 'select' } })",
         },
       },
     };
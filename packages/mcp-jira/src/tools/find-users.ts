@@ -0,0 +1,240 @@
+/**
+ * Find Users Tool
+ *
+ * MCP tool for looking up users by display name or email, optionally only
+ * those assignable in a project. Also resolves assignee names for the
+ * issue write tools.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+import type { AssignableScope, JiraUser } from "../domain/types.js";
+
+/**
+ * Input schema for find_users tool.
+ */
+export const FindUsersInputSchema = z.object({
+  query: z
+    .string()
+    .min(1, "Query cannot be empty")
+    .describe("Display name, email or username to search for"),
+  projectKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+    .optional()
+    .describe("Only users who can be assigned issues in this project"),
+  issueKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+    .optional()
+    .describe("Only users who can be assigned this issue"),
+  includeInactive: z
+    .boolean()
+    .default(false)
+    .describe("If true, include deactivated users"),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(10)
+    .describe("Maximum number of users to return (1-50)"),
+});
+
+export type FindUsersInput = z.infer<typeof FindUsersInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const findUsersTool = {
+  name: "find_users",
+  description:
+    "Finds Jira users by display name or email and returns their account IDs. Set projectKey (or issueKey) to only list users who can be assigned issues there. create_issue and update_issue also accept an assignee name directly.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      query: {
+        type: "string",
+        description: "Display name, email or username to search for",
+      },
+      projectKey: {
+        type: "string",
+        description: "Only users who can be assigned issues in this project",
+        pattern: "^[A-Z][A-Z0-9]*$",
+      },
+      issueKey: {
+        type: "string",
+        description: "Only users who can be assigned this issue",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      includeInactive: {
+        type: "boolean",
+        description: "If true, include deactivated users",
+        default: false,
+      },
+      maxResults: {
+        type: "number",
+        description: "Maximum number of users to return (1-50)",
+        minimum: 1,
+        maximum: 50,
+        default: 10,
+      },
+    },
+    required: ["query"],
+  },
+};
+
+/**
+ * Formats a user for output.
+ */
+function formatUser(user: JiraUser): Record<string, unknown> {
+  return {
+    accountId: user.accountId,
+    displayName: user.displayName,
+    emailAddress: user.emailAddress,
+    ...(!user.active && { active: false }),
+  };
+}
+
+/**
+ * Resolves an assignee given by name, email or account ID for a write tool.
+ *
+ * @returns The account ID, or a tool error response listing the candidates
+ *   when several users match and none does exactly
+ */
+export async function resolveAssignee(
+  client: JiraClient,
+  assignee: string,
+  scope: AssignableScope
+): Promise<
+  | { accountId: string; error?: undefined }
+  | { accountId?: undefined; error: { content: Array<{ type: "text"; text: string }>; isError: true } }
+> {
+  const resolution = await client.resolveAssignableUser(assignee, scope);
+  const where = scope.projectKey !== undefined ? `project ${scope.projectKey}` : `issue ${scope.issueKey}`;
+
+  if (resolution.status === "resolved") {
+    return { accountId: resolution.user.accountId };
+  }
+
+  const response =
+    resolution.status === "ambiguous"
+      ? {
+          error: `Several assignable users in ${where} match '${assignee}'`,
+          candidates: resolution.candidates.map(formatUser),
+          hint: "Retry with assigneeAccountId set to one of the candidates' accountId",
+        }
+      : {
+          error: `No assignable user in ${where} matches '${assignee}'`,
+          hint: "Use find_users to search all users, or check the user's project permissions",
+        };
+
+  return {
+    error: {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+      isError: true,
+    },
+  };
+}
+
+/**
+ * Executes the find_users tool.
+ */
+export async function executeFindUsers(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = FindUsersInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { query, projectKey, issueKey, includeInactive, maxResults } = parseResult.data;
+
+  try {
+    const users = issueKey
+      ? await client.findAssignableUsers(query, { issueKey }, maxResults)
+      : projectKey
+        ? await client.findAssignableUsers(query, { projectKey }, maxResults)
+        : await client.findUsers(query, maxResults);
+
+    const matches = users.filter((user) => includeInactive || user.active);
+
+    const response = {
+      query,
+      ...(issueKey ? { assignableTo: issueKey } : projectKey ? { assignableIn: projectKey } : {}),
+      count: matches.length,
+      users: matches.map(formatUser),
+      ...(matches.length === 0 && {
+        hint: "Try part of the display name, or an email address (emails are only matched when visible)",
+      }),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${issueKey ? "Issue" : "Project"} '${issueKey ?? projectKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to find users: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to find users: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Flow Metrics Tool
+ *
+ * Cycle time, lead time, time in status and flow efficiency from the
+ * status history of issues.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraSprintNotFoundError,
+} from "../domain/jira-client.js";
+import {
+  calculateFlowMetrics,
+  fetchScopeIssues,
+  fetchStatusTimelines,
+  type FlowScope,
+  type IssueFlow,
+} from "../analysis/flow/index.js";
+
+/**
+ * Issues listed as slowest or oldest.
+ */
+const MAX_LISTED_ISSUES = 5;
+
+/**
+ * Input schema for flow metrics tool.
+ */
+export const FlowMetricsInputSchema = z
+  .object({
+    jql: z
+      .string()
+      .min(1, "JQL cannot be empty")
+      .optional()
+      .describe("JQL selecting the issues (e.g., 'project = PROJ AND resolved >= -30d')"),
+    sprintId: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Sprint whose issues to analyze"),
+    workflows: z
+      .array(
+        z.object({
+          issueTypes: z.array(z.string()).optional(),
+          activeStatuses: z.array(z.string()).optional(),
+          waitStatuses: z.array(z.string()).optional(),
+        })
+      )
+      .optional()
+      .describe("Active and wait statuses per workflow, by issue type; the first matching entry applies"),
+    maxIssues: z
+      .number()
+      .int()
+      .min(1)
+      .max(300)
+      .optional()
+      .default(100)
+      .describe("Maximum issues to analyze (default: 100, max: 300)"),
+    includeIssues: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Include the measures of each issue"),
+  })
+  .refine((data) => (data.jql === undefined) !== (data.sprintId === undefined), {
+    message: "Provide either jql or sprintId",
+  });
+
+export type FlowMetricsInput = z.infer<typeof FlowMetricsInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const flowMetricsTool = {
+  name: "devflow_flow_metrics",
+  description:
+    "Flow metrics from issue changelogs over a JQL query or sprint: cycle time and lead time percentiles (p50/p70/p85/p95), time in each status, the bottleneck status and flow efficiency (active vs. wait time). Statuses are classified as active or wait by name unless configured per workflow.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      jql: {
+        type: "string",
+        description: "JQL selecting the issues (e.g., 'project = PROJ AND resolved >= -30d')",
+      },
+      sprintId: {
+        type: "number",
+        description: "Sprint whose issues to analyze (alternative to jql)",
+      },
+      workflows: {
+        type: "array",
+        description:
+          "Active and wait statuses per workflow (e.g., [{ \"issueTypes\": [\"Bug\"], \"waitStatuses\": [\"In Review\"] }]). Omit issueTypes for all issue types; the first matching entry applies",
+        items: {
+          type: "object",
+          properties: {
+            issueTypes: { type: "array", items: { type: "string" } },
+            activeStatuses: { type: "array", items: { type: "string" } },
+            waitStatuses: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+      maxIssues: {
+        type: "number",
+        description: "Maximum issues to analyze (default: 100, max: 300)",
+        minimum: 1,
+        maximum: 300,
+      },
+      includeIssues: {
+        type: "boolean",
+        description: "Include the measures of each issue (default: false)",
+      },
+    },
+  },
+};
+
+/**
+ * Formats an issue's measures for the slowest/oldest lists.
+ */
+function formatIssue(issue: IssueFlow): Record<string, unknown> {
+  return {
+    key: issue.issueKey,
+    status: issue.status,
+    ...(issue.cycleTimeDays !== undefined && { cycleTimeDays: issue.cycleTimeDays }),
+    ...(issue.ageDays !== undefined && { ageDays: issue.ageDays }),
+    waitDays: issue.waitDays,
+  };
+}
+
+/**
+ * Formats a 0-1 share as a percentage.
+ */
+const formatPercent = (share: number): string => `${Math.round(share * 100)}%`;
+
+/**
+ * Executes the flow metrics tool.
+ */
+export async function executeFlowMetrics(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  const parseResult = FlowMetricsInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { jql, sprintId, workflows, maxIssues, includeIssues } = parseResult.data;
+  const scope: FlowScope = sprintId !== undefined ? { sprintId } : { jql: jql ?? "" };
+  const scopeDescription = sprintId !== undefined ? { sprintId } : { jql };
+
+  try {
+    const { issues, truncated } = await fetchScopeIssues(client, scope, maxIssues);
+
+    if (issues.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                ...scopeDescription,
+                message: "No issues found in scope",
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const timelines = await fetchStatusTimelines(client, issues);
+    const metrics = calculateFlowMetrics(timelines, { workflows });
+
+    const response: Record<string, unknown> = {
+      ...scopeDescription,
+      issueCount: metrics.issueCount,
+      completedCount: metrics.completedCount,
+      inProgressCount: metrics.inProgressCount,
+    };
+
+    if (truncated) {
+      response["truncated"] = `Only the first ${issues.length} issues were analyzed; raise maxIssues or narrow the scope`;
+    }
+
+    if (metrics.cycleTime) {
+      response["cycleTimeDays"] = metrics.cycleTime;
+    }
+    if (metrics.leadTime) {
+      response["leadTimeDays"] = metrics.leadTime;
+    }
+    if (metrics.flowEfficiency !== undefined) {
+      response["flowEfficiency"] = formatPercent(metrics.flowEfficiency);
+    }
+
+    response["timeInStatus"] = metrics.timeInStatus.map((entry) => ({
+      status: entry.status,
+      category: entry.category,
+      ...(entry.statusClass && { class: entry.statusClass }),
+      issues: entry.issues,
+      averageDays: entry.averageDays,
+      medianDays: entry.medianDays,
+    }));
+
+    if (metrics.bottleneck) {
+      response["bottleneck"] = metrics.bottleneck;
+    }
+
+    const slowest = metrics.issues
+      .filter((issue) => issue.cycleTimeDays !== undefined)
+      .sort((a, b) => (b.cycleTimeDays ?? 0) - (a.cycleTimeDays ?? 0))
+      .slice(0, MAX_LISTED_ISSUES);
+    if (slowest.length > 0) {
+      response["slowestCompleted"] = slowest.map(formatIssue);
+    }
+
+    const oldest = metrics.issues
+      .filter((issue) => issue.ageDays !== undefined)
+      .sort((a, b) => (b.ageDays ?? 0) - (a.ageDays ?? 0))
+      .slice(0, MAX_LISTED_ISSUES);
+    if (oldest.length > 0) {
+      response["oldestInProgress"] = oldest.map(formatIssue);
+    }
+
+    // Insights
+    const insights: string[] = [];
+    if (metrics.cycleTime) {
+      insights.push(
+        `85% of completed items took ${metrics.cycleTime.p85} days or less from start to done`
+      );
+    }
+    if (metrics.flowEfficiency !== undefined && metrics.flowEfficiency < 0.4) {
+      insights.push(
+        `Items wait ${formatPercent(1 - metrics.flowEfficiency)} of their cycle time - look at hand-offs and queues`
+      );
+    }
+    if (metrics.bottleneck) {
+      insights.push(`Items spend the longest in ${metrics.bottleneck}`);
+    }
+    if (insights.length > 0) {
+      response["insights"] = insights;
+    }
+
+    if (includeIssues) {
+      response["issues"] = metrics.issues;
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraSprintNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sprint with ID ${sprintId} not found. Use get_board_sprints to list available sprints.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to calculate flow metrics: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to calculate flow metrics: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,530 @@
+/**
+ * Forecast Tool
+ *
+ * Monte Carlo forecasts from historical throughput: when the items of a
+ * sprint, epic, fix version or query will be done, and how many items
+ * will be done by a date.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraBoardNotFoundError,
+  JiraSprintNotFoundError,
+} from "../domain/jira-client.js";
+import type { JiraIssue, JiraSprint } from "../domain/types.js";
+import { fetchScopeIssues, type FlowScope } from "../analysis/flow/index.js";
+import { DAY_MS } from "../analysis/numbers.js";
+import {
+  averageSprintDays,
+  dailyThroughput,
+  forecastCompletion,
+  forecastThroughput,
+  randomSeed,
+  sprintThroughput,
+  type ConfidenceLevels,
+} from "../analysis/forecast/index.js";
+
+/**
+ * Most completed issues read for the throughput history.
+ */
+const MAX_HISTORY_ISSUES = 1000;
+
+/**
+ * Most issues read from the items to forecast.
+ */
+const MAX_TARGET_ISSUES = 500;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in format YYYY-MM-DD");
+
+/**
+ * Input schema for forecast tool.
+ */
+export const ForecastInputSchema = z
+  .object({
+    projectKey: z
+      .string()
+      .min(1, "Project key cannot be empty")
+      .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be alphanumeric")
+      .optional()
+      .describe("Project whose completed issues make up the throughput history"),
+    historyJql: z
+      .string()
+      .min(1, "JQL cannot be empty")
+      .optional()
+      .describe("JQL selecting the team's issues for the throughput history, instead of the project"),
+    unit: z
+      .enum(["day", "sprint"])
+      .optional()
+      .default("day")
+      .describe("Sample throughput per day or per sprint (default: day)"),
+    boardId: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Board whose closed sprints to sample (required for unit 'sprint')"),
+    historyDays: z
+      .number()
+      .int()
+      .min(7)
+      .max(365)
+      .optional()
+      .default(90)
+      .describe("Days of history to sample (default: 90)"),
+    historySprints: z
+      .number()
+      .int()
+      .min(2)
+      .max(20)
+      .optional()
+      .default(6)
+      .describe("Closed sprints to sample (default: 6)"),
+    remainingItems: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Number of items to forecast"),
+    jql: z.string().min(1, "JQL cannot be empty").optional().describe("JQL selecting the items to forecast"),
+    sprintId: z.number().int().positive().optional().describe("Sprint whose open items to forecast"),
+    epicKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Invalid issue key format (e.g., PROJ-123)")
+      .optional()
+      .describe("Epic whose open child issues to forecast"),
+    fixVersion: z
+      .string()
+      .min(1, "Fix version cannot be empty")
+      .optional()
+      .describe("Fix version (name) whose open issues to forecast, in projectKey"),
+    targetDate: dateSchema.optional().describe("Forecast how many items will be done by this date"),
+    trials: z
+      .number()
+      .int()
+      .min(100)
+      .max(100000)
+      .optional()
+      .default(10000)
+      .describe("Simulated futures (default: 10000)"),
+    seed: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Random seed; the same seed and history give the same forecast"),
+  })
+  .refine((data) => data.projectKey !== undefined || data.historyJql !== undefined, {
+    message: "Provide projectKey or historyJql for the throughput history",
+  })
+  .refine(
+    (data) =>
+      [data.remainingItems, data.jql, data.sprintId, data.epicKey, data.fixVersion].filter(
+        (value) => value !== undefined
+      ).length <= 1,
+    { message: "Provide at most one of remainingItems, jql, sprintId, epicKey or fixVersion" }
+  )
+  .refine(
+    (data) =>
+      data.targetDate !== undefined ||
+      [data.remainingItems, data.jql, data.sprintId, data.epicKey, data.fixVersion].some(
+        (value) => value !== undefined
+      ),
+    { message: "Provide the items to forecast, a targetDate, or both" }
+  )
+  .refine((data) => data.fixVersion === undefined || data.projectKey !== undefined, {
+    message: "fixVersion requires projectKey",
+    path: ["fixVersion"],
+  })
+  .refine((data) => data.unit !== "sprint" || data.boardId !== undefined, {
+    message: "Sprint throughput requires boardId",
+    path: ["boardId"],
+  });
+
+export type ForecastInput = z.infer<typeof ForecastInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const forecastTool = {
+  name: "devflow_forecast",
+  description:
+    "Monte Carlo forecast from historical throughput (issues completed per day or per sprint). Answers 'when will these items be done' for a sprint, epic, fix version, JQL query or item count, and 'how many items will be done by a date', at 50%, 85% and 95% confidence. Pass a seed to reproduce a forecast.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      projectKey: {
+        type: "string",
+        description: "Project whose completed issues make up the throughput history",
+      },
+      historyJql: {
+        type: "string",
+        description:
+          "JQL selecting the team's issues for the throughput history, without ORDER BY (alternative to projectKey)",
+      },
+      unit: {
+        type: "string",
+        enum: ["day", "sprint"],
+        description: "Sample throughput per day or per sprint (default: day)",
+      },
+      boardId: {
+        type: "number",
+        description: "Board whose closed sprints to sample (required for unit 'sprint')",
+      },
+      historyDays: {
+        type: "number",
+        description: "Days of history to sample (default: 90)",
+        minimum: 7,
+        maximum: 365,
+      },
+      historySprints: {
+        type: "number",
+        description: "Closed sprints to sample (default: 6)",
+        minimum: 2,
+        maximum: 20,
+      },
+      remainingItems: {
+        type: "number",
+        description: "Number of items to forecast",
+      },
+      jql: {
+        type: "string",
+        description: "JQL selecting the items to forecast; done items are not counted",
+      },
+      sprintId: {
+        type: "number",
+        description: "Sprint whose open items to forecast",
+      },
+      epicKey: {
+        type: "string",
+        description: "Epic whose open child issues to forecast",
+      },
+      fixVersion: {
+        type: "string",
+        description: "Fix version (name) whose open issues to forecast, in projectKey",
+      },
+      targetDate: {
+        type: "string",
+        description: "Forecast how many items will be done by this date (YYYY-MM-DD)",
+      },
+      trials: {
+        type: "number",
+        description: "Simulated futures (default: 10000)",
+        minimum: 100,
+        maximum: 100000,
+      },
+      seed: {
+        type: "number",
+        description: "Random seed; the same seed and history give the same forecast",
+      },
+    },
+  },
+};
+
+/**
+ * Adds days to a date (YYYY-MM-DD).
+ */
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Fetches the last closed sprints of a board that have dates.
+ *
+ * @throws JiraBoardNotFoundError if the board doesn't exist
+ */
+async function fetchClosedSprints(
+  client: JiraClient,
+  boardId: number,
+  count: number
+): Promise<JiraSprint[]> {
+  const sprints: JiraSprint[] = [];
+
+  for (;;) {
+    const result = await client.getBoardSprints(boardId, {
+      state: "closed",
+      startAt: sprints.length,
+      maxResults: 50,
+    });
+    sprints.push(...result.sprints);
+    if (result.isLast || result.sprints.length === 0) {
+      break;
+    }
+  }
+
+  return sprints
+    .filter((sprint) => sprint.startDate && (sprint.completeDate ?? sprint.endDate))
+    .sort((a, b) => (a.completeDate ?? a.endDate ?? "").localeCompare(b.completeDate ?? b.endDate ?? ""))
+    .slice(-count);
+}
+
+/**
+ * Fetches the open items to forecast.
+ *
+ * @returns The items, or undefined when the input names none
+ */
+async function fetchRemainingItems(
+  client: JiraClient,
+  input: ForecastInput
+): Promise<{ count: number; truncated: boolean } | undefined> {
+  const { remainingItems, jql, sprintId, epicKey, fixVersion, projectKey } = input;
+
+  if (remainingItems !== undefined) {
+    return { count: remainingItems, truncated: false };
+  }
+
+  let issues: JiraIssue[];
+  let truncated = false;
+  if (epicKey !== undefined) {
+    issues = await client.getEpicChildren(epicKey, MAX_TARGET_ISSUES);
+    truncated = issues.length >= MAX_TARGET_ISSUES;
+  } else {
+    let scope: FlowScope;
+    if (sprintId !== undefined) {
+      scope = { sprintId };
+    } else if (fixVersion !== undefined) {
+      scope = { jql: `project = "${projectKey}" AND fixVersion = "${fixVersion}"` };
+    } else if (jql !== undefined) {
+      scope = { jql };
+    } else {
+      return undefined;
+    }
+    ({ issues, truncated } = await fetchScopeIssues(client, scope, MAX_TARGET_ISSUES));
+  }
+
+  return {
+    count: issues.filter((issue) => issue.status.categoryKey !== "done").length,
+    truncated,
+  };
+}
+
+/**
+ * Formats forecast values by confidence.
+ */
+function formatLevels<T>(
+  levels: ConfidenceLevels,
+  format: (value: number) => T
+): Record<string, T> {
+  return {
+    "50%": format(levels.p50),
+    "85%": format(levels.p85),
+    "95%": format(levels.p95),
+  };
+}
+
+/**
+ * Executes the forecast tool.
+ */
+export async function executeForecast(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  const parseResult = ForecastInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const data = parseResult.data;
+  const { projectKey, historyJql, unit, boardId, historyDays, historySprints, targetDate, trials } = data;
+  const seed = data.seed ?? randomSeed();
+  const today = new Date().toISOString().slice(0, 10);
+
+  if (targetDate !== undefined && targetDate <= today) {
+    return {
+      content: [{ type: "text", text: "Validation error: targetDate: Date must be in the future" }],
+      isError: true,
+    };
+  }
+
+  try {
+    // Throughput history
+    let sprints: JiraSprint[] = [];
+    let from = addDays(today, -historyDays);
+    if (unit === "sprint") {
+      sprints = await fetchClosedSprints(client, boardId ?? 0, historySprints);
+      if (sprints.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Board ${boardId} has no closed sprints with dates to sample. Use unit 'day' instead.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      from = sprints[0]?.startDate?.slice(0, 10) ?? from;
+    }
+
+    const base = historyJql !== undefined ? `(${historyJql})` : `project = "${projectKey}"`;
+    const history = await fetchScopeIssues(
+      client,
+      { jql: `${base} AND resolved >= "${from}" ORDER BY resolved DESC` },
+      MAX_HISTORY_ISSUES
+    );
+    const completionDates = history.issues.flatMap((issue) =>
+      issue.resolutionDate ? [issue.resolutionDate] : []
+    );
+
+    // The newest issues were read: only the history after the oldest one read is complete
+    const requestedFrom = from;
+    if (history.truncated && completionDates.length > 0) {
+      const oldest = Math.min(...completionDates.map((date) => Date.parse(date)));
+      const cutoff = addDays(new Date(oldest).toISOString().slice(0, 10), 1);
+      if (unit === "sprint") {
+        const covered = sprints.filter((sprint) => (sprint.startDate ?? "").slice(0, 10) >= cutoff);
+        sprints = covered.length > 0 ? covered : sprints.slice(-1);
+        from = sprints[0]?.startDate?.slice(0, 10) ?? cutoff;
+      } else {
+        from = cutoff < today ? cutoff : addDays(today, -1);
+      }
+    }
+
+    // Days are forecast from tomorrow, since today is not over yet
+    const samples =
+      unit === "sprint"
+        ? sprintThroughput(completionDates, sprints)
+        : dailyThroughput(completionDates, from, addDays(today, -1));
+    const periodDays = unit === "sprint" ? averageSprintDays(sprints) ?? 14 : 1;
+    const completed = samples.reduce((sum, sample) => sum + sample, 0);
+
+    const response: Record<string, unknown> = {
+      unit,
+      history: {
+        from,
+        periods: samples.length,
+        itemsCompleted: completed,
+        averagePerPeriod: Math.round((completed / Math.max(1, samples.length)) * 100) / 100,
+        ...(unit === "sprint" && { averageSprintDays: Math.round(periodDays * 10) / 10 }),
+      },
+      trials,
+      seed,
+    };
+    const notes: string[] = [];
+
+    if (history.truncated) {
+      notes.push(
+        `More than ${history.issues.length} issues were resolved since ${requestedFrom}, so the history was shortened to start on ${from}`
+      );
+    }
+    if (completed === 0) {
+      notes.push("No issues were resolved in the history, so nothing can be forecast");
+    }
+
+    // When will the items be done?
+    const remaining = await fetchRemainingItems(client, data);
+    if (remaining) {
+      const forecast = forecastCompletion(samples, remaining.count, { trials, seed });
+      response["remainingItems"] = remaining.count;
+      if (remaining.truncated) {
+        notes.push(`Only the first ${MAX_TARGET_ISSUES} items to forecast were read`);
+      }
+      if (forecast.periods) {
+        response["when"] = formatLevels(forecast.periods, (periods) => ({
+          [unit === "sprint" ? "sprints" : "days"]: periods,
+          date: addDays(today, Math.round(periods * periodDays)),
+        }));
+        notes.push(
+          `85% likely to be done by ${addDays(today, Math.round(forecast.periods.p85 * periodDays))}`
+        );
+      } else if (completed > 0) {
+        notes.push("At the historical throughput, the items are unlikely to be done within 1000 periods");
+      }
+    }
+
+    // How many items by the target date?
+    if (targetDate !== undefined) {
+      const days = Math.round((Date.parse(targetDate) - Date.parse(today)) / DAY_MS);
+      const periods = unit === "sprint" ? Math.floor(days / periodDays) : days;
+      const forecast = forecastThroughput(samples, periods, { trials, seed });
+      response["howMany"] = {
+        targetDate,
+        [unit === "sprint" ? "sprints" : "days"]: periods,
+        ...formatLevels(forecast.items, (items) => items),
+      };
+      notes.push(`85% likely to complete at least ${forecast.items.p85} items by ${targetDate}`);
+      if (remaining && remaining.count > forecast.items.p85) {
+        notes.push(
+          `${remaining.count} items remain; at 85% confidence ${remaining.count - forecast.items.p85} of them will not be done by ${targetDate}`
+        );
+      }
+    }
+
+    if (notes.length > 0) {
+      response["insights"] = notes;
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraBoardNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Board with ID ${boardId} not found. Use get_boards to list available boards.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraSprintNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sprint with ID ${data.sprintId} not found. Use get_board_sprints to list available sprints.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to forecast: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to forecast: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
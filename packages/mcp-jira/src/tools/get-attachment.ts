@@ -0,0 +1,204 @@
+/**
+ * Get Attachment Tool
+ *
+ * MCP tool for reading text attachments (logs, JSON, CSV, ...) of Jira issues.
+ * Binary files are detected and only described.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import { JiraApiError, JiraAuthError } from "../domain/jira-client.js";
+import type { JiraAttachment } from "../domain/types.js";
+
+/**
+ * Default and maximum number of bytes read from an attachment.
+ */
+const DEFAULT_MAX_BYTES = 100_000;
+const MAX_BYTES_LIMIT = 1_000_000;
+
+/**
+ * MIME types that are never text, so the file is not downloaded at all.
+ */
+const BINARY_MIME_TYPE =
+  /^(image|audio|video|font)\/|^application\/(pdf|zip|gzip|x-gzip|x-tar|x-7z-compressed|x-rar-compressed|vnd\.|msword|java-archive|x-msdownload)/i;
+
+/**
+ * Input schema for get_attachment tool.
+ */
+export const GetAttachmentInputSchema = z.object({
+  attachmentId: z
+    .string()
+    .regex(/^\d+$/, "Attachment ID must be numeric")
+    .describe("The attachment ID (from get_issue with includeAttachments:true)"),
+  maxBytes: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_BYTES_LIMIT)
+    .optional()
+    .default(DEFAULT_MAX_BYTES)
+    .describe("Maximum number of bytes to read; longer files are truncated"),
+});
+
+export type GetAttachmentInput = z.infer<typeof GetAttachmentInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const getAttachmentTool = {
+  name: "get_attachment",
+  description:
+    "Reads the content of a text attachment (logs, JSON, CSV, ...) of a Jira issue, truncated to maxBytes. Binary attachments such as screenshots are described but not returned. Find attachment IDs with get_issue and includeAttachments:true.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      attachmentId: {
+        type: "string",
+        description: "The attachment ID (from get_issue with includeAttachments:true)",
+        pattern: "^\\d+$",
+      },
+      maxBytes: {
+        type: "number",
+        description: `Maximum number of bytes to read; longer files are truncated (default ${DEFAULT_MAX_BYTES})`,
+        minimum: 1,
+        maximum: MAX_BYTES_LIMIT,
+      },
+    },
+    required: ["attachmentId"],
+  },
+};
+
+/**
+ * Decodes bytes as UTF-8 text.
+ *
+ * @param truncated - Whether the bytes may end inside a multi-byte character
+ * @returns The text, or undefined if the bytes look binary
+ */
+export function decodeText(bytes: Uint8Array, truncated: boolean): string | undefined {
+  if (bytes.includes(0)) {
+    return undefined;
+  }
+
+  try {
+    // Streaming mode drops an incomplete character at the cut instead of failing
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: truncated });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Attachment metadata for responses.
+ */
+function describeAttachment(attachment: JiraAttachment) {
+  return {
+    id: attachment.id,
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    created: attachment.created,
+    author: attachment.author?.displayName,
+  };
+}
+
+/**
+ * Executes the get_attachment tool.
+ */
+export async function executeGetAttachment(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = GetAttachmentInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { attachmentId, maxBytes } = parseResult.data;
+
+  try {
+    const attachment = await client.getAttachment(attachmentId);
+
+    const binaryResponse = {
+      attachment: describeAttachment(attachment),
+      binary: true,
+      message: `'${attachment.filename}' is a binary file (${attachment.mimeType}); its content cannot be shown`,
+    };
+
+    if (BINARY_MIME_TYPE.test(attachment.mimeType)) {
+      return {
+        content: [{ type: "text", text: JSON.stringify(binaryResponse, null, 2) }],
+      };
+    }
+
+    const { bytes, truncated } = await client.getAttachmentContent(attachmentId, maxBytes);
+    const text = decodeText(bytes, truncated);
+
+    if (text === undefined) {
+      return {
+        content: [{ type: "text", text: JSON.stringify(binaryResponse, null, 2) }],
+      };
+    }
+
+    const response = {
+      attachment: describeAttachment(attachment),
+      truncated,
+      ...(truncated && {
+        message: `Showing the first ${bytes.length} of ${attachment.size} bytes. Increase maxBytes (up to ${MAX_BYTES_LIMIT}) to read more.`,
+      }),
+      content: text,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              error.statusCode === 404
+                ? `Attachment '${attachmentId}' not found`
+                : `Failed to get attachment: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to get attachment: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Get Components Tool
+ *
+ * MCP tool for listing the components of a Jira project with their owners.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraProjectNotFoundError,
+} from "../domain/jira-client.js";
+import type { JiraComponent, JiraUser } from "../domain/types.js";
+
+/**
+ * Input schema for get_components tool.
+ */
+export const GetComponentsInputSchema = z.object({
+  projectKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+    .describe("The project key (e.g., PROJ)"),
+});
+
+export type GetComponentsInput = z.infer<typeof GetComponentsInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const getComponentsTool = {
+  name: "get_components",
+  description:
+    "Lists the components of a Jira project with their lead and default assignee (who new issues with the component are assigned to). Components without either are listed as unowned. Use componentNames on create_issue to route an issue by component.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      projectKey: {
+        type: "string",
+        description: "The project key (e.g., PROJ)",
+        pattern: "^[A-Z][A-Z0-9]*$",
+      },
+    },
+    required: ["projectKey"],
+  },
+};
+
+/**
+ * Formats a user for output.
+ */
+function formatUser(user: JiraUser | undefined): Record<string, unknown> | undefined {
+  return user
+    ? {
+        accountId: user.accountId,
+        displayName: user.displayName,
+        ...(!user.active && { active: false }),
+      }
+    : undefined;
+}
+
+/**
+ * Formats a component for output.
+ */
+function formatComponent(component: JiraComponent): Record<string, unknown> {
+  return {
+    id: component.id,
+    name: component.name,
+    description: component.description,
+    lead: formatUser(component.lead),
+    assigneeType: component.assigneeType,
+    defaultAssignee: formatUser(component.defaultAssignee),
+  };
+}
+
+/**
+ * Executes the get_components tool.
+ */
+export async function executeGetComponents(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = GetComponentsInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { projectKey } = parseResult.data;
+
+  try {
+    const components = await client.getComponents(projectKey);
+
+    // Inactive users cannot take new issues
+    const unowned = components
+      .filter((component) => !component.lead?.active && !component.defaultAssignee?.active)
+      .map((component) => component.name);
+
+    const response = {
+      projectKey: projectKey.toUpperCase(),
+      count: components.length,
+      components: components.map(formatComponent),
+      ...(unowned.length > 0 && { unowned }),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraProjectNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Project '${projectKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to get components: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to get components: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -19,6 +19,11 @@ export const GetIssueInputSchema = z.object({
       "Issue key must be in format PROJECT-123"
     )
     .describe("The Jira issue key (e.g., PROJECT-123)"),
+  includeAttachments: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Include attachments, links and subtasks"),
 });
 
 export type GetIssueInput = z.infer<typeof GetIssueInputSchema>;
@@ -29,7 +34,7 @@ export type GetIssueInput = z.infer<typeof GetIssueInputSchema>;
 export const getIssueTool = {
   name: "get_issue",
   description:
-    "Retrieves a Jira issue by its key. Returns issue details including summary, description, status, assignee, and other metadata.",
+    "Retrieves a Jira issue by its key. Returns issue details including summary, description, status, assignee, and other metadata. Set includeAttachments:true to also list attachments (readable with get_attachment), links and subtasks.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -38,6 +43,10 @@ export const getIssueTool = {
         description: "The Jira issue key (e.g., PROJECT-123)",
         pattern: "^[A-Z][A-Z0-9]*-\\d+$",
       },
+      includeAttachments: {
+        type: "boolean",
+        description: "Include attachments, links and subtasks (default: false)",
+      },
     },
     required: ["issueKey"],
   },
@@ -66,10 +75,12 @@ export async function executeGetIssue(
     };
   }
 
-  const { issueKey } = parseResult.data;
+  const { issueKey, includeAttachments } = parseResult.data;
 
   try {
-    const issue = await client.getIssue(issueKey);
+    const issue = includeAttachments
+      ? await client.getIssueExtended(issueKey)
+      : await client.getIssue(issueKey);
 
     return {
       content: [
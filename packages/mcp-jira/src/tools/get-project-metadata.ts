@@ -0,0 +1,299 @@
+/**
+ * Get Project Metadata Tool
+ *
+ * MCP tool for discovering what a project accepts: issue types with their
+ * required fields, priorities, components, versions, statuses per issue
+ * type and the workflow graphs.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraProjectNotFoundError,
+} from "../domain/jira-client.js";
+import { findByName } from "../domain/project-metadata.js";
+import type { JiraFieldMeta, JiraIssueType, JiraWorkflow } from "../domain/types.js";
+
+/**
+ * Input schema for get_project_metadata tool.
+ */
+export const GetProjectMetadataInputSchema = z.object({
+  projectKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+    .describe("The project key (e.g., PROJ)"),
+  issueTypeName: z
+    .string()
+    .min(1, "Issue type name cannot be empty")
+    .optional()
+    .describe("Only describe this issue type"),
+  includeFields: z
+    .boolean()
+    .default(true)
+    .describe("If true, list the create screen fields of each issue type"),
+  includeWorkflows: z
+    .boolean()
+    .default(true)
+    .describe("If true, include the workflow graphs (Jira Cloud, administrators only)"),
+});
+
+export type GetProjectMetadataInput = z.infer<typeof GetProjectMetadataInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const getProjectMetadataTool = {
+  name: "get_project_metadata",
+  description:
+    "Describes what a Jira project accepts: issue types with their required fields and allowed values, priorities, components, versions, the statuses of each issue type and the workflow graphs (transitions between statuses). Use it before create_issue to pick valid values.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      projectKey: {
+        type: "string",
+        description: "The project key (e.g., PROJ)",
+        pattern: "^[A-Z][A-Z0-9]*$",
+      },
+      issueTypeName: {
+        type: "string",
+        description: "Only describe this issue type",
+      },
+      includeFields: {
+        type: "boolean",
+        description: "If true, list the create screen fields of each issue type",
+        default: true,
+      },
+      includeWorkflows: {
+        type: "boolean",
+        description: "If true, include the workflow graphs (Jira Cloud, administrators only)",
+        default: true,
+      },
+    },
+    required: ["projectKey"],
+  },
+};
+
+/**
+ * Formats the create screen fields of an issue type for output.
+ */
+function formatFields(fields: readonly JiraFieldMeta[]): Record<string, unknown> {
+  return {
+    requiredFields: fields
+      .filter((field) => field.required)
+      .map((field) => ({
+        id: field.id,
+        name: field.name,
+        ...(field.hasDefaultValue && { hasDefaultValue: true }),
+        ...(field.allowedValues && { allowedValues: field.allowedValues }),
+      })),
+    optionalFields: fields
+      .filter((field) => !field.required)
+      .map((field) => `${field.name} (${field.id})`),
+  };
+}
+
+/**
+ * Formats workflows for output, with issue type names instead of IDs.
+ */
+function formatWorkflows(
+  workflows: readonly JiraWorkflow[],
+  issueTypes: readonly JiraIssueType[]
+): Array<Record<string, unknown>> {
+  const mapped = new Set(workflows.flatMap((workflow) => workflow.issueTypeIds));
+  const typeName = (id: string): string => issueTypes.find((type) => type.id === id)?.name ?? id;
+
+  return workflows.map((workflow) => ({
+    name: workflow.name,
+    issueTypes: workflow.isDefault
+      ? [
+          ...workflow.issueTypeIds,
+          ...issueTypes.filter((type) => !mapped.has(type.id)).map((type) => type.id),
+        ].map(typeName)
+      : workflow.issueTypeIds.map(typeName),
+    statuses: workflow.statuses,
+    transitions: workflow.transitions.map((transition) => ({
+      name: transition.name,
+      from: transition.from.length > 0 ? transition.from : "any",
+      to: transition.to,
+    })),
+  }));
+}
+
+/**
+ * Executes the get_project_metadata tool.
+ */
+export async function executeGetProjectMetadata(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = GetProjectMetadataInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { projectKey, issueTypeName, includeFields, includeWorkflows } = parseResult.data;
+
+  try {
+    const [project, statuses, creatableTypes] = await Promise.all([
+      client.getProject(projectKey),
+      client.getProjectStatuses(projectKey),
+      includeFields ? client.getCreateIssueTypes(projectKey) : Promise.resolve([]),
+    ]);
+
+    let issueTypes = project.issueTypes;
+    if (issueTypeName) {
+      const issueType = findByName(issueTypes, issueTypeName);
+      if (!issueType) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Issue type '${issueTypeName}' not found in ${project.key}. Valid values: ${issueTypes.map((type) => type.name).join(", ")}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      issueTypes = [issueType];
+    }
+
+    // Create screen fields of the issue types the user can create
+    const fieldsByType = new Map<string, JiraFieldMeta[]>();
+    for (const issueType of issueTypes) {
+      if (creatableTypes.some((type) => type.id === issueType.id)) {
+        fieldsByType.set(issueType.id, await client.getCreateFields(project.key, issueType.id));
+      }
+    }
+
+    // Priorities allowed on the create screens; the global list otherwise
+    const screenPriorities = [
+      ...new Set(
+        [...fieldsByType.values()].flatMap(
+          (fields) => fields.find((field) => field.id === "priority")?.allowedValues ?? []
+        )
+      ),
+    ];
+    const priorities =
+      screenPriorities.length > 0
+        ? screenPriorities
+        : (await client.getPriorities()).map((priority) => priority.name);
+
+    // Workflow graphs need administrator permission, so they are optional
+    let workflows: JiraWorkflow[] | undefined;
+    let workflowsUnavailable: string | undefined;
+    if (includeWorkflows) {
+      try {
+        workflows = await client.getProjectWorkflows(project.id);
+      } catch (error) {
+        if (error instanceof JiraAuthError) {
+          throw error;
+        }
+        workflowsUnavailable =
+          error instanceof JiraApiError
+            ? `Reading workflows requires Jira administrator permission (status: ${error.statusCode}). Use transition_issue with listTransitions:true per issue instead.`
+            : error instanceof Error
+              ? error.message
+              : "Unknown error";
+      }
+    }
+
+    const response = {
+      project: {
+        key: project.key,
+        name: project.name,
+        lead: project.lead?.displayName,
+      },
+      issueTypes: issueTypes.map((issueType) => {
+        const fields = fieldsByType.get(issueType.id);
+        return {
+          id: issueType.id,
+          name: issueType.name,
+          subtask: issueType.subtask,
+          ...(includeFields && !fields && { creatable: false }),
+          ...(fields && formatFields(fields)),
+          statuses: statuses
+            .find((entry) => entry.issueTypeId === issueType.id)
+            ?.statuses.map((status) => status.name) ?? [],
+        };
+      }),
+      priorities,
+      components: project.components.map((component) => ({
+        name: component.name,
+        description: component.description,
+      })),
+      versions: project.versions
+        .filter((version) => !version.archived)
+        .map((version) => ({
+          name: version.name,
+          released: version.released,
+          releaseDate: version.releaseDate,
+        })),
+      ...(workflows && { workflows: formatWorkflows(workflows, project.issueTypes) }),
+      ...(workflowsUnavailable && { workflowsUnavailable }),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraProjectNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Project '${projectKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to get project metadata: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to get project metadata: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -138,7 +138,7 @@ function groupIssuesBySprint(
 /**
  * Calculates velocity metrics for a single sprint.
  */
-function calculateSprintMetrics(
+export function calculateSprintMetrics(
   sprint: JiraSprint,
   issues: readonly JiraIssue[]
 ): SprintVelocityEntry {
@@ -0,0 +1,199 @@
+/**
+ * Get Versions Tool
+ *
+ * MCP tool for listing the versions (fix versions) of a Jira project.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraProjectNotFoundError,
+} from "../domain/jira-client.js";
+import type { JiraVersion } from "../domain/types.js";
+
+/**
+ * Input schema for get_versions tool.
+ */
+export const GetVersionsInputSchema = z.object({
+  projectKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+    .describe("The project key (e.g., PROJ)"),
+  includeReleased: z
+    .boolean()
+    .default(false)
+    .describe("If true, also list released versions"),
+  includeArchived: z
+    .boolean()
+    .default(false)
+    .describe("If true, also list archived versions"),
+  includeIssueCounts: z
+    .boolean()
+    .default(true)
+    .describe("If true, count the unresolved issues of each unreleased version"),
+});
+
+export type GetVersionsInput = z.infer<typeof GetVersionsInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const getVersionsTool = {
+  name: "get_versions",
+  description:
+    "Lists the versions (fix versions) of a Jira project in the project's order, with release dates, overdue flags and the number of unresolved issues of each unreleased version. Use create_version and release_version to manage them.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      projectKey: {
+        type: "string",
+        description: "The project key (e.g., PROJ)",
+        pattern: "^[A-Z][A-Z0-9]*$",
+      },
+      includeReleased: {
+        type: "boolean",
+        description: "If true, also list released versions",
+        default: false,
+      },
+      includeArchived: {
+        type: "boolean",
+        description: "If true, also list archived versions",
+        default: false,
+      },
+      includeIssueCounts: {
+        type: "boolean",
+        description: "If true, count the unresolved issues of each unreleased version",
+        default: true,
+      },
+    },
+    required: ["projectKey"],
+  },
+};
+
+/**
+ * Formats a version for output.
+ */
+function formatVersion(
+  version: JiraVersion,
+  today: string,
+  unresolvedIssues: number | undefined
+): Record<string, unknown> {
+  return {
+    id: version.id,
+    name: version.name,
+    description: version.description,
+    startDate: version.startDate,
+    releaseDate: version.releaseDate,
+    released: version.released,
+    ...(version.archived && { archived: true }),
+    ...(!version.released &&
+      version.releaseDate !== undefined &&
+      version.releaseDate < today && { overdue: true }),
+    ...(unresolvedIssues !== undefined && { unresolvedIssues }),
+  };
+}
+
+/**
+ * Executes the get_versions tool.
+ */
+export async function executeGetVersions(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = GetVersionsInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { projectKey, includeReleased, includeArchived, includeIssueCounts } = parseResult.data;
+
+  try {
+    const versions = (await client.getVersions(projectKey)).filter(
+      (version) =>
+        (includeReleased || !version.released) && (includeArchived || !version.archived)
+    );
+
+    const unresolvedCounts = new Map<string, number>();
+    if (includeIssueCounts) {
+      for (const version of versions.filter((v) => !v.released)) {
+        unresolvedCounts.set(version.id, await client.getUnresolvedIssueCount(version.id));
+      }
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const nextVersion = versions.find((version) => !version.released && !version.archived);
+
+    const response = {
+      projectKey: projectKey.toUpperCase(),
+      count: versions.length,
+      ...(nextVersion && { nextVersion: nextVersion.name }),
+      versions: versions.map((version) =>
+        formatVersion(version, today, unresolvedCounts.get(version.id))
+      ),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraProjectNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Project '${projectKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to get versions: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to get versions: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
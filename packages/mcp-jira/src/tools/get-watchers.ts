@@ -0,0 +1,168 @@
+/**
+ * Get Watchers Tool
+ *
+ * MCP tool for listing who watches and who voted for a Jira issue.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+import type { JiraUser, JiraVotes } from "../domain/types.js";
+
+/**
+ * Input schema for get_watchers tool.
+ */
+export const GetWatchersInputSchema = z.object({
+  issueKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+    .describe("The Jira issue key (e.g., PROJECT-123)"),
+  includeVotes: z
+    .boolean()
+    .default(true)
+    .describe("If true, also include the vote count and voters"),
+});
+
+export type GetWatchersInput = z.infer<typeof GetWatchersInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const getWatchersTool = {
+  name: "get_watchers",
+  description:
+    "Lists the users watching a Jira issue, with the vote count and voters (voters are only listed with permission to view them). Use add_watcher to add stakeholders.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      includeVotes: {
+        type: "boolean",
+        description: "If true, also include the vote count and voters",
+        default: true,
+      },
+    },
+    required: ["issueKey"],
+  },
+};
+
+/**
+ * Formats a user for output.
+ */
+function formatUser(user: JiraUser): { accountId: string; displayName: string; active: boolean } {
+  return { accountId: user.accountId, displayName: user.displayName, active: user.active };
+}
+
+/**
+ * Executes the get_watchers tool.
+ */
+export async function executeGetWatchers(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = GetWatchersInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { issueKey, includeVotes } = parseResult.data;
+
+  try {
+    const watchers = await client.getWatchers(issueKey);
+
+    // Jira answers 404 when voting is disabled, so votes are optional
+    let votes: JiraVotes | undefined;
+    if (includeVotes) {
+      try {
+        votes = await client.getVotes(issueKey);
+      } catch (error) {
+        if (error instanceof JiraAuthError) {
+          throw error;
+        }
+      }
+    }
+
+    const response = {
+      issueKey: issueKey.toUpperCase(),
+      watchCount: watchers.watchCount,
+      isWatching: watchers.isWatching,
+      watchers: watchers.watchers.map(formatUser),
+      ...(votes && {
+        votes: votes.votes,
+        hasVoted: votes.hasVoted,
+        voters: votes.voters.map(formatUser),
+      }),
+      ...(includeVotes && !votes && { votesUnavailable: "Voting is disabled or not visible" }),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Issue '${issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to get watchers: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to get watchers: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Get Worklogs Tool
+ *
+ * MCP tool for retrieving work logged on a Jira issue.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import { JiraNotFoundError, JiraAuthError } from "../domain/jira-client.js";
+import { formatDuration } from "../domain/duration.js";
+
+/**
+ * Input schema for get_worklogs tool.
+ */
+export const GetWorklogsInputSchema = z.object({
+  issueKey: z
+    .string()
+    .regex(
+      /^[A-Z][A-Z0-9]*-\d+$/i,
+      "Issue key must be in format PROJECT-123"
+    )
+    .describe("The Jira issue key (e.g., PROJECT-123)"),
+  startedAfter: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "startedAfter must be an ISO 8601 date")
+    .optional()
+    .describe("Only worklogs started on or after this date (ISO 8601)"),
+  startAt: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe("The index of the first worklog to return (0-based)"),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .default(100)
+    .describe("Maximum number of worklogs to return"),
+});
+
+export type GetWorklogsInput = z.infer<typeof GetWorklogsInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const getWorklogsTool = {
+  name: "get_worklogs",
+  description:
+    "Retrieves work logged on a Jira issue with author, start time and time spent, plus totals per author and the issue's estimates.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      startedAfter: {
+        type: "string",
+        description: "Only worklogs started on or after this date (ISO 8601)",
+      },
+      startAt: {
+        type: "number",
+        description: "The index of the first worklog to return (0-based, default 0)",
+        minimum: 0,
+      },
+      maxResults: {
+        type: "number",
+        description: "Maximum number of worklogs to return (1-1000, default 100)",
+        minimum: 1,
+        maximum: 1000,
+      },
+    },
+    required: ["issueKey"],
+  },
+};
+
+/**
+ * Executes the get_worklogs tool.
+ */
+export async function executeGetWorklogs(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = GetWorklogsInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { issueKey, startedAfter, startAt, maxResults } = parseResult.data;
+
+  try {
+    const [result, issue] = await Promise.all([
+      client.getWorklogs(issueKey, { startAt, maxResults, startedAfter }),
+      client.getIssue(issueKey),
+    ]);
+
+    const byAuthor = new Map<string, number>();
+    for (const worklog of result.worklogs) {
+      const name = worklog.author.displayName;
+      byAuthor.set(name, (byAuthor.get(name) ?? 0) + worklog.timeSpentSeconds);
+    }
+    const totalSeconds = result.worklogs.reduce((sum, worklog) => sum + worklog.timeSpentSeconds, 0);
+    const tracking = issue.timeTracking;
+    const duration = (seconds: number | undefined): string | undefined =>
+      seconds === undefined ? undefined : formatDuration(seconds);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              issueKey,
+              total: result.total,
+              startAt: result.startAt,
+              maxResults: result.maxResults,
+              worklogCount: result.worklogs.length,
+              timeTracking: {
+                originalEstimate: duration(tracking?.originalEstimateSeconds),
+                remainingEstimate: duration(tracking?.remainingEstimateSeconds),
+                timeSpent: duration(tracking?.timeSpentSeconds),
+              },
+              loggedInResult: formatDuration(totalSeconds),
+              byAuthor: Object.fromEntries(
+                [...byAuthor].map(([name, seconds]) => [name, formatDuration(seconds)])
+              ),
+              worklogs: result.worklogs.map((worklog) => ({
+                ...worklog,
+                timeSpent: formatDuration(worklog.timeSpentSeconds),
+              })),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Issue '${issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to get worklogs: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
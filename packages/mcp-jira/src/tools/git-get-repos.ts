@@ -5,7 +5,11 @@
  */
 
 import { z } from "zod";
-import { getRepositoryMappings, getRepositoryCount } from "../git/index.js";
+import {
+  getRepositoryMappings,
+  getRepositoryCount,
+  getRepositoryStoreInfo,
+} from "../git/index.js";
 
 /**
  * Input schema for git get repos tool.
@@ -77,6 +81,7 @@ export function executeGitGetRepos(input: unknown): {
               repositories: [],
               totalCount: 0,
               message,
+              storage: getRepositoryStoreInfo(),
               hint: "Use devflow_git_link_repo to link a repository to a project",
             },
             null,
@@ -104,6 +109,7 @@ export function executeGitGetRepos(input: unknown): {
   const response: Record<string, unknown> = {
     repositories,
     count: mappings.length,
+    storage: getRepositoryStoreInfo(),
   };
 
   // Add context if filtering
@@ -5,7 +5,11 @@
  */
 
 import { z } from "zod";
-import { linkRepository, validateRepositoryUrl } from "../git/index.js";
+import {
+  linkRepository,
+  validateRepositoryUrl,
+  getRepositoryStoreInfo,
+} from "../git/index.js";
 
 /**
  * Input schema for git link repo tool.
@@ -38,7 +42,7 @@ export type GitLinkRepoInput = z.infer<typeof GitLinkRepoInputSchema>;
 export const gitLinkRepoTool = {
   name: "devflow_git_link_repo",
   description:
-    "Links a Git repository to a Jira project. Stores the mapping for branch name generation, commit validation, and PR context features. The repository URL is validated but no Git operations are performed.",
+    "Links a Git repository to a Jira project. Stores the mapping (persisted across server restarts) for branch name generation, commit validation, and PR context features. The repository URL is validated but no Git operations are performed.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -150,6 +154,10 @@ export function executeGitLinkRepo(input: unknown): {
       provider: result.repository.provider,
     },
     message: result.message,
+    storage: {
+      ...getRepositoryStoreInfo(),
+      persisted: result.persisted ?? false,
+    },
   };
 
   if (branchPattern) {
@@ -7,6 +7,8 @@
 import { z } from "zod";
 import type { JiraClient } from "../domain/jira-client.js";
 import { JiraAuthError, JiraNotFoundError } from "../domain/jira-client.js";
+import { getComponentLeads } from "../domain/components.js";
+import type { JiraComponent } from "../domain/types.js";
 import {
   buildPRContext,
   jiraIssueToContext,
@@ -52,7 +54,7 @@ export type GitPRContextInput = z.infer<typeof GitPRContextInputSchema>;
 export const gitPRContextTool = {
   name: "devflow_git_pr_context",
   description:
-    "Generates Pull Request context from Jira issues. Fetches issue details to create a PR title, body template with acceptance criteria, testing checklist, and suggested labels. Does not create the PR - provides the content for you to use.",
+    "Generates Pull Request context from Jira issues. Fetches issue details to create a PR title, body template with acceptance criteria, testing checklist, suggested labels (including component labels), and suggested reviewers (the leads of the issues' components, then the issues' watchers). Does not create the PR - provides the content for you to use.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -84,6 +86,53 @@ export const gitPRContextTool = {
   },
 };
 
+/**
+ * Gets the display names of an issue's active watchers.
+ * Watchers only inform the reviewer suggestion, so failures are ignored.
+ */
+async function getActiveWatcherNames(client: JiraClient, issueKey: string): Promise<string[]> {
+  try {
+    const { watchers } = await client.getWatchers(issueKey);
+    return watchers.filter((user) => user.active).map((user) => user.displayName);
+  } catch (error) {
+    if (error instanceof JiraAuthError) {
+      throw error;
+    }
+    return [];
+  }
+}
+
+/**
+ * Gets the display names of the active leads of an issue's components.
+ * Projects' components are fetched once; like watchers, they only inform
+ * the reviewer suggestion, so failures are ignored.
+ */
+async function getComponentLeadNames(
+  client: JiraClient,
+  projectKey: string,
+  componentNames: readonly string[],
+  projectComponents: Map<string, readonly JiraComponent[]>
+): Promise<string[]> {
+  if (componentNames.length === 0) {
+    return [];
+  }
+
+  let components = projectComponents.get(projectKey);
+  if (!components) {
+    try {
+      components = await client.getComponents(projectKey);
+    } catch (error) {
+      if (error instanceof JiraAuthError) {
+        throw error;
+      }
+      components = [];
+    }
+    projectComponents.set(projectKey, components);
+  }
+
+  return getComponentLeads(components, componentNames).map((user) => user.displayName);
+}
+
 /**
  * Executes the git PR context tool.
  */
@@ -121,11 +170,13 @@ export async function executeGitPRContext(
     const issueContexts: IssueContext[] = [];
     const notFound: string[] = [];
     const errors: string[] = [];
+    const projectComponents = new Map<string, readonly JiraComponent[]>();
 
     for (const key of normalizedKeys) {
       try {
         const issue = await client.getIssue(key);
         if (issue) {
+          const components = issue.components.map((component) => component.name);
           issueContexts.push(
             jiraIssueToContext({
               key: issue.key,
@@ -133,6 +184,15 @@ export async function executeGitPRContext(
               issueType: issue.issueType.name,
               description: issue.description,
               storyPoints: issue.storyPoints,
+              assignee: issue.assignee?.displayName,
+              watchers: await getActiveWatcherNames(client, issue.key),
+              components,
+              componentLeads: await getComponentLeadNames(
+                client,
+                issue.project.key,
+                components,
+                projectComponents
+              ),
             })
           );
         } else {
@@ -194,6 +254,10 @@ export async function executeGitPRContext(
       response["suggestedLabels"] = prContext.suggestedLabels;
     }
 
+    if (prContext.suggestedReviewers.length > 0) {
+      response["suggestedReviewers"] = prContext.suggestedReviewers;
+    }
+
     if (prContext.reviewersRecommendation) {
       response["reviewersRecommendation"] = prContext.reviewersRecommendation;
     }
@@ -204,6 +268,7 @@ export async function executeGitPRContext(
       summary: ctx.summary,
       type: ctx.type,
       storyPoints: ctx.storyPoints,
+      components: ctx.components,
     }));
 
     // Add warnings if any issues weren't found
@@ -9,14 +9,17 @@ import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type CallToolRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { getServerState, getClient } from "../server-state.js";
+import { getServerState, getClient, listProfiles } from "../server-state.js";
 import { getMissingConfigFields } from "../config/index.js";
+import { withRequestPriority } from "../domain/rate-limiter.js";
 
 // Setup tools (always available)
 import { setupGuideTool, executeSetupGuide } from "./setup-guide.js";
 import { configureTool, executeConfigure } from "./configure.js";
+import { oauthLoginTool, executeOAuthLogin } from "./oauth-login.js";
 
 // Development tools (available when JIRA_MCP_DEV=true)
 import {
@@ -25,6 +28,9 @@ import {
   isDevModeEnabled,
 } from "./dev-reload.js";
 
+// Connection profiles
+import { profilesTool, executeProfiles } from "./profiles.js";
+
 // Jira tools (require configuration)
 import { getIssueTool, executeGetIssue } from "./get-issue.js";
 import { searchJqlTool, executeSearchJql } from "./search-jql.js";
@@ -34,8 +40,28 @@ import { scrumGuidanceTool, executeScrumGuidance } from "./scrum-guidance.js";
 import { sprintVelocityTool, executeSprintVelocity } from "./get-sprint-velocity.js";
 import { deepAnalysisTool, executeDeepAnalysis } from "./deep-analysis.js";
 import { createIssueTool, executeCreateIssue } from "./create-issue.js";
+import { bulkCreateIssuesTool, executeBulkCreateIssues } from "./bulk-create-issues.js";
 import { updateIssueTool, executeUpdateIssue } from "./update-issue.js";
 import { transitionIssueTool, executeTransitionIssue } from "./transition-issue.js";
+import { bulkUpdateTool, executeBulkUpdate } from "./bulk-update.js";
+import { addCommentTool, executeAddComment } from "./add-comment.js";
+import { updateCommentTool, executeUpdateComment } from "./update-comment.js";
+import { deleteCommentTool, executeDeleteComment } from "./delete-comment.js";
+import { linkIssuesTool, executeLinkIssues } from "./link-issues.js";
+import { unlinkIssuesTool, executeUnlinkIssues } from "./unlink-issues.js";
+import { getWatchersTool, executeGetWatchers } from "./get-watchers.js";
+import { addWatcherTool, executeAddWatcher } from "./add-watcher.js";
+import { removeWatcherTool, executeRemoveWatcher } from "./remove-watcher.js";
+import { findUsersTool, executeFindUsers } from "./find-users.js";
+import { getProjectMetadataTool, executeGetProjectMetadata } from "./get-project-metadata.js";
+import { getVersionsTool, executeGetVersions } from "./get-versions.js";
+import { createVersionTool, executeCreateVersion } from "./create-version.js";
+import { releaseVersionTool, executeReleaseVersion } from "./release-version.js";
+import { getComponentsTool, executeGetComponents } from "./get-components.js";
+import { getWorklogsTool, executeGetWorklogs } from "./get-worklogs.js";
+import { logWorkTool, executeLogWork } from "./log-work.js";
+import { getAttachmentTool, executeGetAttachment } from "./get-attachment.js";
+import { addAttachmentTool, executeAddAttachment } from "./add-attachment.js";
 
 // Board and Sprint management tools
 import { getBoardsTool, executeGetBoards } from "./get-boards.js";
@@ -47,6 +73,7 @@ import { updateSprintTool, executeUpdateSprint } from "./update-sprint.js";
 // Field configuration tools
 import { configureFieldsTool, executeConfigureFields } from "./configure-fields.js";
 import { discoverFieldsTool, executeDiscoverFields } from "./discover-fields.js";
+import { cacheStatsTool, executeCacheStats } from "./cache-stats.js";
 
 // DevFlow Phase 3 tools
 import { sprintPlanTool, executeSprintPlan } from "./sprint-plan.js";
@@ -57,6 +84,12 @@ import { generateDocsTool, executeGenerateDocs } from "./generate-docs.js";
 import { releaseNotesTool, executeReleaseNotes } from "./release-notes.js";
 import { deploymentLinkTool, executeDeploymentLink } from "./deployment-link.js";
 import { releaseStatusTool, executeReleaseStatus } from "./release-status.js";
+import { deploymentLedgerTool, executeDeploymentLedger } from "./deployment-ledger.js";
+import { flowMetricsTool, executeFlowMetrics } from "./flow-metrics.js";
+import { cumulativeFlowTool, executeCumulativeFlow } from "./cumulative-flow.js";
+import { forecastTool, executeForecast } from "./forecast.js";
+import { sprintBurndownTool, executeSprintBurndown } from "./sprint-burndown.js";
+import { sprintRetrospectiveTool, executeSprintRetrospective } from "./sprint-retrospective.js";
 
 // Git Integration tools (Phase 2)
 import { gitLinkRepoTool, executeGitLinkRepo } from "./git-link-repo.js";
@@ -81,7 +114,7 @@ interface ToolDefinition {
 /**
  * Tools that are always available regardless of configuration state.
  */
-const alwaysAvailableTools: ToolDefinition[] = [setupGuideTool, configureTool];
+const alwaysAvailableTools: ToolDefinition[] = [setupGuideTool, configureTool, oauthLoginTool];
 
 /**
  * Development tools (only available when JIRA_MCP_DEV=true).
@@ -92,6 +125,7 @@ const devTools: ToolDefinition[] = [devReloadTool];
  * Tools that require Jira to be configured.
  */
 const jiraTools: ToolDefinition[] = [
+  profilesTool,
   getIssueTool,
   searchJqlTool,
   getCommentsTool,
@@ -100,8 +134,28 @@ const jiraTools: ToolDefinition[] = [
   sprintVelocityTool,
   deepAnalysisTool,
   createIssueTool,
+  bulkCreateIssuesTool,
   updateIssueTool,
   transitionIssueTool,
+  bulkUpdateTool,
+  addCommentTool,
+  updateCommentTool,
+  deleteCommentTool,
+  linkIssuesTool,
+  unlinkIssuesTool,
+  getWatchersTool,
+  addWatcherTool,
+  removeWatcherTool,
+  findUsersTool,
+  getProjectMetadataTool,
+  getVersionsTool,
+  createVersionTool,
+  releaseVersionTool,
+  getComponentsTool,
+  getWorklogsTool,
+  logWorkTool,
+  getAttachmentTool,
+  addAttachmentTool,
   // Board and Sprint management
   getBoardsTool,
   getBoardSprintsTool,
@@ -111,6 +165,8 @@ const jiraTools: ToolDefinition[] = [
   // Field configuration
   configureFieldsTool,
   discoverFieldsTool,
+  // Diagnostics
+  cacheStatsTool,
   // DevFlow Phase 3 tools
   sprintPlanTool,
   capacityForecastTool,
@@ -120,6 +176,12 @@ const jiraTools: ToolDefinition[] = [
   releaseNotesTool,
   deploymentLinkTool,
   releaseStatusTool,
+  deploymentLedgerTool,
+  flowMetricsTool,
+  cumulativeFlowTool,
+  forecastTool,
+  sprintBurndownTool,
+  sprintRetrospectiveTool,
   // Git Integration tools (Phase 2)
   gitLinkRepoTool,
   gitGetReposTool,
@@ -133,6 +195,83 @@ const jiraTools: ToolDefinition[] = [
  */
 const jiraToolNames = new Set(jiraTools.map((t) => t.name));
 
+/**
+ * Tools that accept the optional profile argument to target a specific
+ * connection profile (jira_profiles and jira_configure take a profile
+ * name as their own argument).
+ */
+const profileAwareToolNames = new Set(
+  [...jiraTools, oauthLoginTool].map((t) => t.name).filter((n) => n !== profilesTool.name)
+);
+
+/**
+ * Analysis and bulk tools whose Jira requests run at bulk priority, so
+ * interactive tools like get_issue are served first when both are waiting.
+ */
+const bulkPriorityToolNames = new Set([
+  "jira_scrum_guidance",
+  "get_sprint_velocity",
+  "jira_deep_analysis",
+  "devflow_sprint_plan",
+  "devflow_capacity_forecast",
+  "devflow_sprint_predict",
+  "devflow_dependency_map",
+  "devflow_generate_docs",
+  "devflow_release_notes",
+  "devflow_release_status",
+  "devflow_flow_metrics",
+  "devflow_cumulative_flow",
+  "devflow_forecast",
+  "devflow_sprint_burndown",
+  "devflow_sprint_retrospective",
+  "bulk_create_issues",
+  "bulk_update",
+]);
+
+/**
+ * Adds the optional profile argument to a tool's input schema.
+ */
+function withProfileArgument(tool: ToolDefinition): ToolDefinition {
+  if (!profileAwareToolNames.has(tool.name)) {
+    return tool;
+  }
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        profile: {
+          type: "string",
+          description:
+            "Connection profile (Jira site) to use instead of the active one. See jira_profiles.",
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Generates an error response for an unknown profile.
+ */
+function getUnknownProfileError(profile: unknown): {
+  content: Array<{ type: "text"; text: string }>;
+  isError: boolean;
+} {
+  const available = listProfiles().map((p) => p.name).join(", ") || "none";
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Unknown profile: ${String(profile)}. Configured profiles: ${available}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
 /**
  * Generates an error response for unconfigured state.
  */
@@ -179,7 +318,7 @@ export function registerTools(server: Server): void {
     }
 
     return {
-      tools: availableTools.map((tool) => ({
+      tools: availableTools.map(withProfileArgument).map((tool) => ({
         name: tool.name,
         description: tool.description,
         inputSchema: tool.inputSchema,
@@ -188,9 +327,32 @@ export function registerTools(server: Server): void {
   });
 
   // Handle call_tool request
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-    const state = getServerState();
+  server.setRequestHandler(CallToolRequestSchema, (request) => {
+    const run = () => handleToolCall(request);
+
+    // Analysis tools fan out many requests: queue them behind interactive calls
+    return bulkPriorityToolNames.has(request.params.name) ? withRequestPriority("bulk", run) : run();
+  });
+
+  /**
+   * Executes a tool call.
+   */
+  async function handleToolCall(request: CallToolRequest) {
+    const { name } = request.params;
+
+    // Resolve the optional profile argument (targets a specific Jira site)
+    let args = request.params.arguments;
+    let profile: string | undefined;
+    if (profileAwareToolNames.has(name) && args && "profile" in args) {
+      const { profile: requestedProfile, ...toolArgs } = args;
+      if (typeof requestedProfile !== "string" || !getClient(requestedProfile)) {
+        return getUnknownProfileError(requestedProfile);
+      }
+      profile = requestedProfile;
+      args = toolArgs;
+    }
+
+    const state = getServerState(profile);
 
     // Setup tools - always available
     switch (name) {
@@ -200,6 +362,9 @@ export function registerTools(server: Server): void {
       case "jira_configure":
         return executeConfigure(args);
 
+      case "jira_oauth_login":
+        return executeOAuthLogin(args, profile);
+
       case "jira_dev_reload":
         // Dev tool - check if enabled
         if (isDevModeEnabled()) {
@@ -229,13 +394,16 @@ export function registerTools(server: Server): void {
     }
 
     // Server is configured - get client
-    const client = getClient();
+    const client = getClient(profile);
     if (!client) {
       // This shouldn't happen if state is configured, but handle gracefully
       return getUnconfiguredError();
     }
 
     switch (name) {
+      case "jira_profiles":
+        return executeProfiles(args);
+
       case "get_issue":
         return executeGetIssue(client, args);
 
@@ -260,12 +428,72 @@ export function registerTools(server: Server): void {
       case "create_issue":
         return executeCreateIssue(client, args);
 
+      case "bulk_create_issues":
+        return executeBulkCreateIssues(client, args);
+
       case "update_issue":
         return executeUpdateIssue(client, args);
 
       case "transition_issue":
         return executeTransitionIssue(client, args);
 
+      case "bulk_update":
+        return executeBulkUpdate(client, args);
+
+      case "add_comment":
+        return executeAddComment(client, args);
+
+      case "update_comment":
+        return executeUpdateComment(client, args);
+
+      case "delete_comment":
+        return executeDeleteComment(client, args);
+
+      case "link_issues":
+        return executeLinkIssues(client, args);
+
+      case "unlink_issues":
+        return executeUnlinkIssues(client, args);
+
+      case "get_watchers":
+        return executeGetWatchers(client, args);
+
+      case "add_watcher":
+        return executeAddWatcher(client, args);
+
+      case "remove_watcher":
+        return executeRemoveWatcher(client, args);
+
+      case "find_users":
+        return executeFindUsers(client, args);
+
+      case "get_project_metadata":
+        return executeGetProjectMetadata(client, args);
+
+      case "get_versions":
+        return executeGetVersions(client, args);
+
+      case "create_version":
+        return executeCreateVersion(client, args);
+
+      case "release_version":
+        return executeReleaseVersion(client, args);
+
+      case "get_components":
+        return executeGetComponents(client, args);
+
+      case "get_worklogs":
+        return executeGetWorklogs(client, args);
+
+      case "log_work":
+        return executeLogWork(client, args);
+
+      case "get_attachment":
+        return executeGetAttachment(client, args);
+
+      case "add_attachment":
+        return executeAddAttachment(client, args);
+
       // Board and Sprint management
       case "get_boards":
         return executeGetBoards(client, args);
@@ -284,11 +512,15 @@ export function registerTools(server: Server): void {
 
       // Field configuration
       case "jira_configure_fields":
-        return executeConfigureFields(args);
+        return executeConfigureFields(args, state.profile);
 
       case "jira_discover_fields":
         return executeDiscoverFields(client, args);
 
+      // Diagnostics
+      case "jira_cache_stats":
+        return executeCacheStats(client, args);
+
       // DevFlow Phase 3 tools
       case "devflow_sprint_plan":
         return executeSprintPlan(client, args);
@@ -314,6 +546,24 @@ export function registerTools(server: Server): void {
       case "devflow_release_status":
         return executeReleaseStatus(client, args);
 
+      case "devflow_deployment_ledger":
+        return executeDeploymentLedger(args);
+
+      case "devflow_flow_metrics":
+        return executeFlowMetrics(client, args);
+
+      case "devflow_cumulative_flow":
+        return executeCumulativeFlow(client, args);
+
+      case "devflow_forecast":
+        return executeForecast(client, args);
+
+      case "devflow_sprint_burndown":
+        return executeSprintBurndown(client, args);
+
+      case "devflow_sprint_retrospective":
+        return executeSprintRetrospective(client, args);
+
       // Git Integration tools (Phase 2)
       case "devflow_git_link_repo":
         return executeGitLinkRepo(args);
@@ -341,7 +591,7 @@ export function registerTools(server: Server): void {
           isError: true,
         };
     }
-  });
+  }
 }
 
 // Re-export individual tools for testing
@@ -351,12 +601,34 @@ export { getCommentsTool, executeGetComments } from "./get-comments.js";
 export { getChangelogTool, executeGetChangelog } from "./get-changelog.js";
 export { setupGuideTool, executeSetupGuide } from "./setup-guide.js";
 export { configureTool, executeConfigure } from "./configure.js";
+export { oauthLoginTool, executeOAuthLogin } from "./oauth-login.js";
+export { profilesTool, executeProfiles } from "./profiles.js";
 export { scrumGuidanceTool, executeScrumGuidance } from "./scrum-guidance.js";
 export { sprintVelocityTool, executeSprintVelocity } from "./get-sprint-velocity.js";
 export { deepAnalysisTool, executeDeepAnalysis } from "./deep-analysis.js";
 export { createIssueTool, executeCreateIssue } from "./create-issue.js";
+export { bulkCreateIssuesTool, executeBulkCreateIssues } from "./bulk-create-issues.js";
 export { updateIssueTool, executeUpdateIssue } from "./update-issue.js";
 export { transitionIssueTool, executeTransitionIssue } from "./transition-issue.js";
+export { bulkUpdateTool, executeBulkUpdate } from "./bulk-update.js";
+export { addCommentTool, executeAddComment } from "./add-comment.js";
+export { updateCommentTool, executeUpdateComment } from "./update-comment.js";
+export { deleteCommentTool, executeDeleteComment } from "./delete-comment.js";
+export { linkIssuesTool, executeLinkIssues } from "./link-issues.js";
+export { unlinkIssuesTool, executeUnlinkIssues } from "./unlink-issues.js";
+export { getWatchersTool, executeGetWatchers } from "./get-watchers.js";
+export { addWatcherTool, executeAddWatcher } from "./add-watcher.js";
+export { removeWatcherTool, executeRemoveWatcher } from "./remove-watcher.js";
+export { findUsersTool, executeFindUsers, resolveAssignee } from "./find-users.js";
+export { getProjectMetadataTool, executeGetProjectMetadata } from "./get-project-metadata.js";
+export { getVersionsTool, executeGetVersions } from "./get-versions.js";
+export { createVersionTool, executeCreateVersion } from "./create-version.js";
+export { releaseVersionTool, executeReleaseVersion } from "./release-version.js";
+export { getComponentsTool, executeGetComponents } from "./get-components.js";
+export { getWorklogsTool, executeGetWorklogs } from "./get-worklogs.js";
+export { logWorkTool, executeLogWork } from "./log-work.js";
+export { getAttachmentTool, executeGetAttachment } from "./get-attachment.js";
+export { addAttachmentTool, executeAddAttachment } from "./add-attachment.js";
 // Board and Sprint management
 export { getBoardsTool, executeGetBoards } from "./get-boards.js";
 export { getBoardSprintsTool, executeGetBoardSprints } from "./get-board-sprints.js";
@@ -366,6 +638,8 @@ export { updateSprintTool, executeUpdateSprint } from "./update-sprint.js";
 // Field configuration
 export { configureFieldsTool, executeConfigureFields } from "./configure-fields.js";
 export { discoverFieldsTool, executeDiscoverFields } from "./discover-fields.js";
+// Diagnostics
+export { cacheStatsTool, executeCacheStats } from "./cache-stats.js";
 // DevFlow Phase 3 tools
 export { sprintPlanTool, executeSprintPlan } from "./sprint-plan.js";
 export { capacityForecastTool, executeCapacityForecast } from "./capacity-forecast.js";
@@ -375,6 +649,12 @@ export { generateDocsTool, executeGenerateDocs } from "./generate-docs.js";
 export { releaseNotesTool, executeReleaseNotes } from "./release-notes.js";
 export { deploymentLinkTool, executeDeploymentLink } from "./deployment-link.js";
 export { releaseStatusTool, executeReleaseStatus } from "./release-status.js";
+export { deploymentLedgerTool, executeDeploymentLedger } from "./deployment-ledger.js";
+export { flowMetricsTool, executeFlowMetrics } from "./flow-metrics.js";
+export { cumulativeFlowTool, executeCumulativeFlow } from "./cumulative-flow.js";
+export { forecastTool, executeForecast } from "./forecast.js";
+export { sprintBurndownTool, executeSprintBurndown } from "./sprint-burndown.js";
+export { sprintRetrospectiveTool, executeSprintRetrospective } from "./sprint-retrospective.js";
 // Git Integration tools (Phase 2)
 export { gitLinkRepoTool, executeGitLinkRepo } from "./git-link-repo.js";
 export { gitGetReposTool, executeGitGetRepos } from "./git-get-repos.js";
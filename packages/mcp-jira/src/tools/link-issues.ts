@@ -0,0 +1,424 @@
+/**
+ * Link Issues Tool
+ *
+ * MCP tool for creating issue links. "Blocks" links are checked for
+ * dependency cycles before they are created, so fixing one dependency
+ * problem cannot introduce another.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+import type { JiraIssueLink, JiraIssueLinkType } from "../domain/types.js";
+import { wouldCreateCycle } from "../analysis/dependencies/index.js";
+
+/**
+ * Maximum links per request.
+ */
+const MAX_LINKS = 50;
+
+/**
+ * Maximum number of issues fetched when checking a "blocks" link for cycles.
+ */
+const MAX_CYCLE_CHECK_ISSUES = 50;
+
+const issueKey = z
+  .string()
+  .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123");
+
+/**
+ * Input schema for link_issues tool.
+ */
+export const LinkIssuesInputSchema = z
+  .object({
+    links: z
+      .array(
+        z
+          .object({
+            from: issueKey.describe("Source issue key"),
+            to: issueKey.describe("Target issue key"),
+            type: z
+              .string()
+              .min(1, "Link type cannot be empty")
+              .describe("Link type name (e.g., Blocks) or description (e.g., 'blocks', 'is blocked by')"),
+          })
+          .refine((link) => link.from.toUpperCase() !== link.to.toUpperCase(), {
+            message: "An issue cannot be linked to itself",
+          })
+      )
+      .min(1, "At least one link is required")
+      .max(MAX_LINKS, `Maximum ${MAX_LINKS} links per request`)
+      .optional()
+      .describe("Links to create, read as '<from> <type> <to>' (e.g., PROJ-1 blocks PROJ-2)"),
+    listTypes: z
+      .boolean()
+      .default(false)
+      .describe("If true, list available link types instead of linking"),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("If true, validate (including cycle checks) without creating links"),
+  })
+  .refine((data) => data.listTypes || data.links !== undefined, {
+    message: "Either listTypes:true or links must be provided",
+  });
+
+export type LinkIssuesInput = z.infer<typeof LinkIssuesInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const linkIssuesTool = {
+  name: "link_issues",
+  description:
+    "Creates links between Jira issues, one or many at a time. Each link reads '<from> <type> <to>' (e.g., PROJ-1 blocks PROJ-2); type may be a link type name or its inward/outward description. 'Blocks' links that would create a circular dependency are skipped. Use listTypes:true to see available link types and dryRun:true to validate without linking.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      links: {
+        type: "array",
+        description: "Links to create, read as '<from> <type> <to>' (e.g., PROJ-1 blocks PROJ-2)",
+        items: {
+          type: "object",
+          properties: {
+            from: {
+              type: "string",
+              description: "Source issue key",
+              pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+            },
+            to: {
+              type: "string",
+              description: "Target issue key",
+              pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+            },
+            type: {
+              type: "string",
+              description: "Link type name (e.g., Blocks) or description (e.g., 'blocks', 'is blocked by')",
+            },
+          },
+          required: ["from", "to", "type"],
+        },
+        minItems: 1,
+        maxItems: MAX_LINKS,
+      },
+      listTypes: {
+        type: "boolean",
+        description: "If true, list available link types instead of linking",
+        default: false,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, validate (including cycle checks) without creating links",
+        default: false,
+      },
+    },
+  },
+};
+
+/**
+ * Outcome for one requested link.
+ */
+interface LinkResult {
+  from: string;
+  to: string;
+  type: string;
+  status: "created" | "valid" | "skipped" | "failed";
+  reason?: string;
+  cycle?: string[];
+}
+
+/**
+ * A requested link resolved against the instance's link types.
+ * The inward issue is the subject of the outward description.
+ */
+interface ResolvedLink {
+  linkType: JiraIssueLinkType;
+  inwardIssueKey: string;
+  outwardIssueKey: string;
+}
+
+/**
+ * Resolves a requested link type by name or description. Naming the inward
+ * description ("is blocked by") swaps the issues.
+ */
+function resolveLink(
+  linkTypes: readonly JiraIssueLinkType[],
+  link: { from: string; to: string; type: string }
+): ResolvedLink | undefined {
+  const wanted = link.type.trim().toLowerCase();
+  const from = link.from.toUpperCase();
+  const to = link.to.toUpperCase();
+
+  const byOutward = linkTypes.find(
+    (type) => type.name.toLowerCase() === wanted || type.outward.toLowerCase() === wanted
+  );
+  if (byOutward) {
+    return { linkType: byOutward, inwardIssueKey: from, outwardIssueKey: to };
+  }
+
+  const byInward = linkTypes.find((type) => type.inward.toLowerCase() === wanted);
+  if (byInward) {
+    return { linkType: byInward, inwardIssueKey: to, outwardIssueKey: from };
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a link type expresses "X blocks Y".
+ */
+function isBlocksType(linkType: JiraIssueLinkType): boolean {
+  return /block/i.test(linkType.name) || /\bblocks\b/i.test(linkType.outward);
+}
+
+/**
+ * Edges blocker -> blocked, read from one issue's links.
+ */
+function blockingEdges(issueKey: string, links: readonly JiraIssueLink[]): Array<{ from: string; to: string }> {
+  return links
+    .filter((link) => isBlocksType(link.type))
+    .map((link) =>
+      link.direction === "outward"
+        ? { from: issueKey, to: link.linkedIssue.key }
+        : { from: link.linkedIssue.key, to: issueKey }
+    );
+}
+
+/**
+ * Checks whether "blocker blocks blocked" would close a cycle, by walking
+ * the issues that `blocked` transitively blocks. Links fetched along the
+ * way are kept in `linkCache` for the rest of the request.
+ *
+ * @returns The cycle (blocker first and last) if one would be created, and
+ *   whether the walk covered the whole reachable graph
+ */
+async function checkBlockingCycle(
+  client: JiraClient,
+  blocker: string,
+  blocked: string,
+  pendingEdges: ReadonlyArray<{ from: string; to: string }>,
+  linkCache: Map<string, readonly JiraIssueLink[]>
+): Promise<{ cycle: string[] | undefined; complete: boolean }> {
+  const edges = [...pendingEdges];
+  const parents = new Map<string, string>();
+  const visited = new Set<string>([blocked]);
+  const queue = [blocked];
+  let fetched = 0;
+  let complete = true;
+
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+
+    let links = linkCache.get(key);
+    if (!links) {
+      if (fetched >= MAX_CYCLE_CHECK_ISSUES) {
+        complete = false;
+        break;
+      }
+      links = (await client.getIssueExtended(key)).issueLinks;
+      linkCache.set(key, links);
+      fetched++;
+    }
+
+    edges.push(...blockingEdges(key, links));
+
+    for (const edge of edges) {
+      if (edge.from === key && !visited.has(edge.to)) {
+        visited.add(edge.to);
+        parents.set(edge.to, key);
+        if (edge.to !== blocker) {
+          queue.push(edge.to);
+        }
+      }
+    }
+  }
+
+  const nodes = [...visited, blocker].map((key) => ({ key }));
+
+  if (!wouldCreateCycle(nodes, edges, blocker, blocked)) {
+    return { cycle: undefined, complete };
+  }
+
+  // Walk back from the blocker to the newly blocked issue
+  const path = [blocker];
+  for (let key = parents.get(blocker); key !== undefined; key = parents.get(key)) {
+    path.unshift(key);
+  }
+
+  return { cycle: [blocker, ...path], complete };
+}
+
+/**
+ * Describes why a single link failed.
+ */
+function describeLinkError(error: unknown): string {
+  if (error instanceof JiraNotFoundError) {
+    return "Issue not found";
+  }
+  if (error instanceof JiraApiError) {
+    return `${error.message} (status: ${error.statusCode})`;
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Executes the link_issues tool.
+ */
+export async function executeLinkIssues(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = LinkIssuesInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { links, listTypes, dryRun } = parseResult.data;
+
+  try {
+    const linkTypes = await client.getIssueLinkTypes();
+
+    if (listTypes || !links) {
+      const response = {
+        linkTypes: linkTypes.map((type) => ({
+          name: type.name,
+          outward: type.outward,
+          inward: type.inward,
+        })),
+        hint: "Use a name or description as the link type: '<from> <outward> <to>' or '<from> <inward> <to>'",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+      };
+    }
+
+    const results: LinkResult[] = [];
+    const pendingEdges: Array<{ from: string; to: string }> = [];
+    const linkCache = new Map<string, readonly JiraIssueLink[]>();
+    const warnings: string[] = [];
+
+    for (const link of links) {
+      const result: LinkResult = { from: link.from, to: link.to, type: link.type, status: "failed" };
+      results.push(result);
+
+      const resolved = resolveLink(linkTypes, link);
+      if (!resolved) {
+        result.reason = `Unknown link type '${link.type}'. Available: ${linkTypes.map((type) => type.name).join(", ")}`;
+        continue;
+      }
+
+      try {
+        const blocks = isBlocksType(resolved.linkType);
+
+        if (blocks) {
+          const { cycle, complete } = await checkBlockingCycle(
+            client,
+            resolved.inwardIssueKey,
+            resolved.outwardIssueKey,
+            pendingEdges,
+            linkCache
+          );
+
+          if (cycle) {
+            result.status = "skipped";
+            result.reason = "Would create a circular blocking dependency";
+            result.cycle = cycle;
+            continue;
+          }
+
+          if (!complete) {
+            warnings.push(
+              `Cycle check for ${link.from} -> ${link.to} stopped after ${MAX_CYCLE_CHECK_ISSUES} issues`
+            );
+          }
+        }
+
+        if (!dryRun) {
+          await client.createIssueLink({
+            typeName: resolved.linkType.name,
+            inwardIssueKey: resolved.inwardIssueKey,
+            outwardIssueKey: resolved.outwardIssueKey,
+          });
+        }
+
+        if (blocks) {
+          pendingEdges.push({ from: resolved.inwardIssueKey, to: resolved.outwardIssueKey });
+        }
+        result.type = `${resolved.linkType.name} (${resolved.inwardIssueKey} ${resolved.linkType.outward} ${resolved.outwardIssueKey})`;
+        result.status = dryRun ? "valid" : "created";
+      } catch (error) {
+        if (error instanceof JiraAuthError) {
+          throw error;
+        }
+        result.reason = describeLinkError(error);
+      }
+    }
+
+    const count = (status: LinkResult["status"]): number =>
+      results.filter((result) => result.status === status).length;
+
+    const response = {
+      ...(dryRun ? { dryRun: true, valid: count("valid") } : { created: count("created") }),
+      skipped: count("skipped"),
+      failed: count("failed"),
+      results,
+      ...(warnings.length > 0 && { warnings }),
+      ...(dryRun && { message: "Validation finished. Set dryRun:false to create the valid links." }),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to link issues: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to link issues: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Log Work Tool
+ *
+ * MCP tool for logging time spent on Jira issues.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+import { formatDuration, parseDuration } from "../domain/duration.js";
+
+/**
+ * A Jira duration such as "1h 30m" or "2d".
+ */
+const duration = z
+  .string()
+  .refine((value) => (parseDuration(value) ?? 0) > 0, "Must be a duration such as '1h 30m' or '2d'");
+
+/**
+ * Input schema for log_work tool.
+ */
+export const LogWorkInputSchema = z
+  .object({
+    issueKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+      .describe("The Jira issue key (e.g., PROJECT-123)"),
+    timeSpent: duration.describe("Time spent, e.g. '1h 30m', '2d' (1d = 8h, 1w = 5d)"),
+    started: z
+      .string()
+      .refine((value) => !Number.isNaN(Date.parse(value)), "started must be an ISO 8601 date-time")
+      .optional()
+      .describe("When the work started (ISO 8601, default: now)"),
+    comment: z
+      .string()
+      .optional()
+      .describe("Worklog comment in Markdown"),
+    adjustEstimate: z
+      .enum(["auto", "leave", "new", "manual"])
+      .default("auto")
+      .describe("How to change the remaining estimate (default: auto - reduce by time spent)"),
+    newEstimate: duration
+      .optional()
+      .describe("New remaining estimate (with adjustEstimate 'new')"),
+    reduceBy: duration
+      .optional()
+      .describe("Amount to reduce the remaining estimate by (with adjustEstimate 'manual')"),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("If true, validate without logging work"),
+  })
+  .refine((data) => data.adjustEstimate !== "new" || data.newEstimate !== undefined, {
+    message: "newEstimate is required when adjustEstimate is 'new'",
+    path: ["newEstimate"],
+  })
+  .refine((data) => data.adjustEstimate !== "manual" || data.reduceBy !== undefined, {
+    message: "reduceBy is required when adjustEstimate is 'manual'",
+    path: ["reduceBy"],
+  });
+
+export type LogWorkInput = z.infer<typeof LogWorkInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const logWorkTool = {
+  name: "log_work",
+  description:
+    "Logs time spent on a Jira issue, optionally adjusting the remaining estimate. Durations use Jira notation ('1h 30m', '2d'). Use dryRun:true to validate without logging.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      timeSpent: {
+        type: "string",
+        description: "Time spent, e.g. '1h 30m', '2d' (1d = 8h, 1w = 5d)",
+      },
+      started: {
+        type: "string",
+        description: "When the work started (ISO 8601, default: now)",
+      },
+      comment: {
+        type: "string",
+        description: "Worklog comment in Markdown",
+      },
+      adjustEstimate: {
+        type: "string",
+        enum: ["auto", "leave", "new", "manual"],
+        description: "How to change the remaining estimate (default: auto - reduce by time spent)",
+      },
+      newEstimate: {
+        type: "string",
+        description: "New remaining estimate (with adjustEstimate 'new')",
+      },
+      reduceBy: {
+        type: "string",
+        description: "Amount to reduce the remaining estimate by (with adjustEstimate 'manual')",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, validate without logging work",
+        default: false,
+      },
+    },
+    required: ["issueKey", "timeSpent"],
+  },
+};
+
+/**
+ * Executes the log_work tool.
+ */
+export async function executeLogWork(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = LogWorkInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { issueKey, timeSpent, started, comment, adjustEstimate, newEstimate, reduceBy, dryRun } =
+    parseResult.data;
+
+  const worklogInput = {
+    issueKey,
+    timeSpentSeconds: parseDuration(timeSpent) ?? 0,
+    started,
+    comment,
+    adjustEstimate,
+    newEstimateSeconds: newEstimate !== undefined ? parseDuration(newEstimate) : undefined,
+    reduceBySeconds: reduceBy !== undefined ? parseDuration(reduceBy) : undefined,
+  };
+
+  // Dry run mode - just validate and return what would be logged
+  if (dryRun) {
+    const preview = {
+      dryRun: true,
+      issueKey,
+      wouldLog: {
+        timeSpent: formatDuration(worklogInput.timeSpentSeconds),
+        started: started ?? "now",
+        comment: comment ? "(provided)" : undefined,
+        adjustEstimate,
+        newEstimate,
+        reduceBy,
+      },
+      message: "Validation passed. Set dryRun:false to log the work.",
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+    };
+  }
+
+  try {
+    const worklog = await client.addWorklog(worklogInput);
+    const issue = await client.getIssue(issueKey);
+    const remaining = issue.timeTracking?.remainingEstimateSeconds;
+
+    const response = {
+      success: true,
+      issueKey,
+      worklogId: worklog.id,
+      timeSpent: formatDuration(worklog.timeSpentSeconds),
+      started: worklog.started,
+      remainingEstimate: remaining !== undefined ? formatDuration(remaining) : undefined,
+      message: `Logged ${formatDuration(worklog.timeSpentSeconds)} on ${issueKey}`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Issue '${issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to log work: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to log work: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * OAuth Login Tool
+ *
+ * MCP tool for signing in to Jira Cloud with OAuth 2.0 (3LO) and PKCE.
+ * The OAuth client is configured through environment variables, so no
+ * secret is ever pasted into the chat; tokens are stored encrypted.
+ */
+
+import { z } from "zod";
+import { getClient } from "../server-state.js";
+import {
+  listenForCallback,
+  parseCallbackUrl,
+  isLoopbackRedirect,
+  type OAuthSession,
+  type OAuthCallbackParams,
+} from "../auth/index.js";
+
+/**
+ * Input schema for jira_oauth_login tool.
+ */
+export const OAuthLoginInputSchema = z.object({
+  action: z
+    .enum(["start", "complete", "status", "logout"])
+    .optional()
+    .default("status")
+    .describe("Login operation to perform"),
+  callbackUrl: z
+    .string()
+    .url()
+    .optional()
+    .describe("Full redirect URL from the browser (for action: complete)"),
+  code: z.string().min(1).optional().describe("Authorization code (for action: complete)"),
+  state: z.string().min(1).optional().describe("State from the redirect (for action: complete)"),
+});
+
+export type OAuthLoginInput = z.infer<typeof OAuthLoginInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const oauthLoginTool = {
+  name: "jira_oauth_login",
+  description:
+    "Signs in to Jira Cloud with OAuth 2.0 instead of an API token. " +
+    "Actions: start (returns the authorization URL and waits for the browser redirect), " +
+    "complete (finish manually with the redirect URL), status, logout. " +
+    "Requires JIRA_OAUTH_CLIENT_ID to be set.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      action: {
+        type: "string",
+        enum: ["start", "complete", "status", "logout"],
+        description: "Login operation to perform (default: status)",
+      },
+      callbackUrl: {
+        type: "string",
+        description:
+          "Full URL the browser was redirected to (for action: complete when the local listener is not reachable)",
+      },
+      code: {
+        type: "string",
+        description: "Authorization code (alternative to callbackUrl)",
+      },
+      state: {
+        type: "string",
+        description: "State value from the redirect (alternative to callbackUrl)",
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * Local callback listener of the login in progress.
+ */
+let activeListener: { close: () => void } | undefined;
+
+/**
+ * Completes a login from callback parameters.
+ */
+async function completeFromCallback(
+  session: OAuthSession,
+  params: OAuthCallbackParams
+): Promise<void> {
+  if (params.error) {
+    throw new Error(params.errorDescription ?? params.error);
+  }
+  if (!params.code || !params.state) {
+    throw new Error("The redirect does not contain an authorization code and state");
+  }
+  await session.completeLogin(params.code, params.state);
+}
+
+/**
+ * Formats a JSON response.
+ */
+function jsonResponse(data: unknown): { content: Array<{ type: "text"; text: string }> } {
+  return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+}
+
+/**
+ * Executes the OAuth login tool.
+ *
+ * @param input - Tool input
+ * @param profile - Connection profile to sign in (default: active profile)
+ */
+export async function executeOAuthLogin(input: unknown, profile?: string): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  const parseResult = OAuthLoginInputSchema.safeParse(input ?? {});
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { action, callbackUrl, code, state } = parseResult.data;
+  const session = getClient(profile)?.getOAuthSession();
+
+  if (!session) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `OAuth is not configured. Set these environment variables and restart the server:
+
+\`\`\`bash
+export JIRA_BASE_URL="https://your-company.atlassian.net"
+export JIRA_OAUTH_CLIENT_ID="your-oauth-client-id"
+export JIRA_OAUTH_CLIENT_SECRET="your-oauth-client-secret"   # if your app has one
+export JIRA_OAUTH_REDIRECT_URI="http://localhost:8765/callback"
+\`\`\`
+
+Create the OAuth 2.0 (3LO) app at https://developer.atlassian.com/console/myapps/ and register the same callback URL.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  try {
+    switch (action) {
+      case "status":
+        return jsonResponse(session.getStatus());
+
+      case "logout": {
+        activeListener?.close();
+        activeListener = undefined;
+        const removed = session.logout();
+        return jsonResponse({ loggedOut: true, tokensRemoved: removed });
+      }
+
+      case "start": {
+        activeListener?.close();
+        activeListener = undefined;
+
+        const pending = session.startLogin();
+        const redirectUri = session.getRedirectUri();
+        let listening = false;
+        let listenerError: string | undefined;
+
+        if (isLoopbackRedirect(redirectUri)) {
+          try {
+            activeListener = await listenForCallback(redirectUri, async (params) => {
+              activeListener = undefined;
+              await completeFromCallback(session, params);
+              console.error("[oauth] Signed in via browser callback");
+            });
+            listening = true;
+          } catch (error) {
+            listenerError = error instanceof Error ? error.message : "Unknown error";
+          }
+        }
+
+        const finish = listening
+          ? `Waiting for the redirect on ${redirectUri}. After approving access, call \`jira_oauth_login\` with \`action: "status"\` to confirm.`
+          : `After approving access, copy the URL your browser was redirected to and call \`jira_oauth_login\` with \`action: "complete"\` and \`callbackUrl\`.${listenerError ? ` (Local listener unavailable: ${listenerError})` : ""}`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `## Sign in to Jira
+
+1. Open this URL in your browser and approve access:
+
+${pending.authorizationUrl}
+
+2. ${finish}
+
+The authorization request expires in 10 minutes.`,
+            },
+          ],
+        };
+      }
+
+      case "complete": {
+        const params: OAuthCallbackParams = callbackUrl
+          ? parseCallbackUrl(callbackUrl)
+          : { code, state };
+
+        await completeFromCallback(session, params);
+        activeListener?.close();
+        activeListener = undefined;
+
+        return jsonResponse(session.getStatus());
+      }
+    }
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `OAuth ${action} failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
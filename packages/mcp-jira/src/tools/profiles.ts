@@ -0,0 +1,112 @@
+/**
+ * Connection Profiles Tool
+ *
+ * Lists, switches and removes named Jira connection profiles, so one
+ * session can work with several Jira sites. Any Jira tool can also target
+ * a specific profile with its optional `profile` argument.
+ */
+
+import { z } from "zod";
+import { ProfileNameSchema } from "../config/index.js";
+import {
+  listProfiles,
+  switchProfile,
+  removeProfile,
+  getActiveProfileName,
+} from "../server-state.js";
+
+/**
+ * Input schema for jira_profiles tool.
+ */
+export const ProfilesInputSchema = z.object({
+  action: z
+    .enum(["list", "switch", "remove"])
+    .optional()
+    .default("list")
+    .describe("Profile operation to perform"),
+  profile: ProfileNameSchema.optional().describe("Profile to switch to or remove"),
+});
+
+export type ProfilesInput = z.infer<typeof ProfilesInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const profilesTool = {
+  name: "jira_profiles",
+  description:
+    "Manages Jira connection profiles (one per Jira site). Actions: list (configured profiles and which is active), " +
+    "switch (make a profile the default for all tools), remove. " +
+    "Every Jira tool also accepts an optional profile argument to query a specific site without switching.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      action: {
+        type: "string",
+        enum: ["list", "switch", "remove"],
+        description: "Profile operation to perform (default: list)",
+      },
+      profile: {
+        type: "string",
+        description: "Profile to switch to or remove",
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * Executes the jira_profiles tool.
+ */
+export function executeProfiles(input: unknown): {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+} {
+  const parseResult = ProfilesInputSchema.safeParse(input ?? {});
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { action, profile } = parseResult.data;
+
+  if (action !== "list") {
+    if (!profile) {
+      return {
+        content: [{ type: "text", text: `Validation error: profile is required for action: ${action}` }],
+        isError: true,
+      };
+    }
+
+    const changed = action === "switch" ? switchProfile(profile) : removeProfile(profile);
+
+    if (!changed) {
+      const available = listProfiles().map((p) => p.name).join(", ") || "none";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Profile '${profile}' is not configured. Configured profiles: ${available}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  const response = {
+    ...(action !== "list" ? { action, profile } : {}),
+    activeProfile: getActiveProfileName() ?? null,
+    profiles: listProfiles(),
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+  };
+}
@@ -57,7 +57,7 @@ export const ReleaseNotesInputSchema = z.object({
     .enum(["type", "epic", "component", "none"])
     .optional()
     .default("type")
-    .describe("How to group changes"),
+    .describe("How to group changes (component: a group per component, named with its lead)"),
   format: z
     .enum(["markdown", "html", "json", "slack"])
     .optional()
@@ -114,7 +114,7 @@ export const releaseNotesTool = {
       groupBy: {
         type: "string",
         enum: ["type", "epic", "component", "none"],
-        description: "How to group changes",
+        description: "How to group changes (component: a group per component, named with its lead)",
       },
       format: {
         type: "string",
@@ -163,6 +163,29 @@ async function fetchReleaseIssues(
   return allIssues.slice(0, maxEntries);
 }
 
+/**
+ * Gets the display names of the project's component leads, by component name.
+ * Leads only annotate the component groups, so failures are ignored.
+ */
+async function fetchComponentLeads(
+  client: JiraClient,
+  projectKey: string
+): Promise<Map<string, string>> {
+  try {
+    const components = await client.getComponents(projectKey);
+    return new Map(
+      components.flatMap((component) =>
+        component.lead?.active ? [[component.name, component.lead.displayName] as const] : []
+      )
+    );
+  } catch (error) {
+    if (error instanceof JiraAuthError) {
+      throw error;
+    }
+    return new Map();
+  }
+}
+
 /**
  * Executes the release notes tool.
  */
@@ -250,8 +273,12 @@ export async function executeReleaseNotes(
     const highlights = extractHighlights(filteredEntries, 5);
     const stats = calculateStats(filteredEntries);
 
-    // Group entries
-    const groups = groupEntries(filteredEntries, groupBy as GroupBy);
+    // Group entries, naming the lead of each component group
+    let groups = groupEntries(filteredEntries, groupBy as GroupBy);
+    if (groupBy === "component") {
+      const leads = await fetchComponentLeads(client, normalizedProjectKey);
+      groups = groups.map((group) => ({ ...group, owner: leads.get(group.key) }));
+    }
 
     // Build release notes object
     const releaseNotes: ReleaseNotes = {
@@ -293,6 +320,7 @@ export async function executeReleaseNotes(
       breakingChanges: stats.breakingCount,
       securityFixes: stats.securityCount,
       byType: stats.byType,
+      ...(groupBy === "component" && { byComponent: stats.byComponent }),
     };
 
     // Highlights
@@ -324,7 +352,11 @@ export async function executeReleaseNotes(
     // Group summary
     response["groups"] = groups.map((g) => ({
       title: g.title,
+      ...(g.owner && { owner: g.owner }),
       count: g.count,
+      ...(groupBy === "component" && {
+        points: g.entries.reduce((sum, e) => sum + (e.storyPoints ?? 0), 0),
+      }),
       hasBreaking: g.hasBreaking,
     }));
 
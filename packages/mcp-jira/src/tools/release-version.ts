@@ -0,0 +1,297 @@
+/**
+ * Release Version Tool
+ *
+ * MCP tool for releasing a version, moving its unresolved issues to the
+ * next version.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraProjectNotFoundError,
+  JiraVersionNotFoundError,
+} from "../domain/jira-client.js";
+import { findByName, describeInvalidValue } from "../domain/project-metadata.js";
+import type { JiraVersion } from "../domain/types.js";
+
+/**
+ * Maximum unresolved issue keys listed in the response.
+ */
+const MAX_LISTED_ISSUES = 50;
+
+/**
+ * Input schema for release_version tool.
+ */
+export const ReleaseVersionInputSchema = z.object({
+  projectKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*$/i, "Project key must be uppercase letters/numbers")
+    .describe("The project key (e.g., PROJ)"),
+  version: z
+    .string()
+    .min(1, "Version cannot be empty")
+    .describe("Name of the version to release"),
+  releaseDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in format YYYY-MM-DD")
+    .optional()
+    .describe("Release date (YYYY-MM-DD, default: today)"),
+  moveUnresolvedTo: z
+    .string()
+    .min(1, "Version cannot be empty")
+    .optional()
+    .describe("Version that unresolved issues move to (default: the next unreleased version)"),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("If true, show what would happen without releasing"),
+});
+
+export type ReleaseVersionInput = z.infer<typeof ReleaseVersionInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const releaseVersionTool = {
+  name: "release_version",
+  description:
+    "Marks a version as released. Its unresolved issues move to the next unreleased version (or moveUnresolvedTo); releasing fails when there is none. Use dryRun:true to see the unresolved issues first.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      projectKey: {
+        type: "string",
+        description: "The project key (e.g., PROJ)",
+        pattern: "^[A-Z][A-Z0-9]*$",
+      },
+      version: {
+        type: "string",
+        description: "Name of the version to release",
+      },
+      releaseDate: {
+        type: "string",
+        description: "Release date (YYYY-MM-DD, default: today)",
+        pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+      },
+      moveUnresolvedTo: {
+        type: "string",
+        description: "Version that unresolved issues move to (default: the next unreleased version)",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, show what would happen without releasing",
+        default: false,
+      },
+    },
+    required: ["projectKey", "version"],
+  },
+};
+
+/**
+ * Picks the version unresolved issues move to: the named one, or the first
+ * unreleased version after the released one in the project's order.
+ *
+ * @returns The target version, or an error message
+ */
+function pickTargetVersion(
+  versions: readonly JiraVersion[],
+  version: JiraVersion,
+  moveUnresolvedTo: string | undefined
+): { target?: JiraVersion | undefined; error?: string } {
+  const candidates = versions.filter(
+    (candidate) => !candidate.released && !candidate.archived && candidate.id !== version.id
+  );
+
+  if (moveUnresolvedTo === undefined) {
+    const position = versions.indexOf(version);
+    return { target: candidates.find((candidate) => versions.indexOf(candidate) > position) };
+  }
+
+  const target = findByName(candidates, moveUnresolvedTo);
+  return target
+    ? { target }
+    : {
+        error: `moveUnresolvedTo: ${describeInvalidValue(
+          moveUnresolvedTo,
+          "unreleased version",
+          candidates.map((candidate) => candidate.name)
+        )}`,
+      };
+}
+
+/**
+ * Executes the release_version tool.
+ */
+export async function executeReleaseVersion(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = ReleaseVersionInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { projectKey, moveUnresolvedTo, dryRun } = parseResult.data;
+  const releaseDate = parseResult.data.releaseDate ?? new Date().toISOString().slice(0, 10);
+
+  try {
+    const versions = await client.getVersions(projectKey);
+    const version = findByName(versions, parseResult.data.version);
+
+    if (!version || version.released) {
+      const unreleased = versions.filter((v) => !v.released && !v.archived).map((v) => v.name);
+      return {
+        content: [
+          {
+            type: "text",
+            text: version
+              ? `Version '${version.name}' is already released${version.releaseDate ? ` (${version.releaseDate})` : ""}`
+              : `Validation error: version: ${describeInvalidValue(parseResult.data.version, "unreleased version", unreleased)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const unresolvedCount = await client.getUnresolvedIssueCount(version.id);
+    const unresolved =
+      unresolvedCount > 0
+        ? await client.searchJql(
+            `fixVersion = ${version.id} AND resolution = Unresolved ORDER BY key ASC`,
+            { maxResults: MAX_LISTED_ISSUES }
+          )
+        : undefined;
+    const unresolvedIssues = unresolved?.issues.map((issue) => issue.key) ?? [];
+
+    const { target, error } = pickTargetVersion(versions, version, moveUnresolvedTo);
+    if (error) {
+      return {
+        content: [{ type: "text", text: `Validation error: ${error}` }],
+        isError: true,
+      };
+    }
+    if (unresolvedCount > 0 && !target) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Version '${version.name}' has ${unresolvedCount} unresolved issue(s) and there is no later unreleased version to move them to. Create one with create_version or name one with moveUnresolvedTo.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const moveTo = unresolvedCount > 0 ? target : undefined;
+
+    // Dry run mode - show the unresolved issues and where they would go
+    if (dryRun) {
+      const preview = {
+        dryRun: true,
+        version: version.name,
+        releaseDate,
+        unresolvedCount,
+        ...(unresolvedCount > 0 && { unresolvedIssues, wouldMoveTo: moveTo?.name }),
+        message: "Set dryRun:false to release the version.",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+      };
+    }
+
+    const released = await client.releaseVersion({
+      versionId: version.id,
+      releaseDate,
+      moveUnresolvedToId: moveTo?.id,
+    });
+
+    const response = {
+      success: true,
+      version: released.name,
+      releaseDate: released.releaseDate ?? releaseDate,
+      ...(moveTo && {
+        movedTo: moveTo.name,
+        movedCount: unresolvedCount,
+        movedIssues: unresolvedIssues,
+      }),
+      message: `Released ${released.name}${moveTo ? `; moved ${unresolvedCount} unresolved issue(s) to ${moveTo.name}` : ""}`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraProjectNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Project '${projectKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraVersionNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to release version: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to release version: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Remove Watcher Tool
+ *
+ * MCP tool for removing watchers from a Jira issue.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+
+/**
+ * Maximum watchers removed per request.
+ */
+const MAX_WATCHERS = 20;
+
+/**
+ * Input schema for remove_watcher tool.
+ */
+export const RemoveWatcherInputSchema = z.object({
+  issueKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+    .describe("The Jira issue key (e.g., PROJECT-123)"),
+  accountIds: z
+    .array(z.string().min(1, "Account ID cannot be empty"))
+    .min(1, "At least one account ID is required")
+    .max(MAX_WATCHERS, `Maximum ${MAX_WATCHERS} watchers per request`)
+    .describe("Account IDs (Cloud) or usernames (Data Center) of the users to remove"),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("If true, show who would be removed without removing"),
+});
+
+export type RemoveWatcherInput = z.infer<typeof RemoveWatcherInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const removeWatcherTool = {
+  name: "remove_watcher",
+  description:
+    "Removes one or more watchers from a Jira issue. Users who do not watch the issue are skipped. Use dryRun:true to preview.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      accountIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Account IDs (Cloud) or usernames (Data Center) of the users to remove",
+        minItems: 1,
+        maxItems: MAX_WATCHERS,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, show who would be removed without removing",
+        default: false,
+      },
+    },
+    required: ["issueKey", "accountIds"],
+  },
+};
+
+/**
+ * Executes the remove_watcher tool.
+ */
+export async function executeRemoveWatcher(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = RemoveWatcherInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { issueKey, accountIds, dryRun } = parseResult.data;
+
+  try {
+    const current = await client.getWatchers(issueKey);
+    const watching = new Set(current.watchers.map((user) => user.accountId));
+
+    const requested = [...new Set(accountIds)];
+    const notWatching = requested.filter((id) => !watching.has(id));
+    const toRemove = requested.filter((id) => watching.has(id));
+
+    if (dryRun) {
+      const preview = {
+        dryRun: true,
+        issueKey: issueKey.toUpperCase(),
+        wouldRemove: toRemove,
+        ...(notWatching.length > 0 && { notWatching }),
+        message: "Set dryRun:false to remove these watchers.",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+      };
+    }
+
+    const removed: string[] = [];
+    const failed: Array<{ accountId: string; reason: string }> = [];
+
+    for (const accountId of toRemove) {
+      try {
+        await client.removeWatcher(issueKey, accountId);
+        removed.push(accountId);
+      } catch (error) {
+        if (error instanceof JiraAuthError) {
+          throw error;
+        }
+        const reason = error instanceof Error ? error.message : "Unknown error";
+        failed.push({ accountId, reason });
+      }
+    }
+
+    const response = {
+      success: failed.length === 0,
+      issueKey: issueKey.toUpperCase(),
+      removed,
+      ...(notWatching.length > 0 && { notWatching }),
+      ...(failed.length > 0 && { failed }),
+      message: `Removed ${removed.length} of ${toRemove.length} watcher(s)`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+      ...(toRemove.length > 0 && removed.length === 0 && { isError: true }),
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Issue '${issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to remove watchers: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to remove watchers: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -6,7 +6,7 @@
  */
 
 import { getMissingConfigFields } from "../config/index.js";
-import { getServerState, getConfig } from "../server-state.js";
+import { getServerState, getConfig, listProfiles } from "../server-state.js";
 
 /**
  * Tool definition for MCP registration.
@@ -35,12 +35,21 @@ function generateSetupGuide(): string {
   // Status section
   if (state.status === "configured") {
     const config = getConfig();
+    const user =
+      config?.auth.type === "bearer"
+        ? "Personal Access Token"
+        : config?.auth.type === "oauth"
+          ? "OAuth 2.0 (see jira_oauth_login)"
+          : (config?.auth.email ?? "unknown");
+    const profiles = listProfiles();
     sections.push(`## Configuration Status: CONFIGURED
 
 Jira is configured and ready to use.
 
+- **Profile**: ${state.profile}${profiles.length > 1 ? ` (of ${profiles.map((p) => p.name).join(", ")}; see \`jira_profiles\`)` : ""}
 - **Instance**: ${config?.baseUrl ?? "unknown"}
-- **User**: ${config?.auth.email ?? "unknown"}
+- **Deployment**: ${config?.deployment === "datacenter" ? "Server / Data Center" : "Cloud"}
+- **User**: ${user}
 
 All Jira tools are available. You can use:
 - \`get_issue\` - Retrieve a Jira issue by key
@@ -63,6 +72,32 @@ Use \`jira_configure\` to set up credentials now, or configure environment varia
 3. Give it a label (e.g., "MCP Jira")
 4. Copy the generated token (you won't see it again!)
 
+## OAuth 2.0 Sign-in (Jira Cloud)
+
+To avoid pasting API tokens into the chat, register an OAuth 2.0 (3LO) app at https://developer.atlassian.com/console/myapps/ with the callback URL \`http://localhost:8765/callback\`, then:
+
+\`\`\`bash
+export JIRA_BASE_URL="https://your-company.atlassian.net"
+export JIRA_OAUTH_CLIENT_ID="your-oauth-client-id"
+export JIRA_OAUTH_CLIENT_SECRET="your-oauth-client-secret"
+\`\`\`
+
+Restart the server and call \`jira_oauth_login\` with \`action: "start"\`. Tokens are stored encrypted and refreshed automatically.
+
+## Jira Server / Data Center
+
+Data Center (8.14+) authenticates with a Personal Access Token instead of email + API token:
+
+1. In Jira, open your profile and select **Personal Access Tokens**
+2. Click "Create token", give it a name and an expiry
+3. Copy the generated token
+
+\`\`\`bash
+export JIRA_BASE_URL="https://jira.your-company.com"
+export JIRA_PERSONAL_ACCESS_TOKEN="your-personal-access-token"
+export JIRA_DEPLOYMENT="datacenter"  # default when a Personal Access Token is set
+\`\`\`
+
 ## Configuration Options
 
 ### Option 1: Environment Variables (Recommended)
@@ -107,6 +142,19 @@ jira_configure(
 
 **Note**: Runtime configuration is stored in memory only and will be lost when the server restarts.
 
+### Multiple Jira Sites
+
+Each Jira site is a named connection profile. Declare extra profiles with \`JIRA_PROFILES\` and prefix their variables with \`JIRA_PROFILE_<NAME>_\`:
+
+\`\`\`bash
+export JIRA_PROFILES="it"
+export JIRA_PROFILE_IT_BASE_URL="https://it-company.atlassian.net"
+export JIRA_PROFILE_IT_USER_EMAIL="your-email@company.com"
+export JIRA_PROFILE_IT_API_TOKEN="your-api-token"
+\`\`\`
+
+Use \`jira_profiles\` to list or switch the active profile, or pass \`profile: "it"\` to any Jira tool.
+
 ### Option 3: Docker
 
 \`\`\`bash
@@ -132,7 +180,8 @@ services:
 
 ## Troubleshooting
 
-- **401 Unauthorized**: Check your email and API token are correct
+- **401 Unauthorized**: Check your email and API token (or Personal Access Token) are correct
+- **Incompatible Jira deployment**: Set \`JIRA_DEPLOYMENT\` to \`cloud\` or \`datacenter\` to match your instance
 - **403 Forbidden**: Your account may not have permission for the requested resource
 - **404 Not Found**: Verify your base URL is correct (include https://)
 - **Connection refused**: Check your network and firewall settings`);
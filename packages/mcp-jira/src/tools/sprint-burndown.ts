@@ -0,0 +1,221 @@
+/**
+ * Sprint Burndown Tool
+ *
+ * Daily burndown and burnup of a sprint, reconstructed from the story
+ * point, sprint and status changes in its issues' changelogs.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraSprintNotFoundError,
+} from "../domain/jira-client.js";
+import {
+  calculateBurndown,
+  fetchSprintHistories,
+  fetchSprintScopeIssues,
+  formatBurndownMarkdown,
+} from "../analysis/burndown/index.js";
+
+/**
+ * Input schema for sprint burndown tool.
+ */
+export const SprintBurndownInputSchema = z.object({
+  sprintId: z
+    .number()
+    .int()
+    .positive()
+    .describe("The sprint ID"),
+  maxIssues: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .default(200)
+    .describe("Maximum issues to analyze (default: 200, max: 500)"),
+  format: z
+    .enum(["markdown", "json"])
+    .optional()
+    .default("markdown")
+    .describe("Output format: markdown table, or json"),
+});
+
+export type SprintBurndownInput = z.infer<typeof SprintBurndownInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const sprintBurndownTool = {
+  name: "devflow_sprint_burndown",
+  description:
+    "Sprint burndown and burnup rebuilt from issue changelogs (story point edits, sprint changes, status changes): scope, completed and remaining points for each day against the ideal line, points and issues added or removed, and the days the scope grew. Returns a Markdown table, or JSON for charts.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      sprintId: {
+        type: "number",
+        description: "The sprint ID",
+      },
+      maxIssues: {
+        type: "number",
+        description: "Maximum issues to analyze (default: 200, max: 500)",
+        minimum: 1,
+        maximum: 500,
+      },
+      format: {
+        type: "string",
+        enum: ["markdown", "json"],
+        description: "Output format: markdown table (default), or json",
+      },
+    },
+    required: ["sprintId"],
+  },
+};
+
+/**
+ * Executes the sprint burndown tool.
+ */
+export async function executeSprintBurndown(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  const parseResult = SprintBurndownInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { sprintId, maxIssues, format } = parseResult.data;
+
+  try {
+    const sprint = await client.getSprint(sprintId);
+
+    if (!sprint.startDate) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sprint '${sprint.name}' has not started, so it has no burndown yet.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { issues, truncated, removedUnavailable } = await fetchSprintScopeIssues(
+      client,
+      sprint,
+      maxIssues
+    );
+    const histories = await fetchSprintHistories(client, sprint, issues);
+    const burndown = calculateBurndown(histories, sprint);
+    const truncation = truncated
+      ? `Only the first ${issues.length} issues were analyzed; raise maxIssues for the full scope`
+      : undefined;
+    const removedNote = removedUnavailable
+      ? "The sprint report could not be read, so issues removed from the sprint are missing"
+      : undefined;
+
+    if (format === "markdown") {
+      const markdown = [formatBurndownMarkdown(burndown), truncation, removedNote]
+        .filter((part): part is string => part !== undefined)
+        .map((part, index) => (index === 0 ? part : `_${part}_`))
+        .join("\n\n");
+      return {
+        content: [{ type: "text", text: markdown }],
+      };
+    }
+
+    // Insights
+    const insights: string[] = [];
+    if (burndown.scopeChange !== undefined && burndown.scopeChange > 0) {
+      insights.push(
+        `Scope grew by ${Math.round(burndown.scopeChange * 100)}% after the sprint started, on ${burndown.scopeCreepDays.length} day(s)`
+      );
+    }
+    const last = burndown.days[burndown.days.length - 1];
+    if (burndown.pace === "behind" && last) {
+      insights.push(
+        `${last.remainingPoints} points remain against ${last.idealRemainingPoints} on the ideal line`
+      );
+    }
+    if (burndown.unestimatedIssues.length > 0) {
+      insights.push(
+        `${burndown.unestimatedIssues.length} issue(s) in scope have no story points and do not show in the burndown`
+      );
+    }
+
+    const response: Record<string, unknown> = { ...burndown };
+    if (insights.length > 0) {
+      response["insights"] = insights;
+    }
+    if (truncation) {
+      response["truncated"] = truncation;
+    }
+    if (removedNote) {
+      response["note"] = removedNote;
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraSprintNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sprint with ID ${sprintId} not found. Use get_board_sprints to list available sprints.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to build sprint burndown: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to build sprint burndown: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Sprint Retrospective Tool
+ *
+ * Retrospective report of a sprint built from its issues' changelogs:
+ * committed vs. completed, carry-over, scope changes, re-estimates,
+ * blocked time and bugs found, compared with the prior sprints, with
+ * discussion prompts.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraBoardNotFoundError,
+  JiraSprintNotFoundError,
+} from "../domain/jira-client.js";
+import type { JiraSprint, SprintVelocityEntry } from "../domain/types.js";
+import { fetchScopeIssues } from "../analysis/flow/index.js";
+import { fetchSprintHistories, fetchSprintScopeIssues } from "../analysis/burndown/index.js";
+import { buildRetrospective } from "../analysis/retrospective/index.js";
+import { calculateSprintMetrics } from "./get-sprint-velocity.js";
+
+/**
+ * Input schema for sprint retrospective tool.
+ */
+export const SprintRetrospectiveInputSchema = z.object({
+  sprintId: z
+    .number()
+    .int()
+    .positive()
+    .describe("The sprint ID"),
+  priorSprintCount: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .optional()
+    .default(5)
+    .describe("Closed sprints before this one to compare with (default: 5, max: 10)"),
+  maxIssues: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .default(200)
+    .describe("Maximum issues to analyze per sprint (default: 200, max: 500)"),
+});
+
+export type SprintRetrospectiveInput = z.infer<typeof SprintRetrospectiveInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const sprintRetrospectiveTool = {
+  name: "devflow_sprint_retrospective",
+  description:
+    "Sprint retrospective report rebuilt from issue changelogs: committed vs. completed points, carry-over, scope added and removed mid-sprint, re-estimated issues, blocked time (flagged or in a blocked status) and bugs found, compared with the velocity trend of the prior sprints. Includes discussion prompts for the retrospective meeting.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      sprintId: {
+        type: "number",
+        description: "The sprint ID",
+      },
+      priorSprintCount: {
+        type: "number",
+        description: "Closed sprints before this one to compare with (default: 5, max: 10)",
+        minimum: 0,
+        maximum: 10,
+      },
+      maxIssues: {
+        type: "number",
+        description: "Maximum issues to analyze per sprint (default: 200, max: 500)",
+        minimum: 1,
+        maximum: 500,
+      },
+    },
+    required: ["sprintId"],
+  },
+};
+
+/**
+ * Fetches the velocity of the closed sprints completed before a sprint
+ * started, oldest first.
+ */
+async function fetchPriorVelocity(
+  client: JiraClient,
+  boardId: number,
+  startDate: string,
+  count: number,
+  maxIssues: number
+): Promise<SprintVelocityEntry[]> {
+  if (count === 0) {
+    return [];
+  }
+
+  const sprints: JiraSprint[] = [];
+  for (;;) {
+    const result = await client.getBoardSprints(boardId, {
+      state: "closed",
+      startAt: sprints.length,
+      maxResults: 50,
+    });
+    sprints.push(...result.sprints);
+    if (result.isLast || result.sprints.length === 0) {
+      break;
+    }
+  }
+
+  const start = Date.parse(startDate);
+  const prior = sprints
+    .filter((sprint) => {
+      const end = sprint.completeDate ?? sprint.endDate;
+      return end !== undefined && Date.parse(end) <= start;
+    })
+    .sort((a, b) => (a.completeDate ?? a.endDate ?? "").localeCompare(b.completeDate ?? b.endDate ?? ""))
+    .slice(-count);
+
+  const entries: SprintVelocityEntry[] = [];
+  for (const sprint of prior) {
+    const { issues } = await fetchScopeIssues(client, { sprintId: sprint.id }, maxIssues);
+    entries.push(calculateSprintMetrics(sprint, issues));
+  }
+
+  return entries;
+}
+
+/**
+ * Executes the sprint retrospective tool.
+ */
+export async function executeSprintRetrospective(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  const parseResult = SprintRetrospectiveInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { sprintId, priorSprintCount, maxIssues } = parseResult.data;
+
+  try {
+    const sprint = await client.getSprint(sprintId);
+
+    if (!sprint.startDate) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sprint '${sprint.name}' has not started, so there is nothing to look back on yet.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { issues, removedIssueKeys, truncated, removedUnavailable } = await fetchSprintScopeIssues(
+      client,
+      sprint,
+      maxIssues
+    );
+    const histories = await fetchSprintHistories(client, sprint, issues);
+    const priorSprints = await fetchPriorVelocity(
+      client,
+      sprint.originBoardId,
+      sprint.startDate,
+      priorSprintCount,
+      maxIssues
+    );
+    // Measured like the prior sprints: the current status of the issues left in the sprint
+    const removed = new Set(removedIssueKeys);
+    const velocity = calculateSprintMetrics(
+      sprint,
+      issues.filter((issue) => !removed.has(issue.key))
+    );
+    const retrospective = buildRetrospective({ sprint, issues, histories, velocity, priorSprints });
+
+    const response: Record<string, unknown> = { ...retrospective };
+    const notes = [
+      ...(sprint.state === "active" ? ["The sprint is still active; the report covers it up to now"] : []),
+      ...(removedUnavailable
+        ? ["The sprint report could not be read, so issues removed from the sprint are missing"]
+        : []),
+    ];
+    if (notes.length > 0) {
+      response["note"] = notes.join(". ");
+    }
+    if (truncated) {
+      response["truncated"] = `Only the first ${issues.length} issues were analyzed; raise maxIssues for the full scope`;
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraSprintNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sprint with ID ${sprintId} not found. Use get_board_sprints to list available sprints.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraBoardNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Board with ID ${error.boardId} not found. Use get_boards to list available boards.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to build sprint retrospective: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to build sprint retrospective: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
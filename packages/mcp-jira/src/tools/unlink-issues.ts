@@ -0,0 +1,258 @@
+/**
+ * Unlink Issues Tool
+ *
+ * MCP tool for removing issue links, by link ID or between two issues.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+
+/**
+ * Maximum links removed per request.
+ */
+const MAX_LINKS = 50;
+
+/**
+ * Input schema for unlink_issues tool.
+ */
+export const UnlinkIssuesInputSchema = z
+  .object({
+    linkIds: z
+      .array(z.string().regex(/^\d+$/, "Link ID must be numeric"))
+      .min(1, "At least one link ID is required")
+      .max(MAX_LINKS, `Maximum ${MAX_LINKS} links per request`)
+      .optional()
+      .describe("IDs of the links to remove (listed by a dry run with issueKey and otherIssueKey)"),
+    issueKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+      .optional()
+      .describe("Remove links between this issue and otherIssueKey"),
+    otherIssueKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+      .optional()
+      .describe("The other linked issue"),
+    type: z
+      .string()
+      .optional()
+      .describe("Only remove links of this type (name or inward/outward description)"),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("If true, list the links that would be removed"),
+  })
+  .refine((data) => data.linkIds !== undefined || (data.issueKey && data.otherIssueKey), {
+    message: "Either linkIds or both issueKey and otherIssueKey must be provided",
+  });
+
+export type UnlinkIssuesInput = z.infer<typeof UnlinkIssuesInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const unlinkIssuesTool = {
+  name: "unlink_issues",
+  description:
+    "Removes issue links, either by link ID or all links between two issues (optionally of one type). Use dryRun:true to see which links would be removed.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      linkIds: {
+        type: "array",
+        items: { type: "string", pattern: "^\\d+$" },
+        description: "IDs of the links to remove",
+        minItems: 1,
+        maxItems: MAX_LINKS,
+      },
+      issueKey: {
+        type: "string",
+        description: "Remove links between this issue and otherIssueKey",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      otherIssueKey: {
+        type: "string",
+        description: "The other linked issue",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      type: {
+        type: "string",
+        description: "Only remove links of this type (name or inward/outward description)",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, list the links that would be removed",
+        default: false,
+      },
+    },
+  },
+};
+
+/**
+ * A link selected for removal.
+ */
+interface LinkToRemove {
+  id: string;
+  description?: string;
+}
+
+/**
+ * Executes the unlink_issues tool.
+ */
+export async function executeUnlinkIssues(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = UnlinkIssuesInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { linkIds, issueKey, otherIssueKey, type, dryRun } = parseResult.data;
+
+  try {
+    let toRemove: LinkToRemove[];
+
+    if (linkIds) {
+      toRemove = linkIds.map((id) => ({ id }));
+    } else {
+      const issue = await client.getIssueExtended(issueKey!);
+      const other = otherIssueKey!.toUpperCase();
+      const wantedType = type?.trim().toLowerCase();
+
+      toRemove = issue.issueLinks
+        .filter((link) => link.linkedIssue.key.toUpperCase() === other)
+        .filter(
+          (link) =>
+            !wantedType ||
+            [link.type.name, link.type.inward, link.type.outward].some(
+              (name) => name.toLowerCase() === wantedType
+            )
+        )
+        .map((link) => ({
+          id: link.id,
+          description: `${issue.key} ${link.direction === "outward" ? link.type.outward : link.type.inward} ${link.linkedIssue.key}`,
+        }));
+
+      if (toRemove.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No ${type ? `'${type}' ` : ""}links found between ${issue.key} and ${other}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (dryRun) {
+      const preview = {
+        dryRun: true,
+        wouldRemove: toRemove,
+        message: "Set dryRun:false to remove these links.",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+      };
+    }
+
+    const removed: LinkToRemove[] = [];
+    const failed: Array<LinkToRemove & { reason: string }> = [];
+
+    for (const link of toRemove) {
+      try {
+        await client.deleteIssueLink(link.id);
+        removed.push(link);
+      } catch (error) {
+        if (error instanceof JiraAuthError) {
+          throw error;
+        }
+        const reason =
+          error instanceof JiraApiError && error.statusCode === 404
+            ? "Link not found"
+            : error instanceof Error
+              ? error.message
+              : "Unknown error";
+        failed.push({ ...link, reason });
+      }
+    }
+
+    const response = {
+      success: failed.length === 0,
+      removed,
+      ...(failed.length > 0 && { failed }),
+      message: `Removed ${removed.length} of ${toRemove.length} link(s)`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+      ...(removed.length === 0 && { isError: true }),
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Issue '${issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to unlink issues: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to unlink issues: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Update Comment Tool
+ *
+ * MCP tool for editing existing comments on Jira issues.
+ */
+
+import { z } from "zod";
+import type { JiraClient } from "../domain/jira-client.js";
+import {
+  JiraApiError,
+  JiraAuthError,
+  JiraNotFoundError,
+} from "../domain/jira-client.js";
+import { extractMentionNames } from "../domain/adf.js";
+import { CommentVisibilitySchema, commentVisibilityProperty } from "./add-comment.js";
+
+/**
+ * Input schema for update_comment tool.
+ */
+export const UpdateCommentInputSchema = z.object({
+  issueKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+    .describe("The Jira issue key (e.g., PROJECT-123)"),
+  commentId: z
+    .string()
+    .regex(/^\d+$/, "Comment ID must be numeric")
+    .describe("The comment ID (from get_issue_comments)"),
+  body: z
+    .string()
+    .min(1, "Comment body cannot be empty")
+    .describe("New comment in Markdown (replaces the body); mention users as @[Display Name]"),
+  visibility: CommentVisibilitySchema.optional().describe(
+    "New visibility restriction (omit to keep the current one)"
+  ),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("If true, show the current comment without updating"),
+});
+
+export type UpdateCommentInput = z.infer<typeof UpdateCommentInputSchema>;
+
+/**
+ * Tool definition for MCP registration.
+ */
+export const updateCommentTool = {
+  name: "update_comment",
+  description:
+    "Edits an existing comment on a Jira issue, replacing its body. The body is Markdown; mention users with @[Display Name]. Use dryRun:true to see the current comment without updating.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      issueKey: {
+        type: "string",
+        description: "The Jira issue key (e.g., PROJECT-123)",
+        pattern: "^[A-Z][A-Z0-9]*-\\d+$",
+      },
+      commentId: {
+        type: "string",
+        description: "The comment ID (from get_issue_comments)",
+        pattern: "^\\d+$",
+      },
+      body: {
+        type: "string",
+        description: "New comment in Markdown (replaces the body); mention users as @[Display Name]",
+      },
+      visibility: {
+        ...commentVisibilityProperty,
+        description: "New visibility restriction (omit to keep the current one)",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, show the current comment without updating",
+        default: false,
+      },
+    },
+    required: ["issueKey", "commentId", "body"],
+  },
+};
+
+/**
+ * Executes the update_comment tool.
+ */
+export async function executeUpdateComment(
+  client: JiraClient,
+  input: unknown
+): Promise<{
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}> {
+  // Validate input
+  const parseResult = UpdateCommentInputSchema.safeParse(input);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+    return {
+      content: [{ type: "text", text: `Validation error: ${errors}` }],
+      isError: true,
+    };
+  }
+
+  const { dryRun, ...commentInput } = parseResult.data;
+
+  try {
+    // Dry run mode - show the current comment next to the new body
+    if (dryRun) {
+      const current = await client.getComment(commentInput.issueKey, commentInput.commentId);
+
+      const preview = {
+        dryRun: true,
+        issueKey: commentInput.issueKey,
+        commentId: commentInput.commentId,
+        currentBody: current.body,
+        newBody: commentInput.body,
+        mentions: extractMentionNames(commentInput.body),
+        visibility: commentInput.visibility ?? current.visibility,
+        message: "Validation passed. Set dryRun:false to apply the update.",
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+      };
+    }
+
+    const result = await client.updateComment(commentInput);
+
+    const response = {
+      success: true,
+      issueKey: commentInput.issueKey,
+      comment: result.comment,
+      ...(result.unresolvedMentions.length > 0 && {
+        unresolvedMentions: result.unresolvedMentions,
+        hint: "Unresolved mentions were saved as plain text. Use the user's exact display name.",
+      }),
+      message: `Comment ${commentInput.commentId} on ${commentInput.issueKey} updated successfully`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    };
+  } catch (error) {
+    if (error instanceof JiraNotFoundError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Comment ${commentInput.commentId} on issue '${commentInput.issueKey}' not found`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraAuthError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Authentication failed. Please check your Jira credentials.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof JiraApiError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to update comment: ${error.message} (status: ${error.statusCode})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Generic error
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to update comment: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
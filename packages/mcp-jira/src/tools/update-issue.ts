@@ -6,6 +6,10 @@
 
 import { z } from "zod";
 import type { JiraClient } from "../domain/jira-client.js";
+import { checkCustomFieldValues, findCustomFieldAlias } from "../domain/custom-fields.js";
+import { checkAllowedValue } from "../domain/project-metadata.js";
+import type { JiraFieldMeta } from "../domain/types.js";
+import { resolveAssignee } from "./find-users.js";
 import {
   JiraApiError,
   JiraAuthError,
@@ -15,44 +19,57 @@ import {
 /**
  * Input schema for update_issue tool.
  */
-export const UpdateIssueInputSchema = z.object({
-  issueKey: z
-    .string()
-    .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
-    .describe("The Jira issue key (e.g., PROJECT-123)"),
-  summary: z
-    .string()
-    .min(1, "Summary cannot be empty")
-    .max(255, "Summary must be 255 characters or less")
-    .optional()
-    .describe("New summary/title"),
-  description: z
-    .string()
-    .optional()
-    .describe("New description (plain text, converted to ADF)"),
-  assigneeAccountId: z
-    .string()
-    .nullable()
-    .optional()
-    .describe("New assignee account ID (null to unassign)"),
-  priorityName: z
-    .string()
-    .optional()
-    .describe("New priority name"),
-  labels: z
-    .array(z.string())
-    .optional()
-    .describe("New labels (replaces existing)"),
-  storyPoints: z
-    .number()
-    .min(0)
-    .optional()
-    .describe("New story points value"),
-  dryRun: z
-    .boolean()
-    .default(false)
-    .describe("If true, validate without updating"),
-});
+export const UpdateIssueInputSchema = z
+  .object({
+    issueKey: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]*-\d+$/i, "Issue key must be in format PROJECT-123")
+      .describe("The Jira issue key (e.g., PROJECT-123)"),
+    summary: z
+      .string()
+      .min(1, "Summary cannot be empty")
+      .max(255, "Summary must be 255 characters or less")
+      .optional()
+      .describe("New summary/title"),
+    description: z
+      .string()
+      .optional()
+      .describe("New description in Markdown (converted to ADF)"),
+    assigneeAccountId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("New assignee account ID (null to unassign)"),
+    assignee: z
+      .string()
+      .min(1, "Assignee cannot be empty")
+      .optional()
+      .describe("New assignee display name or email, resolved among the issue's assignable users"),
+    priorityName: z
+      .string()
+      .optional()
+      .describe("New priority name"),
+    labels: z
+      .array(z.string())
+      .optional()
+      .describe("New labels (replaces existing)"),
+    storyPoints: z
+      .number()
+      .min(0)
+      .optional()
+      .describe("New story points value"),
+    customFields: z
+      .record(z.union([z.string(), z.number(), z.array(z.string()), z.null()]))
+      .optional()
+      .describe("Custom field values keyed by alias from jira_configure_fields (null clears a field)"),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("If true, validate without updating"),
+  })
+  .refine((data) => !(data.assignee && data.assigneeAccountId !== undefined), {
+    message: "Provide either assignee or assigneeAccountId, not both",
+  });
 
 export type UpdateIssueInput = z.infer<typeof UpdateIssueInputSchema>;
 
@@ -62,7 +79,7 @@ export type UpdateIssueInput = z.infer<typeof UpdateIssueInputSchema>;
 export const updateIssueTool = {
   name: "update_issue",
   description:
-    "Updates an existing Jira issue. Supports partial updates - only provided fields will be changed. Use dryRun:true to validate without updating.",
+    "Updates an existing Jira issue. Supports partial updates - only provided fields will be changed. Fields and the priority are checked against the issue's edit screen first. The assignee may be given by name or email. Custom fields are set by the aliases configured with jira_configure_fields. Use dryRun:true to validate without updating.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -78,12 +95,17 @@ export const updateIssueTool = {
       },
       description: {
         type: "string",
-        description: "New description (plain text, converted to ADF)",
+        description: "New description in Markdown (converted to ADF)",
       },
       assigneeAccountId: {
         type: ["string", "null"],
         description: "New assignee account ID (null to unassign)",
       },
+      assignee: {
+        type: "string",
+        description:
+          "New assignee display name or email, resolved among the issue's assignable users (alternative to assigneeAccountId)",
+      },
       priorityName: {
         type: "string",
         description: "New priority name",
@@ -98,6 +120,15 @@ export const updateIssueTool = {
         description: "New story points value",
         minimum: 0,
       },
+      customFields: {
+        type: "object",
+        description:
+          "Custom field values keyed by alias from jira_configure_fields (e.g., { \"Team\": \"Platform\", \"Risk\": null }); null clears a field",
+        additionalProperties: {
+          type: ["string", "number", "array", "null"],
+          items: { type: "string" },
+        },
+      },
       dryRun: {
         type: "boolean",
         description: "If true, validate without updating",
@@ -108,6 +139,73 @@ export const updateIssueTool = {
   },
 };
 
+/**
+ * Checks the input against the issue's edit metadata: the fields set must be
+ * editable and the priority must be one of the allowed values.
+ *
+ * @returns Validation problems; none when the metadata cannot be read
+ */
+async function checkAgainstEditScreen(
+  client: JiraClient,
+  input: Omit<UpdateIssueInput, "dryRun" | "assignee">,
+  assigning: boolean
+): Promise<string[]> {
+  const { storyPointsField, customFields } = client.getFieldMappings();
+
+  // Fields set by the input, with the input property that sets them.
+  // Summary and description are left out: they are editable on every screen.
+  const provided = new Map<string, string>();
+  if (assigning) provided.set("assignee", "assignee");
+  if (input.priorityName !== undefined) provided.set("priority", "priorityName");
+  if (input.labels !== undefined) provided.set("labels", "labels");
+  if (input.storyPoints !== undefined) provided.set(storyPointsField, "storyPoints");
+  for (const name of Object.keys(input.customFields ?? {})) {
+    const alias = findCustomFieldAlias(customFields, name);
+    if (alias) provided.set(alias.id, `customFields.${name}`);
+  }
+
+  if (provided.size === 0) {
+    return [];
+  }
+
+  let fields: JiraFieldMeta[];
+  try {
+    fields = await client.getEditFields(input.issueKey);
+  } catch (error) {
+    if (
+      error instanceof JiraAuthError ||
+      error instanceof JiraNotFoundError ||
+      !(error instanceof JiraApiError)
+    ) {
+      throw error;
+    }
+    // The metadata is not readable; let Jira validate the update itself
+    return [];
+  }
+
+  // Nothing is listed without permission to edit the issue; Jira reports that
+  if (fields.length === 0) {
+    return [];
+  }
+
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const problems: string[] = [];
+
+  for (const [fieldId, property] of provided) {
+    if (!fieldsById.has(fieldId)) {
+      problems.push(`${property}: Field ${fieldId} is not on the edit screen of ${input.issueKey}`);
+    }
+  }
+
+  const priority = fieldsById.get("priority");
+  if (input.priorityName !== undefined && priority) {
+    const problem = checkAllowedValue(priority, input.priorityName);
+    if (problem) problems.push(`priorityName: ${problem}`);
+  }
+
+  return problems;
+}
+
 /**
  * Executes the update_issue tool.
  */
@@ -131,58 +229,99 @@ export async function executeUpdateIssue(
     };
   }
 
-  const { dryRun, ...updateInput } = parseResult.data;
+  const { dryRun, assignee, ...updateInput } = parseResult.data;
+
+  if (updateInput.customFields) {
+    const problems = checkCustomFieldValues(client.getFieldMappings().customFields, updateInput.customFields);
+
+    if (problems.length > 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Validation error: ${problems.map((problem) => `customFields.${problem}`).join("; ")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
 
   // Check if there are any fields to update
   const fieldsToUpdate: string[] = [];
   if (updateInput.summary !== undefined) fieldsToUpdate.push("summary");
   if (updateInput.description !== undefined) fieldsToUpdate.push("description");
-  if (updateInput.assigneeAccountId !== undefined) fieldsToUpdate.push("assignee");
+  if (updateInput.assigneeAccountId !== undefined || assignee) fieldsToUpdate.push("assignee");
   if (updateInput.priorityName !== undefined) fieldsToUpdate.push("priority");
   if (updateInput.labels !== undefined) fieldsToUpdate.push("labels");
   if (updateInput.storyPoints !== undefined) fieldsToUpdate.push("storyPoints");
+  for (const alias of Object.keys(updateInput.customFields ?? {})) fieldsToUpdate.push(alias);
 
   if (fieldsToUpdate.length === 0) {
     return {
       content: [
         {
           type: "text",
-          text: "No fields provided to update. Provide at least one field (summary, description, assigneeAccountId, priorityName, labels, or storyPoints).",
+          text: "No fields provided to update. Provide at least one field (summary, description, assignee, assigneeAccountId, priorityName, labels, storyPoints, or customFields).",
         },
       ],
       isError: true,
     };
   }
 
-  // Dry run mode - just validate and return what would be updated
-  if (dryRun) {
-    const preview = {
-      dryRun: true,
-      issueKey: updateInput.issueKey,
-      wouldUpdate: {
-        summary: updateInput.summary,
-        description: updateInput.description ? "(provided)" : undefined,
-        assignee: updateInput.assigneeAccountId,
-        priority: updateInput.priorityName,
-        labels: updateInput.labels,
-        storyPoints: updateInput.storyPoints,
-      },
-      fieldsToUpdate,
-      message: "Validation passed. Set dryRun:false to apply the update.",
-    };
+  try {
+    // Resolve an assignee given by name or email
+    let assigneeAccountId = updateInput.assigneeAccountId;
+    if (assignee) {
+      const resolved = await resolveAssignee(client, assignee, { issueKey: updateInput.issueKey });
+      if (resolved.error) {
+        return resolved.error;
+      }
+      assigneeAccountId = resolved.accountId;
+    }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(preview, null, 2),
+    // Check against the edit screen before Jira answers with a bare 400
+    const problems = await checkAgainstEditScreen(
+      client,
+      updateInput,
+      assigneeAccountId !== undefined
+    );
+    if (problems.length > 0) {
+      return {
+        content: [{ type: "text", text: `Validation error: ${problems.join("; ")}` }],
+        isError: true,
+      };
+    }
+
+    // Dry run mode - just validate and return what would be updated
+    if (dryRun) {
+      const preview = {
+        dryRun: true,
+        issueKey: updateInput.issueKey,
+        wouldUpdate: {
+          summary: updateInput.summary,
+          description: updateInput.description ? "(provided)" : undefined,
+          assignee: assigneeAccountId,
+          priority: updateInput.priorityName,
+          labels: updateInput.labels,
+          storyPoints: updateInput.storyPoints,
+          customFields: updateInput.customFields,
         },
-      ],
-    };
-  }
+        fieldsToUpdate,
+        message: "Validation passed. Set dryRun:false to apply the update.",
+      };
 
-  try {
-    await client.updateIssue(updateInput);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(preview, null, 2),
+          },
+        ],
+      };
+    }
+
+    await client.updateIssue({ ...updateInput, assigneeAccountId });
 
     const response = {
       success: true,